@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { supabase } from './utils/supabase'; 
-import type { Song, SongRequest, RequestFormData, SetList, User } from './types';
+import type { Song, SongRequest, RequestFormData, SetList, User, GigEvent, BackendUser } from './types';
 import { LandingPage } from './components/LandingPage';
 import { UserFrontend } from './components/UserFrontend';
 import { BackendLogin } from './components/BackendLogin'; 
@@ -12,13 +12,33 @@ import { TickerManager } from './components/TickerManager';
 import { LogoManager } from './components/LogoManager';
 import { ColorCustomizer } from './components/ColorCustomizer';
 import { SettingsManager } from './components/SettingsManager';
-import { BackendTabs } from './components/BackendTabs';
+import { RequestRulesManager } from './components/RequestRulesManager';
+import { RequestCapsManager } from './components/RequestCapsManager';
+import { LibraryBackup } from './components/LibraryBackup';
+import { BackendUserManager } from './components/BackendUserManager';
+import { EventManager } from './components/EventManager';
+import { PerformanceHistory } from './components/PerformanceHistory';
+import { QueueSnapshots } from './components/QueueSnapshots';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { BackendTabs, getVisibleTabs, type TabId } from './components/BackendTabs';
+import { BandSwitcher } from './components/BandSwitcher';
 import { ErrorBoundary } from './components/shared/ErrorBoundary';
 import { useRequestSync } from './hooks/useRequestSync';
 import { useSongSync } from './hooks/useSongSync';
 import { useSetListSync } from './hooks/useSetListSync';
+import { useEventSync } from './hooks/useEventSync';
 import { useUiSettings } from './hooks/useUiSettings';
 import { useLogoHandling } from './hooks/useLogoHandling';
+import { useBackendAuth } from './hooks/useBackendAuth';
+import { useAudienceIdentity } from './hooks/useAudienceIdentity';
+import { useCurrentBand } from './contexts/BandContext';
+import { hasPermission } from './utils/permissions';
+import { enrichmentJob } from './utils/songEnrichment';
+import { submitSongRequest, RequestSubmissionError } from './utils/requestSubmission';
+import { moderateRequest, isApprovedRequest, type ModerationDecision } from './utils/moderation';
+import { pinRequest, unpinRequest } from './utils/queuePins';
+import { advanceQueue } from './utils/stages';
+import { resetQueue, removeRequest, restoreRequest } from './utils/queueSnapshots';
 import { LoadingSpinner } from './components/shared/LoadingSpinner';
 import { LogOut } from 'lucide-react';
 import { Logo } from './components/shared/Logo';
@@ -26,20 +46,30 @@ import { KioskPage } from './components/KioskPage';
 import toast from 'react-hot-toast';
 
 const DEFAULT_BAND_LOGO = "https://www.fusion-events.ca/wp-content/uploads/2025/03/ulr-wordmark.png";
-const BACKEND_PATH = "backend";
-const KIOSK_PATH = "kiosk";
 const MAX_PHOTO_SIZE = 250 * 1024; // 250KB limit for database storage
 const MAX_REQUEST_RETRIES = 3;
 
 function App() {
-  // Authentication state
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [isInitializing, setIsInitializing] = useState(true);
-  const [isBackend, setIsBackend] = useState(false);
-  const [isKiosk, setIsKiosk] = useState(false);
+  // Band and view come from the URL
+  const { band, route, navigate } = useCurrentBand();
+  const isBackend = route.view === 'backend';
+  const isKiosk = route.view === 'kiosk';
+
+  // Authentication state - backend access is limited to members of this band
+  const { backendUser, memberBands, loading: isAuthLoading, signOut, refreshBands } = useBackendAuth();
+  const membership = memberBands.find(b => b.id === band.id);
+  const isBandMember = !!membership;
+  const isAdmin = !!backendUser && isBandMember;
+  // Roles are per band, so permissions follow the band being viewed
+  const bandUser = useMemo<BackendUser | null>(
+    () => (backendUser && membership ? { ...backendUser, role: membership.role } : null),
+    [backendUser, membership]
+  );
   
   // Backend tab state
-  const [activeBackendTab, setActiveBackendTab] = useState<'requests' | 'setlists' | 'songs' | 'settings'>('requests');
+  const [activeBackendTab, setActiveBackendTab] = useState<TabId>('requests');
+  // Bumped after a reset so the snapshot list reloads
+  const [snapshotVersion, setSnapshotVersion] = useState(0);
   
   // App data state
   const [songs, setSongs] = useState<Song[]>([]);
@@ -58,12 +88,19 @@ function App() {
   
   const [setLists, setSetLists] = useState<SetList[]>([]);
   const [activeSetList, setActiveSetList] = useState<SetList | null>(null);
+  const [events, setEvents] = useState<GigEvent[]>([]);
   
   // Voting states
   const [votingStates, setVotingStates] = useState<Set<string>>(new Set());
   
-  // User state
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  // Audience identity - an anonymous session per device, only on the public view
+  const {
+    currentUser,
+    isAnonymous,
+    accountEmail,
+    loading: isIdentityLoading,
+    saveProfile
+  } = useAudienceIdentity(!isBackend && !isKiosk);
   
   // Online state
   const [isOnline, setIsOnline] = useState(navigator.onLine);
@@ -77,23 +114,36 @@ function App() {
   const [optimisticVotes, setOptimisticVotes] = useState<Map<string, number>>(new Map());
 
   // Use custom hooks for data syncing
+  const { isLoading: isEventsLoading, refetch: refetchEvents } = useEventSync({
+    setEvents,
+    isOnline,
+    bandId: band.id
+  });
+
+  // The running event, if any; its requests make up the live queue
+  const activeEvent = useMemo(() => events.find(e => e.status === 'active') || null, [events]);
+
   const { reconnectRequests } = useRequestSync({
     requests,
     setRequests,
     isOnline,
-    currentUser
+    currentUser,
+    bandId: band.id,
+    eventId: isEventsLoading ? undefined : activeEvent?.id ?? null
   });
 
-  const { reconnectSongs } = useSongSync({
+  const { reconnectSongs, refetch: refetchSongs } = useSongSync({
     songs,
     setSongs,
-    isOnline
+    isOnline,
+    bandId: band.id
   });
 
-  const { reconnectSetLists } = useSetListSync({
+  const { reconnectSetLists, refetch: refetchSetLists } = useSetListSync({
     setLists,
     setSetLists,
-    isOnline
+    isOnline,
+    bandId: band.id
   });
 
   const { settings, loading: settingsLoading, updateSettings } = useUiSettings();
@@ -133,59 +183,21 @@ function App() {
     };
   }, [reconnectRequests, reconnectSongs, reconnectSetLists]);
 
-  // Handle browser navigation
+  // Keep the active tab within what the signed in role can see
   useEffect(() => {
-    const checkPath = () => {
-      const path = window.location.pathname;
-      
-      if (path.includes(BACKEND_PATH)) {
-        setIsBackend(true);
-        setIsKiosk(false);
-      } else if (path.includes(KIOSK_PATH)) {
-        setIsKiosk(true);
-        setIsBackend(false);
-      } else {
-        setIsBackend(false);
-        setIsKiosk(false);
-      }
-    };
-
-    checkPath();
+    if (!bandUser) return;
 
-    const checkPathSpecialCases = () => {
-      checkPath();
-    };
-
-    window.addEventListener('popstate', checkPathSpecialCases);
-
-    return () => {
-      window.removeEventListener('popstate', checkPathSpecialCases);
-    };
-  }, []);
+    const visibleTabs = getVisibleTabs(bandUser);
+    if (!visibleTabs.includes(activeBackendTab)) {
+      setActiveBackendTab(visibleTabs[0]);
+    }
+  }, [bandUser, activeBackendTab]);
 
-  // Check auth state
+  // Pick up a song details job a reload or closed tab left running
+  const canManageSongs = isBackend && hasPermission(bandUser, 'songs:manage');
   useEffect(() => {
-    const checkAuth = async () => {
-      try {
-        const hasAuth = localStorage.getItem('backendAuth') === 'true';
-        setIsAdmin(hasAuth);
-        
-        const savedUser = localStorage.getItem('currentUser');
-        if (savedUser) {
-          try {
-            setCurrentUser(JSON.parse(savedUser));
-          } catch (e) {
-            console.error('Error parsing saved user:', e);
-            localStorage.removeItem('currentUser');
-          }
-        }
-      } finally {
-        setIsInitializing(false);
-      }
-    };
-
-    checkAuth();
-  }, []);
+    if (canManageSongs) enrichmentJob.watch(band.id);
+  }, [canManageSongs, band.id]);
 
   // Update active set list when set lists change
   useEffect(() => {
@@ -201,59 +213,46 @@ function App() {
   }, [setLists]);
 
   // Handle navigation to backend
-  const navigateToBackend = useCallback(() => {
-    window.history.pushState({}, '', `/${BACKEND_PATH}`);
-    setIsBackend(true);
-    setIsKiosk(false);
-  }, []);
+  const navigateToBackend = useCallback(() => navigate('backend'), [navigate]);
   
   // Handle navigation to frontend
-  const navigateToFrontend = useCallback(() => {
-    window.history.pushState({}, '', '/');
-    setIsBackend(false);
-    setIsKiosk(false);
-  }, []);
+  const navigateToFrontend = useCallback(() => navigate('frontend'), [navigate]);
 
   // Handle navigation to kiosk mode
-  const navigateToKiosk = useCallback(() => {
-    window.history.pushState({}, '', `/${KIOSK_PATH}`);
-    setIsBackend(false);
-    setIsKiosk(true);
-  }, []);
+  const navigateToKiosk = useCallback(() => navigate('kiosk'), [navigate]);
+
+  // Switch the backend over to another band the user belongs to
+  const handleSwitchBand = useCallback((bandSlug: string) => {
+    navigate('backend', bandSlug);
+  }, [navigate]);
 
-  // Handle admin login
+  // Handle admin login - the session itself is picked up by useBackendAuth
   const handleAdminLogin = useCallback(() => {
-    localStorage.setItem('backendAuth', 'true');
-    setIsAdmin(true);
+    toast.success('Signed in successfully');
   }, []);
 
   // Handle admin logout
-  const handleAdminLogout = useCallback(() => {
-    localStorage.removeItem('backendAuth');
-    localStorage.removeItem('backendUser');
-    setIsAdmin(false);
-    navigateToFrontend();
-    toast.success('Logged out successfully');
-  }, [navigateToFrontend]);
+  const handleAdminLogout = useCallback(async () => {
+    try {
+      await signOut();
+      navigateToFrontend();
+      toast.success('Logged out successfully');
+    } catch (error) {
+      console.error('Error signing out:', error);
+      toast.error('Failed to log out. Please try again.');
+    }
+  }, [signOut, navigateToFrontend]);
   
   // Handle user update
-  const handleUserUpdate = useCallback((user: User) => {
+  const handleUserUpdate = useCallback(async (user: User) => {
     try {
-      setCurrentUser(user);
-      
-      try {
-        localStorage.setItem('currentUser', JSON.stringify(user));
-      } catch (e) {
-        console.error('Error saving user to localStorage:', e);
-        toast.warning('Profile updated but could not be saved locally');
-      }
-      
+      await saveProfile(user);
       toast.success('Profile updated successfully!');
     } catch (error) {
       console.error('Error updating user:', error);
       toast.error('Failed to update profile. Please try again.');
     }
-  }, []);
+  }, [saveProfile]);
 
   // Enhanced request submission with retry logic and optimistic updates
   const handleSubmitRequest = useCallback(async (data: RequestFormData): Promise<boolean> => {
@@ -274,58 +273,24 @@ function App() {
         throw new Error('You must set up your profile first');
       }
 
-      const requestId = crypto.randomUUID();
-      
-      const newRequest = {
-        id: requestId,
-        title: data.title,
-        artist: data.artist,
-        votes: 0,
-        isLocked: false,
-        isPlayed: false,
-        createdAt: new Date().toISOString(),
-        requesters: [{
-          id: crypto.randomUUID(),
-          requestId: requestId,
-          name: currentUser.name,
-          photo: currentUser.photo,
-          message: data.message || '',
-          timestamp: new Date().toISOString()
-        }]
-      };
-
-      const { error } = await supabase
-        .from('requests')
-        .insert([{
-          id: requestId,
-          title: data.title,
-          artist: data.artist,
-          votes: 0,
-          is_locked: false,
-          is_played: false,
-          created_at: new Date().toISOString()
-        }]);
-
-      if (error) throw error;
-
-      const { error: requesterError } = await supabase
-        .from('requesters')
-        .insert([{
-          id: crypto.randomUUID(),
-          request_id: requestId,
-          name: currentUser.name,
-          photo: currentUser.photo,
-          message: data.message || '',
-          timestamp: new Date().toISOString()
-        }]);
-
-      if (requesterError) throw requesterError;
+      // Validates, joins or creates the request and adds the requester atomically
+      await submitSongRequest(band.id, {
+        ...data,
+        requestedBy: currentUser.name,
+        userPhoto: currentUser.photo
+      });
 
       requestRetriesRef.current = 0;
       console.log('✅ Request submitted successfully');
       return true;
     } catch (error) {
       console.error('Error submitting request:', error);
+
+      // Rule violations are shown by the request form, with the wait time
+      if (error instanceof RequestSubmissionError) {
+        requestRetriesRef.current = 0;
+        throw error;
+      }
       
       // Handle retries for network errors
       if (error instanceof Error && 
@@ -366,7 +331,7 @@ function App() {
     } finally {
       requestInProgressRef.current = false;
     }
-  }, [reconnectRequests, currentUser, isOnline]);
+  }, [reconnectRequests, currentUser, isOnline, band.id]);
 
   // Enhanced vote handler with atomic database function and optimistic updates
   const handleVoteRequest = useCallback(async (id: string): Promise<boolean> => {
@@ -392,10 +357,9 @@ function App() {
       setOptimisticVotes(prev => new Map([...prev, [id, currentVotes + 1]]));
       console.log(`📊 Optimistically incremented vote for request ${id}: ${currentVotes} -> ${currentVotes + 1}`);
 
-      // Use the atomic database function for voting
+      // Use the atomic database function for voting; the voter is the session's user
       const { data, error } = await supabase.rpc('add_vote', {
-        p_request_id: id,
-        p_user_id: currentUser.name // Use name instead of id since user object doesn't have id
+        p_request_id: id
       });
 
       if (error) throw error;
@@ -452,7 +416,7 @@ function App() {
     }
   }, [currentUser, isOnline, requests, optimisticVotes]);
 
-  // Handle locking a request (marking it as next)
+  // Handle locking a request (putting it in the up next lane)
   const handleLockRequest = useCallback(async (requestId: string) => {
     if (!isOnline) {
       toast.error('Cannot update requests while offline. Please check your internet connection.');
@@ -466,7 +430,7 @@ function App() {
 
       if (error) throw error;
 
-      toast.success('Request locked as next!');
+      toast.success('Request set as up next!');
       return true;
     } catch (error) {
       console.error('Error locking request:', error);
@@ -475,29 +439,63 @@ function App() {
     }
   }, [isOnline]);
 
-  // Handle unlocking a request
-  const handleUnlockRequest = useCallback(async (id: string) => {
+  // Move a request to a slot in the queue, overriding the automatic order
+  const handlePinRequest = useCallback(async (id: string, position: number): Promise<boolean> => {
     if (!isOnline) {
       toast.error('Cannot update requests while offline. Please check your internet connection.');
       return false;
     }
 
     try {
-      console.log(`🔓 Unlocking request: ${id}`);
-      
-      const { error } = await supabase.rpc('unlock_request', { request_id: id });
+      console.log(`📌 Pinning request ${id} at position ${position}`);
+      await pinRequest(id, position);
+      return true;
+    } catch (error) {
+      console.error('Error pinning request:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to move request');
+      return false;
+    }
+  }, [isOnline]);
 
-      if (error) throw error;
+  const handleUnpinRequest = useCallback(async (id: string): Promise<boolean> => {
+    if (!isOnline) {
+      toast.error('Cannot update requests while offline. Please check your internet connection.');
+      return false;
+    }
 
-      toast.success('Request unlocked!');
+    try {
+      await unpinRequest(id);
+      toast.success('Returned to automatic order');
       return true;
     } catch (error) {
-      console.error('Error unlocking request:', error);
-      toast.error('Failed to unlock request. Please try again.');
+      console.error('Error unpinning request:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to unpin request');
       return false;
     }
   }, [isOnline]);
 
+  // "Next song": finish what's playing and move every stage lane up one.
+  // `queuedIds` is the queue in the order the band sees it, used to fill the lanes.
+  const handleAdvanceQueue = useCallback(async (queuedIds: string[]): Promise<boolean> => {
+    if (!isOnline) {
+      toast.error('Cannot update requests while offline. Please check your internet connection.');
+      return false;
+    }
+
+    try {
+      console.log('⏭️ Advancing queue');
+      const nowPlayingId = await advanceQueue(band.id, queuedIds);
+      const nowPlaying = requests.find(request => request.id === nowPlayingId);
+
+      toast.success(nowPlaying ? `Now playing: ${nowPlaying.title}` : 'Queue is empty');
+      return true;
+    } catch (error) {
+      console.error('Error advancing queue:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to advance the queue');
+      return false;
+    }
+  }, [isOnline, band.id, requests]);
+
   // Handle marking a request as played
   const handleMarkAsPlayed = useCallback(async (id: string) => {
     if (!isOnline) {
@@ -527,7 +525,30 @@ function App() {
     }
   }, [isOnline]);
 
-  // Handle removing a request
+  // Handle approving or rejecting a pending request
+  const handleModerateRequest = useCallback(async (
+    id: string,
+    decision: ModerationDecision,
+    reason?: string
+  ): Promise<boolean> => {
+    if (!isOnline) {
+      toast.error('Cannot moderate requests while offline. Please check your internet connection.');
+      return false;
+    }
+
+    try {
+      console.log(`🛡️ Moderating request ${id}: ${decision}`);
+      await moderateRequest(id, decision, reason);
+      toast.success(decision === 'approved' ? 'Request approved' : 'Request rejected');
+      return true;
+    } catch (error) {
+      console.error('Error moderating request:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to moderate request. Please try again.');
+      return false;
+    }
+  }, [isOnline]);
+
+  // Handle removing a request. It's only hidden, so the toast offers an undo.
   const handleRemoveRequest = useCallback(async (id: string) => {
     if (!isOnline) {
       toast.error('Cannot remove requests while offline. Please check your internet connection.');
@@ -536,61 +557,262 @@ function App() {
 
     try {
       console.log(`🗑️ Removing request: ${id}`);
-      
-      // Delete requesters first (foreign key constraint)
-      const { error: requestersError } = await supabase
-        .from('requesters')
-        .delete()
-        .eq('request_id', id);
+      await removeRequest(id);
+
+      toast.success(t => (
+        <span className="flex items-center">
+          Request removed
+          <button
+            onClick={async () => {
+              toast.dismiss(t.id);
+              try {
+                await restoreRequest(id);
+                toast.success('Request restored');
+              } catch (error) {
+                console.error('Error restoring request:', error);
+                toast.error(error instanceof Error ? error.message : 'Failed to restore request');
+              }
+            }}
+            className="ml-3 font-semibold underline"
+          >
+            Undo
+          </button>
+        </span>
+      ), { duration: 6000 });
+      return true;
+    } catch (error) {
+      console.error('Error removing request:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove request. Please try again.');
+      return false;
+    }
+  }, [isOnline]);
+
+  // Archive the whole open queue; it can be restored from the snapshot list
+  const handleResetQueue = useCallback(async () => {
+    if (!isOnline) {
+      toast.error('Cannot reset the queue while offline. Please check your internet connection.');
+      return false;
+    }
+
+    try {
+      console.log('🧹 Resetting queue');
+      const snapshot = await resetQueue(band.id);
+      setSnapshotVersion(version => version + 1);
+      toast.success(`Queue cleared - ${snapshot.requestCount} request${snapshot.requestCount !== 1 ? 's' : ''} archived`);
+      return true;
+    } catch (error) {
+      console.error('Error resetting queue:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reset the queue');
+      return false;
+    }
+  }, [isOnline, band.id]);
 
-      if (requestersError) throw requestersError;
+  // Save a set list's songs in order, replacing whatever it had before
+  const saveSetListSongs = useCallback(async (setListId: string, setListSongs: Song[]) => {
+    const { error: deleteError } = await supabase
+      .from('set_list_songs')
+      .delete()
+      .eq('set_list_id', setListId);
 
-      // Delete user votes
-      const { error: votesError } = await supabase
-        .from('user_votes')
-        .delete()
-        .eq('request_id', id);
+    if (deleteError) throw deleteError;
 
-      if (votesError) throw votesError;
+    if (setListSongs.length === 0) return;
 
-      // Delete the request
-      const { error: requestError } = await supabase
-        .from('requests')
+    const { error: insertError } = await supabase
+      .from('set_list_songs')
+      .insert(setListSongs.map((song, index) => ({
+        set_list_id: setListId,
+        song_id: song.id,
+        position: index
+      })));
+
+    if (insertError) throw insertError;
+  }, []);
+
+  // Handle creating a set list for this band
+  const handleCreateSetList = useCallback(async (newSetList: Omit<SetList, 'id'>) => {
+    if (!isOnline) {
+      toast.error('Cannot create set list while offline. Please check your internet connection.');
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('set_lists')
+        .insert({
+          band_id: band.id,
+          name: newSetList.name,
+          date: newSetList.date,
+          notes: newSetList.notes,
+          is_active: newSetList.isActive || false
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await saveSetListSongs(data.id, newSetList.songs || []);
+
+      toast.success('Set list created successfully');
+      refetchSetLists();
+    } catch (error) {
+      console.error('Error creating set list:', error);
+      toast.error('Failed to create set list. Please try again.');
+    }
+  }, [isOnline, band.id, saveSetListSongs, refetchSetLists]);
+
+  // Handle updating a set list
+  const handleUpdateSetList = useCallback(async (updatedSetList: SetList) => {
+    if (!isOnline) {
+      toast.error('Cannot update set list while offline. Please check your internet connection.');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('set_lists')
+        .update({
+          name: updatedSetList.name,
+          date: updatedSetList.date,
+          notes: updatedSetList.notes
+        })
+        .eq('id', updatedSetList.id);
+
+      if (error) throw error;
+
+      await saveSetListSongs(updatedSetList.id, updatedSetList.songs || []);
+
+      toast.success('Set list updated successfully');
+      refetchSetLists();
+    } catch (error) {
+      console.error('Error updating set list:', error);
+      toast.error('Failed to update set list. Please try again.');
+    }
+  }, [isOnline, saveSetListSongs, refetchSetLists]);
+
+  // Handle deleting a set list
+  const handleDeleteSetList = useCallback(async (id: string) => {
+    if (!isOnline) {
+      toast.error('Cannot delete set list while offline. Please check your internet connection.');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('set_lists')
         .delete()
         .eq('id', id);
 
-      if (requestError) throw requestError;
+      if (error) throw error;
 
-      toast.success('Request removed!');
-      return true;
+      toast.success('Set list deleted successfully');
+      refetchSetLists();
     } catch (error) {
-      console.error('Error removing request:', error);
-      toast.error('Failed to remove request. Please try again.');
-      return false;
+      console.error('Error deleting set list:', error);
+      toast.error('Failed to delete set list. Please try again.');
     }
-  }, [isOnline]);
+  }, [isOnline, refetchSetLists]);
 
-  // Create merged requests with optimistic updates
+  // Toggle a set list active; the database deactivates the band's other set lists
+  const handleSetActiveSetList = useCallback(async (id: string) => {
+    if (!isOnline) {
+      toast.error('Cannot update set list while offline. Please check your internet connection.');
+      return;
+    }
+
+    const setList = setLists.find(sl => sl.id === id);
+    if (!setList) return;
+
+    try {
+      const { error } = await supabase
+        .from('set_lists')
+        .update({ is_active: !setList.isActive })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success(setList.isActive ? 'Set list deactivated' : 'Set list activated');
+      refetchSetLists();
+    } catch (error) {
+      console.error('Error toggling set list active state:', error);
+      toast.error('Failed to update set list. Please try again.');
+    }
+  }, [isOnline, setLists, refetchSetLists]);
+
+  // Create merged requests with optimistic updates, limited to the live queue.
+  // Requests from ended events stay archived in the event history.
   const mergedRequests = useMemo(() => {
-    return requests.map(req => ({
-      ...req,
-      votes: optimisticVotes.get(req.id) ?? req.votes ?? 0
-    }));
-  }, [requests, optimisticVotes]);
+    const activeEventId = activeEvent?.id ?? null;
+    return requests
+      .filter(req => (req.eventId ?? null) === activeEventId)
+      .map(req => ({
+        ...req,
+        votes: optimisticVotes.get(req.id) ?? req.votes ?? 0
+      }));
+  }, [requests, optimisticVotes, activeEvent]);
+
+  // What the public sees: requests still awaiting approval, or rejected, stay hidden
+  const approvedRequests = useMemo(
+    () => mergedRequests.filter(isApprovedRequest),
+    [mergedRequests]
+  );
 
   // Show loading screen
-  if (isInitializing) {
+  if (isIdentityLoading || isAuthLoading) {
     return <LoadingSpinner />;
   }
 
-  // Show kiosk mode
+  // Signed in, but without a role in this band that opens the current view
+  const renderNoAccess = (message: string) => (
+    <ErrorBoundary>
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center p-4">
+        <div className="bg-gray-800 rounded-lg p-8 w-full max-w-md text-center space-y-4">
+          <h1 className="text-xl font-bold">No access to {band.name}</h1>
+          <p className="text-gray-400">{message}</p>
+          {memberBands.length > 0 && (
+            <BandSwitcher
+              bands={memberBands}
+              currentBandId={null}
+              onSelect={handleSwitchBand}
+            />
+          )}
+          <button
+            onClick={handleAdminLogout}
+            className="inline-flex items-center space-x-2 px-3 py-1 bg-red-600 hover:bg-red-700 rounded text-sm"
+          >
+            <LogOut className="w-4 h-4" />
+            <span>Logout</span>
+          </button>
+        </div>
+      </div>
+    </ErrorBoundary>
+  );
+
+  // Show kiosk mode. Kiosk requests and votes are made by a band account, so
+  // the kiosk has to be signed in to one that can run it
   if (isKiosk) {
+    if (!backendUser) {
+      return (
+        <ErrorBoundary>
+          <BackendLogin onLogin={handleAdminLogin} />
+        </ErrorBoundary>
+      );
+    }
+
+    if (!hasPermission(bandUser, 'kiosk:launch')) {
+      return renderNoAccess(
+        isBandMember
+          ? "Your account can't run the kiosk for this band."
+          : "Your account isn't a member of this band. Ask one of its owners for an invite."
+      );
+    }
+
     return (
       <KioskPage
         songs={songs}
-        requests={mergedRequests}
+        requests={approvedRequests}
         activeSetList={activeSetList}
-        onSubmitRequest={handleSubmitRequest}
+        activeEvent={activeEvent}
         onVoteRequest={handleVoteRequest}
         logoUrl={settings?.band_logo_url || DEFAULT_BAND_LOGO}
       />
@@ -599,7 +821,7 @@ function App() {
 
   // Show backend interface if in backend mode
   if (isBackend) {
-    if (!isAdmin) {
+    if (!backendUser) {
       return (
         <ErrorBoundary>
           <BackendLogin onLogin={handleAdminLogin} />
@@ -607,6 +829,11 @@ function App() {
       );
     }
 
+    // Signed in, but not part of this band
+    if (!isBandMember) {
+      return renderNoAccess("Your account isn't a member of this band. Ask one of its owners for an invite.");
+    }
+
     return (
       <ErrorBoundary>
         <div className="min-h-screen bg-gray-900 text-white">
@@ -619,6 +846,13 @@ function App() {
                   className="h-8" 
                 />
                 <h1 className="text-xl font-bold">Admin Dashboard</h1>
+                <BandSwitcher
+                  bands={memberBands}
+                  currentBandId={band.id}
+                  onSelect={handleSwitchBand}
+                  canCreate={memberBands.some(b => b.role === 'owner')}
+                  onCreated={refreshBands}
+                />
               </div>
               
               <div className="flex items-center space-x-4">
@@ -649,41 +883,94 @@ function App() {
           <BackendTabs 
             activeTab={activeBackendTab} 
             onTabChange={setActiveBackendTab} 
+            user={bandUser}
           />
 
           {/* Content */}
           <div className="p-6">
+            {!hasPermission(bandUser, 'queue:view') && (
+              <div className="glass-effect rounded-lg p-6 mb-8 text-center">
+                <p className="text-gray-300 mb-4">
+                  Your account can launch kiosk mode for this venue.
+                </p>
+                <button
+                  onClick={navigateToKiosk}
+                  className="px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded text-white font-medium"
+                >
+                  Launch Kiosk
+                </button>
+              </div>
+            )}
             {activeBackendTab === 'requests' && (
               <QueueView
                 requests={mergedRequests}
                 onLockRequest={handleLockRequest}
-                onUnlockRequest={handleUnlockRequest}
-                onMarkAsPlayed={handleMarkAsPlayed}
+                onPinRequest={handlePinRequest}
+                onUnpinRequest={handleUnpinRequest}
+                onAdvanceQueue={handleAdvanceQueue}
+                onMarkPlayed={handleMarkAsPlayed}
+                onResetQueue={handleResetQueue}
                 onRemoveRequest={handleRemoveRequest}
-                isOnline={isOnline}
+                onModerateRequest={handleModerateRequest}
+                canManageQueue={hasPermission(bandUser, 'queue:manage')}
+                canModerate={hasPermission(bandUser, 'queue:moderate')}
               />
             )}
+            {activeBackendTab === 'requests' && hasPermission(bandUser, 'queue:manage') && (
+              <QueueSnapshots refreshKey={snapshotVersion} />
+            )}
+            {activeBackendTab === 'events' && (
+              <EventManager
+                events={events}
+                setLists={setLists}
+                songs={songs}
+                onEventsChange={refetchEvents}
+              />
+            )}
+            {activeBackendTab === 'history' && (
+              <PerformanceHistory events={events} setLists={setLists} />
+            )}
+            {activeBackendTab === 'analytics' && (
+              <AnalyticsDashboard events={events} songs={songs} />
+            )}
             {activeBackendTab === 'setlists' && (
               <SetListManager
                 setLists={setLists}
                 songs={songs}
-                onSetListsChange={setSetLists}
-                isOnline={isOnline}
+                onCreateSetList={handleCreateSetList}
+                onUpdateSetList={handleUpdateSetList}
+                onDeleteSetList={handleDeleteSetList}
+                onSetActive={handleSetActiveSetList}
               />
             )}
             {activeBackendTab === 'songs' && (
               <SongLibrary
                 songs={songs}
-                onSongsChange={setSongs}
-                isOnline={isOnline}
+                onAddSong={refetchSongs}
+                onUpdateSong={song => setSongs(prev => prev.map(s => (s.id === song.id ? song : s)))}
+                onDeleteSong={id => setSongs(prev => prev.filter(s => s.id !== id))}
               />
             )}
             {activeBackendTab === 'settings' && (
               <div className="space-y-8">
-                <SettingsManager />
-                <LogoManager />
-                <ColorCustomizer />
-                <TickerManager isAdmin={true} />
+                {hasPermission(bandUser, 'settings:manage') && (
+                  <>
+                    <SettingsManager />
+                    <RequestRulesManager />
+                    <RequestCapsManager songs={songs} />
+                    <LogoManager />
+                    <ColorCustomizer />
+                    <TickerManager isAdmin={true} />
+                    <LibraryBackup
+                      songs={songs}
+                      onImported={() => {
+                        refetchSongs();
+                        refetchSetLists();
+                      }}
+                    />
+                  </>
+                )}
+                <BackendUserManager currentUser={bandUser} />
               </div>
             )}
           </div>
@@ -700,7 +987,9 @@ function App() {
         songs={songs}
         requests={mergedRequests}
         activeSetList={activeSetList}
+        activeEvent={activeEvent}
         onUpdateUser={handleUserUpdate}
+        account={{ isAnonymous, email: accountEmail }}
         onSubmitRequest={handleSubmitRequest}
         onVoteRequest={handleVoteRequest}
         onBackendAccess={navigateToBackend}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Mail, CheckCircle, Loader2 } from 'lucide-react';
+import { upgradeAudienceAccount, sendAudienceSignInLink } from '../utils/audienceIdentity';
+
+interface AccountUpgradeProps {
+  isAnonymous: boolean;
+  email?: string;
+}
+
+type Mode = 'save' | 'signIn';
+
+/**
+ * Lets a regular keep their profile and request history across gigs by
+ * attaching an email to their session, or sign back into one they saved before
+ */
+export function AccountUpgrade({ isAnonymous, email }: AccountUpgradeProps) {
+  const [mode, setMode] = useState<Mode>('save');
+  const [address, setAddress] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!address.trim()) return;
+
+    setIsSending(true);
+    setError(null);
+    try {
+      if (mode === 'save') {
+        await upgradeAudienceAccount(address);
+      } else {
+        await sendAudienceSignInLink(address);
+      }
+      setSentTo(address.trim());
+    } catch (err) {
+      console.error('Error sending account email:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send email');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (!isAnonymous && email) {
+    return (
+      <div className="flex items-center text-sm text-gray-300">
+        <CheckCircle className="w-4 h-4 mr-2 text-green-400" />
+        Your profile is saved to {email}
+      </div>
+    );
+  }
+
+  if (sentTo) {
+    return (
+      <p className="text-sm text-gray-300">
+        Check {sentTo} for a link to {mode === 'save' ? 'confirm your email' : 'sign in'}.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <p className="text-sm text-gray-300">
+        {mode === 'save'
+          ? 'Add your email to keep your profile and requests for next time.'
+          : 'Get a sign-in link for the profile you saved before.'}
+      </p>
+      <div className="flex gap-2">
+        <input
+          type="email"
+          value={address}
+          onChange={e => setAddress(e.target.value)}
+          placeholder="you@example.com"
+          className="input-field text-gray-800 flex-1"
+        />
+        <button
+          type="submit"
+          disabled={isSending || !address.trim()}
+          className="neon-button flex items-center disabled:opacity-50"
+        >
+          {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <button
+        type="button"
+        onClick={() => {
+          setMode(mode === 'save' ? 'signIn' : 'save');
+          setError(null);
+        }}
+        className="text-xs text-neon-pink hover:text-white transition-colors"
+      >
+        {mode === 'save' ? 'Already saved your profile? Sign in' : 'Save this profile instead'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { BarChart3, RefreshCw, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { fetchAnalyticsData, buildAnalyticsReport, type AnalyticsFilters, type RankedItem } from '../utils/analytics';
+import { formatWaitTime } from '../utils/performanceLog';
+import { useCurrentBand } from '../contexts/BandContext';
+import type { GigEvent, PerformanceLogEntry, Song, SongRequest } from '../types';
+
+interface AnalyticsDashboardProps {
+  events: GigEvent[];
+  songs: Song[];
+}
+
+const EMPTY_FILTERS: AnalyticsFilters = {
+  eventId: '',
+  from: '',
+  to: ''
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="glass-effect rounded-lg p-4 space-y-3">
+      <h3 className="text-sm font-medium text-white uppercase tracking-wide">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function RankedList({ items, empty }: { items: RankedItem[]; empty: string }) {
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-400">{empty}</p>;
+  }
+
+  const max = items[0].requests;
+  return (
+    <ol className="space-y-2">
+      {items.map((item, index) => (
+        <li key={`${item.label}-${item.sublabel ?? ''}`} className="text-sm">
+          <div className="flex justify-between text-gray-200">
+            <span className="truncate">
+              {index + 1}. {item.label}
+              {item.sublabel && <span className="text-gray-400"> - {item.sublabel}</span>}
+            </span>
+            <span className="text-gray-400 flex-shrink-0 ml-2">
+              {item.requests} req · {item.votes} votes
+            </span>
+          </div>
+          <div className="h-1.5 bg-gray-700/50 rounded-full mt-1">
+            <div
+              className="h-1.5 rounded-full bg-gradient-to-r from-purple-500 to-pink-500"
+              style={{ width: `${(item.requests / max) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * Post-event numbers for tuning set lists: what gets requested, when, and
+ * how it compares to what the band actually played
+ */
+export function AnalyticsDashboard({ events, songs }: AnalyticsDashboardProps) {
+  const { band } = useCurrentBand();
+  const [filters, setFilters] = useState<AnalyticsFilters>(EMPTY_FILTERS);
+  const [data, setData] = useState<{ requests: SongRequest[]; performances: PerformanceLogEntry[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setData(await fetchAnalyticsData(band.id, filters));
+    } catch (error) {
+      console.error('Error loading analytics:', error);
+      toast.error('Failed to load analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [band.id, filters]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const report = useMemo(
+    () => (data ? buildAnalyticsReport(data.requests, data.performances, songs) : null),
+    [data, songs]
+  );
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  const maxBucket = report ? Math.max(1, ...report.requestsOverTime.map(bucket => bucket.requests)) : 1;
+  const maxGenre = report ? Math.max(1, ...report.genres.map(g => Math.max(g.requested, g.played))) : 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold neon-text flex items-center">
+          <BarChart3 className="w-5 h-5 mr-2" />
+          Analytics
+        </h2>
+        <button
+          onClick={loadData}
+          disabled={isLoading}
+          className="flex items-center px-3 py-1 text-sm text-gray-300 hover:text-white"
+        >
+          <RefreshCw className={`w-4 h-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="glass-effect rounded-lg p-4 grid grid-cols-1 md:grid-cols-4 gap-3">
+        <select name="eventId" value={filters.eventId} onChange={handleFilterChange} className="input-field text-gray-800">
+          <option value="">All events</option>
+          {events.map(event => (
+            <option key={event.id} value={event.id}>{event.name}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          name="from"
+          value={filters.from}
+          onChange={handleFilterChange}
+          className="input-field text-gray-800"
+          title="Requested on or after"
+        />
+        <input
+          type="date"
+          name="to"
+          value={filters.to}
+          onChange={handleFilterChange}
+          className="input-field text-gray-800"
+          title="Requested on or before"
+        />
+        <button
+          onClick={() => setFilters(EMPTY_FILTERS)}
+          disabled={!Object.values(filters).some(Boolean)}
+          className="px-3 py-2 text-sm text-gray-300 hover:text-white disabled:opacity-50"
+        >
+          Clear filters
+        </button>
+      </div>
+
+      {isLoading && !report ? (
+        <div className="flex items-center text-gray-300">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Crunching numbers...
+        </div>
+      ) : report && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Requests', value: report.totals.requests },
+              { label: 'Songs requested', value: report.totals.songsRequested },
+              { label: 'People requesting', value: report.totals.uniqueRequesters },
+              { label: 'Upvotes', value: report.totals.votes },
+              { label: 'Songs played', value: report.totals.played },
+              { label: 'Requests played', value: formatPercent(report.playedConversion) },
+              { label: 'Requests upvoted', value: formatPercent(report.voteConversion) },
+              { label: 'Average wait', value: formatWaitTime(report.averageWaitSeconds) }
+            ].map(stat => (
+              <div key={stat.label} className="glass-effect rounded-lg p-4 text-center">
+                <p className="text-2xl font-bold text-white">{stat.value}</p>
+                <p className="text-xs text-gray-400">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Panel title="Most requested songs">
+              <RankedList items={report.topSongs} empty="No requests yet" />
+            </Panel>
+            <Panel title="Most requested artists">
+              <RankedList items={report.topArtists} empty="No requests yet" />
+            </Panel>
+          </div>
+
+          <Panel title="Requests per 15 minutes">
+            {report.requestsOverTime.length === 0 ? (
+              <p className="text-sm text-gray-400">No requests yet</p>
+            ) : (
+              <div className="flex items-end gap-1 h-40 overflow-x-auto">
+                {report.requestsOverTime.map(bucket => (
+                  <div
+                    key={bucket.minutes}
+                    className="flex flex-col items-center justify-end h-full min-w-[2rem]"
+                    title={`${bucket.label}: ${bucket.requests} request${bucket.requests !== 1 ? 's' : ''}`}
+                  >
+                    <span className="text-[10px] text-gray-400">{bucket.requests}</span>
+                    <div
+                      className="w-full rounded-t bg-gradient-to-t from-purple-500 to-pink-500"
+                      style={{ height: `${(bucket.requests / maxBucket) * 100}%` }}
+                    />
+                    <span className="text-[10px] text-gray-400 mt-1">{bucket.label}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Panel>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Panel title="Genres requested vs played">
+              {report.genres.length === 0 ? (
+                <p className="text-sm text-gray-400">Add genres to your songs to compare them here</p>
+              ) : (
+                <div className="space-y-2">
+                  {report.genres.map(genre => (
+                    <div key={genre.genre} className="text-sm">
+                      <div className="flex justify-between text-gray-200">
+                        <span>{genre.genre}</span>
+                        <span className="text-gray-400">{genre.requested} requested · {genre.played} played</span>
+                      </div>
+                      <div className="h-1.5 bg-gray-700/50 rounded-full mt-1">
+                        <div
+                          className="h-1.5 rounded-full bg-pink-500"
+                          style={{ width: `${(genre.requested / maxGenre) * 100}%` }}
+                        />
+                      </div>
+                      <div className="h-1.5 bg-gray-700/50 rounded-full mt-0.5">
+                        <div
+                          className="h-1.5 rounded-full bg-purple-500"
+                          style={{ width: `${(genre.played / maxGenre) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Panel>
+            <Panel title="Repeat requesters">
+              {report.repeatRequesters.length === 0 ? (
+                <p className="text-sm text-gray-400">Nobody has requested more than once</p>
+              ) : (
+                <ol className="space-y-1 text-sm">
+                  {report.repeatRequesters.map((requester, index) => (
+                    <li key={`${requester.name}-${index}`} className="flex justify-between text-gray-200">
+                      <span>{index + 1}. {requester.name}</span>
+                      <span className="text-gray-400">{requester.requests} requests</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </Panel>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { LogIn, Loader2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { LogIn, Loader2, Mail } from 'lucide-react';
+import { signInBackendUser, sendBackendMagicLink } from '../utils/backendAuth';
 
 interface BackendLoginProps {
   onLogin: () => void;
@@ -8,14 +9,10 @@ interface BackendLoginProps {
 export function BackendLogin({ onLogin }: BackendLoginProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<'password' | 'magicLink'>('password');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-
-  // Clear any stale auth state on mount
-  useEffect(() => {
-    localStorage.removeItem('backendAuth');
-    localStorage.removeItem('backendUser');
-  }, []);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -23,32 +20,27 @@ export function BackendLogin({ onLogin }: BackendLoginProps) {
     setIsLoading(true);
 
     try {
-      // Check against both allowed users
-      const validCredentials = [
-        { email: 'info@fusion-events.ca', password: 'fusion3873' },
-        { email: 'arthurk@fusion-events.ca', password: 'fusion3873' }
-      ];
-
-      const isValid = validCredentials.some(cred => 
-        cred.email === email && cred.password === password
-      );
-
-      if (isValid) {
-        // Set auth state and trigger callback
-        localStorage.setItem('backendAuth', 'true');
-        localStorage.setItem('backendUser', email);
-        onLogin();
+      if (mode === 'magicLink') {
+        await sendBackendMagicLink(email);
+        setMagicLinkSent(true);
       } else {
-        setError('Invalid email or password');
+        await signInBackendUser(email, password);
+        onLogin();
       }
     } catch (error) {
       console.error('Login error:', error);
-      setError('An error occurred during login. Please try again.');
+      setError(error instanceof Error ? error.message : 'An error occurred during login. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const toggleMode = () => {
+    setMode(prev => prev === 'password' ? 'magicLink' : 'password');
+    setError('');
+    setMagicLinkSent(false);
+  };
+
   return (
     <div className="min-h-screen bg-darker-purple flex items-center justify-center p-4">
       <div className="glass-effect rounded-lg shadow-xl p-8 max-w-md w-full border border-neon-purple/20">
@@ -68,6 +60,12 @@ export function BackendLogin({ onLogin }: BackendLoginProps) {
             </div>
           )}
 
+          {magicLinkSent && (
+            <div className="p-3 bg-green-500/10 border border-green-500/20 rounded text-green-400 text-sm">
+              Check your inbox for a sign-in link.
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-white mb-2">
               Email
@@ -83,20 +81,22 @@ export function BackendLogin({ onLogin }: BackendLoginProps) {
             />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-white mb-2">
-              Password
-            </label>
-            <input
-              type="password"
-              required
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="input-field"
-              placeholder="Enter your password"
-              disabled={isLoading}
-            />
-          </div>
+          {mode === 'password' && (
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Password
+              </label>
+              <input
+                type="password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input-field"
+                placeholder="Enter your password"
+                disabled={isLoading}
+              />
+            </div>
+          )}
 
           <button
             type="submit"
@@ -106,7 +106,12 @@ export function BackendLogin({ onLogin }: BackendLoginProps) {
             {isLoading ? (
               <>
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Logging in...
+                {mode === 'magicLink' ? 'Sending link...' : 'Logging in...'}
+              </>
+            ) : mode === 'magicLink' ? (
+              <>
+                <Mail className="w-4 h-4 mr-2" />
+                Email Me a Sign-In Link
               </>
             ) : (
               <>
@@ -115,6 +120,15 @@ export function BackendLogin({ onLogin }: BackendLoginProps) {
               </>
             )}
           </button>
+
+          <button
+            type="button"
+            onClick={toggleMode}
+            disabled={isLoading}
+            className="w-full text-sm text-gray-300 hover:text-white transition-colors"
+          >
+            {mode === 'password' ? 'Use a magic link instead' : 'Use a password instead'}
+          </button>
         </form>
       </div>
     </div>
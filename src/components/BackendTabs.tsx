@@ -1,42 +1,79 @@
 import React, { useState } from 'react';
-import { LayoutDashboard, Users, Music as BookMusic, ListMusic, Cog, Settings } from 'lucide-react';
+import { LayoutDashboard, Users, Music as BookMusic, ListMusic, Cog, Settings, CalendarDays, History, BarChart3 } from 'lucide-react';
+import { hasPermission, type Permission } from '../utils/permissions';
+import type { BackendUser } from '../types';
 
-type TabId = 'requests' | 'setlists' | 'songs' | 'settings';
+export type TabId = 'requests' | 'events' | 'history' | 'analytics' | 'setlists' | 'songs' | 'settings';
 
 interface BackendTab {
   id: TabId;
   label: string;
   icon: React.ReactNode;
+  // Tabs without a permission are visible to every backend user
+  permission?: Permission;
 }
 
 interface BackendTabsProps {
   activeTab: TabId;
   onTabChange: (tabId: TabId) => void;
+  user: BackendUser | null;
 }
 
-export function BackendTabs({ activeTab, onTabChange }: BackendTabsProps) {
-  const tabs: BackendTab[] = [
-    {
-      id: 'requests',
-      label: 'Requests',
-      icon: <Users className="w-4 h-4 mr-2" />
-    },
-    {
-      id: 'setlists',
-      label: 'Set Lists',
-      icon: <ListMusic className="w-4 h-4 mr-2" />
-    },
-    {
-      id: 'songs',
-      label: 'Songs',
-      icon: <BookMusic className="w-4 h-4 mr-2" />
-    },
-    {
-      id: 'settings',
-      label: 'Settings',
-      icon: <Cog className="w-4 h-4 mr-2" />
-    }
-  ];
+const BACKEND_TABS: BackendTab[] = [
+  {
+    id: 'requests',
+    label: 'Requests',
+    icon: <Users className="w-4 h-4 mr-2" />,
+    permission: 'queue:view'
+  },
+  {
+    id: 'events',
+    label: 'Events',
+    icon: <CalendarDays className="w-4 h-4 mr-2" />,
+    permission: 'events:manage'
+  },
+  {
+    id: 'history',
+    label: 'History',
+    icon: <History className="w-4 h-4 mr-2" />,
+    permission: 'events:manage'
+  },
+  {
+    id: 'analytics',
+    label: 'Analytics',
+    icon: <BarChart3 className="w-4 h-4 mr-2" />,
+    permission: 'events:manage'
+  },
+  {
+    id: 'setlists',
+    label: 'Set Lists',
+    icon: <ListMusic className="w-4 h-4 mr-2" />,
+    permission: 'setlists:manage'
+  },
+  {
+    id: 'songs',
+    label: 'Songs',
+    icon: <BookMusic className="w-4 h-4 mr-2" />,
+    permission: 'songs:manage'
+  },
+  {
+    id: 'settings',
+    label: 'Settings',
+    icon: <Cog className="w-4 h-4 mr-2" />
+  }
+];
+
+/**
+ * Tabs the given user is allowed to open, in display order
+ */
+export function getVisibleTabs(user: BackendUser | null): TabId[] {
+  return BACKEND_TABS
+    .filter(tab => !tab.permission || hasPermission(user, tab.permission))
+    .map(tab => tab.id);
+}
+
+export function BackendTabs({ activeTab, onTabChange, user }: BackendTabsProps) {
+  const tabs = BACKEND_TABS.filter(tab => !tab.permission || hasPermission(user, tab.permission));
 
   return (
     <div className="mb-6">
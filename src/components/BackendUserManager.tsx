@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Users, UserPlus, KeyRound, Loader2, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  fetchBackendUsers,
+  inviteBackendUser,
+  updateBackendPassword,
+  updateBackendUserRole,
+  removeBackendUser
+} from '../utils/backendAuth';
+import { hasPermission, BACKEND_ROLES, ROLE_LABELS } from '../utils/permissions';
+import { useCurrentBand } from '../contexts/BandContext';
+import type { BackendUser, BackendRole } from '../types';
+
+interface BackendUserManagerProps {
+  currentUser: BackendUser | null;
+}
+
+export function BackendUserManager({ currentUser }: BackendUserManagerProps) {
+  const { band } = useCurrentBand();
+  const [users, setUsers] = useState<BackendUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteName, setInviteName] = useState('');
+  const [inviteRole, setInviteRole] = useState<BackendRole>('band_member');
+  const [isInviting, setIsInviting] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+  const [isUpdatingPassword, setIsUpdatingPassword] = useState(false);
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+
+  const canManageTeam = hasPermission(currentUser, 'team:manage');
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setUsers(await fetchBackendUsers(band.id));
+    } catch (error) {
+      console.error('Error loading backend users:', error);
+      toast.error('Failed to load team members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [band.id]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+
+    setIsInviting(true);
+    try {
+      const { invited } = await inviteBackendUser(band.id, inviteEmail, inviteRole, inviteName);
+      toast.success(invited
+        ? `Invite sent to ${inviteEmail.trim()}`
+        : `${inviteEmail.trim()} already has an account and was added to ${band.name}`);
+      setInviteEmail('');
+      setInviteName('');
+      await loadUsers();
+    } catch (error) {
+      console.error('Error inviting backend user:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send invite');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (user: BackendUser, role: BackendRole) => {
+    if (role === user.role) return;
+
+    setUpdatingUserId(user.id);
+    try {
+      await updateBackendUserRole(band.id, user.id, role);
+      setUsers(prev => prev.map(u => (u.id === user.id ? { ...u, role } : u)));
+      toast.success(`${user.displayName || user.email} is now ${ROLE_LABELS[role]}`);
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update role');
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const handleRemoveUser = async (user: BackendUser) => {
+    if (!window.confirm(`Remove ${user.displayName || user.email} from ${band.name}?`)) return;
+
+    setUpdatingUserId(user.id);
+    try {
+      await removeBackendUser(band.id, user.id);
+      setUsers(prev => prev.filter(u => u.id !== user.id));
+      toast.success('Team member removed');
+    } catch (error) {
+      console.error('Error removing backend user:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove team member');
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const handlePasswordUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword.length < 8) {
+      toast.error('Password must be at least 8 characters');
+      return;
+    }
+
+    setIsUpdatingPassword(true);
+    try {
+      await updateBackendPassword(newPassword);
+      setNewPassword('');
+      toast.success('Password updated');
+    } catch (error) {
+      console.error('Error updating password:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update password');
+    } finally {
+      setIsUpdatingPassword(false);
+    }
+  };
+
+  return (
+    <div className="glass-effect rounded-lg p-6 space-y-6">
+      <h3 className="text-lg font-medium text-white flex items-center">
+        <Users className="w-5 h-5 mr-2" />
+        Team Accounts
+      </h3>
+
+      {isLoading ? (
+        <div className="flex items-center text-gray-300">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading team...
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {users.map(user => (
+            <div
+              key={user.id}
+              className="flex items-center justify-between p-3 bg-neon-purple/10 rounded"
+            >
+              <div>
+                <p className="text-white text-sm font-medium">
+                  {user.displayName || user.email}
+                  {user.id === currentUser?.id && (
+                    <span className="ml-2 text-xs text-neon-pink">(you)</span>
+                  )}
+                </p>
+                {user.displayName && (
+                  <p className="text-xs text-gray-400">{user.email}</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-3">
+                <span className="text-xs text-gray-400">
+                  Added {format(new Date(user.createdAt), 'MMM d, yyyy')}
+                </span>
+                {canManageTeam && user.id !== currentUser?.id ? (
+                  <>
+                    <select
+                      value={user.role}
+                      onChange={(e) => handleRoleChange(user, e.target.value as BackendRole)}
+                      disabled={updatingUserId === user.id}
+                      className="input-field text-gray-800 text-xs py-1"
+                    >
+                      {BACKEND_ROLES.map(role => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleRemoveUser(user)}
+                      disabled={updatingUserId === user.id}
+                      className="p-1 text-red-400 hover:text-red-300"
+                      title="Remove access"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-xs text-neon-pink">{ROLE_LABELS[user.role]}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManageTeam && (
+        <form onSubmit={handleInvite} className="border-t border-gray-700 pt-4 space-y-3">
+          <h4 className="text-md font-medium text-white flex items-center">
+            <UserPlus className="w-4 h-4 mr-2" />
+            Invite a Team Member
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="email"
+              required
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              className="input-field text-gray-800"
+              placeholder="Email address"
+              disabled={isInviting}
+            />
+            <input
+              type="text"
+              value={inviteName}
+              onChange={(e) => setInviteName(e.target.value)}
+              className="input-field text-gray-800"
+              placeholder="Name (optional)"
+              maxLength={50}
+              disabled={isInviting}
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as BackendRole)}
+              className="input-field text-gray-800"
+              disabled={isInviting}
+            >
+              {BACKEND_ROLES.map(role => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-400">
+            They will receive an email with a link to sign in and set their own password
+          </p>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isInviting || !inviteEmail.trim()}
+              className="neon-button flex items-center"
+            >
+              {isInviting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Send Invite
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <form onSubmit={handlePasswordUpdate} className="border-t border-gray-700 pt-4 space-y-3">
+        <h4 className="text-md font-medium text-white flex items-center">
+          <KeyRound className="w-4 h-4 mr-2" />
+          Change My Password
+        </h4>
+        <input
+          type="password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          className="input-field text-gray-800"
+          placeholder="New password (min. 8 characters)"
+          disabled={isUpdatingPassword}
+        />
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isUpdatingPassword || !newPassword}
+            className="neon-button flex items-center"
+          >
+            {isUpdatingPassword ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Update Password'
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
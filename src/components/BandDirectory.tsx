@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { Music4, ChevronRight, AlertTriangle } from 'lucide-react';
+import { fetchBands } from '../utils/bands';
+import { LoadingSpinner } from './shared/LoadingSpinner';
+import type { AppView } from '../utils/routing';
+import type { Band } from '../types';
+
+interface BandDirectoryProps {
+  view: AppView;
+  // Slug from the URL that didn't match any band
+  missingSlug: string | null;
+  onSelect: (bandSlug: string) => void;
+}
+
+/**
+ * Shown for URLs without a band. With a single band the visitor is sent
+ * straight to it, otherwise they pick one.
+ */
+export function BandDirectory({ view, missingSlug, onSelect }: BandDirectoryProps) {
+  const [bands, setBands] = useState<Band[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchBands()
+      .then(result => {
+        if (cancelled) return;
+        if (result.length === 1 && !missingSlug) {
+          onSelect(result[0].slug);
+          return;
+        }
+        setBands(result);
+        setIsLoading(false);
+      })
+      .catch(error => {
+        console.error('Error loading bands:', error);
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [missingSlug, onSelect]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="glass-effect rounded-lg p-8 w-full max-w-md space-y-6">
+        <div className="text-center">
+          <Music4 className="w-10 h-10 mx-auto text-neon-pink mb-3" />
+          <h1 className="text-2xl font-bold neon-text">
+            {view === 'backend' ? 'Choose a band to manage' : 'Choose a band'}
+          </h1>
+        </div>
+
+        {missingSlug && (
+          <div className="flex items-center p-3 rounded bg-red-500/20 text-red-300 text-sm">
+            <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+            No band found at "{missingSlug}"
+          </div>
+        )}
+
+        {bands.length === 0 ? (
+          <p className="text-center text-gray-400">No bands have been set up yet</p>
+        ) : (
+          <div className="space-y-2">
+            {bands.map(band => (
+              <button
+                key={band.id}
+                onClick={() => onSelect(band.slug)}
+                className="w-full flex items-center justify-between p-4 rounded-lg bg-neon-purple/10 hover:bg-neon-purple/20 text-white"
+              >
+                <span className="font-medium">{band.name}</span>
+                <ChevronRight className="w-5 h-5 text-gray-400" />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Check, X, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { createBand } from '../utils/bands';
+import { slugify } from '../utils/routing';
+import type { Band } from '../types';
+
+const NEW_BAND_OPTION = '__new__';
+
+interface BandSwitcherProps {
+  bands: Band[];
+  // null when the user is looking at a band they don't belong to
+  currentBandId: string | null;
+  onSelect: (bandSlug: string) => void;
+  canCreate?: boolean;
+  onCreated?: () => void;
+}
+
+export function BandSwitcher({
+  bands,
+  currentBandId,
+  onSelect,
+  canCreate = false,
+  onCreated
+}: BandSwitcherProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const slug = slugify(name);
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    if (value === NEW_BAND_OPTION) {
+      setIsCreating(true);
+      return;
+    }
+
+    const band = bands.find(b => b.id === value);
+    if (band) onSelect(band.slug);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !slug) return;
+
+    setIsSaving(true);
+    try {
+      const band = await createBand(name.trim(), slug);
+      toast.success(`${band.name} created`);
+      setName('');
+      setIsCreating(false);
+      onCreated?.();
+      onSelect(band.slug);
+    } catch (error) {
+      console.error('Error creating band:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create band');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isCreating) {
+    return (
+      <form onSubmit={handleCreate} className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Band name"
+          autoFocus
+          className="px-2 py-1 rounded bg-gray-700 border border-gray-600 text-sm text-white"
+        />
+        {slug && <span className="text-xs text-gray-400">/b/{slug}</span>}
+        <button
+          type="submit"
+          disabled={isSaving || !slug}
+          className="p-1 rounded bg-green-600 hover:bg-green-700 disabled:opacity-50"
+          title="Create band"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsCreating(false)}
+          className="p-1 rounded bg-gray-600 hover:bg-gray-500"
+          title="Cancel"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </form>
+    );
+  }
+
+  // Nothing to switch between
+  if (bands.length <= 1 && !canCreate && currentBandId) return null;
+
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        value={currentBandId ?? ''}
+        onChange={handleChange}
+        className="px-2 py-1 rounded bg-gray-700 border border-gray-600 text-sm text-white"
+      >
+        {!currentBandId && <option value="" disabled>Switch to…</option>}
+        {bands.map(band => (
+          <option key={band.id} value={band.id}>{band.name}</option>
+        ))}
+        {canCreate && <option value={NEW_BAND_OPTION}>+ New band</option>}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState, useMemo } from 'react';
+import { GitMerge, Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { findDuplicateGroups, mergeSongFields, mergeSongs } from '../utils/songDuplicates';
+import { formatDuration } from '../utils/songImport';
+import type { Song } from '../types';
+
+interface DuplicateSongFinderProps {
+  songs: Song[];
+  onMerged: (merged: Song, removedIds: string[]) => void;
+  onClose: () => void;
+}
+
+const groupKey = (songs: Song[]) => songs.map(song => song.id).sort().join('|');
+
+/**
+ * Lists songs that look like the same song spelled differently and merges
+ * them into one, so requests for either spelling end up together
+ */
+export function DuplicateSongFinder({ songs, onMerged, onClose }: DuplicateSongFinderProps) {
+  const groups = useMemo(() => findDuplicateGroups(songs), [songs]);
+  // Which song each group keeps, when someone picks other than the suggestion
+  const [keepChoices, setKeepChoices] = useState<Record<string, string>>({});
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  const visibleGroups = groups.filter(group => !dismissed.has(groupKey(group.songs)));
+
+  const handleMerge = async (group: Song[], keepId: string) => {
+    const key = groupKey(group);
+    const mergeIds = group.filter(song => song.id !== keepId).map(song => song.id);
+
+    setMergingKey(key);
+    try {
+      const merged = await mergeSongs(keepId, mergeIds, mergeSongFields(group, keepId));
+      onMerged(merged, mergeIds);
+      toast.success(`Merged into "${merged.title}"`);
+    } catch (error) {
+      console.error('Error merging songs:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge songs');
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  return (
+    <div className="glass-effect rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <GitMerge className="w-5 h-5 mr-2" />
+          Possible Duplicates
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">
+        Merging keeps the selected song with every genre, tag and note from the group. Set lists, past
+        requests and play history move to it, and open requests for the same song are combined.
+      </p>
+
+      {visibleGroups.length === 0 ? (
+        <p className="text-center py-6 text-gray-400">No likely duplicates found</p>
+      ) : (
+        visibleGroups.map(group => {
+          const key = groupKey(group.songs);
+          const keepId = keepChoices[key] ?? group.suggestedKeepId;
+          const preview = mergeSongFields(group.songs, keepId);
+
+          return (
+            <div key={key} className="border border-neon-purple/20 rounded-lg p-4 space-y-3">
+              {group.songs.map(song => (
+                <label key={song.id} className="flex items-start space-x-3 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name={`keep-${key}`}
+                    checked={keepId === song.id}
+                    onChange={() => setKeepChoices(prev => ({ ...prev, [key]: song.id }))}
+                    className="mt-1"
+                  />
+                  <span className="min-w-0">
+                    <span className="text-white">{song.title}</span>
+                    <span className="text-gray-400"> - {song.artist}</span>
+                    <span className="block text-xs text-gray-500">
+                      {[song.genres.join(', '), song.key, song.durationSeconds !== undefined && formatDuration(song.durationSeconds)]
+                        .filter(Boolean)
+                        .join(' · ') || 'No details'}
+                    </span>
+                  </span>
+                </label>
+              ))}
+
+              <div className="flex items-center justify-between pt-2 border-t border-neon-purple/10">
+                <p className="text-xs text-gray-400 truncate">
+                  Result: {preview.title} - {preview.artist}
+                  {preview.genres.length > 0 && ` · ${preview.genres.join(', ')}`}
+                  {preview.key && ` · ${preview.key}`}
+                </p>
+                <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                  <button
+                    onClick={() => setDismissed(prev => new Set(prev).add(key))}
+                    disabled={mergingKey === key}
+                    className="px-3 py-1 text-sm text-gray-300 hover:text-white"
+                  >
+                    Not duplicates
+                  </button>
+                  <button
+                    onClick={() => handleMerge(group.songs, keepId)}
+                    disabled={mergingKey !== null}
+                    className="neon-button flex items-center text-sm"
+                  >
+                    {mergingKey === key ? (
+                      <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    ) : (
+                      <GitMerge className="w-4 h-4 mr-1" />
+                    )}
+                    Merge {group.songs.length}
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState, useMemo } from 'react';
+import { ArrowLeft, Save, Loader2, Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { updateEventAvailability } from '../utils/events';
+import type { GigEvent, Song } from '../types';
+
+interface EventAvailabilityProps {
+  event: GigEvent;
+  songs: Song[];
+  onSaved: () => void;
+  onBack: () => void;
+}
+
+/**
+ * Which songs the audience can request at one event: songs marked
+ * "not tonight", and explicit songs when the event is family friendly
+ */
+export function EventAvailability({ event, songs, onSaved, onBack }: EventAvailabilityProps) {
+  const [unavailable, setUnavailable] = useState<Set<string>>(new Set(event.unavailableSongIds));
+  const [familyFriendly, setFamilyFriendly] = useState(event.familyFriendly);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showUnavailableOnly, setShowUnavailableOnly] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const visibleSongs = useMemo(() => {
+    const term = searchTerm.toLowerCase().trim();
+    return songs
+      .filter(song => !showUnavailableOnly || unavailable.has(song.id))
+      .filter(song =>
+        !term ||
+        song.title.toLowerCase().includes(term) ||
+        song.artist.toLowerCase().includes(term) ||
+        (song.leadVocalist?.toLowerCase() || '').includes(term) ||
+        song.tags.some(tag => tag.toLowerCase().includes(term))
+      )
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }, [songs, searchTerm, showUnavailableOnly, unavailable]);
+
+  const explicitCount = songs.filter(song => song.isExplicit).length;
+
+  const toggleSong = (id: string) => {
+    setUnavailable(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Mark every song a vocalist leads, for when they're out
+  const vocalists = useMemo(
+    () => Array.from(new Set(songs.map(song => song.leadVocalist).filter((name): name is string => !!name))).sort(),
+    [songs]
+  );
+
+  const markVocalistOut = (name: string) => {
+    setUnavailable(prev => {
+      const next = new Set(prev);
+      songs.filter(song => song.leadVocalist === name).forEach(song => next.add(song.id));
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // Ids of songs deleted since they were marked aren't worth keeping
+      const songIds = new Set(songs.map(song => song.id));
+      await updateEventAvailability(event.id, {
+        unavailableSongIds: Array.from(unavailable).filter(id => songIds.has(id)),
+        familyFriendly
+      });
+      toast.success(`Song availability saved for "${event.name}"`);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving event availability:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save song availability');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="flex items-center text-sm text-gray-300 hover:text-white">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to events
+        </button>
+        <button onClick={handleSave} disabled={isSaving} className="neon-button flex items-center">
+          {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Save
+        </button>
+      </div>
+
+      <div className="glass-effect rounded-lg p-4 space-y-3">
+        <h2 className="text-lg font-semibold text-white">Songs for "{event.name}"</h2>
+        <p className="text-sm text-gray-400">
+          {unavailable.size} song{unavailable.size === 1 ? '' : 's'} marked not tonight.
+          The audience can't see or request them while this event is running.
+        </p>
+        <label className="flex items-center space-x-2 text-sm text-white">
+          <input
+            type="checkbox"
+            checked={familyFriendly}
+            onChange={e => setFamilyFriendly(e.target.checked)}
+          />
+          <span>Family friendly: hide the {explicitCount} explicit song{explicitCount === 1 ? '' : 's'}</span>
+        </label>
+        {vocalists.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-300">Vocalist out:</span>
+            {vocalists.map(name => (
+              <button
+                key={name}
+                onClick={() => markVocalistOut(name)}
+                className="px-2 py-1 text-xs rounded-full bg-neon-purple/10 text-gray-300 hover:text-white hover:bg-neon-purple/20"
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="glass-effect rounded-lg p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="relative flex-1 min-w-[200px]">
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={e => setSearchTerm(e.target.value)}
+              placeholder="Search songs..."
+              className="input-field pl-10 w-full"
+            />
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-white">
+            <input
+              type="checkbox"
+              checked={showUnavailableOnly}
+              onChange={e => setShowUnavailableOnly(e.target.checked)}
+            />
+            <span>Only not tonight</span>
+          </label>
+          {unavailable.size > 0 && (
+            <button onClick={() => setUnavailable(new Set())} className="text-sm text-neon-pink hover:underline">
+              Make all available
+            </button>
+          )}
+        </div>
+
+        <div className="max-h-[28rem] overflow-y-auto divide-y divide-neon-purple/10">
+          {visibleSongs.length === 0 && (
+            <p className="py-6 text-center text-sm text-gray-400">No songs match</p>
+          )}
+          {visibleSongs.map(song => {
+            const hiddenAnyway = song.isRequestable === false || (familyFriendly && song.isExplicit);
+            return (
+              <label key={song.id} className="flex items-center justify-between py-2 cursor-pointer">
+                <span className="min-w-0">
+                  <span className={unavailable.has(song.id) || hiddenAnyway ? 'text-gray-500 line-through' : 'text-white'}>
+                    {song.title}
+                  </span>
+                  <span className="text-gray-400 text-sm"> - {song.artist}</span>
+                  {song.isExplicit && (
+                    <span className="ml-2 px-1 text-[10px] font-bold rounded bg-red-500/20 text-red-300">E</span>
+                  )}
+                  {song.isRequestable === false && (
+                    <span className="ml-2 text-xs text-gray-500">Never requestable</span>
+                  )}
+                </span>
+                <span className="flex items-center space-x-2 text-xs text-gray-300 flex-shrink-0 ml-4">
+                  <span>Not tonight</span>
+                  <input
+                    type="checkbox"
+                    checked={unavailable.has(song.id)}
+                    onChange={() => toggleSong(song.id)}
+                  />
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
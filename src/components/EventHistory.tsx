@@ -0,0 +1,141 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, Users, ThumbsUp, CheckCircle2, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { fetchEventRequests } from '../utils/events';
+import { requestsToRows, voteCountsToRows } from '../utils/exporters';
+import { ExportButton } from './ExportButton';
+import type { GigEvent, SongRequest } from '../types';
+
+interface EventHistoryProps {
+  event: GigEvent;
+  onBack: () => void;
+}
+
+export function EventHistory({ event, onBack }: EventHistoryProps) {
+  const [requests, setRequests] = useState<SongRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    fetchEventRequests(event.id)
+      .then(data => {
+        if (!cancelled) setRequests(data);
+      })
+      .catch(error => {
+        console.error('Error loading event history:', error);
+        toast.error('Failed to load event history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [event.id]);
+
+  const totals = useMemo(() => ({
+    requests: requests.length,
+    requesters: requests.reduce((sum, r) => sum + r.requesters.length, 0),
+    votes: requests.reduce((sum, r) => sum + (r.votes || 0), 0),
+    played: requests.filter(r => r.isPlayed).length
+  }), [requests]);
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="flex items-center text-sm text-gray-300 hover:text-white">
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        Back to events
+      </button>
+
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-semibold neon-text">{event.name}</h2>
+          <p className="text-sm text-gray-400">
+            {event.venue && `${event.venue} · `}
+            {event.startedAt && format(new Date(event.startedAt), 'MMM d, yyyy h:mm a')}
+            {event.endedAt && ` - ${format(new Date(event.endedAt), 'h:mm a')}`}
+          </p>
+        </div>
+        {requests.length > 0 && (
+          <div className="flex items-center space-x-2">
+            <ExportButton
+              label="Request Log"
+              name={`${event.name} requests`}
+              getRows={options => requestsToRows(requests, options)}
+              supportsPhotos
+            />
+            <ExportButton
+              label="Votes"
+              name={`${event.name} votes`}
+              getRows={() => voteCountsToRows(requests)}
+              supportsAnonymize={false}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Songs requested', value: totals.requests },
+          { label: 'Requests', value: totals.requesters },
+          { label: 'Upvotes', value: totals.votes },
+          { label: 'Played', value: totals.played }
+        ].map(stat => (
+          <div key={stat.label} className="glass-effect rounded-lg p-4 text-center">
+            <p className="text-2xl font-bold text-white">{stat.value}</p>
+            <p className="text-xs text-gray-400">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center text-gray-300">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading requests...
+        </div>
+      ) : requests.length === 0 ? (
+        <p className="text-gray-400">No requests were made during this event</p>
+      ) : (
+        <div className="space-y-2">
+          {requests.map(request => (
+            <div key={request.id} className="glass-effect rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <h3 className="text-white font-medium truncate">{request.title}</h3>
+                  {request.artist && <p className="text-sm text-gray-300 truncate">{request.artist}</p>}
+                  <p className="text-xs text-gray-500 mt-1">
+                    First requested {format(new Date(request.createdAt), 'h:mm a')}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3 text-xs text-gray-400 ml-4">
+                  <span className="flex items-center"><Users className="w-3 h-3 mr-1" />{request.requesters.length}</span>
+                  <span className="flex items-center"><ThumbsUp className="w-3 h-3 mr-1" />{request.votes}</span>
+                  {request.isPlayed && (
+                    <span className="flex items-center text-green-400">
+                      <CheckCircle2 className="w-3 h-3 mr-1" />
+                      Played
+                    </span>
+                  )}
+                </div>
+              </div>
+              {request.requesters.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {request.requesters.map(requester => (
+                    <span key={requester.id} className="text-xs bg-neon-purple/10 text-gray-300 rounded px-2 py-1">
+                      {requester.name}
+                      {requester.message && <span className="text-gray-500"> - "{requester.message}"</span>}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
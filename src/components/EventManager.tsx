@@ -0,0 +1,340 @@
+import React, { useState, useMemo } from 'react';
+import { CalendarPlus, Play, Square, Trash2, MapPin, Clock, History, Loader2, ListChecks } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { createEvent, deleteEvent, startEvent, endEvent, type EventFormData } from '../utils/events';
+import { EventHistory } from './EventHistory';
+import { EventAvailability } from './EventAvailability';
+import { useCurrentBand } from '../contexts/BandContext';
+import type { GigEvent, SetList, Song } from '../types';
+
+interface EventManagerProps {
+  events: GigEvent[];
+  setLists: SetList[];
+  songs: Song[];
+  onEventsChange: () => void;
+}
+
+const EMPTY_FORM: EventFormData = {
+  name: '',
+  venue: '',
+  eventDate: format(new Date(), 'yyyy-MM-dd'),
+  startTime: '',
+  endTime: '',
+  setListId: '',
+  familyFriendly: false
+};
+
+// Dates come back from Postgres as yyyy-MM-dd; parse as local time, not UTC
+const formatEventDate = (date: string) => format(new Date(`${date}T00:00:00`), 'EEE, MMM d, yyyy');
+
+export function EventManager({ events, setLists, songs, onEventsChange }: EventManagerProps) {
+  const { band } = useCurrentBand();
+  const [formData, setFormData] = useState<EventFormData>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyEventId, setBusyEventId] = useState<string | null>(null);
+  const [historyEvent, setHistoryEvent] = useState<GigEvent | null>(null);
+  const [availabilityEventId, setAvailabilityEventId] = useState<string | null>(null);
+
+  const activeEvent = useMemo(() => events.find(e => e.status === 'active') || null, [events]);
+  const upcomingEvents = useMemo(
+    () => events
+      .filter(e => e.status === 'scheduled')
+      .sort((a, b) => a.eventDate.localeCompare(b.eventDate)),
+    [events]
+  );
+  const pastEvents = useMemo(() => events.filter(e => e.status === 'ended'), [events]);
+
+  const setListName = (id?: string) => setLists.find(sl => sl.id === id)?.name;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    const checked = e.target instanceof HTMLInputElement && e.target.type === 'checkbox'
+      ? e.target.checked
+      : undefined;
+    setFormData(prev => ({ ...prev, [name]: checked ?? value }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await createEvent(band.id, formData);
+      setFormData(EMPTY_FORM);
+      toast.success('Event created');
+      onEventsChange();
+    } catch (error) {
+      console.error('Error creating event:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create event');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runEventAction = async (event: GigEvent, action: () => Promise<unknown>, successMessage: string) => {
+    setBusyEventId(event.id);
+    try {
+      await action();
+      toast.success(successMessage);
+      onEventsChange();
+    } catch (error) {
+      console.error('Error updating event:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update event');
+    } finally {
+      setBusyEventId(null);
+    }
+  };
+
+  const handleStart = (event: GigEvent) => {
+    if (activeEvent && !window.confirm(`"${activeEvent.name}" is still running. End it and start "${event.name}"?`)) {
+      return;
+    }
+    runEventAction(event, () => startEvent(event.id), `"${event.name}" is live - the queue is fresh`);
+  };
+
+  const handleEnd = (event: GigEvent) => {
+    if (!window.confirm(`End "${event.name}"? Its queue will be archived in the event history.`)) {
+      return;
+    }
+    runEventAction(event, () => endEvent(event.id), `"${event.name}" ended and archived`);
+  };
+
+  const handleDelete = (event: GigEvent) => {
+    if (!window.confirm(`Delete "${event.name}"?`)) {
+      return;
+    }
+    runEventAction(event, () => deleteEvent(event.id), 'Event deleted');
+  };
+
+  if (historyEvent) {
+    return <EventHistory event={historyEvent} onBack={() => setHistoryEvent(null)} />;
+  }
+
+  // Looked up by id so the editor sees the event as last saved
+  const availabilityEvent = events.find(e => e.id === availabilityEventId);
+  if (availabilityEvent) {
+    return (
+      <EventAvailability
+        key={availabilityEvent.id}
+        event={availabilityEvent}
+        songs={songs}
+        onSaved={() => {
+          onEventsChange();
+          setAvailabilityEventId(null);
+        }}
+        onBack={() => setAvailabilityEventId(null)}
+      />
+    );
+  }
+
+  const availabilitySummary = (event: GigEvent) => [
+    event.unavailableSongIds.length > 0 && `${event.unavailableSongIds.length} not tonight`,
+    event.familyFriendly && 'Family friendly'
+  ].filter(Boolean).join(' · ');
+
+  const availabilityButton = (event: GigEvent) => (
+    <button
+      onClick={() => setAvailabilityEventId(event.id)}
+      className="flex items-center px-3 py-1 text-sm text-gray-300 hover:text-white"
+      title="Choose which songs can be requested"
+    >
+      <ListChecks className="w-4 h-4 mr-1" />
+      Songs
+    </button>
+  );
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold neon-text">Events</h2>
+
+      {/* Running event */}
+      {activeEvent ? (
+        <div className="glass-effect rounded-lg p-4 border-2 border-neon-pink">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-xs uppercase tracking-wide text-neon-pink">Live now</p>
+              <h3 className="text-lg font-semibold text-white">{activeEvent.name}</h3>
+              <p className="text-sm text-gray-300">
+                {activeEvent.venue && <span className="mr-3">{activeEvent.venue}</span>}
+                {activeEvent.startedAt && `Started ${format(new Date(activeEvent.startedAt), 'h:mm a')}`}
+              </p>
+              {availabilitySummary(activeEvent) && (
+                <p className="text-xs text-gray-400 mt-1">{availabilitySummary(activeEvent)}</p>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              {availabilityButton(activeEvent)}
+              <button
+                onClick={() => handleEnd(activeEvent)}
+                disabled={busyEventId === activeEvent.id}
+                className="flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md"
+              >
+                <Square className="w-4 h-4 mr-2" />
+                End Event
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="glass-effect rounded-lg p-4 text-sm text-gray-300">
+          No event is running. Requests go into the general queue until you start one.
+        </div>
+      )}
+
+      {/* New event */}
+      <form onSubmit={handleCreate} className="glass-effect rounded-lg p-6 space-y-4">
+        <h3 className="text-lg font-medium text-white flex items-center">
+          <CalendarPlus className="w-5 h-5 mr-2" />
+          New Event
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input
+            name="name"
+            required
+            value={formData.name}
+            onChange={handleChange}
+            className="input-field text-gray-800"
+            placeholder="Event name"
+            maxLength={100}
+          />
+          <input
+            name="venue"
+            value={formData.venue}
+            onChange={handleChange}
+            className="input-field text-gray-800"
+            placeholder="Venue"
+            maxLength={100}
+          />
+          <input
+            type="date"
+            name="eventDate"
+            required
+            value={formData.eventDate}
+            onChange={handleChange}
+            className="input-field text-gray-800"
+          />
+          <select
+            name="setListId"
+            value={formData.setListId}
+            onChange={handleChange}
+            className="input-field text-gray-800"
+          >
+            <option value="">No set list</option>
+            {setLists.map(sl => (
+              <option key={sl.id} value={sl.id}>{sl.name}</option>
+            ))}
+          </select>
+          <label className="text-sm text-gray-300">
+            Start time
+            <input
+              type="time"
+              name="startTime"
+              value={formData.startTime}
+              onChange={handleChange}
+              className="input-field text-gray-800 mt-1"
+            />
+          </label>
+          <label className="text-sm text-gray-300">
+            End time
+            <input
+              type="time"
+              name="endTime"
+              value={formData.endTime}
+              onChange={handleChange}
+              className="input-field text-gray-800 mt-1"
+            />
+          </label>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            name="familyFriendly"
+            checked={!!formData.familyFriendly}
+            onChange={handleChange}
+          />
+          <span>Family friendly (explicit songs can't be requested)</span>
+        </label>
+        <div className="flex justify-end">
+          <button type="submit" disabled={isSaving || !formData.name.trim()} className="neon-button flex items-center">
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CalendarPlus className="w-4 h-4 mr-2" />}
+            Create Event
+          </button>
+        </div>
+      </form>
+
+      {/* Upcoming */}
+      <div className="space-y-2">
+        <h3 className="text-lg font-medium text-white">Upcoming</h3>
+        {upcomingEvents.length === 0 && (
+          <p className="text-sm text-gray-400">No upcoming events</p>
+        )}
+        {upcomingEvents.map(event => (
+          <div key={event.id} className="glass-effect rounded-lg p-4 flex items-center justify-between">
+            <div>
+              <h4 className="text-white font-medium">{event.name}</h4>
+              <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400 mt-1">
+                <span>{formatEventDate(event.eventDate)}</span>
+                {event.venue && (
+                  <span className="flex items-center"><MapPin className="w-3 h-3 mr-1" />{event.venue}</span>
+                )}
+                {event.startTime && (
+                  <span className="flex items-center">
+                    <Clock className="w-3 h-3 mr-1" />
+                    {event.startTime.slice(0, 5)}{event.endTime && ` - ${event.endTime.slice(0, 5)}`}
+                  </span>
+                )}
+                {setListName(event.setListId) && <span>Set list: {setListName(event.setListId)}</span>}
+                {availabilitySummary(event) && <span>{availabilitySummary(event)}</span>}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              {availabilityButton(event)}
+              <button
+                onClick={() => handleStart(event)}
+                disabled={busyEventId === event.id}
+                className="flex items-center px-3 py-1 text-sm bg-green-600 hover:bg-green-700 text-white rounded"
+              >
+                <Play className="w-4 h-4 mr-1" />
+                Start
+              </button>
+              <button
+                onClick={() => handleDelete(event)}
+                disabled={busyEventId === event.id}
+                className="p-2 text-red-400 hover:text-red-300"
+                title="Delete event"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Past */}
+      <div className="space-y-2">
+        <h3 className="text-lg font-medium text-white">Past Events</h3>
+        {pastEvents.length === 0 && (
+          <p className="text-sm text-gray-400">Ended events and their request history show up here</p>
+        )}
+        {pastEvents.map(event => (
+          <button
+            key={event.id}
+            onClick={() => setHistoryEvent(event)}
+            className="w-full text-left glass-effect rounded-lg p-4 flex items-center justify-between hover:bg-neon-purple/10"
+          >
+            <div>
+              <h4 className="text-white font-medium">{event.name}</h4>
+              <p className="text-xs text-gray-400 mt-1">
+                {formatEventDate(event.eventDate)}
+                {event.venue && ` · ${event.venue}`}
+              </p>
+            </div>
+            <History className="w-5 h-5 text-gray-400" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
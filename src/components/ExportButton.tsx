@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  downloadExport,
+  DEFAULT_EXPORT_OPTIONS,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportRow
+} from '../utils/exporters';
+
+interface ExportButtonProps {
+  label: string;
+  // File name without the date or extension
+  name: string;
+  getRows: (options: ExportOptions) => ExportRow[] | Promise<ExportRow[]>;
+  // Hide options that don't apply to this data
+  supportsPhotos?: boolean;
+  supportsAnonymize?: boolean;
+}
+
+/**
+ * Button with a small panel to pick CSV or JSON and what to leave out
+ */
+export function ExportButton({
+  label,
+  name,
+  getRows,
+  supportsPhotos = false,
+  supportsAnonymize = true
+}: ExportButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const rows = await getRows(options);
+      if (rows.length === 0) {
+        toast.error('Nothing to export');
+        return;
+      }
+
+      downloadExport(name, rows, options.format);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center px-3 py-2 text-sm font-medium text-gray-300 bg-gray-700/50 hover:bg-neon-purple/30 hover:text-white rounded-md transition-colors"
+      >
+        <Download className="w-4 h-4 mr-1" />
+        {label}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-56 glass-effect rounded-lg p-4 space-y-3 text-sm text-gray-200 shadow-lg">
+          <div className="flex space-x-2">
+            {(['csv', 'json'] as ExportFormat[]).map(exportFormat => (
+              <button
+                key={exportFormat}
+                onClick={() => setOptions(prev => ({ ...prev, format: exportFormat }))}
+                className={`flex-1 py-1 rounded uppercase text-xs font-bold ${
+                  options.format === exportFormat ? 'bg-neon-pink text-white' : 'bg-gray-700/50 text-gray-300'
+                }`}
+              >
+                {exportFormat}
+              </button>
+            ))}
+          </div>
+          {supportsAnonymize && (
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={options.anonymize}
+                onChange={e => setOptions(prev => ({ ...prev, anonymize: e.target.checked }))}
+              />
+              <span>Anonymize names</span>
+            </label>
+          )}
+          {supportsPhotos && (
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={options.includePhotos}
+                onChange={e => setOptions(prev => ({ ...prev, includePhotos: e.target.checked }))}
+              />
+              <span>Include photos</span>
+            </label>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="neon-button w-full flex items-center justify-center"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Download
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
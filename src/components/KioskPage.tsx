@@ -3,14 +3,23 @@ import { Search, Music4, ThumbsUp, Users, Clock, Zap } from 'lucide-react';
 import { Logo } from './shared/Logo';
 import { generateDefaultAvatar } from '../utils/photoStorage';
 import { supabase } from '../utils/supabase';
+import { submitSongRequest } from '../utils/requestSubmission';
+import { isSongAvailable } from '../utils/events';
+import { createSongSearchIndex, foldSearchText, searchSongs } from '../utils/songSearch';
+import { useCurrentBand } from '../contexts/BandContext';
+import { isApprovedRequest } from '../utils/moderation';
+import { rankRequests, getRankingConfig } from '../utils/queueRanking';
+import { useRankingClock } from '../hooks/useRankingClock';
+import { getRequestStage } from '../utils/stages';
+import { useUiSettings } from '../hooks/useUiSettings';
 import toast from 'react-hot-toast';
-import type { Song, SongRequest, RequestFormData, SetList } from '../types';
+import type { Song, SongRequest, RequestFormData, SetList, GigEvent } from '../types';
 
 interface KioskPageProps {
   songs: Song[];
   requests: SongRequest[];
   activeSetList: SetList | null;
-  onSubmitRequest: (data: RequestFormData) => Promise<boolean>;
+  activeEvent: GigEvent | null;
   onVoteRequest: (id: string) => Promise<boolean>;
   logoUrl: string;
 }
@@ -19,10 +28,13 @@ export function KioskPage({
   songs,
   requests,
   activeSetList,
-  onSubmitRequest,
+  activeEvent,
   onVoteRequest,
   logoUrl
 }: KioskPageProps) {
+  const { band } = useCurrentBand();
+  const { settings } = useUiSettings();
+  const rankingNow = useRankingClock();
   const [searchTerm, setSearchTerm] = useState('');
   const [userName, setUserName] = useState('');
   const [selectedSong, setSelectedSong] = useState<Song | null>(null);
@@ -31,7 +43,7 @@ export function KioskPage({
   const [activeTab, setActiveTab] = useState<'request' | 'vote'>('request');
   
   // Optimistic update states for instant UI feedback
-  const [optimisticRequests, setOptimisticRequests] = useState<Map<string, Partial<SongRequest>>>(new Map());
+  const [optimisticRequests, setOptimisticRequests] = useState<Map<string, SongRequest>>(new Map());
   const [optimisticVotes, setOptimisticVotes] = useState<Map<string, number>>(new Map());
   const [votingStates, setVotingStates] = useState<Set<string>>(new Set());
   
@@ -48,7 +60,7 @@ export function KioskPage({
   const mergedRequests = useMemo(() => {
     // Start with real requests and apply optimistic vote updates
     const realRequests = requests
-      .filter(req => req && !req.isPlayed) // Filter out played requests
+      .filter(req => req && !req.isPlayed && isApprovedRequest(req)) // Only open, approved requests
       .map(req => ({
         ...req,
         votes: optimisticVotes.get(req.id) ?? req.votes ?? 0,
@@ -56,27 +68,21 @@ export function KioskPage({
         requesters: Array.isArray(req.requesters) ? req.requesters : []
       }));
 
-    // Add any optimistic new requests
+    // Add any optimistic new requests, until the real request shows up
+    const songKey = (req: SongRequest) => `${foldSearchText(req.title)}|${foldSearchText(req.artist)}`;
+    const realKeys = new Set(realRequests.map(songKey));
     const optimisticRequestsList = Array.from(optimisticRequests.values())
-      .filter(req => req.id?.startsWith('temp_'));
+      .filter(req => req.id?.startsWith('temp_') && !realKeys.has(songKey(req)));
 
     return [...realRequests, ...optimisticRequestsList];
   }, [requests, optimisticRequests, optimisticVotes]);
 
-  // Filter songs based on active set list and search
-  const displaySongs = useMemo(() => {
-    let songsToShow = activeSetList?.songs || songs;
-    
-    if (searchTerm.trim()) {
-      const search = searchTerm.toLowerCase().trim();
-      songsToShow = songsToShow.filter(song =>
-        song.title.toLowerCase().includes(search) ||
-        (song.artist && song.artist.toLowerCase().includes(search))
-      );
-    }
-    
-    return songsToShow;
-  }, [songs, activeSetList, searchTerm]);
+  // Filter songs based on active set list and search, best matches first
+  const searchIndex = useMemo(
+    () => createSongSearchIndex((activeSetList?.songs || songs).filter(song => isSongAvailable(song, activeEvent))),
+    [songs, activeSetList, activeEvent]
+  );
+  const displaySongs = useMemo(() => searchSongs(searchIndex, searchTerm), [searchIndex, searchTerm]);
 
   // Enhanced request submission with optimistic updates
   const handleSubmitRequest = useCallback(async () => {
@@ -122,26 +128,23 @@ export function KioskPage({
         message: ''
       };
 
-      const success = await onSubmitRequest(requestData);
-      
-      if (success) {
-        // Clear form and show success
-        setSelectedSong(null);
-        setUserName('');
-        setSearchTerm('');
-        
-        // Remove optimistic request after real data arrives
-        setTimeout(() => {
-          if (mountedRef.current) {
-            setOptimisticRequests(prev => {
-              const newMap = new Map(prev);
-              newMap.delete(tempId);
-              return newMap;
-            });
-          }
-        }, 2000);
-        
-        toast.success(`🎵 "${selectedSong.title}" has been added to the queue!`, {
+      // Kiosk guests have no profile, so submit straight to the database function
+      const submitted = await submitSongRequest(band.id, requestData);
+
+      // Clear form and show success
+      setSelectedSong(null);
+      setUserName('');
+      setSearchTerm('');
+
+      // Requests waiting for approval stay out of the public list
+      if (submitted.status === 'pending') {
+        setOptimisticRequests(prev => {
+          const newMap = new Map(prev);
+          newMap.delete(tempId);
+          return newMap;
+        });
+
+        toast.success(`🎵 "${selectedSong.title}" was sent to the band for approval`, {
           duration: 3000,
           style: {
             background: '#10B981',
@@ -149,15 +152,28 @@ export function KioskPage({
             fontSize: '16px'
           }
         });
-      } else {
-        // Remove failed optimistic request
-        setOptimisticRequests(prev => {
-          const newMap = new Map(prev);
-          newMap.delete(tempId);
-          return newMap;
-        });
-        setError('Failed to submit request. Please try again.');
+        return;
       }
+
+      // Remove optimistic request after real data arrives
+      setTimeout(() => {
+        if (mountedRef.current) {
+          setOptimisticRequests(prev => {
+            const newMap = new Map(prev);
+            newMap.delete(tempId);
+            return newMap;
+          });
+        }
+      }, 2000);
+
+      toast.success(`🎵 "${selectedSong.title}" has been added to the queue!`, {
+        duration: 3000,
+        style: {
+          background: '#10B981',
+          color: '#fff',
+          fontSize: '16px'
+        }
+      });
     } catch (error) {
       console.error('Error submitting request:', error);
       
@@ -168,15 +184,17 @@ export function KioskPage({
         return newMap;
       });
       
-      const errorMessage = error instanceof Error && error.message.includes('rate limit')
-        ? 'Too many requests. Please try again later.'
+      const errorMessage = error instanceof Error
+        ? (error.message.includes('rate limit')
+          ? 'Too many requests. Please try again later.'
+          : error.message)
         : 'Failed to submit request. Please try again.';
       
       setError(errorMessage);
     } finally {
       setIsSubmitting(false);
     }
-  }, [selectedSong, userName, onSubmitRequest]);
+  }, [selectedSong, userName, band.id]);
 
   // Enhanced vote handler with atomic database function and optimistic updates
   const handleVote = useCallback(async (requestId: string) => {
@@ -194,20 +212,17 @@ export function KioskPage({
     // INSTANT UI UPDATE - Optimistically increment vote immediately
     setOptimisticVotes(prev => new Map([...prev, [requestId, currentVotes + 1]]));
 
-    // Generate a unique kiosk user ID
-    const kioskUserId = `kiosk_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-
     try {
-      // Use the atomic database function for voting
+      // Every tap on the shared screen is a new vote; the database checks the
+      // kiosk is signed in with a band account
       const { data, error } = await supabase
-        .rpc('add_vote', {
-          p_request_id: requestId,
-          p_user_id: kioskUserId
+        .rpc('add_kiosk_vote', {
+          p_request_id: requestId
         });
 
       if (error) {
-        console.error('Error in add_vote RPC:', error);
-        throw error;
+        console.error('Error in add_kiosk_vote RPC:', error);
+        throw new Error(error.message);
       }
 
       if (data === true) {
@@ -244,7 +259,7 @@ export function KioskPage({
         return newMap;
       });
       
-      toast.error('Failed to vote. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to vote. Please try again.');
     } finally {
       // Clear voting state after a short delay
       setTimeout(() => {
@@ -270,20 +285,11 @@ export function KioskPage({
     }
   }, [error]);
 
-  // Sort requests by priority for voting view
-  const sortedRequests = useMemo(() => {
-    return mergedRequests.sort((a, b) => {
-      // Locked requests go first
-      if (a.isLocked && !b.isLocked) return -1;
-      if (!a.isLocked && b.isLocked) return 1;
-      
-      // Then by total priority (requester count + votes)
-      const priorityA = (a.requesters?.length || 0) + (a.votes || 0);
-      const priorityB = (b.requesters?.length || 0) + (b.votes || 0);
-      
-      return priorityB - priorityA;
-    });
-  }, [mergedRequests]);
+  // Sort requests in the same order as the band's queue
+  const sortedRequests = useMemo(
+    () => rankRequests(mergedRequests, getRankingConfig(settings), rankingNow),
+    [mergedRequests, settings, rankingNow]
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-900 via-gray-900 to-black text-white">
@@ -458,12 +464,17 @@ export function KioskPage({
                   const isVoting = votingStates.has(request.id);
                   const requesters = Array.isArray(request.requesters) ? request.requesters : [];
                   const votes = request.votes || 0;
+                  const stage = getRequestStage(request);
+                  // Votes can't change the order once a song is on stage or up next
+                  const isVotingClosed = stage === 'now_playing' || stage === 'up_next';
                   
                   return (
                     <div
                       key={request.id}
                       className={`relative overflow-hidden rounded-xl p-6 border-2 transition-all ${
-                        request.isLocked 
+                        stage === 'now_playing'
+                          ? 'bg-gradient-to-r from-pink-600/30 to-purple-600/30 border-pink-400 shadow-lg shadow-pink-600/30'
+                          : stage === 'up_next'
                           ? 'bg-gradient-to-r from-yellow-600/30 to-orange-600/30 border-yellow-400 shadow-lg shadow-yellow-600/30' 
                           : 'bg-black/40 border-gray-600/50 hover:border-pink-400/50'
                       }`}
@@ -471,13 +482,23 @@ export function KioskPage({
                       {/* Priority Badge */}
                       <div className="absolute top-4 left-4">
                         <span className={`px-3 py-1 rounded-full text-sm font-bold ${
-                          index === 0 && !request.isLocked
-                            ? 'bg-green-600 text-white'
-                            : request.isLocked
+                          stage === 'now_playing'
+                            ? 'bg-pink-600 text-white'
+                            : stage === 'up_next'
                             ? 'bg-yellow-600 text-white'
+                            : stage === 'on_deck'
+                            ? 'bg-orange-600 text-white'
+                            : index === 0
+                            ? 'bg-green-600 text-white'
                             : 'bg-gray-600 text-gray-300'
                         }`}>
-                          {request.isLocked ? '🔒 Next Up' : `#${index + 1}`}
+                          {stage === 'now_playing'
+                            ? '🎤 Now Playing'
+                            : stage === 'up_next'
+                            ? '🔒 Next Up'
+                            : stage === 'on_deck'
+                            ? 'On Deck'
+                            : `#${index + 1}`}
                         </span>
                       </div>
 
@@ -503,7 +524,7 @@ export function KioskPage({
 
                         <button
                           onClick={() => handleVote(request.id)}
-                          disabled={isVoting || request.isLocked}
+                          disabled={isVoting || isVotingClosed}
                           className="ml-6 px-6 py-3 bg-gradient-to-r from-pink-600 to-purple-600 text-white font-bold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:from-pink-700 hover:to-purple-700 transition-all transform hover:scale-105 flex items-center space-x-2"
                         >
                           {isVoting ? (
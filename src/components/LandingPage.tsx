@@ -3,18 +3,24 @@ import { Camera, User as UserIcon, AlertTriangle, UserCircle } from 'lucide-reac
 import { resizeAndCompressImage, getOptimalCameraConstraints, getOptimalFileInputAccept, supportsHighQualityCapture } from '../utils/imageUtils';
 import { dataURLtoBlob } from '../utils/photoStorage';
 import { usePhotoStorage } from '../hooks/usePhotoStorage';
+import { AccountUpgrade } from './AccountUpgrade';
 import type { User } from '../types';
 
 interface LandingPageProps {
   onComplete: (user: User) => void;
   initialUser?: User | null;
+  // The session behind the profile, offered for upgrade once a profile exists
+  account?: {
+    isAnonymous: boolean;
+    email?: string;
+  };
 }
 
 // Increased limit to handle smartphone photos after compression
 const MAX_PHOTO_SIZE = 1024 * 1024; // 1MB limit for compressed photos (up from 300KB)
 const MAX_INPUT_SIZE = 50 * 1024 * 1024; // 50MB max input size (supports all major phone brands)
 
-export function LandingPage({ onComplete, initialUser }: LandingPageProps) {
+export function LandingPage({ onComplete, initialUser, account }: LandingPageProps) {
   const [name, setName] = useState(initialUser?.name || '');
   const [photo, setPhoto] = useState<string>(initialUser?.photo || '');
   const [isCapturing, setIsCapturing] = useState(false);
@@ -328,6 +334,12 @@ export function LandingPage({ onComplete, initialUser }: LandingPageProps) {
             {initialUser ? 'Update Profile' : 'Continue to Song Requests'}
           </button>
         </form>
+
+        {initialUser && account && (
+          <div className="border-t border-neon-purple/20 mt-6 pt-6">
+            <AccountUpgrade isAnonymous={account.isAnonymous} email={account.email} />
+          </div>
+        )}
       </div>
     </div>
   );
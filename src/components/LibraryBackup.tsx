@@ -0,0 +1,226 @@
+import React, { useState, useRef } from 'react';
+import { Archive, Download, Upload, Loader2, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  createLibraryBackup,
+  downloadLibraryBackup,
+  parseLibraryBackup,
+  findSongConflicts,
+  importLibraryBackup,
+  type ConflictChoice,
+  type ImportMode,
+  type LibraryBackup as LibraryBackupBundle
+} from '../utils/libraryBackup';
+import { useCurrentBand } from '../contexts/BandContext';
+import { useUiSettings } from '../hooks/useUiSettings';
+import type { Song } from '../types';
+
+interface LibraryBackupProps {
+  songs: Song[];
+  // Called after an import so the song and set list views reload
+  onImported: () => void;
+}
+
+/**
+ * Download the whole library as one file, or load one back in to move
+ * between bands or recover from a mistake
+ */
+export function LibraryBackup({ songs, onImported }: LibraryBackupProps) {
+  const { band } = useCurrentBand();
+  const { updateSettings } = useUiSettings();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [bundle, setBundle] = useState<LibraryBackupBundle | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [includeSettings, setIncludeSettings] = useState(false);
+  const [conflictChoices, setConflictChoices] = useState<Record<string, ConflictChoice>>({});
+
+  const conflicts = bundle ? findSongConflicts(bundle, songs) : [];
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      downloadLibraryBackup(await createLibraryBackup(band.id, band.name));
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create backup');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseLibraryBackup(await file.text());
+      setBundle(parsed);
+      setConflictChoices({});
+      setIncludeSettings(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read backup');
+    }
+  };
+
+  const setAllConflicts = (choice: ConflictChoice) => {
+    setConflictChoices(Object.fromEntries(conflicts.map(({ incoming }) => [incoming.ref, choice])));
+  };
+
+  const handleImport = async () => {
+    if (!bundle) return;
+
+    if (mode === 'replace' && !window.confirm(
+      `Replace the library? All ${songs.length} songs and every set list will be deleted before the backup is loaded.`
+    )) {
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const summary = await importLibraryBackup(band.id, bundle, { mode, conflictChoices });
+
+      if (includeSettings && bundle.settings) {
+        await updateSettings({ ...bundle.settings, band_logo_url: bundle.logoUrl });
+      }
+
+      onImported();
+      setBundle(null);
+
+      toast.success(
+        `Imported ${summary.songsAdded} new song${summary.songsAdded !== 1 ? 's' : ''}` +
+        (summary.songsUpdated ? `, updated ${summary.songsUpdated}` : '') +
+        ` and ${summary.setListsAdded} set list${summary.setListsAdded !== 1 ? 's' : ''}`
+      );
+      if (summary.setListsSkipped.length > 0) {
+        toast(`Skipped set lists that already exist: ${summary.setListsSkipped.join(', ')}`, { icon: 'ℹ️' });
+      }
+    } catch (error) {
+      console.error('Error importing backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import backup');
+      // Part of the import may have gone through
+      onImported();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="glass-effect rounded-lg p-6 space-y-4">
+      <h3 className="text-lg font-medium text-white flex items-center">
+        <Archive className="w-5 h-5 mr-2" />
+        Library Backup
+      </h3>
+      <p className="text-xs text-gray-400">
+        One file with your songs, set lists, colors and logo. Requests and history are not included.
+      </p>
+
+      <div className="flex flex-wrap gap-3">
+        <button onClick={handleExport} disabled={isExporting} className="neon-button flex items-center">
+          {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+          Download Backup
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="flex items-center px-4 py-2 text-sm font-medium text-gray-300 bg-gray-700/50 hover:bg-neon-purple/30 hover:text-white rounded-md transition-colors"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Import Backup
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {bundle && (
+        <div className="border border-gray-700 rounded-lg p-4 space-y-4 text-sm text-gray-200">
+          <p>
+            <span className="text-white font-medium">{bundle.bandName || 'Backup'}</span>
+            {' '}from {new Date(bundle.exportedAt).toLocaleString()}: {bundle.songs.length} songs,
+            {' '}{bundle.setLists.length} set lists
+          </p>
+
+          <div className="flex space-x-2">
+            {(['merge', 'replace'] as ImportMode[]).map(importMode => (
+              <button
+                key={importMode}
+                onClick={() => setMode(importMode)}
+                className={`flex-1 py-2 rounded text-xs font-bold uppercase ${
+                  mode === importMode ? 'bg-neon-pink text-white' : 'bg-gray-700/50 text-gray-300'
+                }`}
+              >
+                {importMode}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">
+            {mode === 'merge'
+              ? 'Adds new songs and set lists. Set lists with a name you already use are skipped.'
+              : 'Deletes every song and set list in this band, then loads the backup.'}
+          </p>
+
+          {mode === 'merge' && conflicts.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="flex items-center text-yellow-300">
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  {conflicts.length} song{conflicts.length !== 1 ? 's are' : ' is'} already in your library
+                </p>
+                <div className="space-x-2 text-xs">
+                  <button onClick={() => setAllConflicts('keep')} className="text-gray-300 hover:text-white">Keep all</button>
+                  <button onClick={() => setAllConflicts('overwrite')} className="text-gray-300 hover:text-white">Overwrite all</button>
+                </div>
+              </div>
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {conflicts.map(({ incoming }) => (
+                  <div key={incoming.ref} className="flex items-center justify-between bg-gray-800/50 rounded px-3 py-2">
+                    <span className="truncate">{incoming.title} - {incoming.artist}</span>
+                    <select
+                      value={conflictChoices[incoming.ref] ?? 'keep'}
+                      onChange={e => setConflictChoices(prev => ({
+                        ...prev,
+                        [incoming.ref]: e.target.value as ConflictChoice
+                      }))}
+                      className="input-field text-gray-800 w-auto ml-2 py-1"
+                    >
+                      <option value="keep">Keep mine</option>
+                      <option value="overwrite">Use backup</option>
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {bundle.settings && (
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={includeSettings}
+                onChange={e => setIncludeSettings(e.target.checked)}
+              />
+              <span>Also apply the backup's colors, band name and logo</span>
+            </label>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => setBundle(null)} className="px-4 py-2 text-gray-300 hover:text-white">
+              Cancel
+            </button>
+            <button onClick={handleImport} disabled={isImporting} className="neon-button flex items-center">
+              {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              {mode === 'merge' ? 'Merge' : 'Replace'} Library
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Upload, Check, X, Loader2, AlertTriangle, RefreshCw } from 'lucide-react';
 import { uploadBandLogo, dataURLtoBlob, isValidImageType } from '../utils/uploadLogo';
+import { useCurrentBand } from '../contexts/BandContext';
 
 interface LogoUploaderProps {
   currentLogoUrl?: string | null;
@@ -8,6 +9,7 @@ interface LogoUploaderProps {
 }
 
 export function LogoUploader({ currentLogoUrl, onSuccess }: LogoUploaderProps) {
+  const { band } = useCurrentBand();
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
@@ -56,7 +58,7 @@ export function LogoUploader({ currentLogoUrl, onSuccess }: LogoUploaderProps) {
 
           // Upload to get PNG data URL
           console.log('Starting upload process...');
-          const logoUrl = await uploadBandLogo(file);
+          const logoUrl = await uploadBandLogo(band.id, file);
           console.log('Upload complete');
 
           // Store the URL for local display
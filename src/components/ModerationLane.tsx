@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Check, X, Loader2, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import type { SongRequest } from '../types';
+import type { ModerationDecision } from '../utils/moderation';
+
+interface ModerationLaneProps {
+  requests: SongRequest[];
+  onModerate: (id: string, decision: ModerationDecision, reason?: string) => Promise<boolean>;
+}
+
+/**
+ * Pending requests waiting for staff to approve or reject them
+ */
+export function ModerationLane({ requests, onModerate }: ModerationLaneProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Request currently being rejected, with the reason typed so far
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  const handleDecision = async (id: string, decision: ModerationDecision, rejectionReason?: string) => {
+    setBusyId(id);
+    try {
+      const success = await onModerate(id, decision, rejectionReason);
+      if (success && decision === 'rejected') {
+        setRejectingId(null);
+        setReason('');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRejectSubmit = (e: React.FormEvent, id: string) => {
+    e.preventDefault();
+    handleDecision(id, 'rejected', reason);
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="glass-effect rounded-lg p-4 space-y-3 border border-yellow-500/40">
+      <h3 className="text-lg font-semibold text-white flex items-center">
+        <ShieldCheck className="w-5 h-5 mr-2 text-yellow-400" />
+        Awaiting Approval ({requests.length})
+      </h3>
+
+      {requests.map(request => {
+        const isBusy = busyId === request.id;
+        const firstRequester = request.requesters[0];
+
+        return (
+          <div key={request.id} className="bg-neon-purple/10 rounded-lg p-3">
+            <div className="flex justify-between items-start">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-white truncate">{request.title}</p>
+                {request.artist && (
+                  <p className="text-sm text-gray-300 truncate">{request.artist}</p>
+                )}
+                <div className="flex items-center space-x-2 mt-1 text-xs text-gray-400">
+                  <Users className="w-3 h-3" />
+                  <span>
+                    {firstRequester?.name || 'Anonymous'}
+                    {request.requesters.length > 1 && ` +${request.requesters.length - 1}`}
+                  </span>
+                  <span>{format(new Date(request.createdAt), 'h:mm a')}</span>
+                </div>
+                {firstRequester?.message && (
+                  <p className="text-xs text-gray-300 italic mt-1">"{firstRequester.message}"</p>
+                )}
+              </div>
+
+              {rejectingId !== request.id && (
+                <div className="flex items-center space-x-2 ml-4">
+                  <button
+                    onClick={() => handleDecision(request.id, 'approved')}
+                    disabled={isBusy}
+                    className="p-2 rounded-lg bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+                    title="Approve"
+                  >
+                    {isBusy ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check className="w-5 h-5" />}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setRejectingId(request.id);
+                      setReason('');
+                    }}
+                    disabled={isBusy}
+                    className="p-2 rounded-lg bg-gray-700/50 text-gray-300 hover:bg-red-600 hover:text-white disabled:opacity-50"
+                    title="Reject"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {rejectingId === request.id && (
+              <form onSubmit={e => handleRejectSubmit(e, request.id)} className="flex items-center space-x-2 mt-3">
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={e => setReason(e.target.value)}
+                  maxLength={200}
+                  placeholder="Reason (optional, shown to the requester)"
+                  autoFocus
+                  className="flex-1 px-3 py-1.5 rounded bg-gray-800 border border-gray-600 text-sm text-white"
+                />
+                <button
+                  type="submit"
+                  disabled={isBusy}
+                  className="px-3 py-1.5 rounded bg-red-600 hover:bg-red-700 text-sm text-white disabled:opacity-50"
+                >
+                  {isBusy ? 'Rejecting...' : 'Reject'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setRejectingId(null)}
+                  className="px-3 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-sm text-white"
+                >
+                  Cancel
+                </button>
+              </form>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
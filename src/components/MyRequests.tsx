@@ -0,0 +1,68 @@
+import { useMemo } from 'react';
+import { Clock, XCircle } from 'lucide-react';
+import type { SongRequest } from '../types';
+
+interface MyRequestsProps {
+  requests: SongRequest[];
+  userId?: string;
+  userName: string;
+}
+
+/**
+ * The signed in audience member's requests that aren't in the public queue:
+ * ones still waiting for approval and ones the band turned down.
+ */
+export function MyRequests({ requests, userId, userName }: MyRequestsProps) {
+  const myRequests = useMemo(() => {
+    const name = userName.trim().toLowerCase();
+    if (!name) return [];
+
+    return requests.filter(request =>
+      !request.isPlayed &&
+      (request.status === 'pending' || request.status === 'rejected') &&
+      request.requesters.some(requester =>
+        // Older requests and kiosk requests aren't linked to a user
+        requester.userId ? requester.userId === userId : requester.name.toLowerCase() === name
+      )
+    );
+  }, [requests, userId, userName]);
+
+  if (myRequests.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2">
+      <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">Your requests</h3>
+      {myRequests.map(request => (
+        <div
+          key={request.id}
+          className={`rounded-lg p-3 border ${
+            request.status === 'rejected'
+              ? 'bg-red-500/10 border-red-500/30'
+              : 'bg-yellow-500/10 border-yellow-500/30'
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <div className="min-w-0">
+              <p className="font-medium text-white truncate">{request.title}</p>
+              {request.artist && <p className="text-xs text-gray-400 truncate">{request.artist}</p>}
+            </div>
+            {request.status === 'rejected' ? (
+              <span className="flex items-center text-xs text-red-300 ml-3 flex-shrink-0">
+                <XCircle className="w-4 h-4 mr-1" />
+                Not accepted
+              </span>
+            ) : (
+              <span className="flex items-center text-xs text-yellow-300 ml-3 flex-shrink-0">
+                <Clock className="w-4 h-4 mr-1" />
+                Awaiting approval
+              </span>
+            )}
+          </div>
+          {request.status === 'rejected' && request.rejectionReason && (
+            <p className="text-xs text-red-200 mt-2 italic">"{request.rejectionReason}"</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { History, Search, Users, ThumbsUp, Clock, RefreshCw, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { fetchPerformanceLog, formatWaitTime, type PerformanceLogFilters } from '../utils/performanceLog';
+import { performancesToRows } from '../utils/exporters';
+import { ExportButton } from './ExportButton';
+import { useCurrentBand } from '../contexts/BandContext';
+import type { GigEvent, PerformanceLogEntry, SetList } from '../types';
+
+interface PerformanceHistoryProps {
+  events: GigEvent[];
+  setLists: SetList[];
+}
+
+const EMPTY_FILTERS: PerformanceLogFilters = {
+  eventId: '',
+  setListId: '',
+  from: '',
+  to: ''
+};
+
+/**
+ * Every song the band has played, with when it started, how long it waited
+ * and who asked for it
+ */
+export function PerformanceHistory({ events, setLists }: PerformanceHistoryProps) {
+  const { band } = useCurrentBand();
+  const [entries, setEntries] = useState<PerformanceLogEntry[]>([]);
+  const [filters, setFilters] = useState<PerformanceLogFilters>(EMPTY_FILTERS);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await fetchPerformanceLog(band.id, filters));
+    } catch (error) {
+      console.error('Error loading performance history:', error);
+      toast.error('Failed to load performance history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [band.id, filters]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  // Title, artist and requester search runs on what's loaded
+  const visibleEntries = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return entries;
+
+    return entries.filter(entry =>
+      entry.title.toLowerCase().includes(term) ||
+      (entry.artist || '').toLowerCase().includes(term) ||
+      entry.requesters.some(requester => requester.name.toLowerCase().includes(term))
+    );
+  }, [entries, searchTerm]);
+
+  const eventName = (id?: string) => events.find(e => e.id === id)?.name;
+  const setListName = (id?: string) => setLists.find(sl => sl.id === id)?.name;
+
+  const hasFilters = Object.values(filters).some(Boolean) || !!searchTerm;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold neon-text flex items-center">
+          <History className="w-5 h-5 mr-2" />
+          Performance History
+        </h2>
+        <div className="flex items-center space-x-2">
+          <ExportButton
+            label="Export"
+            name="play history"
+            getRows={options => performancesToRows(visibleEntries, options)}
+          />
+          <button
+            onClick={loadEntries}
+            disabled={isLoading}
+            className="flex items-center px-3 py-1 text-sm text-gray-300 hover:text-white"
+          >
+            <RefreshCw className={`w-4 h-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="glass-effect rounded-lg p-4 grid grid-cols-1 md:grid-cols-5 gap-3">
+        <div className="relative md:col-span-5">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            placeholder="Search songs, artists or requesters"
+            className="input-field text-gray-800 pl-9"
+          />
+        </div>
+        <select name="eventId" value={filters.eventId} onChange={handleFilterChange} className="input-field text-gray-800">
+          <option value="">All events</option>
+          {events.map(event => (
+            <option key={event.id} value={event.id}>{event.name}</option>
+          ))}
+        </select>
+        <select name="setListId" value={filters.setListId} onChange={handleFilterChange} className="input-field text-gray-800">
+          <option value="">All set lists</option>
+          {setLists.map(sl => (
+            <option key={sl.id} value={sl.id}>{sl.name}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          name="from"
+          value={filters.from}
+          onChange={handleFilterChange}
+          className="input-field text-gray-800"
+          title="Played on or after"
+        />
+        <input
+          type="date"
+          name="to"
+          value={filters.to}
+          onChange={handleFilterChange}
+          className="input-field text-gray-800"
+          title="Played on or before"
+        />
+        <button
+          onClick={() => {
+            setFilters(EMPTY_FILTERS);
+            setSearchTerm('');
+          }}
+          disabled={!hasFilters}
+          className="px-3 py-2 text-sm text-gray-300 hover:text-white disabled:opacity-50"
+        >
+          Clear filters
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center text-gray-300">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading history...
+        </div>
+      ) : visibleEntries.length === 0 ? (
+        <div className="text-center py-8 text-gray-400 glass-effect rounded-lg">
+          {hasFilters ? 'No played songs match these filters' : 'Songs show up here once they have been played'}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-400">
+            {visibleEntries.length} song{visibleEntries.length !== 1 ? 's' : ''} played
+          </p>
+          {visibleEntries.map(entry => (
+            <div key={entry.id} className="glass-effect rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <h4 className="text-white font-medium truncate">{entry.title}</h4>
+                  {entry.artist && <p className="text-sm text-gray-300 truncate">{entry.artist}</p>}
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400 mt-1">
+                    <span className="flex items-center">
+                      <Users className="w-3 h-3 mr-1" />
+                      {entry.requesters.length}
+                    </span>
+                    <span className="flex items-center">
+                      <ThumbsUp className="w-3 h-3 mr-1" />
+                      {entry.votes}
+                    </span>
+                    <span className="flex items-center" title="Time from the first request until it was played">
+                      <Clock className="w-3 h-3 mr-1" />
+                      Waited {formatWaitTime(entry.waitSeconds)}
+                    </span>
+                    {eventName(entry.eventId) && <span>Event: {eventName(entry.eventId)}</span>}
+                    {setListName(entry.setListId) && <span>Set list: {setListName(entry.setListId)}</span>}
+                  </div>
+                </div>
+                <div className="text-right text-xs text-gray-400 flex-shrink-0 ml-4">
+                  <p className="text-white">{format(new Date(entry.startedAt || entry.playedAt), 'h:mm a')}</p>
+                  <p>{format(new Date(entry.playedAt), 'MMM d, yyyy')}</p>
+                </div>
+              </div>
+              {entry.requesters.length > 0 && (
+                <p className="text-xs text-gray-300 mt-2">
+                  Requested by {entry.requesters.map(requester => requester.name).join(', ')}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
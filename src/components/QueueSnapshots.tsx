@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Archive, RotateCcw, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  fetchQueueSnapshots,
+  restoreQueueSnapshot,
+  canRestoreSnapshot,
+  SNAPSHOT_RESTORE_HOURS
+} from '../utils/queueSnapshots';
+import { useCurrentBand } from '../contexts/BandContext';
+import type { QueueSnapshot } from '../types';
+
+interface QueueSnapshotsProps {
+  // Changes whenever the queue is reset, to reload the list
+  refreshKey?: number;
+}
+
+/**
+ * Queues archived by a reset tonight, with a way to bring them back
+ */
+export function QueueSnapshots({ refreshKey }: QueueSnapshotsProps) {
+  const { band } = useCurrentBand();
+  const [snapshots, setSnapshots] = useState<QueueSnapshot[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await fetchQueueSnapshots(band.id));
+    } catch (error) {
+      console.error('Error loading queue snapshots:', error);
+    }
+  }, [band.id]);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots, refreshKey]);
+
+  const handleRestore = async (snapshot: QueueSnapshot) => {
+    if (!window.confirm(`Restore the ${snapshot.requestCount} requests archived at ${format(new Date(snapshot.createdAt), 'h:mm a')}?`)) {
+      return;
+    }
+
+    setRestoringId(snapshot.id);
+    try {
+      await restoreQueueSnapshot(snapshot.id);
+      toast.success('Queue restored');
+      await loadSnapshots();
+    } catch (error) {
+      console.error('Error restoring queue snapshot:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore the queue');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (snapshots.length === 0) return null;
+
+  return (
+    <div className="glass-effect rounded-lg p-4 mt-6 space-y-3">
+      <h3 className="text-sm font-medium text-white flex items-center">
+        <Archive className="w-4 h-4 mr-2" />
+        Cleared Queues
+      </h3>
+      <p className="text-xs text-gray-400">
+        Queues can be restored for {SNAPSHOT_RESTORE_HOURS} hours after they are cleared.
+      </p>
+      {snapshots.map(snapshot => (
+        <div key={snapshot.id} className="flex items-center justify-between text-sm text-gray-300">
+          <span>
+            {format(new Date(snapshot.createdAt), 'h:mm a')} · {snapshot.requestCount} request{snapshot.requestCount !== 1 ? 's' : ''}
+          </span>
+          {snapshot.restoredAt ? (
+            <span className="text-xs text-gray-500">Restored {format(new Date(snapshot.restoredAt), 'h:mm a')}</span>
+          ) : canRestoreSnapshot(snapshot) && snapshot.requestCount > 0 && (
+            <button
+              onClick={() => handleRestore(snapshot)}
+              disabled={restoringId === snapshot.id}
+              className="flex items-center px-3 py-1 text-xs bg-gray-700/50 hover:bg-neon-purple/30 text-white rounded"
+            >
+              {restoringId === snapshot.id
+                ? <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                : <RotateCcw className="w-3 h-3 mr-1" />}
+              Restore
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
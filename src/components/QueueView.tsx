@@ -1,8 +1,16 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
-import { ThumbsUp, Lock, CheckCircle2, ChevronDown, ChevronUp, Users, UserCircle } from 'lucide-react';
+import { ThumbsUp, Lock, CheckCircle2, ChevronDown, ChevronUp, Users, UserCircle, Trash2, Pin, PinOff, GripVertical, SkipForward } from 'lucide-react';
 import { supabase } from '../utils/supabase';
 import { useUiSettings } from '../hooks/useUiSettings';
 import { AlbumArtDisplay } from './shared/AlbumArtDisplay';
+import { ModerationLane } from './ModerationLane';
+import { isApprovedRequest, type ModerationDecision } from '../utils/moderation';
+import { rankRequests, getRankingConfig, scoreRequest, RANKING_STRATEGIES } from '../utils/queueRanking';
+import { useRankingClock } from '../hooks/useRankingClock';
+import { getRequestStage, STAGE_LABELS } from '../utils/stages';
+import { requestsToRows, voteCountsToRows } from '../utils/exporters';
+import { SNAPSHOT_RESTORE_HOURS } from '../utils/queueSnapshots';
+import { ExportButton } from './ExportButton';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 import type { SongRequest } from '../types';
@@ -10,8 +18,19 @@ import type { SongRequest } from '../types';
 interface QueueViewProps {
   requests: SongRequest[];
   onLockRequest: (id: string) => void;
+  // Drag-and-drop reordering; position 1 is the first slot after the stage lanes
+  onPinRequest?: (id: string, position: number) => Promise<boolean>;
+  onUnpinRequest?: (id: string) => Promise<boolean>;
+  // "Next song"; gets the queued request ids in the order shown
+  onAdvanceQueue?: (queuedIds: string[]) => Promise<boolean>;
   onMarkPlayed: (id: string) => void;
   onResetQueue?: () => void;
+  onRemoveRequest?: (id: string) => void;
+  onModerateRequest?: (id: string, decision: ModerationDecision, reason?: string) => Promise<boolean>;
+  // Move songs through the stage lanes, mark as played and clear the queue
+  canManageQueue?: boolean;
+  // Approve, reject and remove individual requests
+  canModerate?: boolean;
 }
 
 const decodeTitle = (title: string) => {
@@ -22,11 +41,28 @@ const decodeTitle = (title: string) => {
   }
 };
 
-export function QueueView({ requests, onLockRequest, onMarkPlayed, onResetQueue }: QueueViewProps) {
+export function QueueView({
+  requests,
+  onLockRequest,
+  onPinRequest,
+  onUnpinRequest,
+  onAdvanceQueue,
+  onMarkPlayed,
+  onResetQueue,
+  onRemoveRequest,
+  onModerateRequest,
+  canManageQueue = true,
+  canModerate = true
+}: QueueViewProps) {
   const [lockingStates, setLockingStates] = useState<Set<string>>(new Set());
   const [expandedRequests, setExpandedRequests] = useState<Set<string>>(new Set());
   const [isResetting, setIsResetting] = useState(false);
+  const [isAdvancing, setIsAdvancing] = useState(false);
   const [optimisticLocks, setOptimisticLocks] = useState<Set<string>>(new Set());
+  // Pins set by a drag that the server hasn't echoed back yet (null = unpinned)
+  const [optimisticPins, setOptimisticPins] = useState<Map<string, number | null>>(new Map());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
   
   // Track if component is mounted
   const mountedRef = useRef<boolean>(true);
@@ -35,7 +71,7 @@ export function QueueView({ requests, onLockRequest, onMarkPlayed, onResetQueue
   const handleResetQueue = async () => {
     if (!onResetQueue) return;
     
-    if (window.confirm('Are you sure you want to clear all pending requests and votes? This will also reset any rate limits.')) {
+    if (window.confirm(`Clear the queue? Open requests and their votes are archived and can be restored for ${SNAPSHOT_RESTORE_HOURS} hours.`)) {
       setIsResetting(true);
       try {
         await onResetQueue();
@@ -79,7 +115,17 @@ export function QueueView({ requests, onLockRequest, onMarkPlayed, onResetQueue
     }
   }, [requests, optimisticLocks]);
   
+  // Any update from the server carries the real pinned positions
+  useEffect(() => {
+    setOptimisticPins(new Map());
+  }, [requests]);
+
   const { settings } = useUiSettings();
+  const rankingNow = useRankingClock();
+  const rankingConfig = useMemo(() => getRankingConfig(settings), [settings]);
+  const rankingStrategy = RANKING_STRATEGIES.find(strategy => strategy.id === rankingConfig.strategy);
+  // First come, first served ranks by time, not by a score
+  const showScores = !!rankingStrategy && rankingStrategy.weights.length > 0;
   const accentColor = settings?.frontend_accent_color || '#ff00ff';
   
   // Auto-expand requests based on UI settings
@@ -105,119 +151,94 @@ export function QueueView({ requests, onLockRequest, onMarkPlayed, onResetQueue
     })));
   }, [requests]);
 
-  // Deduplicate requests by song title and combine requesters
-  const deduplicatedRequests = useMemo(() => {
-    console.log('Deduplicating requests...');
-    const requestMap = new Map<string, SongRequest>();
-
-    requests
-      .filter(request => !request.isPlayed)
-      .forEach(request => {
-        const key = `${request.title.toLowerCase()}|${(request.artist || '').toLowerCase()}`;
-        
-        console.log(`Processing request: ${request.title}`, {
-          id: request.id,
-          hasRequesters: Array.isArray(request.requesters),
-          requestersCount: request.requesters?.length || 0,
-          firstRequester: request.requesters && request.requesters.length > 0 ? 
-            { name: request.requesters[0].name, hasMessage: !!request.requesters[0].message } : null
-        });
-        
-        if (requestMap.has(key)) {
-          const existing = requestMap.get(key)!;
-          
-          // Combine requesters, ensuring we don't have duplicates by name
-          let updateRequesters = existing.requesters ? [...existing.requesters] : [];
-          
-          if (Array.isArray(request.requesters) && request.requesters.length > 0) {
-            const existingNames = new Set(updateRequesters.map(r => r.name));
-            request.requesters.forEach(requester => {
-              if (!existingNames.has(requester.name)) {
-                updateRequesters.push(requester);
-              } else {
-                // If there's a duplicate name but this one has a message, add it anyway
-                if (requester.message) {
-                  updateRequesters.push(requester);
-                }
-              }
-            });
-          }
-          
-          requestMap.set(key, {
-            ...existing,
-            requesters: updateRequesters,
-            votes: (existing.votes || 0) + (request.votes || 0),
-            isLocked: existing.isLocked || request.isLocked
-          });
-
-          console.log(`Updated existing request: ${existing.title}`, {
-            requestersCount: updateRequesters.length
-          });
-        } else {
-          // Make sure requesters is a defined array
-          const requesters = Array.isArray(request.requesters) ? request.requesters : [];
-          
-          requestMap.set(key, {
-            ...request,
-            requesters: requesters,
-            votes: request.votes || 0
-          });
-
-          console.log(`Added new request: ${request.title}`, {
-            requestersCount: requesters.length
-          });
-        }
-      });
-
-    const result = Array.from(requestMap.values());
-    console.log('Deduplication complete. Results:', result.map(r => ({
-      title: r.title,
-      requestersCount: r.requesters?.length || 0,
-      allHaveMessages: r.requesters?.every(req => !!req.message)
-    })));
-    
-    return result;
+  // Requests waiting in the moderation lane, oldest first
+  const pendingRequests = useMemo(() => {
+    return requests
+      .filter(request => request.status === 'pending' && !request.isPlayed)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   }, [requests]);
 
-  // Sort deduplicated requests
+  const openRequests = useMemo(
+    () => requests.filter(request => !request.isPlayed && isApprovedRequest(request)),
+    [requests]
+  );
+
+  // Sort requests in the band's configured order, requests for the same song merged
   const sortedRequests = useMemo(() => {
     // Apply optimistic locks to the requests
-    const requestsWithOptimisticLocks = deduplicatedRequests.map(request => ({
-      ...request,
+    const requestsWithOptimisticLocks = openRequests.map(request => {
       // Use optimistic state if available, otherwise use database state
-      isLocked: optimisticLocks.has(request.id) ? true : 
-                optimisticLocks.size > 0 ? false : 
-                request.isLocked
-    }));
+      const isLocked = optimisticLocks.has(request.id) ? true :
+                       optimisticLocks.size > 0 ? false :
+                       request.isLocked;
+      const stage = getRequestStage(request);
+
+      return {
+        ...request,
+        isLocked,
+        // Locking moves a request into the up next lane and the old one back to the queue
+        stage: isLocked ? 'up_next' as const : stage === 'up_next' ? 'queued' as const : stage,
+        pinnedPosition: optimisticPins.has(request.id)
+          ? optimisticPins.get(request.id) ?? undefined
+          : request.pinnedPosition
+      };
+    });
     
-    return requestsWithOptimisticLocks.sort((a, b) => {
-      // Locked requests always go first
-      if (a.isLocked) return -1;
-      if (b.isLocked) return 1;
+    return rankRequests(requestsWithOptimisticLocks, rankingConfig, rankingNow);
+  }, [openRequests, optimisticLocks, optimisticPins, rankingConfig, rankingNow]);
 
-      // Calculate priority based on requester count AND votes
-      const priorityA = (a.requesters?.length || 0) + (a.votes || 0);
-      const priorityB = (b.requesters?.length || 0) + (b.votes || 0);
+  // Requests still waiting in the queue, below the stage lanes
+  const queuedRequests = useMemo(
+    () => sortedRequests.filter(request => getRequestStage(request) === 'queued'),
+    [sortedRequests]
+  );
 
-      // First compare priority (requester count + upvotes)
-      if (priorityA !== priorityB) {
-        return priorityB - priorityA;
-      }
-      
-      // If priority is the same, then compare requester count
-      const requestersA = a.requesters?.length || 0;
-      const requestersB = b.requesters?.length || 0;
-      
-      if (requestersA !== requestersB) {
-        return requestersB - requestersA;
-      }
-      
-      // If requester counts are also the same, sort by timestamp (most recent first)
-      const latestA = Math.max(...(a.requesters?.length ? a.requesters.map(r => new Date(r.timestamp).getTime()) : [new Date(a.createdAt).getTime()]));
-      const latestB = Math.max(...(b.requesters?.length ? b.requesters.map(r => new Date(r.timestamp).getTime()) : [new Date(b.createdAt).getTime()]));
-      return latestB - latestA;
-    });
-  }, [deduplicatedRequests, optimisticLocks]);
+  const canReorder = canManageQueue && !!onPinRequest;
+
+  const handleAdvance = useCallback(async () => {
+    if (!onAdvanceQueue) return;
+
+    setIsAdvancing(true);
+    try {
+      await onAdvanceQueue(queuedRequests.map(request => request.id));
+    } finally {
+      if (mountedRef.current) setIsAdvancing(false);
+    }
+  }, [onAdvanceQueue, queuedRequests]);
+
+  // Dropping a request on another one pins it at that request's slot
+  const handleDrop = useCallback(async (targetId: string) => {
+    const draggedId = draggingId;
+    setDraggingId(null);
+    setDragOverId(null);
+    if (!onPinRequest || !draggedId || draggedId === targetId) return;
+
+    const position = Math.max(queuedRequests.findIndex(request => request.id === targetId), 0) + 1;
+
+    setOptimisticPins(prev => new Map(prev).set(draggedId, position));
+    const success = await onPinRequest(draggedId, position);
+    if (!success && mountedRef.current) {
+      setOptimisticPins(prev => {
+        const next = new Map(prev);
+        next.delete(draggedId);
+        return next;
+      });
+    }
+  }, [draggingId, onPinRequest, queuedRequests]);
+
+  const handleUnpin = useCallback(async (id: string) => {
+    if (!onUnpinRequest) return;
+
+    setOptimisticPins(prev => new Map(prev).set(id, null));
+    const success = await onUnpinRequest(id);
+    if (!success && mountedRef.current) {
+      setOptimisticPins(prev => {
+        const next = new Map(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  }, [onUnpinRequest]);
 
   const handleLockRequest = useCallback(async (id: string) => {
     if (!mountedRef.current) return;
@@ -270,7 +291,7 @@ export function QueueView({ requests, onLockRequest, onMarkPlayed, onResetQueue
       }, 300);
       
       // Show success toast
-      toast.success(newLockedState ? 'Request locked as next song' : 'Request unlocked');
+      toast.success(newLockedState ? 'Request set as up next' : 'Request moved back to the queue');
     } catch (error) {
       console.error('❌ Error updating lock status:', error);
       
@@ -313,9 +334,38 @@ export function QueueView({ requests, onLockRequest, onMarkPlayed, onResetQueue
         <h2 className="text-xl font-semibold neon-text">Request Queue</h2>
         <div className="flex items-center space-x-4">
           <div className="text-sm text-gray-400">
-          Priority = Requesters + Upvotes
+          Ranked by {rankingStrategy?.label}
           </div>
-          {onResetQueue && (
+          {sortedRequests.length > 0 && (
+            <>
+              <ExportButton
+                label="Queue"
+                name="queue"
+                getRows={options => requestsToRows(sortedRequests, options)}
+                supportsPhotos
+              />
+              <ExportButton
+                label="Votes"
+                name="queue votes"
+                getRows={() => voteCountsToRows(sortedRequests)}
+                supportsAnonymize={false}
+              />
+            </>
+          )}
+          {onAdvanceQueue && canManageQueue && (
+            <button
+              onClick={handleAdvance}
+              disabled={isAdvancing}
+              className={`px-4 py-2 text-sm font-medium text-white bg-neon-pink hover:bg-neon-pink/80 rounded-md transition-colors flex items-center ${
+                isAdvancing ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+              title="Finish the current song and move every lane up one"
+            >
+              <SkipForward className="w-4 h-4 mr-1" />
+              {isAdvancing ? 'Advancing...' : 'Next Song'}
+            </button>
+          )}
+          {onResetQueue && canManageQueue && (
             <button
               onClick={handleResetQueue}
               disabled={isResetting}
@@ -329,6 +379,10 @@ export function QueueView({ requests, onLockRequest, onMarkPlayed, onResetQueue
         </div>
       </div>
 
+      {onModerateRequest && canModerate && (
+        <ModerationLane requests={pendingRequests} onModerate={onModerateRequest} />
+      )}
+
       <div className="grid gap-1">
         {sortedRequests.map((request) => {
           const isLocking = lockingStates.has(request.id);
@@ -340,17 +394,39 @@ export function QueueView({ requests, onLockRequest, onMarkPlayed, onResetQueue
           const hasRequesters = Array.isArray(request.requesters) && request.requesters.length > 0;
           // Get actual requester count, ensuring it's at least 1
           const requesterCount = Math.max(hasRequesters ? request.requesters.length : 0, 1);
-          // Calculate priority as sum of requesters and votes
-          const priority = requesterCount + (request.votes || 0);
+          // The score the queue is ranked by, if the strategy scores at all
+          const score = showScores ? Math.round(scoreRequest(request, rankingConfig, rankingNow) * 10) / 10 : null;
           // Check if this request is currently expanded
           const isExpanded = expandedRequests.has(request.id);
+          const stage = getRequestStage(request);
+          const isQueued = stage === 'queued';
+          const isDraggable = canReorder && isQueued && !displayLocked;
           
           return (
             <div
               key={request.id}
+              draggable={isDraggable}
+              onDragStart={isDraggable ? (e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggingId(request.id);
+              } : undefined}
+              onDragEnd={() => {
+                setDraggingId(null);
+                setDragOverId(null);
+              }}
+              onDragOver={draggingId ? (e) => {
+                e.preventDefault();
+                if (dragOverId !== request.id) setDragOverId(request.id);
+              } : undefined}
+              onDrop={draggingId ? (e) => {
+                e.preventDefault();
+                handleDrop(request.id);
+              } : undefined}
               className={`glass-effect rounded-lg p-4 transition-all duration-300 ${
                 displayLocked ? 'request-locked' : ''
-              }`}
+              } ${draggingId === request.id ? 'opacity-50' : ''} ${
+                dragOverId === request.id && draggingId !== request.id ? 'ring-2 ring-neon-pink' : ''
+              } ${isDraggable ? 'cursor-move' : ''}`}
               style={{
                 ...(displayLocked && {
                   borderColor: accentColor,
@@ -362,6 +438,9 @@ export function QueueView({ requests, onLockRequest, onMarkPlayed, onResetQueue
             >
               <div className="flex flex-col">
                 <div className="flex justify-between items-start">
+                  {isDraggable && (
+                    <GripVertical className="w-4 h-4 text-gray-500 mr-2 mt-1 flex-shrink-0" />
+                  )}
                   <div className="flex-1 min-w-0">
                     <h3 className="text-base md:text-lg font-semibold text-white truncate">
                       {decodeTitle(request.title)}
@@ -370,6 +449,14 @@ export function QueueView({ requests, onLockRequest, onMarkPlayed, onResetQueue
                       <p className="text-gray-300 text-sm truncate">{request.artist}</p>
                     )}
                     <div className="flex items-center space-x-2 mt-0.5">
+                      {!isQueued && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-xs font-bold text-white"
+                          style={{ backgroundColor: stage === 'now_playing' ? accentColor : `${accentColor}60` }}
+                        >
+                          {STAGE_LABELS[stage]}
+                        </span>
+                      )}
                       <div className="flex items-center space-x-1 text-xs text-gray-400">
                         <Users className="w-3 h-3" />
                         <span>{requesterCount}</span>
@@ -378,40 +465,76 @@ export function QueueView({ requests, onLockRequest, onMarkPlayed, onResetQueue
                         <ThumbsUp className="w-3 h-3" />
                         <span>{request.votes || 0}</span>
                       </div>
-                      <div className="text-xs text-neon-pink">
-                        Priority: {priority}
-                      </div>
+                      {score !== null && (
+                        <div className="text-xs text-neon-pink">
+                          Score: {score}
+                        </div>
+                      )}
+                      {request.pinnedPosition && isQueued && (
+                        <div className="flex items-center space-x-1 text-xs text-yellow-300">
+                          <Pin className="w-3 h-3" />
+                          <span>#{request.pinnedPosition}</span>
+                          {canReorder && onUnpinRequest && (
+                            <button
+                              onClick={() => handleUnpin(request.id)}
+                              className="ml-1 text-gray-400 hover:text-white"
+                              title="Return to automatic order"
+                            >
+                              <PinOff className="w-3 h-3" />
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center space-x-2 ml-4">
-                    <button
-                      onClick={() => handleLockRequest(request.id)}
-                      disabled={isLocking}
-                     className={`p-2 rounded-lg transition-all duration-200 flex items-center ${
-                        displayLocked
-                         ? 'bg-neon-pink text-white shadow-glow'
-                         : 'bg-gray-700/50 text-gray-300 hover:bg-neon-pink/30 hover:text-white'
-                     } ${isLocking ? 'animate-pulse' : ''}`}
-                      title={displayLocked ? 'Unlock' : 'Lock as Next Song'}
-                      style={displayLocked ? {
-                       animation: 'pulse 2s ease-in-out infinite'
-                      } : undefined}
-                    >
-                     <Lock className={`w-5 h-5 ${isLocking ? 'animate-spin' : ''} mr-1`} />
-                      {isOptimisticallyLocked && !isActuallyLocked && (
-                        <span className="absolute -top-1 -right-1 w-3 h-3 bg-yellow-400 rounded-full animate-pulse" />
-                      )}
-                    </button>
-                    <button
-                      onClick={() => onMarkPlayed(request.id)}
-                      className="p-2 rounded-lg transition-all duration-200 flex items-center bg-red-500 text-white hover:bg-red-600 shadow-lg"
-                      style={{
-                        boxShadow: '0 0 15px rgba(239, 68, 68, 0.5)',
-                      }}
-                      title="Mark as Played"
-                    >
-                      <CheckCircle2 className="w-5 h-5" />
-                    </button>
+                    {canManageQueue && (
+                      <>
+                        {stage !== 'now_playing' && (
+                          <button
+                            onClick={() => handleLockRequest(request.id)}
+                            disabled={isLocking}
+                           className={`p-2 rounded-lg transition-all duration-200 flex items-center ${
+                              displayLocked
+                               ? 'bg-neon-pink text-white shadow-glow'
+                               : 'bg-gray-700/50 text-gray-300 hover:bg-neon-pink/30 hover:text-white'
+                           } ${isLocking ? 'animate-pulse' : ''}`}
+                            title={displayLocked ? 'Back to Queue' : 'Set as Up Next'}
+                            style={displayLocked ? {
+                             animation: 'pulse 2s ease-in-out infinite'
+                            } : undefined}
+                          >
+                           <Lock className={`w-5 h-5 ${isLocking ? 'animate-spin' : ''} mr-1`} />
+                            {isOptimisticallyLocked && !isActuallyLocked && (
+                              <span className="absolute -top-1 -right-1 w-3 h-3 bg-yellow-400 rounded-full animate-pulse" />
+                            )}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => onMarkPlayed(request.id)}
+                          className="p-2 rounded-lg transition-all duration-200 flex items-center bg-red-500 text-white hover:bg-red-600 shadow-lg"
+                          style={{
+                            boxShadow: '0 0 15px rgba(239, 68, 68, 0.5)',
+                          }}
+                          title="Mark as Played"
+                        >
+                          <CheckCircle2 className="w-5 h-5" />
+                        </button>
+                      </>
+                    )}
+                    {onRemoveRequest && canModerate && (
+                      <button
+                        onClick={() => {
+                          if (window.confirm('Remove this request from the queue?')) {
+                            onRemoveRequest(request.id);
+                          }
+                        }}
+                        className="p-2 rounded-lg transition-all duration-200 flex items-center bg-gray-700/50 text-gray-300 hover:bg-red-600 hover:text-white"
+                        title="Remove Request"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Timer, Plus, Trash2, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { fetchRequestCaps, saveRequestCap, deleteRequestCap } from '../utils/requestRules';
+import { collectTags } from '../utils/songMetadata';
+import { useCurrentBand } from '../contexts/BandContext';
+import type { RequestCap, Song } from '../types';
+
+interface RequestCapsManagerProps {
+  songs: Song[];
+}
+
+const EMPTY_CAP = { tag: '', maxRequests: '1', windowMinutes: '60' };
+
+/**
+ * Per-band caps on songs with a tag or genre, e.g. one "Slow" song per hour
+ */
+export function RequestCapsManager({ songs }: RequestCapsManagerProps) {
+  const { band } = useCurrentBand();
+  const [caps, setCaps] = useState<RequestCap[] | null>(null);
+  const [newCap, setNewCap] = useState(EMPTY_CAP);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // Caps can use any tag or genre in the library
+  const tagOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    [...collectTags(songs, 'tag'), ...collectTags(songs, 'genre')].forEach(name => {
+      if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+    });
+    return Array.from(names.values()).sort((a, b) => a.localeCompare(b));
+  }, [songs]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchRequestCaps(band.id)
+      .then(loaded => {
+        if (!cancelled) setCaps(loaded);
+      })
+      .catch(error => {
+        console.error('Error loading request caps:', error);
+        if (!cancelled) toast.error('Failed to load song caps');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [band.id]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setNewCap(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!caps) return;
+
+    const maxRequests = parseInt(newCap.maxRequests, 10);
+    const windowMinutes = parseInt(newCap.windowMinutes, 10);
+    if (!newCap.tag.trim() || !(maxRequests > 0) || !(windowMinutes > 0)) {
+      toast.error('Pick a tag and enter a number of songs and minutes');
+      return;
+    }
+
+    // One cap per tag; adding it again changes the existing one
+    const existing = caps.find(cap => cap.tag.toLowerCase() === newCap.tag.trim().toLowerCase());
+
+    setIsSaving(true);
+    try {
+      const saved = await saveRequestCap(band.id, {
+        id: existing?.id,
+        tag: newCap.tag,
+        maxRequests,
+        windowMinutes
+      });
+      setCaps(prev => [...(prev || []).filter(cap => cap.id !== saved.id), saved]
+        .sort((a, b) => a.tag.localeCompare(b.tag)));
+      setNewCap(EMPTY_CAP);
+      toast.success(existing ? `Cap for "${saved.tag}" updated` : `Cap for "${saved.tag}" added`);
+    } catch (error) {
+      console.error('Error saving request cap:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save song cap');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (cap: RequestCap) => {
+    setDeletingId(cap.id);
+    try {
+      await deleteRequestCap(cap.id);
+      setCaps(prev => (prev || []).filter(c => c.id !== cap.id));
+    } catch (error) {
+      console.error('Error deleting request cap:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove song cap');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (!caps) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="w-6 h-6 animate-spin text-neon-pink" />
+        <span className="ml-2 text-white">Loading song caps...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-effect rounded-lg p-6 space-y-4">
+      <h3 className="text-lg font-medium text-white flex items-center">
+        <Timer className="w-5 h-5 mr-2" />
+        Song Caps
+      </h3>
+      <p className="text-xs text-gray-400">
+        Limit how many songs with a tag or genre can be requested in a stretch of time. Once a cap is
+        reached, those songs can't be added to the queue until the window passes, but people can still
+        join requests that are already in it.
+      </p>
+
+      {caps.length === 0 ? (
+        <p className="text-sm text-gray-400">No caps yet</p>
+      ) : (
+        <ul className="divide-y divide-neon-purple/10">
+          {caps.map(cap => (
+            <li key={cap.id} className="flex items-center justify-between py-2 text-sm text-white">
+              <span>
+                At most <strong>{cap.maxRequests}</strong> "{cap.tag}" song{cap.maxRequests === 1 ? '' : 's'} every{' '}
+                <strong>{cap.windowMinutes}</strong> minutes
+              </span>
+              <button
+                onClick={() => handleDelete(cap)}
+                disabled={deletingId === cap.id}
+                className="p-2 text-red-400 hover:text-red-300"
+                title="Remove cap"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium text-white mb-2">Tag or genre</label>
+          <input
+            name="tag"
+            list="request-cap-tags"
+            value={newCap.tag}
+            onChange={handleChange}
+            placeholder="Slow"
+            className="input-field text-gray-800"
+          />
+          <datalist id="request-cap-tags">
+            {tagOptions.map(tag => (
+              <option key={tag} value={tag} />
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white mb-2">Songs</label>
+          <input
+            type="number"
+            name="maxRequests"
+            min={1}
+            value={newCap.maxRequests}
+            onChange={handleChange}
+            className="input-field text-gray-800 w-24"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white mb-2">Every (minutes)</label>
+          <input
+            type="number"
+            name="windowMinutes"
+            min={1}
+            value={newCap.windowMinutes}
+            onChange={handleChange}
+            className="input-field text-gray-800 w-28"
+          />
+        </div>
+        <button type="submit" disabled={isSaving} className="neon-button flex items-center">
+          {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Save Cap
+        </button>
+      </form>
+    </div>
+  );
+}
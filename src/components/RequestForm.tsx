@@ -1,12 +1,18 @@
 import React, { useState } from 'react';
 import { Music } from 'lucide-react';
-import type { RequestFormData } from '../types';
+import toast from 'react-hot-toast';
+import { submitSongRequest } from '../utils/requestSubmission';
+import { generateDefaultAvatar } from '../utils/photoStorage';
+import { useCurrentBand } from '../contexts/BandContext';
+import type { RequestFormData, SongRequest } from '../types';
 
 interface RequestFormProps {
-  onSubmit: (data: RequestFormData) => void;
+  onSubmitted?: (request: SongRequest) => void;
 }
 
-export function RequestForm({ onSubmit }: RequestFormProps) {
+export function RequestForm({ onSubmitted }: RequestFormProps) {
+  const { band } = useCurrentBand();
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState<RequestFormData>({
     title: '',
     artist: '',
@@ -15,10 +21,27 @@ export function RequestForm({ onSubmit }: RequestFormProps) {
     message: '',
   });
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
-    setFormData({ title: '', artist: '', requestedBy: '', userPhoto: '', message: '' });
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      const request = await submitSongRequest(band.id, {
+        ...formData,
+        userPhoto: formData.userPhoto || generateDefaultAvatar(formData.requestedBy.trim())
+      });
+      setFormData({ title: '', artist: '', requestedBy: '', userPhoto: '', message: '' });
+      toast.success(request.status === 'pending'
+        ? `"${request.title}" was sent to the band for approval`
+        : `"${request.title}" has been added to the queue!`);
+      onSubmitted?.(request);
+    } catch (error) {
+      console.error('Error submitting request:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit request. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -77,10 +100,11 @@ export function RequestForm({ onSubmit }: RequestFormProps) {
       </div>
       <button
         type="submit"
+        disabled={isSubmitting}
         className="neon-button w-full flex items-center justify-center"
       >
         <Music className="w-4 h-4 mr-2" />
-        Submit Request
+        {isSubmitting ? 'Submitting...' : 'Submit Request'}
       </button>
     </form>
   );
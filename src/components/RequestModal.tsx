@@ -3,6 +3,7 @@ import { X, AlertTriangle, Music, User } from 'lucide-react';
 import { AlbumArtDisplay } from './shared/AlbumArtDisplay';
 import type { Song, User as UserType } from '../types';
 import { usePhotoStorage } from '../hooks/usePhotoStorage';
+import { RequestSubmissionError } from '../utils/requestSubmission';
 import toast from 'react-hot-toast';
 
 interface RequestModalProps {
@@ -114,7 +115,9 @@ export function RequestModal({
       
       let errorMessage = 'Failed to submit request. Please try again.';
       
-      if (error instanceof Error) {
+      if (error instanceof RequestSubmissionError) {
+        errorMessage = error.message;
+      } else if (error instanceof Error) {
         if (error.message.includes('rate limit')) {
           errorMessage = 'Too many requests. Please try again in a moment.';
         } else if (error.message.includes('duplicate') || error.message.includes('already requested')) {
@@ -195,8 +198,8 @@ export function RequestModal({
                 {song.artist && (
                   <p className="text-gray-300 truncate">by {song.artist}</p>
                 )}
-                {song.genre && (
-                  <p className="text-gray-400 text-sm truncate">{song.genre}</p>
+                {song.genres.length > 0 && (
+                  <p className="text-gray-400 text-sm truncate">{song.genres.join(', ')}</p>
                 )}
               </div>
             </div>
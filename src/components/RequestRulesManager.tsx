@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge, Save, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { fetchRequestRules, saveRequestRules } from '../utils/requestRules';
+import { useCurrentBand } from '../contexts/BandContext';
+import type { RequestRules } from '../types';
+
+type RuleField = keyof RequestRules;
+
+const RULE_FIELDS: { field: RuleField; label: string; help: string }[] = [
+  {
+    field: 'maxActivePerUser',
+    label: 'Active requests per person',
+    help: 'How many unplayed requests one person can have during an event'
+  },
+  {
+    field: 'minRequestGapMinutes',
+    label: 'Minutes between requests',
+    help: 'How long one person has to wait before making another request'
+  },
+  {
+    field: 'songCooldownMinutes',
+    label: 'Song cooldown (minutes)',
+    help: 'How long after a song is played before it can be requested again'
+  }
+];
+
+// Inputs are kept as text so a cleared field means "no limit"
+type RuleInputs = Record<RuleField, string>;
+
+const toInputs = (rules: RequestRules): RuleInputs => ({
+  maxActivePerUser: rules.maxActivePerUser?.toString() ?? '',
+  minRequestGapMinutes: rules.minRequestGapMinutes?.toString() ?? '',
+  songCooldownMinutes: rules.songCooldownMinutes?.toString() ?? ''
+});
+
+const parseLimit = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Per-band limits on how often the audience can request songs
+ */
+export function RequestRulesManager() {
+  const { band } = useCurrentBand();
+  const [inputs, setInputs] = useState<RuleInputs | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchRequestRules(band.id)
+      .then(rules => {
+        if (!cancelled) setInputs(toInputs(rules));
+      })
+      .catch(error => {
+        console.error('Error loading request rules:', error);
+        if (!cancelled) toast.error('Failed to load request rules');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [band.id]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setInputs(prev => (prev ? { ...prev, [name]: value } : prev));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inputs) return;
+
+    const rules: RequestRules = {
+      maxActivePerUser: parseLimit(inputs.maxActivePerUser),
+      minRequestGapMinutes: parseLimit(inputs.minRequestGapMinutes),
+      songCooldownMinutes: parseLimit(inputs.songCooldownMinutes)
+    };
+
+    setIsSaving(true);
+    try {
+      await saveRequestRules(band.id, rules);
+      setInputs(toInputs(rules));
+      toast.success('Request rules saved');
+    } catch (error) {
+      console.error('Error saving request rules:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save request rules');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!inputs) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="w-6 h-6 animate-spin text-neon-pink" />
+        <span className="ml-2 text-white">Loading request rules...</span>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="glass-effect rounded-lg p-6 space-y-4">
+      <h3 className="text-lg font-medium text-white flex items-center">
+        <Gauge className="w-5 h-5 mr-2" />
+        Request Limits
+      </h3>
+      <p className="text-xs text-gray-400">
+        Leave a field empty for no limit. Limits apply on every device, so refreshing or switching phones doesn't reset them.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {RULE_FIELDS.map(({ field, label, help }) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-white mb-2">{label}</label>
+            <input
+              type="number"
+              name={field}
+              min={1}
+              value={inputs[field]}
+              onChange={handleChange}
+              placeholder="No limit"
+              className="input-field text-gray-800"
+            />
+            <p className="text-xs text-gray-400 mt-1">{help}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <button type="submit" disabled={isSaving} className="neon-button flex items-center">
+          {isSaving ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="w-4 h-4 mr-2" />
+              Save Limits
+            </>
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,6 +1,8 @@
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { Plus, Save, Trash2, Music4, Check, Edit2, X, Search, Loader2, Play, AlertCircle, Filter, Tags, ChevronDown, ChevronUp } from 'lucide-react';
 import { supabase } from '../utils/supabase';
+import { collectTags } from '../utils/songMetadata';
+import { createSongSearchIndex, searchSongs } from '../utils/songSearch';
 import type { Song, SetList } from '../types';
 
 interface SetListManagerProps {
@@ -35,29 +37,12 @@ export function SetListManager({
   const [isCreatingByGenre, setIsCreatingByGenre] = useState(false);
   const [selectedGenres, setSelectedGenres] = useState<string[]>([]);
 
-  const availableGenres = useMemo(() => {
-    const genreSet = new Set<string>();
-    
-    songs.forEach(song => {
-      if (song.genre) {
-        song.genre.split(',').forEach(genre => {
-          genreSet.add(genre.trim());
-        });
-      }
-    });
-    
-    return Array.from(genreSet).sort();
-  }, [songs]);
+  const availableGenres = useMemo(() => collectTags(songs, 'genre'), [songs]);
 
   const songsByGenre = useMemo(() => {
     if (selectedGenres.length === 0) return [];
     
-    return songs.filter(song => {
-      if (!song.genre) return false;
-      
-      const songGenres = song.genre.split(',').map(g => g.trim());
-      return selectedGenres.some(genre => songGenres.includes(genre));
-    });
+    return songs.filter(song => selectedGenres.some(genre => song.genres.includes(genre)));
   }, [songs, selectedGenres]);
 
   const toggleGenreSelection = useCallback((genre: string) => {
@@ -68,20 +53,11 @@ export function SetListManager({
     );
   }, []);
 
-  const filteredSongs = useMemo(() => {
-    let songsToFilter = isCreatingByGenre ? songsByGenre : songs;
-    
-    if (!searchTerm.trim()) return songsToFilter;
-    
-    const searchLower = searchTerm.toLowerCase();
-    return songsToFilter.filter(song => {
-      return (
-        song.title.toLowerCase().includes(searchLower) ||
-        song.artist.toLowerCase().includes(searchLower) ||
-        (song.genre?.toLowerCase() || '').includes(searchLower)
-      );
-    });
-  }, [songs, songsByGenre, searchTerm, isCreatingByGenre]);
+  const searchIndex = useMemo(
+    () => createSongSearchIndex(isCreatingByGenre ? songsByGenre : songs),
+    [songs, songsByGenre, isCreatingByGenre]
+  );
+  const filteredSongs = useMemo(() => searchSongs(searchIndex, searchTerm), [searchIndex, searchTerm]);
 
   const toggleSongSelection = useCallback((song: Song) => {
     console.log('Toggling song selection:', song.title, 'Has album art:', !!song.albumArtUrl);
@@ -184,15 +160,13 @@ export function SetListManager({
     }
   };
 
-  const renderGenres = (genreString: string) => {
-    if (!genreString) return null;
-    
-    return genreString.split(',').map((genre, index) => (
+  const renderGenres = (genres: string[]) => {
+    return genres.map(genre => (
       <span 
-        key={index} 
+        key={genre} 
         className="inline-block px-1.5 py-0.5 mr-1 mb-1 text-xs rounded-full bg-neon-purple/20 text-gray-300"
       >
-        {genre.trim()}
+        {genre}
       </span>
     ));
   };
@@ -354,7 +328,7 @@ export function SetListManager({
                         <p className="font-medium text-white">{song.title}</p>
                         <p className="text-sm text-gray-300">{song.artist}</p>
                         <div className="flex flex-wrap gap-1 mt-1">
-                          {renderGenres(song.genre)}
+                          {renderGenres(song.genres)}
                         </div>
                       </div>
                     </div>
@@ -582,14 +556,14 @@ export function SetListManager({
                           <div>
                             <span className="font-medium text-white">{song.title}</span>
                             <p className="text-sm text-gray-300">{song.artist}</p>
-                            {song.genre && (
+                            {song.genres.length > 0 && (
                               <div className="flex flex-wrap gap-1 mt-1">
-                                {song.genre.split(',').map((genre, i) => (
+                                {song.genres.map(genre => (
                                   <span 
-                                    key={i} 
+                                    key={genre} 
                                     className="inline-block px-1.5 py-0.5 text-xs rounded-full bg-neon-purple/20 text-gray-300"
                                   >
-                                    {genre.trim()}
+                                    {genre}
                                   </span>
                                 ))}
                               </div>
@@ -1,7 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { Save, Upload, Loader2, QrCode } from 'lucide-react';
+import { Save, Upload, Loader2, QrCode, ShieldCheck, ListOrdered } from 'lucide-react';
 import { LogoUploader } from './LogoUploader';
 import { useUiSettings } from '../hooks/useUiSettings';
+import {
+  getRankingConfig,
+  RANKING_STRATEGIES,
+  type RankingStrategy,
+  type RankingWeights
+} from '../utils/queueRanking';
+
+const WEIGHT_LABELS: Record<keyof RankingWeights, string> = {
+  votes: 'Points per vote',
+  requesters: 'Points per requester',
+  messages: 'Points per message',
+  age: 'Points for waiting',
+  ageMinutes: 'Waiting period (minutes)'
+};
 
 export function SettingsManager() {
   const { settings, loading = false, initialized = true, updateSettings } = useUiSettings();
@@ -9,6 +23,9 @@ export function SettingsManager() {
   const [primaryColor, setPrimaryColor] = useState(settings?.primary_color || '#ff00ff');
   const [secondaryColor, setSecondaryColor] = useState(settings?.secondary_color || '#9d00ff');
   const [showQrCode, setShowQrCode] = useState(settings?.show_qr_code || false);
+  const [moderationEnabled, setModerationEnabled] = useState(settings?.moderation_enabled || false);
+  const [rankingStrategy, setRankingStrategy] = useState<RankingStrategy>(getRankingConfig(settings).strategy);
+  const [rankingWeights, setRankingWeights] = useState<RankingWeights>(getRankingConfig(settings).weights);
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
@@ -20,6 +37,10 @@ export function SettingsManager() {
       setPrimaryColor(settings.primary_color || '#ff00ff');
       setSecondaryColor(settings.secondary_color || '#9d00ff');
       setShowQrCode(settings.show_qr_code || false);
+      setModerationEnabled(settings.moderation_enabled || false);
+      const ranking = getRankingConfig(settings);
+      setRankingStrategy(ranking.strategy);
+      setRankingWeights(ranking.weights);
     }
   }, [settings]);
 
@@ -39,6 +60,10 @@ export function SettingsManager() {
         throw new Error('Secondary color must be a valid hex color (e.g., #9d00ff)');
       }
 
+      if (rankingWeights.ageMinutes <= 0) {
+        throw new Error('Waiting period must be at least 1 minute');
+      }
+
       // Validate band name
       if (!bandName.trim()) {
         throw new Error('Band name cannot be empty');
@@ -54,6 +79,9 @@ export function SettingsManager() {
         primary_color: primaryColor,
         secondary_color: secondaryColor,
         show_qr_code: showQrCode,
+        moderation_enabled: moderationEnabled,
+        queue_ranking_strategy: rankingStrategy,
+        queue_ranking_weights: rankingWeights,
         // Force timestamp update to ensure changes are picked up
         updated_at: new Date().toISOString()
       });
@@ -190,6 +218,83 @@ export function SettingsManager() {
           </p>
         </div>
         
+        <div className="border-t border-gray-700 pt-4">
+          <h4 className="text-md font-medium text-white mb-3 flex items-center">
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            Request Moderation
+          </h4>
+          
+          <div className="flex items-center space-x-2">
+            <label className="flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={moderationEnabled}
+                onChange={(e) => setModerationEnabled(e.target.checked)}
+                className="sr-only"
+              />
+              <div className={`relative inline-block w-10 h-5 rounded-full transition-colors ${moderationEnabled ? 'bg-neon-pink' : 'bg-gray-600'}`}>
+                <span 
+                  className={`inline-block w-4 h-4 transform transition-transform bg-white rounded-full ${
+                    moderationEnabled ? 'translate-x-6' : 'translate-x-1'
+                  }`} 
+                  style={{ 
+                    top: '0.125rem',
+                    position: 'relative'
+                  }}
+                />
+              </div>
+              <span className="ml-2 text-sm text-white">
+                Approve requests before they go public
+              </span>
+            </label>
+          </div>
+          <p className="text-xs text-gray-400 mt-1 ml-12">
+            New requests wait in the queue's approval lane until staff approve or reject them
+          </p>
+        </div>
+
+        <div className="border-t border-gray-700 pt-4">
+          <h4 className="text-md font-medium text-white mb-3 flex items-center">
+            <ListOrdered className="w-4 h-4 mr-2" />
+            Queue Order
+          </h4>
+
+          <select
+            value={rankingStrategy}
+            onChange={(e) => setRankingStrategy(e.target.value as RankingStrategy)}
+            className="input-field text-gray-800"
+          >
+            {RANKING_STRATEGIES.map(strategy => (
+              <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-400 mt-1">
+            {RANKING_STRATEGIES.find(strategy => strategy.id === rankingStrategy)?.description}.
+            The admin queue, the audience page and the kiosk all use this order.
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mt-4">
+            {RANKING_STRATEGIES.find(strategy => strategy.id === rankingStrategy)?.weights.map(weight => (
+              <div key={weight}>
+                <label className="block text-sm font-medium text-white mb-2">
+                  {WEIGHT_LABELS[weight]}
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step={weight === 'ageMinutes' ? 1 : 0.5}
+                  value={rankingWeights[weight]}
+                  onChange={(e) => setRankingWeights(prev => ({
+                    ...prev,
+                    [weight]: Math.max(0, parseFloat(e.target.value) || 0)
+                  }))}
+                  className="input-field text-gray-800"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+        
         <div className="flex justify-end">
           <button
             type="submit"
@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { supabase } from '../utils/supabase';
-import { searchITunes } from '../utils/itunes';
+import { DEFAULT_ALBUM_ART } from '../utils/itunes';
+import { fetchSongMetadata, fillMissingMetadata, needsEnrichment } from '../utils/songEnrichment';
+import { useCurrentBand } from '../contexts/BandContext';
+import { SONG_COLUMNS, formatSong, setSongAliases, setSongTags, splitTagInput, toSongRow } from '../utils/songMetadata';
+import { formatDuration, parseDuration } from '../utils/songImport';
 import type { Song } from '../types';
 
 interface SongEditorModalProps {
@@ -12,109 +17,147 @@ interface SongEditorModalProps {
   onAdd: (song: Omit<Song, 'id'>) => void;
 }
 
+// Form fields as typed; numbers and lists are parsed on save
+interface SongFormData {
+  title: string;
+  artist: string;
+  genres: string;
+  tags: string;
+  // One per line
+  aliases: string;
+  key: string;
+  notes: string;
+  albumArtUrl: string;
+  duration: string;
+  tempoBpm: string;
+  leadVocalist: string;
+  capo: string;
+  tuning: string;
+  isExplicit: boolean;
+  isRequestable: boolean;
+}
+
+const toFormData = (song?: Song | null): SongFormData => ({
+  title: song?.title || '',
+  artist: song?.artist || '',
+  genres: song?.genres.join(', ') || '',
+  tags: song?.tags.join(', ') || '',
+  aliases: song?.aliases?.join('\n') || '',
+  key: song?.key || '',
+  notes: song?.notes || '',
+  albumArtUrl: song?.albumArtUrl || '',
+  duration: song?.durationSeconds !== undefined ? formatDuration(song.durationSeconds) : '',
+  tempoBpm: song?.tempoBpm?.toString() || '',
+  leadVocalist: song?.leadVocalist || '',
+  capo: song?.capo ? song.capo.toString() : '',
+  tuning: song?.tuning || '',
+  isExplicit: song?.isExplicit ?? false,
+  isRequestable: song?.isRequestable ?? true
+});
+
+const toNumber = (value: string) => (value.trim() ? parseInt(value, 10) : undefined);
+
 export function SongEditorModal({ isOpen, onClose, song, onSave, onAdd }: SongEditorModalProps) {
+  const { band } = useCurrentBand();
   const [isProcessing, setIsProcessing] = useState(false);
-  const [formData, setFormData] = useState<Omit<Song, 'id'>>({
-    title: '',
-    artist: '',
-    genre: '',
-    key: '',
-    notes: '',
-    albumArtUrl: '',
-  });
+  const [formData, setFormData] = useState<SongFormData>(toFormData());
 
   // Update form data when song prop changes
   useEffect(() => {
-    if (song) {
-      setFormData({
-        title: song.title,
-        artist: song.artist,
-        genre: song.genre || '',
-        key: song.key || '',
-        notes: song.notes || '',
-        albumArtUrl: song.albumArtUrl || '',
-      });
-    } else {
-      setFormData({
-        title: '',
-        artist: '',
-        genre: '',
-        key: '',
-        notes: '',
-        albumArtUrl: '',
-      });
-    }
+    setFormData(toFormData(song));
   }, [song]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
-    
-    if (name === 'genre') {
-      const formattedValue = value
-        .replace(/\s+/g, ' ')
-        .replace(/\s*,\s*/g, ', ')
-        .replace(/^,\s*/, '')
-        .replace(/\s*,$/, '');
-      
-      setFormData(prev => ({
-        ...prev,
-        [name]: formattedValue
-      }));
-    } else {
-      setFormData(prev => ({
-        ...prev,
-        [name]: value
-      }));
-    }
+    const checked = e.target instanceof HTMLInputElement && e.target.type === 'checkbox'
+      ? e.target.checked
+      : undefined;
+
+    setFormData(prev => ({
+      ...prev,
+      [name]: checked ?? value
+    }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const durationSeconds = parseDuration(formData.duration);
+    if (formData.duration.trim() && durationSeconds === undefined) {
+      toast.error('Enter the length as minutes:seconds, e.g. 3:45');
+      return;
+    }
     
     try {
       setIsProcessing(true);
       
-      // Search for album art
-      const albumArtUrl = await searchITunes(formData.title, formData.artist);
-      
-      const cleanedGenre = formData.genre
-        .trim()
-        .replace(/\s+/g, ' ')
-        .replace(/\s*,\s*/g, ', ')
-        .replace(/^,\s*/, '')
-        .replace(/\s*,$/, '');
+      const title = formData.title.trim();
+      const artist = formData.artist.trim();
+      // A year or preview clip found for the old title no longer applies
+      const isRenamed = !!song && (song.title !== title || song.artist !== artist);
 
-      const songData = {
-        ...formData,
-        genre: cleanedGenre,
-        albumArtUrl
+      const enteredData: Omit<Song, 'id' | 'lastPlayed'> = {
+        title,
+        artist,
+        genres: splitTagInput(formData.genres),
+        tags: splitTagInput(formData.tags),
+        aliases: Array.from(new Set(formData.aliases.split('\n').map(alias => alias.trim()).filter(Boolean))),
+        key: formData.key,
+        notes: formData.notes,
+        albumArtUrl: formData.albumArtUrl.trim() || undefined,
+        durationSeconds,
+        releaseYear: isRenamed ? undefined : song?.releaseYear,
+        previewUrl: isRenamed ? undefined : song?.previewUrl,
+        tempoBpm: toNumber(formData.tempoBpm),
+        leadVocalist: formData.leadVocalist.trim() || undefined,
+        capo: toNumber(formData.capo) || undefined,
+        tuning: formData.tuning.trim() || undefined,
+        isExplicit: formData.isExplicit,
+        isRequestable: formData.isRequestable
       };
 
+      // Fill in whatever the form leaves blank; a failed lookup shouldn't stop the save
+      const metadata = needsEnrichment(enteredData)
+        ? await fetchSongMetadata(title, artist).catch(error => {
+          console.warn('Error looking up song metadata:', error);
+          return null;
+        })
+        : null;
+      const filled = { ...enteredData, ...(metadata && fillMissingMetadata(enteredData, metadata)) };
+      const songData = { ...filled, albumArtUrl: filled.albumArtUrl || DEFAULT_ALBUM_ART };
+      const row = { ...toSongRow(songData), key: songData.key, notes: songData.notes };
+
       if (song) {
         // Update existing song
         const { error } = await supabase
           .from('songs')
-          .update(songData)
+          .update(row)
           .eq('id', song.id);
 
         if (error) throw error;
-        onSave({ id: song.id, ...songData });
+        await setSongTags([{ songId: song.id, genres: songData.genres, tags: songData.tags }]);
+        await setSongAliases(song.id, songData.aliases || []);
+        onSave({ ...songData, id: song.id, lastPlayed: song.lastPlayed });
       } else {
         // Add new song
         const { data, error } = await supabase
           .from('songs')
-          .insert(songData)
-          .select()
+          .insert({ ...row, band_id: band.id })
+          .select(SONG_COLUMNS)
           .single();
 
         if (error) throw error;
-        if (data) onAdd(data);
+        if (data) {
+          await setSongTags([{ songId: data.id, genres: songData.genres, tags: songData.tags }]);
+          await setSongAliases(data.id, songData.aliases || []);
+          onAdd({ ...formatSong(data), genres: songData.genres, tags: songData.tags, aliases: songData.aliases });
+        }
       }
 
       onClose();
     } catch (error) {
       console.error('Error saving song:', error);
-      alert('Error saving song. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Error saving song. Please try again.');
     } finally {
       setIsProcessing(false);
     }
@@ -175,23 +218,37 @@ export function SongEditorModal({ isOpen, onClose, song, onSave, onAdd }: SongEd
               />
             </div>
             <div>
-              <label htmlFor="genre" className="block text-sm font-medium mb-2 text-white">
+              <label htmlFor="genres" className="block text-sm font-medium mb-2 text-white">
                 Genres
-                <span className="text-gray-400 text-xs ml-2">
-                  (separate with comma and space, e.g. "Rock, Pop, Dance")
-                </span>
+                <span className="text-gray-400 text-xs ml-2">(separate with commas)</span>
               </label>
               <input
                 type="text"
-                id="genre"
-                name="genre"
-                value={formData.genre}
+                id="genres"
+                name="genres"
+                value={formData.genres}
                 onChange={handleInputChange}
                 disabled={isProcessing}
                 className="input-field"
                 placeholder="Rock, Pop, Dance"
               />
             </div>
+            <div>
+              <label htmlFor="tags" className="block text-sm font-medium mb-2 text-white">
+                Tags
+                <span className="text-gray-400 text-xs ml-2">(separate with commas)</span>
+              </label>
+              <input
+                type="text"
+                id="tags"
+                name="tags"
+                value={formData.tags}
+                onChange={handleInputChange}
+                disabled={isProcessing}
+                className="input-field"
+                placeholder="Slow, First Dance, Singalong"
+              />
+            </div>
             <div>
               <label htmlFor="key" className="block text-sm font-medium mb-2 text-white">Key</label>
               <input
@@ -205,6 +262,98 @@ export function SongEditorModal({ isOpen, onClose, song, onSave, onAdd }: SongEd
                 placeholder="Enter song key"
               />
             </div>
+            <div>
+              <label htmlFor="leadVocalist" className="block text-sm font-medium mb-2 text-white">Lead Vocalist</label>
+              <input
+                type="text"
+                id="leadVocalist"
+                name="leadVocalist"
+                value={formData.leadVocalist}
+                onChange={handleInputChange}
+                disabled={isProcessing}
+                className="input-field"
+                placeholder="Who sings it"
+              />
+            </div>
+            <div>
+              <label htmlFor="duration" className="block text-sm font-medium mb-2 text-white">Length</label>
+              <input
+                type="text"
+                id="duration"
+                name="duration"
+                value={formData.duration}
+                onChange={handleInputChange}
+                disabled={isProcessing}
+                className="input-field"
+                placeholder="3:45"
+              />
+            </div>
+            <div>
+              <label htmlFor="tempoBpm" className="block text-sm font-medium mb-2 text-white">Tempo (BPM)</label>
+              <input
+                type="number"
+                id="tempoBpm"
+                name="tempoBpm"
+                min={20}
+                max={400}
+                value={formData.tempoBpm}
+                onChange={handleInputChange}
+                disabled={isProcessing}
+                className="input-field"
+                placeholder="120"
+              />
+            </div>
+            <div>
+              <label htmlFor="capo" className="block text-sm font-medium mb-2 text-white">Capo</label>
+              <input
+                type="number"
+                id="capo"
+                name="capo"
+                min={0}
+                max={12}
+                value={formData.capo}
+                onChange={handleInputChange}
+                disabled={isProcessing}
+                className="input-field"
+                placeholder="None"
+              />
+            </div>
+            <div>
+              <label htmlFor="tuning" className="block text-sm font-medium mb-2 text-white">Tuning</label>
+              <input
+                type="text"
+                id="tuning"
+                name="tuning"
+                value={formData.tuning}
+                onChange={handleInputChange}
+                disabled={isProcessing}
+                className="input-field"
+                placeholder="Standard, Drop D, Eb..."
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <label className="flex items-center space-x-2 text-sm text-white">
+              <input
+                type="checkbox"
+                name="isExplicit"
+                checked={formData.isExplicit}
+                onChange={handleInputChange}
+                disabled={isProcessing}
+              />
+              <span>Explicit lyrics</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-white">
+              <input
+                type="checkbox"
+                name="isRequestable"
+                checked={formData.isRequestable}
+                onChange={handleInputChange}
+                disabled={isProcessing}
+              />
+              <span>Audience can request it</span>
+            </label>
           </div>
           
           <div>
@@ -221,6 +370,23 @@ export function SongEditorModal({ isOpen, onClose, song, onSave, onAdd }: SongEd
             />
           </div>
           
+          <div>
+            <label htmlFor="aliases" className="block text-sm font-medium mb-2 text-white">
+              Also Known As
+              <span className="text-gray-400 text-xs ml-2">(one per line, used for search and requests)</span>
+            </label>
+            <textarea
+              id="aliases"
+              name="aliases"
+              value={formData.aliases}
+              onChange={handleInputChange}
+              disabled={isProcessing}
+              className="input-field"
+              rows={2}
+              placeholder={'Sing Us a Song\nThe Billy Joel one'}
+            />
+          </div>
+
           <div>
             <label htmlFor="notes" className="block text-sm font-medium mb-2 text-white">Notes</label>
             <textarea
@@ -0,0 +1,127 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Sparkles, Loader2, Square, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useCurrentBand } from '../contexts/BandContext';
+import { enrichmentJob, needsEnrichment } from '../utils/songEnrichment';
+import type { EnrichmentProgress } from '../utils/songEnrichment';
+import type { Song } from '../types';
+
+interface SongEnrichmentPanelProps {
+  songs: Song[];
+  onClose: () => void;
+}
+
+/**
+ * Fills in artwork, genre, year, length and preview clips across the library,
+ * and shows how far along the job is. Closing the panel, or the page, doesn't
+ * stop it.
+ */
+export function SongEnrichmentPanel({ songs, onClose }: SongEnrichmentPanelProps) {
+  const { band } = useCurrentBand();
+  const [progress, setProgress] = useState<EnrichmentProgress>(enrichmentJob.getProgress());
+
+  useEffect(() => {
+    setProgress(enrichmentJob.getProgress());
+    return enrichmentJob.subscribe(setProgress);
+  }, []);
+
+  const missingCount = useMemo(() => songs.filter(needsEnrichment).length, [songs]);
+  const isRunning = progress.status === 'running';
+  const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+  const handleStart = () => {
+    enrichmentJob.start(band.id, songs).catch(error => {
+      console.error('Error starting enrichment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start filling in details');
+    });
+  };
+
+  const handleCancel = () => {
+    enrichmentJob.cancel().catch(error => {
+      console.error('Error stopping enrichment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to stop filling in details');
+    });
+  };
+
+  return (
+    <div className="glass-effect rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <Sparkles className="w-5 h-5 mr-2" />
+          Song Details
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">
+        Looks up album art, genre, release year, length and a preview clip for songs that are missing any
+        of them. Nothing you've entered is replaced. Lookups are spaced out to stay within iTunes' limits,
+        so a big library takes a while; it keeps going if you close this panel or reload the page.
+      </p>
+
+      {!isRunning && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-white">
+            {missingCount === 0
+              ? 'Every song has its details'
+              : `${missingCount} song${missingCount === 1 ? ' is' : 's are'} missing details`}
+          </span>
+          <button
+            onClick={handleStart}
+            disabled={missingCount === 0}
+            className="neon-button flex items-center"
+          >
+            <Sparkles className="w-4 h-4 mr-2" />
+            Fill In Details
+          </button>
+        </div>
+      )}
+
+      {progress.status !== 'idle' && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-white">
+            <span className="flex items-center min-w-0">
+              {isRunning && <Loader2 className="w-4 h-4 mr-2 animate-spin flex-shrink-0" />}
+              <span className="truncate">
+                {isRunning
+                  ? progress.currentSong || 'Starting...'
+                  : progress.status === 'cancelled' ? 'Stopped' : 'Finished'}
+              </span>
+            </span>
+            <span className="flex-shrink-0 ml-4">{progress.processed} / {progress.total}</span>
+          </div>
+          <div className="w-full bg-neon-purple/20 rounded-full h-2">
+            <div
+              className="bg-neon-pink h-2 rounded-full transition-all duration-300"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>
+              {progress.updated} updated · {progress.notFound} not found · {progress.failures.length} failed
+            </span>
+            {isRunning && (
+              <button
+                onClick={handleCancel}
+                className="flex items-center text-red-400 hover:text-red-300"
+              >
+                <Square className="w-3 h-3 mr-1" />
+                Stop
+              </button>
+            )}
+          </div>
+          {progress.failures.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto text-xs text-red-300 space-y-1">
+              {progress.failures.map((failure, index) => (
+                <li key={index}>
+                  {failure.title} - {failure.artist}: {failure.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Upload, Loader2, ArrowLeft } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../utils/supabase';
+import { DEFAULT_ALBUM_ART } from '../utils/itunes';
+import { enrichmentJob } from '../utils/songEnrichment';
+import { setSongTags, toSongRow } from '../utils/songMetadata';
+import {
+  parseDelimited,
+  looksLikeHeader,
+  guessColumnMapping,
+  rowsToSongs,
+  buildImportPreview,
+  formatDuration,
+  SONG_FIELDS,
+  type ColumnMapping,
+  type ImportCandidate,
+  type SongField
+} from '../utils/songImport';
+import {
+  parsePlaylist,
+  PLAYLIST_FILE_EXTENSIONS,
+  PLAYLIST_FORMAT_LABELS,
+  type PlaylistFormat
+} from '../utils/playlistImport';
+import { useCurrentBand } from '../contexts/BandContext';
+import type { Song } from '../types';
+
+interface SongImportWizardProps {
+  songs: Song[];
+  onClose: () => void;
+}
+
+type ParsedRows = ReturnType<typeof parseDelimited>;
+
+const STATUS_STYLES = {
+  new: 'text-green-400',
+  duplicate: 'text-yellow-300',
+  skipped: 'text-red-400'
+};
+
+/**
+ * Import songs from a CSV/TSV file, a playlist or pasted text: pick which
+ * column is which (spreadsheets only), check the preview, then add the new songs
+ */
+export function SongImportWizard({ songs, onClose }: SongImportWizardProps) {
+  const { band } = useCurrentBand();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pastedText, setPastedText] = useState('');
+  const [rows, setRows] = useState<ParsedRows | null>(null);
+  const [playlist, setPlaylist] = useState<{ format: PlaylistFormat; tracks: ImportCandidate[] } | null>(null);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [processedCount, setProcessedCount] = useState(0);
+
+  const preview = useMemo(() => {
+    if (playlist) return buildImportPreview(playlist.tracks, songs);
+    return rows ? buildImportPreview(rowsToSongs(rows, mapping, hasHeader), songs) : [];
+  }, [playlist, rows, mapping, hasHeader, songs]);
+  const newSongs = preview.filter(row => row.status === 'new');
+  const duplicateCount = preview.filter(row => row.status === 'duplicate').length;
+  const skippedCount = preview.filter(row => row.status === 'skipped').length;
+
+  const columnCount = rows ? Math.max(0, ...rows.map(row => row.cells.length)) : 0;
+  const columnLabel = (index: number) =>
+    hasHeader && rows?.[0]?.cells[index] ? rows[0].cells[index] : `Column ${index + 1}`;
+
+  const loadText = (text: string) => {
+    const parsed = parseDelimited(text);
+    if (parsed.length === 0) {
+      toast.error('No rows found');
+      return;
+    }
+
+    const header = looksLikeHeader(parsed[0].cells);
+    setRows(parsed);
+    setHasHeader(header);
+    setMapping(guessColumnMapping(parsed[0].cells, header));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const extension = file.name.toLowerCase().slice(file.name.lastIndexOf('.'));
+
+      if (PLAYLIST_FILE_EXTENSIONS.includes(extension)) {
+        setPlaylist(parsePlaylist(file.name, text));
+      } else {
+        loadText(text);
+      }
+    } catch (error) {
+      console.error('Error reading song file:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not read that file');
+    }
+  };
+
+  const handleHeaderToggle = (checked: boolean) => {
+    setHasHeader(checked);
+    if (rows) setMapping(guessColumnMapping(rows[0].cells, checked));
+  };
+
+  const handleMappingChange = (field: SongField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (newSongs.length === 0) return;
+
+    setIsProcessing(true);
+    setProcessedCount(0);
+
+    try {
+      const added: Song[] = [];
+      const batchSize = 50;
+      for (let i = 0; i < newSongs.length; i += batchSize) {
+        const batch = newSongs.slice(i, i + batchSize);
+
+        const { data, error } = await supabase
+          .from('songs')
+          .insert(batch.map(({ song }) => ({
+            ...toSongRow(song),
+            band_id: band.id,
+            key: song.key || '',
+            notes: song.notes || '',
+            albumArtUrl: song.albumArtUrl || DEFAULT_ALBUM_ART
+          })))
+          .select('id');
+
+        if (error) throw error;
+
+        // Rows come back in the order they were inserted
+        await setSongTags((data || []).map((row, index) => ({
+          songId: row.id,
+          genres: batch[index].song.genres,
+          tags: batch[index].song.tags
+        })));
+
+        (data || []).forEach((row, index) => added.push({ ...batch[index].song, id: row.id }));
+        setProcessedCount(prev => prev + batch.length);
+      }
+
+      // Artwork and the rest are filled in behind the scenes, under the provider's rate limit
+      enrichmentJob.start(band.id, added).catch(error => console.warn('Error starting enrichment:', error));
+
+      toast.success(`Added ${newSongs.length} song${newSongs.length !== 1 ? 's' : ''} to the library`);
+      onClose();
+    } catch (error) {
+      console.error('Error importing songs:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import songs');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleBack = () => {
+    setRows(null);
+    setPlaylist(null);
+  };
+
+  if (!rows && !playlist) {
+    return (
+      <div className="glass-effect rounded-lg p-6 space-y-6">
+        <h3 className="text-lg font-semibold text-white">Bulk Upload Songs</h3>
+
+        <div>
+          <label className="block text-sm font-medium mb-2 text-white">Upload a Spreadsheet or Playlist</label>
+          <div className="flex items-center space-x-4">
+            <input
+              type="file"
+              accept={['.csv', '.tsv', '.txt', ...PLAYLIST_FILE_EXTENSIONS].join(',')}
+              onChange={handleFileChange}
+              ref={fileInputRef}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="neon-button flex items-center"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Choose File
+            </button>
+            <p className="text-sm text-gray-400">
+              CSV or TSV, M3U, XSPF, Apple Music library XML, or Spotify data export JSON
+            </p>
+          </div>
+        </div>
+
+        <div className="relative">
+          <div className="absolute inset-0 flex items-center">
+            <div className="w-full border-t border-neon-purple/20"></div>
+          </div>
+          <div className="relative flex justify-center">
+            <span className="px-2 text-sm text-gray-400 bg-darker-purple">OR</span>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2 text-white">Paste Song List</label>
+          <textarea
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            placeholder={'Title, Artist\n"Sweet Child O\' Mine, Live", Guns N\' Roses\n...'}
+            className="input-field"
+            rows={5}
+          />
+          <p className="text-sm text-gray-400 mt-1">
+            One song per line, separated by commas or tabs. Quote titles that contain commas.
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-300 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => loadText(pastedText)}
+            disabled={!pastedText.trim()}
+            className="neon-button flex items-center"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-effect rounded-lg p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">
+          {playlist ? `Import from ${PLAYLIST_FORMAT_LABELS[playlist.format]}` : 'Match Columns'}
+        </h3>
+        <button
+          onClick={handleBack}
+          disabled={isProcessing}
+          className="flex items-center text-sm text-gray-300 hover:text-white"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </button>
+      </div>
+
+      {!playlist && (
+        <>
+          <label className="flex items-center space-x-2 text-sm text-white">
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={e => handleHeaderToggle(e.target.checked)}
+              disabled={isProcessing}
+            />
+            <span>First row is a header</span>
+          </label>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {SONG_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-white mb-1">
+                  {label}{required && ' *'}
+                </label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={e => handleMappingChange(field, e.target.value)}
+                  disabled={isProcessing}
+                  className="input-field text-gray-800"
+                >
+                  <option value="">Don't import</option>
+                  {Array.from({ length: columnCount }, (_, index) => (
+                    <option key={index} value={index}>{columnLabel(index)}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-300">
+          <span className="text-green-400">{newSongs.length} new</span>
+          {' · '}
+          <span className="text-yellow-300">{duplicateCount} duplicate{duplicateCount !== 1 ? 's' : ''}</span>
+          {' · '}
+          <span className="text-red-400">{skippedCount} skipped</span>
+        </p>
+        <div className="max-h-80 overflow-auto border border-gray-700 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-800/70 text-left text-xs uppercase text-gray-400 sticky top-0">
+              <tr>
+                <th className="px-3 py-2">Line</th>
+                <th className="px-3 py-2">Title</th>
+                <th className="px-3 py-2">Artist</th>
+                <th className="px-3 py-2">Genres</th>
+                <th className="px-3 py-2">Key</th>
+                <th className="px-3 py-2">Length</th>
+                <th className="px-3 py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700/50">
+              {preview.map(row => (
+                <tr key={row.line} className={row.status === 'new' ? 'text-gray-200' : 'text-gray-500'}>
+                  <td className="px-3 py-1.5">{row.line}</td>
+                  <td className="px-3 py-1.5">{row.song.title || '-'}</td>
+                  <td className="px-3 py-1.5">{row.song.artist || '-'}</td>
+                  <td className="px-3 py-1.5">{row.song.genres.join(', ') || '-'}</td>
+                  <td className="px-3 py-1.5">{row.song.key || '-'}</td>
+                  <td className="px-3 py-1.5">{formatDuration(row.song.durationSeconds)}</td>
+                  <td className={`px-3 py-1.5 ${STATUS_STYLES[row.status]}`} title={row.reason}>
+                    {row.reason || 'New'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isProcessing && (
+        <div>
+          <div className="flex justify-between text-sm text-white mb-2">
+            <span>Adding songs...</span>
+            <span>{processedCount} / {newSongs.length}</span>
+          </div>
+          <div className="w-full bg-neon-purple/20 rounded-full h-2">
+            <div
+              className="bg-neon-pink h-2 rounded-full transition-all duration-300"
+              style={{ width: `${(processedCount / newSongs.length) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-4">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 text-gray-300 hover:text-white transition-colors"
+          disabled={isProcessing}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={newSongs.length === 0 || isProcessing}
+          className="neon-button flex items-center"
+        >
+          {isProcessing ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Processing...
+            </>
+          ) : (
+            <>
+              <Upload className="w-4 h-4 mr-2" />
+              Import {newSongs.length} Song{newSongs.length !== 1 ? 's' : ''}
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
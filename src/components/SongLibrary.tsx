@@ -1,8 +1,13 @@
-import React, { useState, useRef, useCallback, useMemo } from 'react';
-import { Plus, Edit2, Trash2, X, Upload, Loader2, Filter, Tag } from 'lucide-react';
+import { useState, useCallback, useMemo } from 'react';
+import { Plus, Edit2, Trash2, X, Upload, Filter, Tag, GitMerge, Sparkles } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import { supabase } from '../utils/supabase';
-import { searchITunes } from '../utils/itunes';
 import { SongEditorModal } from './SongEditorModal';
+import { SongImportWizard } from './SongImportWizard';
+import { DuplicateSongFinder } from './DuplicateSongFinder';
+import { SongEnrichmentPanel } from './SongEnrichmentPanel';
+import { formatDuration } from '../utils/songImport';
+import { collectTags } from '../utils/songMetadata';
 import { AlbumArtDisplay } from './shared/AlbumArtDisplay';
 import type { Song } from '../types';
 
@@ -13,32 +18,50 @@ interface SongLibraryProps {
   onDeleteSong: (id: string) => void;
 }
 
+// Year, length, tempo and vocalist under the title
+const songDetails = (song: Song) =>
+  [
+    song.releaseYear,
+    song.durationSeconds !== undefined && formatDuration(song.durationSeconds),
+    song.tempoBpm !== undefined && `${song.tempoBpm} BPM`,
+    song.leadVocalist
+  ].filter(Boolean).join(' · ');
+
 export function SongLibrary({ songs, onAddSong, onUpdateSong, onDeleteSong }: SongLibraryProps) {
   const [isBulkAdding, setIsBulkAdding] = useState(false);
+  const [isFindingDuplicates, setIsFindingDuplicates] = useState(false);
+  const [isEnriching, setIsEnriching] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingSong, setEditingSong] = useState<Song | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [processedCount, setProcessedCount] = useState(0);
-  const [totalToProcess, setTotalToProcess] = useState(0);
-  const [bulkInput, setBulkInput] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [genreFilter, setGenreFilter] = useState<string | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  // Extract all unique genres from songs
-  const availableGenres = useMemo(() => {
-    const genreSet = new Set<string>();
-    
-    songs.forEach(song => {
-      if (song.genre) {
-        song.genre.split(',').forEach(genre => {
-          genreSet.add(genre.trim());
-        });
-      }
-    });
-    
-    return Array.from(genreSet).sort();
-  }, [songs]);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [vocalistFilter, setVocalistFilter] = useState('');
+  const [explicitFilter, setExplicitFilter] = useState<'all' | 'clean' | 'explicit'>('all');
+  const [requestableFilter, setRequestableFilter] = useState<'all' | 'requestable' | 'hidden'>('all');
+  const [minTempo, setMinTempo] = useState('');
+  const [maxTempo, setMaxTempo] = useState('');
+
+  // Extract all unique genres, tags and vocalists from songs
+  const availableGenres = useMemo(() => collectTags(songs, 'genre'), [songs]);
+  const availableTags = useMemo(() => collectTags(songs, 'tag'), [songs]);
+  const availableVocalists = useMemo(() => (
+    Array.from(new Set(songs.map(song => song.leadVocalist).filter((name): name is string => !!name))).sort()
+  ), [songs]);
+
+  const hasFilters = !!(searchTerm || genreFilter || tagFilter || vocalistFilter || minTempo || maxTempo) ||
+    explicitFilter !== 'all' || requestableFilter !== 'all';
+
+  const clearFilters = () => {
+    setSearchTerm('');
+    setGenreFilter(null);
+    setTagFilter(null);
+    setVocalistFilter('');
+    setExplicitFilter('all');
+    setRequestableFilter('all');
+    setMinTempo('');
+    setMaxTempo('');
+  };
 
   // Handle opening modal for adding new song
   const handleAddSong = () => {
@@ -58,151 +81,6 @@ export function SongLibrary({ songs, onAddSong, onUpdateSong, onDeleteSong }: So
     setEditingSong(null);
   };
 
-  const handleBulkTextSubmit = async () => {
-    if (!bulkInput.trim()) return;
-
-    const lines = bulkInput
-      .split('\n')
-      .filter(line => line.trim())
-      .map(line => {
-        const [title, artist] = line.split(',').map(s => s.trim());
-        return { title, artist };
-      })
-      .filter(({ title, artist }) => title && artist);
-
-    if (lines.length === 0) {
-      alert('No valid songs found in the input');
-      return;
-    }
-
-    setTotalToProcess(lines.length);
-    setProcessedCount(0);
-    setIsProcessing(true);
-
-    try {
-      // Process songs in smaller batches
-      const batchSize = 5;
-      for (let i = 0; i < lines.length; i += batchSize) {
-        const batch = lines.slice(i, i + batchSize);
-        
-        // Process each song in the batch
-        const songsWithArt = await Promise.all(
-          batch.map(async ({ title, artist }) => {
-            const albumArtUrl = await searchITunes(title, artist);
-            return {
-              title,
-              artist,
-              genre: '',
-              key: '',
-              notes: '',
-              albumArtUrl
-            };
-          })
-        );
-
-        // Insert the batch
-        const { error } = await supabase
-          .from('songs')
-          .insert(songsWithArt);
-
-        if (error) throw error;
-        
-        setProcessedCount(prev => prev + batch.length);
-        
-        // Add a delay between batches to avoid rate limits
-        if (i + batchSize < lines.length) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-      }
-
-      setBulkInput('');
-      setIsBulkAdding(false);
-      alert(`Successfully added ${lines.length} songs to the library`);
-    } catch (error) {
-      console.error('Error bulk adding songs:', error);
-      alert('An error occurred while adding songs. Please try again.');
-    } finally {
-      setIsProcessing(false);
-      setProcessedCount(0);
-      setTotalToProcess(0);
-    }
-  };
-
-  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    try {
-      const text = await file.text();
-      const lines = text.split('\n');
-      
-      // Process the CSV content
-      const validSongs = lines
-        .map(line => {
-          const [title, artist] = line.split(',').map(s => s.trim());
-          return title && artist ? { title, artist } : null;
-        })
-        .filter((song): song is { title: string; artist: string } => song !== null);
-
-      if (validSongs.length === 0) {
-        alert('No valid songs found in the CSV file');
-        return;
-      }
-
-      setTotalToProcess(validSongs.length);
-      setProcessedCount(0);
-      setIsProcessing(true);
-
-      // Process songs in batches
-      const batchSize = 5;
-      for (let i = 0; i < validSongs.length; i += batchSize) {
-        const batch = validSongs.slice(i, i + batchSize);
-        
-        // Process each song in the batch
-        const songsWithArt = await Promise.all(
-          batch.map(async ({ title, artist }) => {
-            const albumArtUrl = await searchITunes(title, artist);
-            return {
-              title,
-              artist,
-              genre: '',
-              key: '',
-              notes: '',
-              albumArtUrl
-            };
-          })
-        );
-
-        // Insert the batch
-        const { error } = await supabase
-          .from('songs')
-          .insert(songsWithArt);
-
-        if (error) throw error;
-        
-        setProcessedCount(prev => prev + batch.length);
-        
-        // Add a delay between batches
-        if (i + batchSize < validSongs.length) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-      }
-
-      alert(`Successfully added ${validSongs.length} songs to the library`);
-      setIsBulkAdding(false);
-    } catch (error) {
-      console.error('Error processing CSV:', error);
-      alert('Error processing CSV file. Please try again.');
-    } finally {
-      setIsProcessing(false);
-      setProcessedCount(0);
-      setTotalToProcess(0);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-    }
-  };
-
   const handleDeleteSong = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this song?')) {
       try {
@@ -220,37 +98,56 @@ export function SongLibrary({ songs, onAddSong, onUpdateSong, onDeleteSong }: So
     }
   };
 
-  // Get filtered songs based on search term and genre filter
+  // Get filtered songs based on search term and the other filters
   const filteredSongs = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    const matchesName = (names: string[], name: string | null) =>
+      !name || names.some(n => n.toLowerCase() === name.toLowerCase());
+    const min = minTempo ? Number(minTempo) : null;
+    const max = maxTempo ? Number(maxTempo) : null;
+
     return songs.filter(song => {
       // First filter by search term
       const matchesSearch = 
-        song.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        song.artist.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (song.genre?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
-        (song.key?.toLowerCase() || '').includes(searchTerm.toLowerCase());
-      
-      // Then filter by genre if selected
-      const matchesGenre = !genreFilter || 
-        (song.genre && song.genre.split(',').some(g => g.trim().toLowerCase() === genreFilter.toLowerCase()));
-      
-      return matchesSearch && matchesGenre;
+        song.title.toLowerCase().includes(term) ||
+        song.artist.toLowerCase().includes(term) ||
+        (song.aliases || []).some(alias => alias.toLowerCase().includes(term)) ||
+        song.genres.some(genre => genre.toLowerCase().includes(term)) ||
+        song.tags.some(tag => tag.toLowerCase().includes(term)) ||
+        (song.key?.toLowerCase() || '').includes(term) ||
+        (song.leadVocalist?.toLowerCase() || '').includes(term) ||
+        (song.tuning?.toLowerCase() || '').includes(term);
+
+      // Songs without a tempo don't match a tempo range
+      const matchesTempo = (min === null && max === null) || (
+        song.tempoBpm !== undefined &&
+        (min === null || song.tempoBpm >= min) &&
+        (max === null || song.tempoBpm <= max)
+      );
+
+      return matchesSearch &&
+        matchesName(song.genres, genreFilter) &&
+        matchesName(song.tags, tagFilter) &&
+        (!vocalistFilter || song.leadVocalist === vocalistFilter) &&
+        (explicitFilter === 'all' || (explicitFilter === 'explicit') === !!song.isExplicit) &&
+        (requestableFilter === 'all' || (requestableFilter === 'requestable') === (song.isRequestable !== false)) &&
+        matchesTempo;
     });
-  }, [songs, searchTerm, genreFilter]);
+  }, [songs, searchTerm, genreFilter, tagFilter, vocalistFilter, explicitFilter, requestableFilter, minTempo, maxTempo]);
 
-  const renderGenres = useCallback((genres: string) => {
-    if (!genres) return '-';
-    return genres.split(', ').map((genre, index) => (
+  const renderGenres = useCallback((genres: string[]) => {
+    if (genres.length === 0) return null;
+    return genres.map(genre => (
       <span
-        key={index}
+        key={genre}
         className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full mr-1 mb-1 ${
-          genreFilter && genre.trim().toLowerCase() === genreFilter.toLowerCase()
+          genreFilter && genre.toLowerCase() === genreFilter.toLowerCase()
             ? 'bg-neon-pink/20 text-neon-pink'
             : 'text-gray-700 bg-gray-100'
         }`}
         onClick={(e) => {
           e.stopPropagation();
-          setGenreFilter(genreFilter === genre.trim() ? null : genre.trim());
+          setGenreFilter(genreFilter === genre ? null : genre);
         }}
         style={{ cursor: 'pointer' }}
       >
@@ -259,19 +156,34 @@ export function SongLibrary({ songs, onAddSong, onUpdateSong, onDeleteSong }: So
     ));
   }, [genreFilter]);
 
+  const renderTags = useCallback((tags: string[]) => (
+    tags.map(tag => (
+      <span
+        key={tag}
+        className={`inline-block px-2 py-0.5 text-xs font-medium rounded mr-1 mb-1 border ${
+          tagFilter && tag.toLowerCase() === tagFilter.toLowerCase()
+            ? 'border-neon-pink text-neon-pink'
+            : 'border-gray-500 text-gray-300'
+        }`}
+        onClick={(e) => {
+          e.stopPropagation();
+          setTagFilter(tagFilter === tag ? null : tag);
+        }}
+        style={{ cursor: 'pointer' }}
+      >
+        #{tag}
+      </span>
+    ))
+  ), [tagFilter]);
+
   // Calculate genre statistics
   const genreStats = useMemo(() => {
     const stats = new Map<string, number>();
     
     songs.forEach(song => {
-      if (song.genre) {
-        song.genre.split(',').forEach(genre => {
-          const g = genre.trim();
-          if (g) {
-            stats.set(g, (stats.get(g) || 0) + 1);
-          }
-        });
-      }
+      song.genres.forEach(genre => {
+        stats.set(genre, (stats.get(genre) || 0) + 1);
+      });
     });
     
     return Array.from(stats.entries())
@@ -288,6 +200,20 @@ export function SongLibrary({ songs, onAddSong, onUpdateSong, onDeleteSong }: So
         </div>
         {!isBulkAdding && (
           <div className="flex space-x-4">
+            <button
+              onClick={() => setIsEnriching(!isEnriching)}
+              className="neon-button flex items-center"
+            >
+              <Sparkles className="w-4 h-4 mr-2" />
+              Song Details
+            </button>
+            <button
+              onClick={() => setIsFindingDuplicates(!isFindingDuplicates)}
+              className="neon-button flex items-center"
+            >
+              <GitMerge className="w-4 h-4 mr-2" />
+              Find Duplicates
+            </button>
             <button
               onClick={() => setIsBulkAdding(true)}
               className="neon-button flex items-center"
@@ -307,100 +233,22 @@ export function SongLibrary({ songs, onAddSong, onUpdateSong, onDeleteSong }: So
       </div>
 
       {isBulkAdding && (
-        <div className="glass-effect rounded-lg p-6 space-y-6">
-          <h3 className="text-lg font-semibold text-white mb-4">Bulk Upload Songs</h3>
-          
-          {isProcessing && (
-            <div className="mb-4">
-              <div className="flex justify-between text-sm text-white mb-2">
-                <span>Processing songs...</span>
-                <span>{processedCount} / {totalToProcess}</span>
-              </div>
-              <div className="w-full bg-neon-purple/20 rounded-full h-2">
-                <div
-                  className="bg-neon-pink h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${(processedCount / totalToProcess) * 100}%` }}
-                />
-              </div>
-            </div>
-          )}
-
-          <div className="space-y-6">
-            <div>
-              <label className="block text-sm font-medium mb-2 text-white">Upload CSV File</label>
-              <div className="flex items-center space-x-4">
-                <input
-                  type="file"
-                  accept=".csv,text/csv"
-                  onChange={handleCsvUpload}
-                  ref={fileInputRef}
-                  className="hidden"
-                  disabled={isProcessing}
-                />
-                <button
-                  type="button"
-                  onClick={() => fileInputRef.current?.click()}
-                  className="neon-button flex items-center"
-                  disabled={isProcessing}
-                >
-                  <Upload className="w-4 h-4 mr-2" />
-                  Choose CSV File
-                </button>
-                <p className="text-sm text-gray-400">Format: Title,Artist (one per line)</p>
-              </div>
-            </div>
-            
-            <div className="relative">
-              <div className="absolute inset-0 flex items-center">
-                <div className="w-full border-t border-neon-purple/20"></div>
-              </div>
-              <div className="relative flex justify-center">
-                <span className="px-2 text-sm text-gray-400 bg-darker-purple">OR</span>
-              </div>
-            </div>
+        <SongImportWizard songs={songs} onClose={() => setIsBulkAdding(false)} />
+      )}
 
-            <div>
-              <label className="block text-sm font-medium mb-2 text-white">Paste Song List</label>
-              <textarea
-                value={bulkInput}
-                onChange={(e) => setBulkInput(e.target.value)}
-                placeholder="Title, Artist&#10;Title, Artist&#10;..."
-                className="input-field"
-                rows={5}
-                disabled={isProcessing}
-              />
-              <p className="text-sm text-gray-400 mt-1">Format: Title,Artist (one per line)</p>
-            </div>
+      {isEnriching && !isBulkAdding && (
+        <SongEnrichmentPanel songs={songs} onClose={() => setIsEnriching(false)} />
+      )}
 
-            <div className="flex justify-end space-x-4">
-              <button
-                type="button"
-                onClick={() => setIsBulkAdding(false)}
-                className="px-4 py-2 text-gray-300 hover:text-white transition-colors"
-                disabled={isProcessing}
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleBulkTextSubmit}
-                disabled={!bulkInput.trim() || isProcessing}
-                className="neon-button flex items-center"
-              >
-                {isProcessing ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Processing...
-                  </>
-                ) : (
-                  <>
-                    <Upload className="w-4 h-4 mr-2" />
-                    Upload Songs
-                  </>
-                )}
-              </button>
-            </div>
-          </div>
-        </div>
+      {isFindingDuplicates && !isBulkAdding && (
+        <DuplicateSongFinder
+          songs={songs}
+          onMerged={(merged, removedIds) => {
+            onUpdateSong(merged);
+            removedIds.forEach(onDeleteSong);
+          }}
+          onClose={() => setIsFindingDuplicates(false)}
+        />
       )}
 
       {/* Genre filter and search section */}
@@ -413,7 +261,7 @@ export function SongLibrary({ songs, onAddSong, onUpdateSong, onDeleteSong }: So
                   type="text"
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
-                  placeholder="Search songs by title, artist, genre or key..."
+                  placeholder="Search songs by title, artist, genre, tag, key or vocalist..."
                   className="input-field pl-10 w-full"
                 />
                 <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
@@ -442,6 +290,82 @@ export function SongLibrary({ songs, onAddSong, onUpdateSong, onDeleteSong }: So
             </div>
           </div>
 
+          <div className="mt-3 flex flex-wrap gap-3 items-center text-sm">
+            <select
+              value={genreFilter ?? ''}
+              onChange={(e) => setGenreFilter(e.target.value || null)}
+              className="input-field w-auto text-gray-800"
+            >
+              <option value="">All genres</option>
+              {availableGenres.map(genre => (
+                <option key={genre} value={genre}>{genre}</option>
+              ))}
+            </select>
+            <select
+              value={tagFilter ?? ''}
+              onChange={(e) => setTagFilter(e.target.value || null)}
+              className="input-field w-auto text-gray-800"
+            >
+              <option value="">All tags</option>
+              {availableTags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+            <select
+              value={vocalistFilter}
+              onChange={(e) => setVocalistFilter(e.target.value)}
+              className="input-field w-auto text-gray-800"
+            >
+              <option value="">Any vocalist</option>
+              {availableVocalists.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <select
+              value={explicitFilter}
+              onChange={(e) => setExplicitFilter(e.target.value as typeof explicitFilter)}
+              className="input-field w-auto text-gray-800"
+            >
+              <option value="all">Clean and explicit</option>
+              <option value="clean">Clean only</option>
+              <option value="explicit">Explicit only</option>
+            </select>
+            <select
+              value={requestableFilter}
+              onChange={(e) => setRequestableFilter(e.target.value as typeof requestableFilter)}
+              className="input-field w-auto text-gray-800"
+            >
+              <option value="all">Requestable or not</option>
+              <option value="requestable">Requestable</option>
+              <option value="hidden">Not requestable</option>
+            </select>
+            <div className="flex items-center space-x-2">
+              <span className="text-white">BPM</span>
+              <input
+                type="number"
+                min={0}
+                value={minTempo}
+                onChange={(e) => setMinTempo(e.target.value)}
+                placeholder="Min"
+                className="input-field w-20"
+              />
+              <span className="text-gray-400">-</span>
+              <input
+                type="number"
+                min={0}
+                value={maxTempo}
+                onChange={(e) => setMaxTempo(e.target.value)}
+                placeholder="Max"
+                className="input-field w-20"
+              />
+            </div>
+            {hasFilters && (
+              <button onClick={clearFilters} className="text-neon-pink hover:underline">
+                Clear filters
+              </button>
+            )}
+          </div>
+
           {/* Popular genres chips */}
           <div className="mt-3">
             <div className="flex items-center mb-2">
@@ -475,16 +399,17 @@ export function SongLibrary({ songs, onAddSong, onUpdateSong, onDeleteSong }: So
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Album Art</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Title</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Artist</th>
-              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Genres</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Genres &amp; Tags</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Key</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Last Played</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Actions</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-neon-purple/20">
             {filteredSongs.length === 0 ? (
               <tr>
-                <td colSpan={7} className="px-6 py-8 text-center text-gray-400">
-                  {searchTerm || genreFilter 
+                <td colSpan={8} className="px-6 py-8 text-center text-gray-400">
+                  {hasFilters
                     ? 'No songs match your search criteria' 
                     : 'No songs in the library yet'}
                 </td>
@@ -500,12 +425,37 @@ export function SongLibrary({ songs, onAddSong, onUpdateSong, onDeleteSong }: So
                       imageClassName="neon-border"
                     />
                   </td>
-                  <td className="px-6 py-4 text-sm text-white">{song.title}</td>
+                  <td className="px-6 py-4 text-sm text-white">
+                    {song.title}
+                    {song.isExplicit && (
+                      <span className="ml-2 px-1 text-[10px] font-bold rounded bg-red-500/20 text-red-300">E</span>
+                    )}
+                    {song.isRequestable === false && (
+                      <span className="ml-2 px-1 text-[10px] rounded bg-gray-500/30 text-gray-300">Not requestable</span>
+                    )}
+                    {songDetails(song) && (
+                      <span className="block text-xs text-gray-400">{songDetails(song)}</span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 text-sm text-white">{song.artist}</td>
                   <td className="px-6 py-4 text-sm">
-                    <div className="flex flex-wrap">{renderGenres(song.genre || '')}</div>
+                    <div className="flex flex-wrap">
+                      {renderGenres(song.genres)}
+                      {renderTags(song.tags)}
+                      {song.genres.length === 0 && song.tags.length === 0 && '-'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-300">
+                    {song.key || '-'}
+                    {(song.capo || song.tuning) && (
+                      <span className="block text-xs text-gray-400">
+                        {[song.capo ? `Capo ${song.capo}` : '', song.tuning].filter(Boolean).join(' · ')}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-300">
+                    {song.lastPlayed ? formatDistanceToNow(new Date(song.lastPlayed), { addSuffix: true }) : 'Never'}
                   </td>
-                  <td className="px-6 py-4 text-sm text-gray-300">{song.key || '-'}</td>
                   <td className="px-6 py-4">
                     <div className="flex space-x-2">
                       <button
@@ -110,22 +110,22 @@ export function SongList({ songs, onSongSelect }: SongListProps) {
               <div className="flex-1 min-w-0">
                 <h3 className="font-medium text-white truncate">{song.title}</h3>
                 <p className="text-gray-300 text-sm truncate">{song.artist}</p>
-                {song.genre && (
+                {song.genres.length > 0 && (
                   <div className="flex flex-wrap gap-1 mt-1">
-                    {song.genre.split(',').slice(0, 2).map((genre, index) => (
+                    {song.genres.slice(0, 2).map(genre => (
                       <span
-                        key={index}
+                        key={genre}
                         className="px-1.5 py-0.5 text-xs rounded-full truncate"
                         style={{
                           backgroundColor: `${accentColor}20`,
                           color: accentColor,
                         }}
                       >
-                        {genre.trim()}
+                        {genre}
                       </span>
                     ))}
-                    {song.genre.split(',').length > 2 && (
-                      <span className="text-xs text-gray-400">+{song.genre.split(',').length - 2}</span>
+                    {song.genres.length > 2 && (
+                      <span className="text-xs text-gray-400">+{song.genres.length - 2}</span>
                     )}
                   </div>
                 )}
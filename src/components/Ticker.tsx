@@ -3,23 +3,29 @@ import { Volume2, Music } from 'lucide-react';
 import { useUiSettings } from '../hooks/useUiSettings';
 import { AlbumArtDisplay } from './shared/AlbumArtDisplay';
 
+interface TickerSong {
+  title: string;
+  artist?: string;
+  albumArtUrl?: string;
+}
+
 interface TickerProps {
-  nextSong?: {
-    title: string;
-    artist?: string;
-    albumArtUrl?: string;
-  };
+  // Featured when set, with the next song shown underneath
+  nowPlaying?: TickerSong;
+  nextSong?: TickerSong;
   customMessage?: string;
   isActive?: boolean;
 }
 
-export function Ticker({ nextSong, customMessage, isActive = true }: TickerProps) {
+export function Ticker({ nowPlaying, nextSong, customMessage, isActive = true }: TickerProps) {
   const { settings } = useUiSettings();
   const accentColor = settings?.frontend_accent_color || '#ff00ff';
   const secondaryColor = settings?.frontend_secondary_accent || '#9d00ff';
 
+  const featuredSong = nowPlaying || nextSong;
+
   // Don't render anything if not active or no content
-  if (!isActive || (!customMessage && !nextSong)) {
+  if (!isActive || (!customMessage && !featuredSong)) {
     return null;
   }
 
@@ -166,7 +172,7 @@ export function Ticker({ nextSong, customMessage, isActive = true }: TickerProps
               ))}
             </div>
           </div>
-        ) : nextSong && (
+        ) : featuredSong && (
           <div className="flex items-center justify-center space-x-8">
             {/* Audio visualizer - left side */}
             <div className="flex items-center space-x-1 flex-shrink-0">
@@ -186,8 +192,8 @@ export function Ticker({ nextSong, customMessage, isActive = true }: TickerProps
             <div className="flex items-center space-x-4">
               {/* Album Art with better sizing */}
               <AlbumArtDisplay
-                albumArtUrl={nextSong.albumArtUrl}
-                title={nextSong.title}
+                albumArtUrl={featuredSong.albumArtUrl}
+                title={featuredSong.title}
                 size="xs"
                 imageStyle={{
                   boxShadow: `0 4px 20px ${accentColor}40`,
@@ -207,7 +213,7 @@ export function Ticker({ nextSong, customMessage, isActive = true }: TickerProps
                     fontSize: '10px'
                   }}
                 >
-                  NEXT UP
+                  {nowPlaying ? 'NOW PLAYING' : 'NEXT UP'}
                 </span>
 
                 {/* Song Title and Artist - Better mobile sizing */}
@@ -217,34 +223,47 @@ export function Ticker({ nextSong, customMessage, isActive = true }: TickerProps
                     style={{
                       textShadow: `0 2px 10px ${accentColor}60`,
                       // Less aggressive mobile sizing
-                      fontSize: `${nextSong.title.length > 50 ? '12px' : 
-                                  nextSong.title.length > 35 ? '14px' : 
-                                  nextSong.title.length > 25 ? '15px' :
-                                  nextSong.title.length > 20 ? '16px' : 
-                                  nextSong.title.length > 15 ? '17px' : '18px'}`,
+                      fontSize: `${featuredSong.title.length > 50 ? '12px' : 
+                                  featuredSong.title.length > 35 ? '14px' : 
+                                  featuredSong.title.length > 25 ? '15px' :
+                                  featuredSong.title.length > 20 ? '16px' : 
+                                  featuredSong.title.length > 15 ? '17px' : '18px'}`,
                       maxWidth: 'calc(100vw - 200px)', // More space for text
                       overflow: 'hidden',
                       textOverflow: 'ellipsis'
                     }}
                   >
-                    {nextSong.title}
+                    {featuredSong.title}
                   </h3>
-                  {nextSong.artist && (
+                  {featuredSong.artist && (
                     <p 
                       className="text-gray-300 font-medium leading-tight text-center whitespace-nowrap"
                       style={{ 
                         textShadow: `0 1px 5px ${secondaryColor}40`,
                         // Better mobile sizing for artist
-                        fontSize: `${nextSong.artist.length > 40 ? '10px' : 
-                                    nextSong.artist.length > 30 ? '11px' :
-                                    nextSong.artist.length > 20 ? '12px' :
-                                    nextSong.artist.length > 15 ? '13px' : '14px'}`,
+                        fontSize: `${featuredSong.artist.length > 40 ? '10px' : 
+                                    featuredSong.artist.length > 30 ? '11px' :
+                                    featuredSong.artist.length > 20 ? '12px' :
+                                    featuredSong.artist.length > 15 ? '13px' : '14px'}`,
+                        maxWidth: 'calc(100vw - 200px)',
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis'
+                      }}
+                    >
+                      {featuredSong.artist}
+                    </p>
+                  )}
+                  {nowPlaying && nextSong && (
+                    <p
+                      className="text-gray-400 leading-tight text-center whitespace-nowrap"
+                      style={{
+                        fontSize: '10px',
                         maxWidth: 'calc(100vw - 200px)',
                         overflow: 'hidden',
                         textOverflow: 'ellipsis'
                       }}
                     >
-                      {nextSong.artist}
+                      Next up: {nextSong.title}{nextSong.artist ? ` - ${nextSong.artist}` : ''}
                     </p>
                   )}
                 </div>
@@ -1,6 +1,10 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Music4, ThumbsUp, UserCircle, Users, Crown, Zap } from 'lucide-react';
 import { useUiSettings } from '../hooks/useUiSettings';
+import { isApprovedRequest } from '../utils/moderation';
+import { rankRequests, getRankingConfig } from '../utils/queueRanking';
+import { useRankingClock } from '../hooks/useRankingClock';
+import { getRequestStage, STAGE_LABELS } from '../utils/stages';
 import type { SongRequest } from '../types';
 import toast from 'react-hot-toast';
 
@@ -14,6 +18,7 @@ interface UpvoteListProps {
 
 export function UpvoteList({ requests, onVote, currentUserId, votingStates = new Set<string>() }: UpvoteListProps) {
   const { settings } = useUiSettings();
+  const rankingNow = useRankingClock();
   const songBorderColor = settings?.song_border_color || settings?.frontend_accent_color || '#ff00ff';
   const accentColor = settings?.frontend_accent_color || '#ff00ff';
 
@@ -24,30 +29,12 @@ export function UpvoteList({ requests, onVote, currentUserId, votingStates = new
       return []; 
     }
 
-    // Filter out played requests
-    const filtered = requests.filter(request => request && !request.isPlayed);
+    // Filter out played requests and anything still awaiting (or refused) approval
+    const filtered = requests.filter(request => request && !request.isPlayed && isApprovedRequest(request));
 
-    // Sort by priority: locked first, then by total engagement (votes + requesters)
-    return filtered.sort((a, b) => {
-      // Locked requests go first
-      if (a.isLocked && !b.isLocked) return -1;
-      if (!a.isLocked && b.isLocked) return 1;
-      
-      // Then by total engagement (votes + requester count) - ensure requesters is an array
-      const requestersA = Array.isArray(a.requesters) ? a.requesters : [];
-      const requestersB = Array.isArray(b.requesters) ? b.requesters : [];
-      
-      const engagementA = (a.votes || 0) + requestersA.length;
-      const engagementB = (b.votes || 0) + requestersB.length;
-      
-      if (engagementA !== engagementB) {
-        return engagementB - engagementA;
-      }
-      
-      // If engagement is equal, sort by creation time (newest first)
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    });
-  }, [requests]);
+    // Same order as the band's queue
+    return rankRequests(filtered, getRankingConfig(settings), rankingNow);
+  }, [requests, settings, rankingNow]);
 
   const handleVote = async (id: string, e: React.MouseEvent) => {
     e.preventDefault();
@@ -98,13 +85,16 @@ export function UpvoteList({ requests, onVote, currentUserId, votingStates = new
           
           // Determine if this is a highly requested song
           const isHotTrack = totalEngagement >= 5;
-          const isTopRequest = index === 0 && !request.isLocked;
+          const stage = getRequestStage(request);
+          // Now playing and up next are settled; votes no longer move them
+          const isOnStage = stage === 'now_playing' || stage === 'up_next';
+          const isTopRequest = index === 0 && !isOnStage;
 
           return (
             <div
               key={request.id}
               className={`relative overflow-hidden rounded-xl p-6 transition-all duration-300 transform hover:scale-[1.02] ${
-                request.isLocked 
+                isOnStage 
                 ? 'bg-gradient-to-r from-yellow-900/40 to-orange-900/40 ring-2 ring-yellow-400 shadow-lg shadow-yellow-400/30' 
                 : isHotTrack
                 ? 'bg-gradient-to-r from-red-900/30 to-pink-900/30 ring-2 ring-red-400/50 shadow-lg shadow-red-400/20'
@@ -113,15 +103,15 @@ export function UpvoteList({ requests, onVote, currentUserId, votingStates = new
                 : 'bg-gray-900/80 hover:bg-gray-800/80 border border-gray-700/50'
               } backdrop-blur-sm`}
               style={{
-                borderColor: request.isLocked ? '#FBBF24' : isHotTrack ? '#EF4444' : isTopRequest ? '#10B981' : songBorderColor,
+                borderColor: isOnStage ? '#FBBF24' : isHotTrack ? '#EF4444' : isTopRequest ? '#10B981' : songBorderColor,
               }}
             >
               {/* Status Badge */}
               <div className="absolute top-4 right-4">
-                {request.isLocked ? (
+                {isOnStage ? (
                   <div className="flex items-center space-x-1 px-3 py-1 bg-yellow-600 text-yellow-100 rounded-full text-sm font-bold">
                     <Crown className="w-4 h-4" />
-                    <span>Next Up</span>
+                    <span>{STAGE_LABELS[stage]}</span>
                   </div>
                 ) : isHotTrack ? (
                   <div className="flex items-center space-x-1 px-3 py-1 bg-red-600 text-red-100 rounded-full text-sm font-bold">
@@ -203,17 +193,17 @@ export function UpvoteList({ requests, onVote, currentUserId, votingStates = new
                 ) : (
                   <button
                     onClick={(e) => handleVote(request.id, e)}
-                    disabled={isVoting || request.isLocked}
+                    disabled={isVoting || isOnStage}
                     className={`px-6 py-3 rounded-lg font-medium transition-all transform hover:scale-105 disabled:transform-none flex items-center space-x-2 min-w-[120px] justify-center ${
-                      request.isLocked
+                      isOnStage
                       ? 'bg-gray-600/50 text-gray-400 cursor-not-allowed'
                       : isVoting
                       ? 'bg-purple-600/50 text-purple-200 cursor-wait'
                       : 'bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:from-purple-700 hover:to-pink-700 shadow-lg hover:shadow-xl'
                     }`}
                     style={{
-                      backgroundColor: !request.isLocked && !isVoting ? undefined : undefined,
-                      backgroundImage: !request.isLocked && !isVoting ? `linear-gradient(to right, ${accentColor}, ${accentColor})` : undefined
+                      backgroundColor: !isOnStage && !isVoting ? undefined : undefined,
+                      backgroundImage: !isOnStage && !isVoting ? `linear-gradient(to right, ${accentColor}, ${accentColor})` : undefined
                     }}
                   >
                     {isVoting ? (
@@ -221,10 +211,10 @@ export function UpvoteList({ requests, onVote, currentUserId, votingStates = new
                         <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
                         <span>Voting...</span>
                       </>
-                    ) : request.isLocked ? (
+                    ) : isOnStage ? (
                       <>
                         <Crown className="w-5 h-5" />
-                        <span>Locked</span>
+                        <span>{stage === 'now_playing' ? 'Playing' : 'Locked'}</span>
                       </>
                     ) : (
                       <>
@@ -237,7 +227,7 @@ export function UpvoteList({ requests, onVote, currentUserId, votingStates = new
               </div>
 
               {/* Progress Bar for Engagement */}
-              {!request.isLocked && totalEngagement > 0 && (
+              {!isOnStage && totalEngagement > 0 && (
                 <div className="mt-4">
                   <div className="w-full bg-gray-700/50 rounded-full h-2">
                     <div
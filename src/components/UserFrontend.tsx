@@ -3,12 +3,18 @@ import { Music4, ThumbsUp, UserCircle, Settings } from 'lucide-react';
 import { Logo } from './shared/Logo';
 import { SongList } from './SongList';
 import { UpvoteList } from './UpvoteList';
+import { MyRequests } from './MyRequests';
 import { RequestModal } from './RequestModal';
 import { LandingPage } from './LandingPage';
 import { Ticker } from './Ticker';
 import { useUiSettings } from '../hooks/useUiSettings';
+import { isApprovedRequest } from '../utils/moderation';
+import { getStageLanes } from '../utils/stages';
+import { RequestSubmissionError } from '../utils/requestSubmission';
+import { isSongAvailable } from '../utils/events';
+import { createSongSearchIndex, searchSongs, findLibrarySong } from '../utils/songSearch';
 import toast from 'react-hot-toast';
-import type { Song, SongRequest, User, RequestFormData } from '../types';
+import type { Song, SongRequest, User, RequestFormData, GigEvent } from '../types';
 
 interface UserFrontendProps {
   songs: Song[];
@@ -18,10 +24,16 @@ interface UserFrontendProps {
     name: string;
     songs: Song[];
   } | null;
+  // The running event decides which songs are available tonight
+  activeEvent: GigEvent | null;
   currentUser: User;
   onSubmitRequest: (data: RequestFormData) => Promise<boolean>;
   onVoteRequest: (id: string) => Promise<boolean>;
   onUpdateUser: (user: User) => void;
+  account?: {
+    isAnonymous: boolean;
+    email?: string;
+  };
   logoUrl: string;
   isAdmin: boolean;
   onLogoClick?: () => void;
@@ -32,10 +44,12 @@ export function UserFrontend({
   songs,
   requests, // This is already merged requests from App.tsx
   activeSetList,
+  activeEvent,
   currentUser,
   onSubmitRequest,
   onVoteRequest,
   onUpdateUser,
+  account,
   logoUrl,
   isAdmin,
   onLogoClick = () => {},
@@ -66,35 +80,31 @@ export function UserFrontend({
   const highlightColor = settings?.highlight_color || '#ff00ff';
   const accentColor = settings?.frontend_accent_color || '#ff00ff';
 
-  // Get the locked request for the ticker (using passed requests)
-  const lockedRequest = useMemo(() => {
-    return requests.find(r => r.isLocked && !r.isPlayed);
-  }, [requests]);
+  // What's on stage and what's up next, for the ticker
+  const { nowPlaying, upNext } = useMemo(
+    () => getStageLanes(requests.filter(r => !r.isPlayed && isApprovedRequest(r))),
+    [requests]
+  );
 
-  // Find the locked song for ticker
-  const lockedSong = useMemo(() => {
-    if (!lockedRequest) return null;
-    return songs.find(s => s.title === lockedRequest.title);
-  }, [lockedRequest, songs]);
+  // Album art for the ticker comes from the song library
+  const toTickerSong = useCallback((request?: SongRequest) => {
+    if (!request) return undefined;
+    return {
+      title: request.title,
+      artist: request.artist,
+      albumArtUrl: findLibrarySong(songs, request.title, request.artist)?.albumArtUrl
+    };
+  }, [songs]);
 
   // Get available songs (from set list or all songs)
   const availableSongs = useMemo(() => {
-    return activeSetList?.songs || songs;
-  }, [activeSetList, songs]);
+    // Songs the band has switched off, or can't play tonight, stay out of the audience's list
+    return (activeSetList?.songs || songs).filter(song => isSongAvailable(song, activeEvent));
+  }, [activeSetList, songs, activeEvent]);
 
-  // Filter songs based on search
-  const filteredSongs = useMemo(() => {
-    if (!searchTerm.trim()) return availableSongs;
-    
-    const searchLower = searchTerm.toLowerCase();
-    return availableSongs.filter(song => {
-      return (
-        song.title.toLowerCase().includes(searchLower) ||
-        song.artist.toLowerCase().includes(searchLower) ||
-        (song.genre?.toLowerCase() || '').includes(searchLower)
-      );
-    });
-  }, [availableSongs, searchTerm]);
+  // Filter songs based on search, best matches first
+  const searchIndex = useMemo(() => createSongSearchIndex(availableSongs), [availableSongs]);
+  const filteredSongs = useMemo(() => searchSongs(searchIndex, searchTerm), [searchIndex, searchTerm]);
 
   // Simplified song request handler - App.tsx handles optimistic updates
   const handleRequestSong = useCallback(async (song: Song) => {
@@ -117,13 +127,17 @@ export function UserFrontend({
       const success = await onSubmitRequest(requestData);
       
       if (success) {
-        toast.success(`"${song.title}" has been added to the queue!`);
+        toast.success(settings?.moderation_enabled
+          ? `"${song.title}" was sent to the band for approval`
+          : `"${song.title}" has been added to the queue!`);
         setSelectedSong(null);
         setIsRequestModalOpen(false);
       }
     } catch (error) {
       console.error('Error requesting song:', error);
-      toast.error('Failed to submit request. Please try again.');
+      toast.error(error instanceof RequestSubmissionError
+        ? error.message
+        : 'Failed to submit request. Please try again.');
     } finally {
       setSubmittingStates(prev => {
         const newSet = new Set(prev);
@@ -131,7 +145,7 @@ export function UserFrontend({
         return newSet;
       });
     }
-  }, [currentUser, onSubmitRequest]);
+  }, [currentUser, onSubmitRequest, settings?.moderation_enabled]);
 
   // Simplified vote handler - no temporary request validation needed
   const handleVote = useCallback(async (requestId: string): Promise<boolean> => {
@@ -181,6 +195,7 @@ export function UserFrontend({
       <LandingPage 
         onComplete={handleProfileUpdate}
         initialUser={currentUser}
+        account={account}
       />
     );
   }
@@ -256,13 +271,10 @@ export function UserFrontend({
 
       {/* Ticker */}
       <Ticker
-        nextSong={lockedRequest ? {
-          title: lockedRequest.title,
-          artist: lockedRequest.artist,
-          albumArtUrl: lockedSong?.albumArtUrl
-        } : undefined}
+        nowPlaying={toTickerSong(nowPlaying)}
+        nextSong={toTickerSong(upNext)}
         customMessage={settings?.custom_message}
-        isActive={!!settings?.custom_message || !!lockedRequest}
+        isActive={!!settings?.custom_message || !!nowPlaying || !!upNext}
       />
 
       {/* Main content */}
@@ -300,12 +312,15 @@ export function UserFrontend({
               )}
             </>
           ) : (
-            <UpvoteList
-              requests={requests} // Using passed requests (real-time data only)
-              onVote={handleVote}
-              currentUserId={currentUser?.id || currentUser?.name}
-              votingStates={votingStates}
-            />
+            <>
+              <MyRequests requests={requests} userId={currentUser.id} userName={currentUser.name} />
+              <UpvoteList
+                requests={requests} // Using passed requests (real-time data only)
+                onVote={handleVote}
+                currentUserId={currentUser?.id || currentUser?.name}
+                votingStates={votingStates}
+              />
+            </>
           )}
         </div>
       </main>
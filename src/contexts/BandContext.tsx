@@ -0,0 +1,121 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { parseRoute, buildBandPath, type AppRoute, type AppView } from '../utils/routing';
+import { fetchBandBySlug } from '../utils/bands';
+import { LoadingSpinner } from '../components/shared/LoadingSpinner';
+import { BandDirectory } from '../components/BandDirectory';
+import type { Band } from '../types';
+
+interface BandContextValue {
+  band: Band;
+  route: AppRoute;
+  // Navigate within the current band, or to another band when a slug is given
+  navigate: (view: AppView, bandSlug?: string) => void;
+}
+
+const BandContext = createContext<BandContextValue | null>(null);
+
+interface BandProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Resolves the band from the /b/:bandSlug URL and only renders the app once
+ * it is known. Paths without a band show the band directory instead.
+ */
+export function BandProvider({ children }: BandProviderProps) {
+  const [route, setRoute] = useState<AppRoute>(() => parseRoute(window.location.pathname));
+  const [band, setBand] = useState<Band | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Slug that was looked up and doesn't exist
+  const [missingSlug, setMissingSlug] = useState<string | null>(null);
+
+  // Keep the route in sync with back/forward navigation
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Load the band whenever the slug changes
+  useEffect(() => {
+    if (!route.bandSlug) {
+      setBand(null);
+      setIsLoading(false);
+      return;
+    }
+
+    if (band?.slug === route.bandSlug) return;
+
+    const slug = route.bandSlug;
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchBandBySlug(slug)
+      .then(result => {
+        if (cancelled) return;
+        setBand(result);
+        setMissingSlug(result ? null : slug);
+      })
+      .catch(error => {
+        console.error('Error loading band:', error);
+        if (!cancelled) setMissingSlug(slug);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [route.bandSlug, band?.slug]);
+
+  const navigate = useCallback((view: AppView, bandSlug?: string) => {
+    const slug = bandSlug ?? band?.slug;
+    if (!slug) return;
+
+    window.history.pushState({}, '', buildBandPath(slug, view));
+    setRoute({ bandSlug: slug, view });
+  }, [band?.slug]);
+
+  // Used by the directory, which keeps whichever view the URL asked for
+  const selectBand = useCallback(
+    (slug: string) => navigate(route.view, slug),
+    [navigate, route.view]
+  );
+
+  const value = useMemo(
+    () => (band ? { band, route, navigate } : null),
+    [band, route, navigate]
+  );
+
+  const notFound = !!route.bandSlug && missingSlug === route.bandSlug;
+  const isResolving = !!route.bandSlug && !notFound && band?.slug !== route.bandSlug;
+
+  if (isLoading || isResolving) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!route.bandSlug || notFound || !value) {
+    return (
+      <BandDirectory
+        view={route.view}
+        missingSlug={notFound ? route.bandSlug : null}
+        onSelect={selectBand}
+      />
+    );
+  }
+
+  return <BandContext.Provider value={value}>{children}</BandContext.Provider>;
+}
+
+export function useCurrentBand(): BandContextValue {
+  const context = useContext(BandContext);
+  if (!context) {
+    throw new Error('useCurrentBand must be used inside a BandProvider');
+  }
+  return context;
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../utils/supabase';
+import {
+  ensureAudienceSession,
+  fetchAudienceProfile,
+  importLegacyProfile,
+  saveAudienceProfile
+} from '../utils/audienceIdentity';
+import type { User } from '../types';
+
+/**
+ * Gives the audience a durable identity: an anonymous Supabase Auth session
+ * per device, with the name and photo stored in `audience_profiles`.
+ * Only starts a session while `enabled`, so the backend and kiosk views
+ * never create anonymous users.
+ */
+export function useAudienceIdentity(enabled: boolean) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(enabled);
+  const mountedRef = useRef(true);
+
+  const loadProfile = useCallback(async (nextSession: Session | null) => {
+    if (!nextSession) {
+      setCurrentUser(null);
+      return;
+    }
+
+    try {
+      const profile = await fetchAudienceProfile(nextSession.user.id)
+        ?? await importLegacyProfile(nextSession.user.id);
+      if (mountedRef.current) {
+        setCurrentUser(profile);
+      }
+    } catch (error) {
+      console.error('Error loading audience profile:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      setLoading(false);
+      return;
+    }
+
+    mountedRef.current = true;
+
+    ensureAudienceSession()
+      .then(nextSession => {
+        if (!mountedRef.current) return;
+        setSession(nextSession);
+        return loadProfile(nextSession);
+      })
+      .catch(error => {
+        console.error('Error starting audience session:', error);
+      })
+      .finally(() => {
+        if (mountedRef.current) {
+          setLoading(false);
+        }
+      });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      if (event === 'SIGNED_OUT') {
+        setSession(null);
+        setCurrentUser(null);
+        // Signing out of the backend on this device shouldn't leave the audience without an id
+        ensureAudienceSession().catch(error => {
+          console.error('Error starting audience session:', error);
+        });
+        return;
+      }
+
+      setSession(nextSession);
+      if (event === 'SIGNED_IN') {
+        loadProfile(nextSession);
+      }
+    });
+
+    return () => {
+      mountedRef.current = false;
+      subscription.unsubscribe();
+    };
+  }, [enabled, loadProfile]);
+
+  const saveProfile = useCallback(async (user: User): Promise<User> => {
+    const activeSession = session ?? await ensureAudienceSession();
+    const profile = await saveAudienceProfile(activeSession.user.id, user);
+    setCurrentUser(profile);
+    return profile;
+  }, [session]);
+
+  return {
+    currentUser,
+    session,
+    // Anonymous until an email has been confirmed for the account
+    isAnonymous: session?.user.is_anonymous ?? true,
+    accountEmail: session?.user.email || undefined,
+    loading,
+    saveProfile
+  };
+}
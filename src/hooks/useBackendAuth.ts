@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../utils/supabase';
+import { fetchBackendUser, signOutBackendUser } from '../utils/backendAuth';
+import { fetchMemberBands } from '../utils/bands';
+import type { BackendAccount, MemberBand } from '../types';
+
+/**
+ * Tracks the Supabase Auth session, the backend account attached to it and
+ * the bands that account belongs to, with its role in each. Sessions are
+ * restored automatically on page load.
+ */
+export function useBackendAuth() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [backendUser, setBackendUser] = useState<BackendAccount | null>(null);
+  const [memberBands, setMemberBands] = useState<MemberBand[]>([]);
+  const [loading, setLoading] = useState(true);
+  const mountedRef = useRef(true);
+
+  const loadBackendUser = useCallback(async (nextSession: Session | null) => {
+    if (!nextSession) {
+      setBackendUser(null);
+      setMemberBands([]);
+      return;
+    }
+
+    try {
+      const user = await fetchBackendUser(nextSession.user.id);
+      const bands = user ? await fetchMemberBands(user.id) : [];
+      if (mountedRef.current) {
+        setBackendUser(user);
+        setMemberBands(bands);
+      }
+    } catch (error) {
+      console.error('Error loading backend user:', error);
+      if (mountedRef.current) {
+        setBackendUser(null);
+        setMemberBands([]);
+      }
+    }
+  }, []);
+
+  // Reload memberships, e.g. after creating a band
+  const refreshBands = useCallback(async () => {
+    if (!backendUser) return;
+
+    try {
+      const bands = await fetchMemberBands(backendUser.id);
+      if (mountedRef.current) {
+        setMemberBands(bands);
+      }
+    } catch (error) {
+      console.error('Error loading bands:', error);
+    }
+  }, [backendUser]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+
+    // Restore any persisted session first
+    supabase.auth.getSession()
+      .then(({ data }) => {
+        if (!mountedRef.current) return;
+        setSession(data.session);
+        return loadBackendUser(data.session);
+      })
+      .catch(error => {
+        console.error('Error restoring session:', error);
+      })
+      .finally(() => {
+        if (mountedRef.current) {
+          setLoading(false);
+        }
+      });
+
+    // Keep in sync with sign in, sign out and token refreshes
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      loadBackendUser(nextSession);
+    });
+
+    return () => {
+      mountedRef.current = false;
+      subscription.unsubscribe();
+    };
+  }, [loadBackendUser]);
+
+  const signOut = useCallback(async () => {
+    await signOutBackendUser();
+    setBackendUser(null);
+    setMemberBands([]);
+  }, []);
+
+  return {
+    session,
+    backendUser,
+    memberBands,
+    isAuthenticated: !!backendUser,
+    loading,
+    signOut,
+    refreshBands
+  };
+}
@@ -0,0 +1,67 @@
+import { useEffect, useCallback, useState, useRef } from 'react';
+import { RealtimeManager } from '../utils/realtimeManager';
+import { fetchEvents } from '../utils/events';
+import type { GigEvent } from '../types';
+
+interface UseEventSyncProps {
+  setEvents: (events: GigEvent[]) => void;
+  isOnline: boolean;
+  bandId: string;
+}
+
+export function useEventSync({ setEvents, isOnline, bandId }: UseEventSyncProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const mountedRef = useRef(true);
+  const subscriptionRef = useRef<string | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      const events = await fetchEvents(bandId);
+      if (mountedRef.current) {
+        setEvents(events);
+        setError(null);
+      }
+    } catch (err) {
+      console.error('Error fetching events:', err);
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err : new Error(String(err)));
+      }
+    } finally {
+      if (mountedRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [setEvents, bandId]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+
+    if (isOnline) {
+      loadEvents();
+
+      subscriptionRef.current = RealtimeManager.createSubscription(
+        'events',
+        (payload: any) => {
+          console.log('🎤 Events changed:', payload.eventType);
+          loadEvents();
+        },
+        { event: '*', schema: 'public', table: 'events', filter: `band_id=eq.${bandId}` }
+      );
+    }
+
+    return () => {
+      mountedRef.current = false;
+      if (subscriptionRef.current) {
+        RealtimeManager.removeSubscription(subscriptionRef.current);
+        subscriptionRef.current = null;
+      }
+    };
+  }, [isOnline, loadEvents, bandId]);
+
+  return {
+    isLoading,
+    error,
+    refetch: loadEvents
+  };
+}
@@ -1,10 +1,13 @@
 import { useState, useEffect, useCallback } from 'react';
 import { queueManager } from '../utils/queueManager';
+import { getRankingConfig } from '../utils/queueRanking';
+import { useUiSettings } from './useUiSettings';
 import type { QueuedRequest, SongRequest, QueueStats } from '../types';
 
 export function useQueueManager() {
   const [queue, setQueue] = useState<QueuedRequest[]>([]);
   const [stats, setStats] = useState<QueueStats>(queueManager.getStats());
+  const { settings } = useUiSettings();
 
   // Update local state when queue changes
   const refreshQueue = useCallback(() => {
@@ -37,6 +40,12 @@ export function useQueueManager() {
     refreshQueue();
   }, [refreshQueue]);
 
+  // Rank with the band's strategy, like every other view of the queue
+  useEffect(() => {
+    queueManager.setRanking(getRankingConfig(settings));
+    refreshQueue();
+  }, [settings, refreshQueue]);
+
   // Keep local state in sync with queue manager
   useEffect(() => {
     refreshQueue();
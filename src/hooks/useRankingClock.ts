@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { RANKING_TICK_MS, rankingNow } from '../utils/queueRanking';
+
+/**
+ * The time queues are ranked at. It ticks on the minute, so every view of the
+ * queue re-ranks at the same moment as requests wait longer.
+ */
+export function useRankingClock(): number {
+  const [now, setNow] = useState(() => rankingNow());
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+
+    const scheduleTick = () => {
+      timer = setTimeout(() => {
+        setNow(rankingNow());
+        scheduleTick();
+      }, RANKING_TICK_MS - (Date.now() % RANKING_TICK_MS));
+    };
+
+    scheduleTick();
+    return () => clearTimeout(timer);
+  }, []);
+
+  return now;
+}
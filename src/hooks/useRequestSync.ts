@@ -16,27 +16,41 @@ interface UseRequestSyncProps {
   setRequests: (requests: SongRequest[]) => void;
   isOnline: boolean;
   currentUser: any;
+  bandId: string;
+  // The running event's id, null outside of an event, or undefined while the
+  // band's events are still loading and it isn't known yet
+  eventId: string | null | undefined;
 }
 
 export function useRequestSync({
   requests,
   setRequests,
   isOnline,
-  currentUser
+  currentUser,
+  bandId,
+  eventId
 }: UseRequestSyncProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [retryCount, setRetryCount] = useState(0);
   const mountedRef = useRef(true);
   const subscriptionRef = useRef<any | null>(null);
-  const fetchInProgressRef = useRef<boolean>(false);
+  // The scope a fetch is running for, if any
+  const fetchInProgressRef = useRef<string | null>(null);
   const cacheRef = useRef<CachedData | null>(null);
   const lastUpdateRef = useRef<number>(0);
+  // The band and event the requests on screen belong to
+  const scope = `${bandId}|${eventId ?? ''}`;
+  const scopeRef = useRef(scope);
+  scopeRef.current = scope;
 
   // Optimized fetch with caching and deduplication
   const fetchRequests = useCallback(async (bypassCache = false) => {
-    // Prevent concurrent fetches
-    if (fetchInProgressRef.current) { 
+    // Nothing to load until we know which event is running
+    if (eventId === undefined) return;
+
+    // Prevent concurrent fetches of the same requests
+    if (fetchInProgressRef.current === scope) { 
       return;
     }
     
@@ -56,7 +70,7 @@ export function useRequestSync({
       }
     } 
     
-    fetchInProgressRef.current = true;
+    fetchInProgressRef.current = scope;
     
     try {
       if (!mountedRef.current) return;
@@ -66,19 +80,32 @@ export function useRequestSync({
 
       // FIXED: Use direct query instead of missing function
       console.log('🔄 Fetching requests with requesters...');
-      const { data: requestsData, error: requestsError } = await supabase
+      let query = supabase
         .from('requests')
         .select(`
           *,
           requesters (
             id,
+            user_id,
             name,
             photo,
             message,
             created_at
           )
         `)
+        .eq('band_id', bandId)
+        // Archived by a queue reset or removed; both can still be restored
+        .is('archived_at', null)
+        .is('deleted_at', null);
+
+      // Only the live queue: requests from ended events stay in the event history
+      query = eventId ? query.eq('event_id', eventId) : query.is('event_id', null);
+
+      const { data: requestsData, error: requestsError } = await query
         .order('created_at', { ascending: false });
+
+      // The event changed while this was loading; the newer fetch wins
+      if (scopeRef.current !== scope) return;
       
       console.log('🔍 DEBUG - Raw Supabase Response:');
       console.log('- Error:', requestsError);
@@ -114,6 +141,7 @@ export function useRequestSync({
           artist: request.artist || '', 
           requesters: (request.requesters || []).map((requester: any) => ({
             id: requester.id,
+            userId: requester.user_id || undefined,
             name: requester.name || 'Anonymous',
             photo: requester.photo || '',
             message: requester.message || '',
@@ -121,8 +149,14 @@ export function useRequestSync({
           })),
           votes: request.votes || 0, 
           status: request.status as any,
+          rejectionReason: request.rejection_reason || undefined,
           isLocked: request.is_locked || false,
           isPlayed: request.is_played || false,
+          pinnedPosition: request.pinned_position ?? undefined,
+          stage: request.stage || undefined,
+          startedAt: request.started_at || undefined,
+          playedAt: request.played_at || undefined,
+          eventId: request.event_id || undefined,
           createdAt: new Date(request.created_at)
         };
       });
@@ -164,9 +198,11 @@ export function useRequestSync({
       if (mountedRef.current) {
         setIsLoading(false);
       }
-      fetchInProgressRef.current = false;
+      if (fetchInProgressRef.current === scope) {
+        fetchInProgressRef.current = null;
+      }
     }
-  }, [setRequests]);
+  }, [setRequests, bandId, eventId, scope]);
   
   // Setup real-time subscription with debouncing
   useEffect(() => {
@@ -178,15 +214,16 @@ export function useRequestSync({
         subscriptionRef.current.unsubscribe(); 
       }
 
-      // Subscribe to requests changes
+      // Subscribe to requests changes, in the running event when there is one
       const subscription = supabase
-        .channel('requests_channel')
+        .channel(`requests_channel_${bandId}_${eventId ?? 'none'}`)
         .on(
           'postgres_changes',
           {
             event: '*',
             schema: 'public',
-            table: 'requests'
+            table: 'requests',
+            filter: eventId ? `event_id=eq.${eventId}` : `band_id=eq.${bandId}`
           },
           (payload) => {
             console.log('📡 Request change detected:', payload.eventType);
@@ -254,7 +291,7 @@ export function useRequestSync({
         });
     };
 
-    if (isOnline) setupSubscription(); 
+    if (isOnline && eventId !== undefined) setupSubscription(); 
 
     return () => {
       if (debounceTimer) {
@@ -264,7 +301,7 @@ export function useRequestSync({
         subscriptionRef.current.unsubscribe();
       }
     };
-  }, [fetchRequests, isOnline]);
+  }, [fetchRequests, isOnline, bandId, eventId]);
   
   // Function to manually reconnect and refresh data
   const reconnectRequests = useCallback(() => {
@@ -286,6 +323,11 @@ export function useRequestSync({
     fetchRequests(true);
   }, [fetchRequests]);
 
+  // Cached requests belong to the previous band or event after switching
+  useEffect(() => {
+    cacheRef.current = null;
+  }, [bandId, eventId]);
+
   // Initial fetch
   useEffect(() => {
     fetchRequests();
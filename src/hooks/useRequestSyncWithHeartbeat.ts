@@ -33,9 +33,10 @@ export function useRequestSyncWithHeartbeat(onUpdate: (requests: SongRequest[])
     const isLockChange = oldData.is_locked !== newData.is_locked;
     const isStatusChange = oldData.status !== newData.status;
     const isPlayedChange = oldData.is_played !== newData.is_played;
+    const isStageChange = oldData.stage !== newData.stage;
     
-    if (isLockChange || isStatusChange || isPlayedChange) {
-      console.log('🚨 INSTANT UPDATE: Lock/Status/Played change detected');
+    if (isLockChange || isStatusChange || isPlayedChange || isStageChange) {
+      console.log('🚨 INSTANT UPDATE: Lock/Status/Played/Stage change detected');
       // For critical updates: NO debouncing, NO cache check, IMMEDIATE fetch
       fetchRequests(true, true); 
     } else {
@@ -143,12 +144,15 @@ export function useRequestSyncWithHeartbeat(onUpdate: (requests: SongRequest[])
           *,
           requesters (
             id,
+            user_id,
             name,
             photo,
             message,
             created_at
           )
         `)
+        .is('archived_at', null)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false })
         .abortSignal(signal);
       
@@ -165,11 +169,18 @@ export function useRequestSyncWithHeartbeat(onUpdate: (requests: SongRequest[])
           artist: request.artist || '',
           votes: request.votes || 0,
           status: request.status || 'pending',
+          rejectionReason: request.rejection_reason || undefined,
           isLocked: request.is_locked || false,
           isPlayed: request.is_played || false,
+          pinnedPosition: request.pinned_position ?? undefined,
+          stage: request.stage || undefined,
+          startedAt: request.started_at || undefined,
+          playedAt: request.played_at || undefined,
+          eventId: request.event_id || undefined,
           createdAt: new Date(request.created_at).toISOString(),
           requesters: (request.requesters || []).map(requester => ({
             id: requester.id,
+            userId: requester.user_id || undefined,
             name: requester.name,
             photo: requester.photo,
             message: requester.message || '',
@@ -2,9 +2,10 @@ import { useEffect, useCallback, useState, useRef } from 'react';
 import { supabase } from '../utils/supabase';
 import { cacheService } from '../utils/cache';
 import { RealtimeManager } from '../utils/realtimeManager';
+import { SONG_COLUMNS, formatSong } from '../utils/songMetadata';
 import type { SetList } from '../types';
 
-const SET_LISTS_CACHE_KEY = 'set_lists:all';
+const SET_LISTS_CACHE_PREFIX = 'set_lists:';
 const MAX_RETRY_ATTEMPTS = 3;
 const RETRY_DELAY = 1000; // 1 second base delay
 
@@ -12,13 +13,17 @@ interface UseSetListSyncProps {
   setLists: SetList[];
   setSetLists: (setLists: SetList[]) => void;
   isOnline: boolean;
+  bandId: string;
 }
 
 export function useSetListSync({
   setLists,
   setSetLists,
-  isOnline
+  isOnline,
+  bandId
 }: UseSetListSyncProps) {
+  // Each band keeps its own cached set lists
+  const setListsCacheKey = `${SET_LISTS_CACHE_PREFIX}${bandId}`;
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [retryCount, setRetryCount] = useState(0);
@@ -67,7 +72,7 @@ export function useSetListSync({
 
       // Check cache first unless bypassing
       if (!bypassCache) {
-        const cachedSetLists = cacheService.get<SetList[]>(SET_LISTS_CACHE_KEY);
+        const cachedSetLists = cacheService.get<SetList[]>(setListsCacheKey);
         if (cachedSetLists?.length > 0) {
           console.log('Using cached set lists');
           if (mountedRef.current && setSetLists) {
@@ -95,17 +100,10 @@ export function useSetListSync({
           set_list_songs (
             id,
             position,
-            songs (
-              id,
-              title,
-              artist,
-              genre,
-              key,
-              notes,
-              "albumArtUrl"
-            )
+            songs (${SONG_COLUMNS})
           )
         `)
+        .eq('band_id', bandId)
         .order('created_at', { ascending: false });
 
       if (setListsError) throw setListsError;
@@ -125,9 +123,7 @@ export function useSetListSync({
               const song = sls.songs;
               console.log('Processing song from setlist:', song.title, 'Album art:', song.albumArtUrl);
               return {
-                ...song,
-                // Use the standardized albumArtUrl field
-                albumArtUrl: song.albumArtUrl || null,
+                ...formatSong(song),
                 position: sls.position,
                 setListSongId: sls.id
               };
@@ -146,7 +142,7 @@ export function useSetListSync({
           console.log('No active set list found');
         }
         
-        cacheService.setSetLists(SET_LISTS_CACHE_KEY, formattedSetLists);
+        cacheService.setSetLists(setListsCacheKey, formattedSetLists);
         setSetLists(formattedSetLists);
         setRetryCount(0); // Reset retry count on success
       }
@@ -157,7 +153,7 @@ export function useSetListSync({
         setError(error instanceof Error ? error : new Error(String(error)));
         
         // Use cached data if available
-        const cachedSetLists = cacheService.get<SetList[]>(SET_LISTS_CACHE_KEY);
+        const cachedSetLists = cacheService.get<SetList[]>(setListsCacheKey);
         if (cachedSetLists) {
           console.warn('Using stale cache due to fetch error');
           setSetLists(cachedSetLists);
@@ -186,7 +182,7 @@ export function useSetListSync({
       }
       fetchInProgressRef.current = false;
     }
-  }, [setSetLists, retryCount]);
+  }, [setSetLists, retryCount, bandId, setListsCacheKey]);
 
   // Setup realtime subscriptions
   useEffect(() => {
@@ -203,10 +199,11 @@ export function useSetListSync({
         // Subscribe to set_lists table
         const setListsSub = RealtimeManager.createSubscription(
           'set_lists',
-          (payload) => {
+          (payload: any) => {
             console.log('Set lists changed:', payload.eventType);
             fetchSetLists(true);
-          }
+          },
+          { event: '*', schema: 'public', table: 'set_lists', filter: `band_id=eq.${bandId}` }
         );
         
         // Subscribe to set_list_songs table
@@ -220,15 +217,18 @@ export function useSetListSync({
         // Subscribe specifically to set list activation changes
         const setListActivationSub = RealtimeManager.createSubscription(
           'set_lists',
-          (payload) => {
+          (payload: any) => {
             console.log('🔔 Set list activation changed:', payload);
+            // Activation is filtered on is_active, so other bands' set lists come through too
+            if (payload.new?.band_id !== bandId) return;
+
             // If this is an update and is_active changed, fetch immediately with high priority
             if (payload.eventType === 'UPDATE' && 
                 payload.new && payload.old && 
                 payload.new.is_active !== payload.old.is_active) {
               console.log('⚡ Set list activation state changed - immediate update');
               // Clear cache and fetch fresh data
-              cacheService.del(SET_LISTS_CACHE_KEY);
+              cacheService.del(setListsCacheKey);
               fetchSetLists(true);
             }
           },
@@ -282,7 +282,7 @@ export function useSetListSync({
         RealtimeManager.removeSubscription(setListActivationSubscriptionRef.current);
       }
     };
-  }, [fetchSetLists]);
+  }, [fetchSetLists, bandId]);
 
   // Function to manually reconnect
   const reconnectSetLists = useCallback(() => {
@@ -2,9 +2,10 @@ import { useEffect, useCallback, useState, useRef } from 'react';
 import { supabase } from '../utils/supabase';
 import { cacheService } from '../utils/cache';
 import { RealtimeManager } from '../utils/realtimeManager';
+import { SONG_COLUMNS, formatSong } from '../utils/songMetadata';
 import type { Song } from '../types';
 
-const SONGS_CACHE_KEY = 'songs:all';
+const SONGS_CACHE_PREFIX = 'songs:';
 const MAX_RETRY_ATTEMPTS = 3;
 const RETRY_DELAY = 1000; // 1 second base delay
 
@@ -12,13 +13,17 @@ interface UseSongSyncProps {
   songs: Song[];
   setSongs: (songs: Song[]) => void;
   isOnline: boolean;
+  bandId: string;
 }
 
 export function useSongSync({
   songs,
   setSongs,
-  isOnline
+  isOnline,
+  bandId
 }: UseSongSyncProps) {
+  // Each band keeps its own cached library
+  const songsCacheKey = `${SONGS_CACHE_PREFIX}${bandId}`;
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [retryCount, setRetryCount] = useState(0);
@@ -45,7 +50,7 @@ export function useSongSync({
 
       // Check cache first unless bypassing
       if (!bypassCache) {
-        const cachedSongs = cacheService.get<Song[]>(SONGS_CACHE_KEY);
+        const cachedSongs = cacheService.get<Song[]>(songsCacheKey);
         if (cachedSongs?.length > 0) {
           console.log('Using cached songs');
           if (mountedRef.current && setSongs) {
@@ -60,25 +65,17 @@ export function useSongSync({
       console.log('Fetching songs...');
       const { data: songsData, error: songsError } = await supabase
         .from('songs')
-        .select(`
-          id,
-          title,
-          artist,
-          genre,
-          key,
-          notes,
-          "albumArtUrl",
-          created_at,
-          updated_at
-        `)
+        .select(SONG_COLUMNS)
+        .eq('band_id', bandId)
         .order('title');
 
       if (songsError) throw songsError;
 
       if (songsData && mountedRef.current) {
         if (songsData) {
-          cacheService.setSongs(SONGS_CACHE_KEY, songsData);
-          setSongs(songsData);
+          const formattedSongs: Song[] = songsData.map(formatSong);
+          cacheService.setSongs(songsCacheKey, formattedSongs);
+          setSongs(formattedSongs);
         }
         setRetryCount(0); // Reset retry count on success
       }
@@ -89,7 +86,7 @@ export function useSongSync({
         setError(error instanceof Error ? error : new Error(String(error)));
         
         // Use cached data if available
-        const cachedSongs = cacheService.get<Song[]>(SONGS_CACHE_KEY);
+        const cachedSongs = cacheService.get<Song[]>(songsCacheKey);
         if (cachedSongs) {
           console.warn('Using stale cache due to fetch error');
           setSongs(cachedSongs);
@@ -118,7 +115,7 @@ export function useSongSync({
       }
       fetchInProgressRef.current = false;
     }
-  }, [setSongs, retryCount]);
+  }, [setSongs, retryCount, bandId, songsCacheKey]);
 
   // Setup realtime subscription
   useEffect(() => {
@@ -132,10 +129,11 @@ export function useSongSync({
       try {
         const subscription = RealtimeManager.createSubscription(
           'songs',
-          (payload) => {
+          (payload: any) => {
             console.log('Songs changed:', payload.eventType);
             fetchSongs(true);
-          }
+          },
+          { event: '*', schema: 'public', table: 'songs', filter: `band_id=eq.${bandId}` }
         );
         
         subscriptionRef.current = subscription;
@@ -167,7 +165,7 @@ export function useSongSync({
         RealtimeManager.removeSubscription(subscriptionRef.current);
       }
     };
-  }, [fetchSongs]);
+  }, [fetchSongs, bandId]);
 
   // Function to manually reconnect
   const reconnectSongs = useCallback(() => {
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../utils/supabase';
+import { useCurrentBand } from '../contexts/BandContext';
+import type { RankingStrategy, RankingWeights } from '../utils/queueRanking';
 
 interface UiSettings {
   id: string;
@@ -16,6 +18,11 @@ interface UiSettings {
   highlight_color?: string;
   customMessage?: string;
   show_qr_code?: boolean;
+  // New requests wait for staff approval before they reach the public queue
+  moderation_enabled?: boolean;
+  // How the queue is ordered everywhere it is shown; see utils/queueRanking
+  queue_ranking_strategy?: RankingStrategy;
+  queue_ranking_weights?: Partial<RankingWeights>;
 }
 
 // Default logo URL from Fusion Events 
@@ -61,6 +68,10 @@ const applyColorsInstantly = (colors: Record<string, string>) => {
 };
 
 export function useUiSettings() {
+  // Settings belong to the band whose URL we're on
+  const { band } = useCurrentBand();
+  const bandId = band.id;
+
   // All useState hooks first - fixed order
   const [settings, setSettings] = useState<UiSettings | null>(() => {
     // Initialize with defaults immediately - no loading state
@@ -96,6 +107,7 @@ export function useUiSettings() {
       const { data: allSettings, error: fetchError } = await supabase
         .from('ui_settings')
         .select('*')
+        .eq('band_id', bandId)
         .order('created_at', { ascending: false })
         .limit(1);
 
@@ -107,12 +119,17 @@ export function useUiSettings() {
         console.log("No UI settings found, creating defaults");
         const { data: newSettings, error: createError } = await supabase
           .from('ui_settings')
-          .insert(DEFAULT_SETTINGS)
+          .insert({ ...DEFAULT_SETTINGS, band_id: bandId })
           .select()
           .single();
 
-        if (createError) throw createError;
-        settingsToUse = newSettings as UiSettings;
+        // Only owners can write settings, so the audience falls back to the defaults
+        if (createError) {
+          console.warn('Could not save default UI settings, using built-in defaults:', createError.message);
+          settingsToUse = DEFAULT_SETTINGS as UiSettings;
+        } else {
+          settingsToUse = newSettings as UiSettings;
+        }
       } else {
         settingsToUse = allSettings[0] as UiSettings;
       }
@@ -176,7 +193,7 @@ export function useUiSettings() {
       // If no localStorage, keep the default settings that are already initialized
     }
     // No finally block - never set loading to false since we never set it to true
-  }, [applyCssVariables]);
+  }, [applyCssVariables, bandId]);
 
   const updateSettings = useCallback(async (newSettings: Partial<UiSettings>) => {
     // Apply colors INSTANTLY before any database operation
@@ -223,6 +240,7 @@ export function useUiSettings() {
       const { data: currentSettings } = await supabase
         .from('ui_settings')
         .select('*')
+        .eq('band_id', bandId)
         .order('created_at', { ascending: false })
         .limit(1);
 
@@ -232,6 +250,7 @@ export function useUiSettings() {
           .insert({
             ...DEFAULT_SETTINGS,
             ...newSettings,
+            band_id: bandId,
             updated_at: new Date().toISOString()
           });
 
@@ -269,7 +288,7 @@ export function useUiSettings() {
       // For other errors, still throw
       throw error;
     }
-  }, [fetchSettings, refreshSettings]);
+  }, [fetchSettings, refreshSettings, bandId]);
 
   // Single useEffect to handle everything - FIXED ORDER
   useEffect(() => {
@@ -309,9 +328,9 @@ export function useUiSettings() {
     let refreshInterval: NodeJS.Timeout | null = null;
     
     try {
-      channel = supabase.channel('ui_settings_changes')
+      channel = supabase.channel(`ui_settings_changes_${bandId}`)
         .on('postgres_changes', 
-            { event: '*', schema: 'public', table: 'ui_settings' },
+            { event: '*', schema: 'public', table: 'ui_settings', filter: `band_id=eq.${bandId}` },
             () => {
               console.log("🔄 UI settings changed, fetching updates");
               fetchSettings().catch(err => {
@@ -345,7 +364,7 @@ export function useUiSettings() {
         }
       }
     };
-  }, [fetchSettings]); // Only depend on fetchSettings
+  }, [fetchSettings, bandId]);
 
   return {
     settings,
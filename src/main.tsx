@@ -2,6 +2,7 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { Toaster } from 'react-hot-toast';
 import App from './App';
+import { BandProvider } from './contexts/BandContext';
 import './index.css';
 
 // Safely get root element
@@ -16,7 +17,9 @@ const root = createRoot(rootElement);
 // Render app with error boundary and toast notifications
 root.render(
   <StrictMode>
-    <App />
+    <BandProvider>
+      <App />
+    </BandProvider>
     <Toaster
       position="top-right"
       toastOptions={{
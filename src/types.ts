@@ -1,9 +1,14 @@
+// Where a request is in the show, from the queue to the stage
+export type RequestStage = 'queued' | 'on_deck' | 'up_next' | 'now_playing' | 'played';
+
 export interface SongRequest {
   id: string;
   title: string;
   artist?: string;
   requesters: {
     id: string;
+    // Set for audience members with a session; kiosk requests only have a name
+    userId?: string;
     name: string;
     photo: string;
     message?: string;
@@ -11,8 +16,16 @@ export interface SongRequest {
   }[];
   votes: number;
   status: 'pending' | 'approved' | 'rejected' | 'played';
+  // Shown to the requesters when a moderator turns the request down
+  rejectionReason?: string;
   isLocked?: boolean;
   isPlayed?: boolean;
+  // Slot the band dragged it to; overrides the automatic order
+  pinnedPosition?: number;
+  stage?: RequestStage;
+  startedAt?: string;
+  playedAt?: string;
+  eventId?: string;
   createdAt: string;
 }
 
@@ -29,11 +42,26 @@ export interface Song {
   id: string;
   title: string;
   artist: string;
-  genre?: string;
+  // From the band's tags, in name order
+  genres: string[];
+  tags: string[];
+  // Other names people know the song by ("Don't Stop" for "Don't Stop Believin'")
+  aliases?: string[];
   key?: string;
   notes?: string;
   lastPlayed?: Date;
   albumArtUrl?: string;
+  durationSeconds?: number;
+  releaseYear?: number;
+  // 30-second clip from the metadata provider
+  previewUrl?: string;
+  tempoBpm?: number;
+  leadVocalist?: string;
+  capo?: number;
+  tuning?: string;
+  isExplicit?: boolean;
+  // Off hides the song from the audience without removing it from the library
+  isRequestable?: boolean;
 }
 
 export interface SetList {
@@ -63,4 +91,97 @@ export interface QueueStats {
   activeRequests: number;
   completedRequests: number;
   averageWaitTime: number;
-}
\ No newline at end of file
+}
+
+export type BackendRole = 'owner' | 'band_member' | 'venue_staff' | 'kiosk_operator';
+
+// A backend account. What it can do depends on the band, see BackendUser.
+export interface BackendAccount {
+  id: string;
+  email: string;
+  displayName?: string;
+  createdAt: string;
+}
+
+// A backend account as a member of one band
+export interface BackendUser extends BackendAccount {
+  role: BackendRole;
+}
+
+export type EventStatus = 'scheduled' | 'active' | 'ended';
+
+export interface GigEvent {
+  id: string;
+  name: string;
+  venue?: string;
+  eventDate: string;
+  startTime?: string;
+  endTime?: string;
+  setListId?: string;
+  // Songs the band can't play at this event
+  unavailableSongIds: string[];
+  // Explicit songs can't be requested
+  familyFriendly: boolean;
+  status: EventStatus;
+  startedAt?: string;
+  endedAt?: string;
+  createdAt: string;
+}
+
+// The open queue as it was when someone reset it
+export interface QueueSnapshot {
+  id: string;
+  eventId?: string;
+  requestCount: number;
+  createdAt: string;
+  restoredAt?: string;
+}
+
+// One song the band played, kept after the request itself is gone
+export interface PerformanceLogEntry {
+  id: string;
+  requestId?: string;
+  songId?: string;
+  eventId?: string;
+  setListId?: string;
+  title: string;
+  artist?: string;
+  requestedAt?: string;
+  startedAt?: string;
+  playedAt: string;
+  // From the first request until the song started
+  waitSeconds?: number;
+  votes: number;
+  requesters: {
+    name: string;
+    message?: string;
+    userId?: string;
+  }[];
+}
+
+export interface Band {
+  id: string;
+  name: string;
+  slug: string;
+  createdAt: string;
+}
+
+// A band the signed in account belongs to, with its role there
+export interface MemberBand extends Band {
+  role: BackendRole;
+}
+
+// Limits enforced by submit_request; null means no limit
+export interface RequestRules {
+  maxActivePerUser: number | null;
+  minRequestGapMinutes: number | null;
+  songCooldownMinutes: number | null;
+}
+
+// At most `maxRequests` new requests for songs with this tag or genre per window
+export interface RequestCap {
+  id: string;
+  tag: string;
+  maxRequests: number;
+  windowMinutes: number;
+}
@@ -0,0 +1,206 @@
+import { supabase } from './supabase';
+import { formatRequest } from './events';
+import { fetchPerformanceLog, type PerformanceLogFilters } from './performanceLog';
+import type { PerformanceLogEntry, Song, SongRequest } from '../types';
+
+export type AnalyticsFilters = Pick<PerformanceLogFilters, 'eventId' | 'from' | 'to'>;
+
+// Requests are counted per 15 minutes of the night
+const BUCKET_MINUTES = 15;
+// Buckets start at noon so a gig running past midnight stays in order
+const DAY_START_MINUTES = 12 * 60;
+const TOP_LIMIT = 10;
+
+export interface RankedItem {
+  label: string;
+  sublabel?: string;
+  requests: number;
+  votes: number;
+}
+
+export interface TimeBucket {
+  // Minutes after midnight, local time
+  minutes: number;
+  label: string;
+  requests: number;
+}
+
+export interface GenreComparison {
+  genre: string;
+  requested: number;
+  played: number;
+}
+
+export interface AnalyticsReport {
+  totals: {
+    songsRequested: number;
+    requests: number;
+    votes: number;
+    played: number;
+    uniqueRequesters: number;
+  };
+  topSongs: RankedItem[];
+  topArtists: RankedItem[];
+  requestsOverTime: TimeBucket[];
+  // Share of requested songs that got at least one upvote
+  voteConversion: number;
+  // Share of requested songs the band played
+  playedConversion: number;
+  averageWaitSeconds?: number;
+  repeatRequesters: { name: string; requests: number }[];
+  genres: GenreComparison[];
+}
+
+const songKey = (title: string, artist?: string) =>
+  `${title.trim().toLowerCase()}|${(artist || '').trim().toLowerCase()}`;
+
+const byRequestsThenVotes = (a: RankedItem, b: RankedItem) =>
+  (b.requests - a.requests) || (b.votes - a.votes) || a.label.localeCompare(b.label);
+
+/**
+ * Requests (with who asked and when) and played songs for the filters
+ */
+export async function fetchAnalyticsData(
+  bandId: string,
+  filters: AnalyticsFilters = {}
+): Promise<{ requests: SongRequest[]; performances: PerformanceLogEntry[] }> {
+  let query = supabase
+    .from('requests')
+    .select(`
+      *,
+      requesters (
+        id,
+        user_id,
+        name,
+        created_at
+      )
+    `)
+    .eq('band_id', bandId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
+
+  if (filters.eventId) query = query.eq('event_id', filters.eventId);
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+  const [{ data, error }, performances] = await Promise.all([
+    query,
+    fetchPerformanceLog(bandId, filters)
+  ]);
+
+  if (error) throw error;
+  return { requests: (data || []).map(formatRequest), performances };
+}
+
+/**
+ * Crunch requests and performances into the numbers on the analytics tab.
+ * Each requester counts as one request; genres come from the song library.
+ */
+export function buildAnalyticsReport(
+  requests: SongRequest[],
+  performances: PerformanceLogEntry[],
+  songs: Song[]
+): AnalyticsReport {
+  const songGenres = new Map(songs.map(song => [songKey(song.title, song.artist), song.genres]));
+  const genresFor = (title: string, artist?: string) =>
+    songGenres.get(songKey(title, artist)) ?? [];
+
+  const topSongs = new Map<string, RankedItem>();
+  const topArtists = new Map<string, RankedItem>();
+  const buckets = new Map<number, number>();
+  const requesterCounts = new Map<string, { name: string; requests: number }>();
+  const genres = new Map<string, GenreComparison>();
+  let requestCount = 0;
+  const genreEntry = (genre: string) => {
+    const existing = genres.get(genre) ?? { genre, requested: 0, played: 0 };
+    genres.set(genre, existing);
+    return existing;
+  };
+
+  requests.forEach(request => {
+    // Older rows can be missing requesters; they still count as one request
+    const times = request.requesters.length > 0
+      ? request.requesters.map(requester => requester.timestamp || request.createdAt)
+      : [request.createdAt];
+    const votes = request.votes || 0;
+    requestCount += times.length;
+
+    const key = songKey(request.title, request.artist);
+    const song = topSongs.get(key) ?? { label: request.title, sublabel: request.artist || undefined, requests: 0, votes: 0 };
+    song.requests += times.length;
+    song.votes += votes;
+    topSongs.set(key, song);
+
+    if (request.artist?.trim()) {
+      const artistKey = request.artist.trim().toLowerCase();
+      const artist = topArtists.get(artistKey) ?? { label: request.artist.trim(), requests: 0, votes: 0 };
+      artist.requests += times.length;
+      artist.votes += votes;
+      topArtists.set(artistKey, artist);
+    }
+
+    genresFor(request.title, request.artist).forEach(genre => {
+      genreEntry(genre).requested += times.length;
+    });
+
+    times.forEach(timestamp => {
+      const time = new Date(timestamp);
+      const minutes = time.getHours() * 60 + time.getMinutes();
+      const bucket = minutes - (minutes % BUCKET_MINUTES);
+      buckets.set(bucket, (buckets.get(bucket) ?? 0) + 1);
+    });
+
+    request.requesters.forEach(requester => {
+      // Signed-in audience members are the same person across names and gigs
+      const id = requester.userId ?? requester.name.trim().toLowerCase();
+      const counted = requesterCounts.get(id) ?? { name: requester.name, requests: 0 };
+      counted.requests += 1;
+      requesterCounts.set(id, counted);
+    });
+  });
+
+  performances.forEach(performance => {
+    genresFor(performance.title, performance.artist).forEach(genre => {
+      genreEntry(genre).played += 1;
+    });
+  });
+
+  const waits = performances
+    .map(performance => performance.waitSeconds)
+    .filter((wait): wait is number => wait !== undefined);
+
+  return {
+    totals: {
+      songsRequested: topSongs.size,
+      requests: requestCount,
+      votes: requests.reduce((sum, request) => sum + (request.votes || 0), 0),
+      played: performances.length,
+      uniqueRequesters: requesterCounts.size
+    },
+    topSongs: Array.from(topSongs.values()).sort(byRequestsThenVotes).slice(0, TOP_LIMIT),
+    topArtists: Array.from(topArtists.values()).sort(byRequestsThenVotes).slice(0, TOP_LIMIT),
+    requestsOverTime: Array.from(buckets.entries())
+      .map(([minutes, count]) => ({
+        minutes,
+        label: `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`,
+        requests: count
+      }))
+      .sort((a, b) =>
+        ((a.minutes - DAY_START_MINUTES + 1440) % 1440) - ((b.minutes - DAY_START_MINUTES + 1440) % 1440)
+      ),
+    voteConversion: requests.length > 0
+      ? requests.filter(request => (request.votes || 0) > 0).length / requests.length
+      : 0,
+    playedConversion: requests.length > 0
+      ? requests.filter(request => request.isPlayed).length / requests.length
+      : 0,
+    averageWaitSeconds: waits.length > 0
+      ? Math.round(waits.reduce((sum, wait) => sum + wait, 0) / waits.length)
+      : undefined,
+    repeatRequesters: Array.from(requesterCounts.values())
+      .filter(requester => requester.requests > 1)
+      .sort((a, b) => b.requests - a.requests)
+      .slice(0, TOP_LIMIT),
+    genres: Array.from(genres.values()).sort((a, b) => (b.requested + b.played) - (a.requested + a.played))
+  };
+}
@@ -0,0 +1,111 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { User } from '../types';
+
+// Where profiles lived before audience sessions; imported once, then removed
+const LEGACY_USER_KEY = 'currentUser';
+
+function formatAudienceProfile(row: any): User {
+  return {
+    id: row.id,
+    name: row.name,
+    photo: row.photo || ''
+  };
+}
+
+// Confirmation and sign-in emails bring people back to the page they were on
+function getAudienceRedirectUrl(): string {
+  return `${window.location.origin}${window.location.pathname}`;
+}
+
+/**
+ * Reuse the session on this device, or start an anonymous one so the phone
+ * gets a durable user id
+ */
+export async function ensureAudienceSession(): Promise<Session> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session) return session;
+
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error) throw error;
+  if (!data.session) throw new Error('Could not start a session');
+
+  return data.session;
+}
+
+export async function fetchAudienceProfile(userId: string): Promise<User | null> {
+  const { data, error } = await supabase
+    .from('audience_profiles')
+    .select('id, name, photo')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? formatAudienceProfile(data) : null;
+}
+
+export async function saveAudienceProfile(userId: string, profile: User): Promise<User> {
+  const { data, error } = await supabase
+    .from('audience_profiles')
+    .upsert({
+      id: userId,
+      name: profile.name.trim(),
+      photo: profile.photo,
+      updated_at: new Date().toISOString()
+    })
+    .select('id, name, photo')
+    .single();
+
+  if (error) throw new Error(error.message);
+  return formatAudienceProfile(data);
+}
+
+/**
+ * Carry a profile saved by an older version of the app over to the session's
+ * user. Returns null when there is nothing to import.
+ */
+export async function importLegacyProfile(userId: string): Promise<User | null> {
+  const saved = localStorage.getItem(LEGACY_USER_KEY);
+  if (!saved) return null;
+
+  try {
+    const legacyUser = JSON.parse(saved) as User;
+    if (!legacyUser?.name?.trim()) return null;
+
+    const profile = await saveAudienceProfile(userId, legacyUser);
+    localStorage.removeItem(LEGACY_USER_KEY);
+    return profile;
+  } catch (error) {
+    console.error('Error importing saved profile:', error);
+    return null;
+  }
+}
+
+/**
+ * Attach an email to an anonymous session. Once the address is confirmed the
+ * account is permanent, and the same profile and history can be signed back
+ * into from any device.
+ */
+export async function upgradeAudienceAccount(email: string): Promise<void> {
+  const { error } = await supabase.auth.updateUser(
+    { email: email.trim() },
+    { emailRedirectTo: getAudienceRedirectUrl() }
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Email a sign-in link for an account that was already upgraded
+ */
+export async function sendAudienceSignInLink(email: string): Promise<void> {
+  const { error } = await supabase.auth.signInWithOtp({
+    email: email.trim(),
+    options: {
+      emailRedirectTo: getAudienceRedirectUrl(),
+      shouldCreateUser: false
+    }
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,162 @@
+import { supabase } from './supabase';
+import { parseRoute, buildBandPath } from './routing';
+import type { BackendAccount, BackendUser, BackendRole } from '../types';
+
+// Where magic links and invite emails should send people back to: the
+// backend of the band they were on, or its kiosk when signing in from there
+function getBackendRedirectUrl(): string {
+  const { bandSlug, view } = parseRoute(window.location.pathname);
+  const target = view === 'kiosk' ? 'kiosk' : 'backend';
+  return `${window.location.origin}${bandSlug ? buildBandPath(bandSlug, target) : `/${target}`}`;
+}
+
+function formatBackendAccount(row: any): BackendAccount {
+  return {
+    id: row.id,
+    email: row.email,
+    displayName: row.display_name || undefined,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Look up the backend account for an authenticated Supabase user.
+ * Returns null when the user is signed in but was never given backend access.
+ * Roles are per band and come with fetchMemberBands.
+ */
+export async function fetchBackendUser(userId: string): Promise<BackendAccount | null> {
+  const { data, error } = await supabase
+    .from('backend_users')
+    .select('id, email, display_name, created_at')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? formatBackendAccount(data) : null;
+}
+
+/**
+ * Sign in with email and password, rejecting accounts without backend access
+ */
+export async function signInBackendUser(email: string, password: string): Promise<BackendAccount> {
+  const { data, error } = await supabase.auth.signInWithPassword({
+    email: email.trim(),
+    password
+  });
+
+  if (error) throw error;
+
+  const backendUser = await fetchBackendUser(data.user.id);
+  if (!backendUser) {
+    await supabase.auth.signOut();
+    throw new Error('This account does not have backend access');
+  }
+
+  return backendUser;
+}
+
+/**
+ * Email a one-time sign-in link. Only existing accounts can use it.
+ */
+export async function sendBackendMagicLink(email: string): Promise<void> {
+  const { error } = await supabase.auth.signInWithOtp({
+    email: email.trim(),
+    options: {
+      emailRedirectTo: getBackendRedirectUrl(),
+      shouldCreateUser: false
+    }
+  });
+
+  if (error) throw error;
+}
+
+export async function signOutBackendUser(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+}
+
+/**
+ * List the backend accounts that belong to a band with their role in it,
+ * oldest first
+ */
+export async function fetchBackendUsers(bandId: string): Promise<BackendUser[]> {
+  const { data, error } = await supabase
+    .from('backend_users')
+    .select('id, email, display_name, created_at, band_members!inner (band_id, role)')
+    .eq('band_members.band_id', bandId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((row: any) => ({
+    ...formatBackendAccount(row),
+    role: row.band_members[0].role
+  }));
+}
+
+/**
+ * Add a team member to a band by email through the invite_backend_user edge
+ * function. Only owners of that band are allowed to. Someone who already has
+ * an account is added straight away; `invited` is true when an invite email
+ * went out instead.
+ */
+export async function inviteBackendUser(
+  bandId: string,
+  email: string,
+  role: BackendRole,
+  displayName?: string
+): Promise<{ invited: boolean }> {
+  const { data, error } = await supabase.functions.invoke('invite_backend_user', {
+    body: {
+      bandId,
+      email: email.trim(),
+      role,
+      displayName: displayName?.trim() || null,
+      redirectTo: getBackendRedirectUrl()
+    }
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return { invited: data?.invited !== false };
+}
+
+/**
+ * Change a team member's role in one band. Only that band's owners can, and
+ * not for themselves (enforced by the database).
+ */
+export async function updateBackendUserRole(bandId: string, userId: string, role: BackendRole): Promise<void> {
+  const { data, error } = await supabase
+    .from('band_members')
+    .update({ role })
+    .eq('band_id', bandId)
+    .eq('user_id', userId)
+    .select('user_id');
+
+  if (error) throw error;
+  // Row level security filters out rows it won't update instead of failing
+  if (!data || data.length === 0) {
+    throw new Error('Not allowed to change this role, or they are no longer in the band');
+  }
+}
+
+/**
+ * Revoke a team member's access to a band. Their account and memberships of
+ * other bands are left intact.
+ */
+export async function removeBackendUser(bandId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('band_members')
+    .delete()
+    .eq('band_id', bandId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Set a new password for the signed-in user (used after accepting an invite)
+ */
+export async function updateBackendPassword(password: string): Promise<void> {
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) throw error;
+}
@@ -0,0 +1,62 @@
+import { supabase } from './supabase';
+import type { Band, MemberBand } from '../types';
+
+function formatBand(row: any): Band {
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    createdAt: row.created_at
+  };
+}
+
+export async function fetchBandBySlug(slug: string): Promise<Band | null> {
+  const { data, error } = await supabase
+    .from('bands')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? formatBand(data) : null;
+}
+
+export async function fetchBands(): Promise<Band[]> {
+  const { data, error } = await supabase
+    .from('bands')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(formatBand);
+}
+
+/**
+ * Bands a backend user belongs to and their role in each, alphabetically
+ */
+export async function fetchMemberBands(userId: string): Promise<MemberBand[]> {
+  const { data, error } = await supabase
+    .from('band_members')
+    .select('role, bands (*)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return (data || [])
+    .filter((row: any) => row.bands)
+    .map((row: any) => ({ ...formatBand(row.bands), role: row.role }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Create a band with the current owner as its first member
+ */
+export async function createBand(name: string, slug: string): Promise<Band> {
+  const { data, error } = await supabase.rpc('create_band', {
+    p_name: name,
+    p_slug: slug
+  });
+
+  if (error) throw new Error(error.message);
+  return formatBand(data);
+}
@@ -0,0 +1,201 @@
+import { supabase } from './supabase';
+import type { GigEvent, Song, SongRequest } from '../types';
+
+export interface EventFormData {
+  name: string;
+  venue?: string;
+  eventDate: string;
+  startTime?: string;
+  endTime?: string;
+  setListId?: string;
+  familyFriendly?: boolean;
+}
+
+export function formatEvent(row: any): GigEvent {
+  return {
+    id: row.id,
+    name: row.name,
+    venue: row.venue || undefined,
+    eventDate: row.event_date,
+    startTime: row.start_time || undefined,
+    endTime: row.end_time || undefined,
+    setListId: row.set_list_id || undefined,
+    unavailableSongIds: (row.event_unavailable_songs || []).map((entry: any) => entry.song_id),
+    familyFriendly: !!row.family_friendly,
+    status: row.status,
+    startedAt: row.started_at || undefined,
+    endedAt: row.ended_at || undefined,
+    createdAt: row.created_at
+  };
+}
+
+function toEventRow(data: EventFormData) {
+  return {
+    name: data.name.trim(),
+    venue: data.venue?.trim() || null,
+    event_date: data.eventDate,
+    start_time: data.startTime || null,
+    end_time: data.endTime || null,
+    set_list_id: data.setListId || null,
+    family_friendly: data.familyFriendly ?? false
+  };
+}
+
+// Events with the songs marked unavailable for them
+const EVENT_COLUMNS = '*, event_unavailable_songs (song_id)';
+
+async function fetchEvent(id: string): Promise<GigEvent> {
+  const { data, error } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return formatEvent(data);
+}
+
+export async function fetchEvents(bandId: string): Promise<GigEvent[]> {
+  const { data, error } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq('band_id', bandId)
+    .order('event_date', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(formatEvent);
+}
+
+export async function createEvent(bandId: string, data: EventFormData): Promise<GigEvent> {
+  const { data: row, error } = await supabase
+    .from('events')
+    .insert({ ...toEventRow(data), band_id: bandId })
+    .select(EVENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return formatEvent(row);
+}
+
+export async function updateEvent(id: string, data: EventFormData): Promise<GigEvent> {
+  const { data: row, error } = await supabase
+    .from('events')
+    .update(toEventRow(data))
+    .eq('id', id)
+    .select(EVENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return formatEvent(row);
+}
+
+export async function deleteEvent(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('events')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Which songs can be requested at an event. submit_request enforces this for
+ * the running event.
+ */
+export async function updateEventAvailability(
+  id: string,
+  availability: { unavailableSongIds: string[]; familyFriendly: boolean }
+): Promise<GigEvent> {
+  const { error } = await supabase.rpc('set_event_availability', {
+    p_event_id: id,
+    p_song_ids: availability.unavailableSongIds,
+    p_family_friendly: availability.familyFriendly
+  });
+
+  if (error) throw new Error(error.message);
+  return fetchEvent(id);
+}
+
+/**
+ * Whether the audience can request a song at an event, or with no event running
+ */
+export function isSongAvailable(song: Song, event: GigEvent | null): boolean {
+  if (song.isRequestable === false) return false;
+  if (!event) return true;
+  return !event.unavailableSongIds.includes(song.id) && !(event.familyFriendly && song.isExplicit);
+}
+
+/**
+ * Start an event. Any running event is ended first, so the queue starts fresh.
+ */
+export async function startEvent(id: string): Promise<GigEvent> {
+  const { error } = await supabase.rpc('start_event', { p_event_id: id });
+  if (error) throw new Error(error.message);
+  return fetchEvent(id);
+}
+
+/**
+ * End an event. Its requests are archived under the event, not deleted.
+ */
+export async function endEvent(id: string): Promise<GigEvent> {
+  const { error } = await supabase.rpc('end_event', { p_event_id: id });
+  if (error) throw new Error(error.message);
+  return fetchEvent(id);
+}
+
+/**
+ * Map a `requests` row, with its requesters, to a SongRequest
+ */
+export function formatRequest(request: any): SongRequest {
+  return {
+    id: request.id,
+    title: request.title,
+    artist: request.artist || '',
+    requesters: (request.requesters || []).map((requester: any) => ({
+      id: requester.id,
+      userId: requester.user_id || undefined,
+      name: requester.name || 'Anonymous',
+      photo: requester.photo || '',
+      message: requester.message || '',
+      timestamp: requester.created_at
+    })),
+    votes: request.votes || 0,
+    status: request.status || 'pending',
+    rejectionReason: request.rejection_reason || undefined,
+    isLocked: request.is_locked || false,
+    isPlayed: request.is_played || false,
+    pinnedPosition: request.pinned_position ?? undefined,
+    stage: request.stage || undefined,
+    startedAt: request.started_at || undefined,
+    playedAt: request.played_at || undefined,
+    eventId: request.event_id || undefined,
+    createdAt: request.created_at
+  };
+}
+
+/**
+ * Load the full request history for one event, in the order requests came in
+ */
+export async function fetchEventRequests(eventId: string): Promise<SongRequest[]> {
+  const { data, error } = await supabase
+    .from('requests')
+    .select(`
+      *,
+      requesters (
+        id,
+        user_id,
+        name,
+        photo,
+        message,
+        created_at
+      )
+    `)
+    .eq('event_id', eventId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(formatRequest);
+}
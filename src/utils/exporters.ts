@@ -0,0 +1,147 @@
+import { format } from 'date-fns';
+import { getRequestStage } from './stages';
+import type { PerformanceLogEntry, SongRequest } from '../types';
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Requester photos are data URLs and can make a file huge
+  includePhotos: boolean;
+  // Swap requester names for "Guest 1", "Guest 2"... consistently within one file
+  anonymize: boolean;
+}
+
+export type ExportRow = Record<string, string | number | boolean | null>;
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'csv',
+  includePhotos: false,
+  anonymize: false
+};
+
+/**
+ * Gives every distinct requester a stable guest label for one export
+ */
+function createNameMasker(anonymize: boolean) {
+  const labels = new Map<string, string>();
+
+  return (name: string, userId?: string) => {
+    if (!anonymize) return name;
+
+    const key = userId ?? name.trim().toLowerCase();
+    if (!labels.has(key)) {
+      labels.set(key, `Guest ${labels.size + 1}`);
+    }
+    return labels.get(key)!;
+  };
+}
+
+/**
+ * One row per person who asked for a song, with the request's details repeated
+ */
+export function requestsToRows(requests: SongRequest[], options: ExportOptions): ExportRow[] {
+  const maskName = createNameMasker(options.anonymize);
+
+  return requests.flatMap<ExportRow>(request => {
+    const base: ExportRow = {
+      request_id: request.id,
+      title: request.title,
+      artist: request.artist || '',
+      status: request.status,
+      stage: getRequestStage(request),
+      votes: request.votes || 0,
+      requested_at: request.createdAt,
+      played_at: request.playedAt ?? null
+    };
+
+    if (request.requesters.length === 0) {
+      return [{ ...base, requester_name: null, requester_message: null, requester_time: null }];
+    }
+
+    return request.requesters.map(requester => ({
+      ...base,
+      requester_name: maskName(requester.name, requester.userId),
+      requester_message: requester.message || null,
+      requester_time: requester.timestamp ? new Date(requester.timestamp).toISOString() : null,
+      ...(options.includePhotos && { requester_photo: requester.photo || null })
+    }));
+  });
+}
+
+/**
+ * One row per song with how many people asked for it and how many upvoted it
+ */
+export function voteCountsToRows(requests: SongRequest[]): ExportRow[] {
+  return requests
+    .map(request => ({
+      title: request.title,
+      artist: request.artist || '',
+      requesters: request.requesters.length,
+      votes: request.votes || 0,
+      played: !!request.isPlayed
+    }))
+    .sort((a, b) => (b.votes + b.requesters) - (a.votes + a.requesters));
+}
+
+/**
+ * One row per song played. Photos aren't kept in the log, so there are none to include.
+ */
+export function performancesToRows(entries: PerformanceLogEntry[], options: ExportOptions): ExportRow[] {
+  const maskName = createNameMasker(options.anonymize);
+
+  return entries.map(entry => ({
+    title: entry.title,
+    artist: entry.artist || '',
+    requested_at: entry.requestedAt ?? null,
+    started_at: entry.startedAt ?? null,
+    played_at: entry.playedAt,
+    wait_seconds: entry.waitSeconds ?? null,
+    votes: entry.votes,
+    requesters: entry.requesters.map(requester => maskName(requester.name, requester.userId)).join('; '),
+    messages: entry.requesters
+      .filter(requester => requester.message)
+      .map(requester => `${maskName(requester.name, requester.userId)}: ${requester.message}`)
+      .join('; ')
+  }));
+}
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: ExportRow[string]) => {
+  if (value === null || value === undefined) return '';
+  // Names and messages are typed in by the audience, so text that looks like
+  // a formula is kept as text. Numbers (a negative wait) stay numbers.
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: ExportRow[]): string {
+  // Columns from every row, in the order they first appear
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+
+  return [
+    columns.join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(row[column] ?? null)).join(','))
+  ].join('\r\n');
+}
+
+/**
+ * Save rows as a CSV or JSON file named `<name>-<date>.<ext>`
+ */
+export function downloadExport(name: string, rows: ExportRow[], exportFormat: ExportFormat): void {
+  const content = exportFormat === 'csv' ? toCsv(rows) : JSON.stringify(rows, null, 2);
+  const type = exportFormat === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+  const filename = `${slug}-${format(new Date(), 'yyyy-MM-dd-HHmm')}.${exportFormat}`;
+
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -1,16 +1,24 @@
-import { Music4 } from 'lucide-react';
+import { foldSearchText } from './songSearch';
+import type { MetadataProvider, SongMetadata } from './songEnrichment';
 
 // iTunes API search interface
 export interface iTunesSearchResult {
   resultCount: number;
   results: Array<{
-    artworkUrl100: string;
+    trackId?: number;
+    artworkUrl100?: string;
     artistName: string;
     trackName: string;
     collectionName?: string;
+    primaryGenreName?: string;
+    releaseDate?: string;
+    trackTimeMillis?: number;
+    previewUrl?: string;
   }>;
 }
 
+type iTunesTrack = iTunesSearchResult['results'][number];
+
 // Default placeholder icon as SVG data URL
 export const DEFAULT_ALBUM_ART = `data:image/svg+xml,${encodeURIComponent(`
 <svg xmlns="http://www.w3.org/2000/svg" width="100" height="100" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
@@ -20,43 +28,66 @@ export const DEFAULT_ALBUM_ART = `data:image/svg+xml,${encodeURIComponent(`
 </svg>
 `)}`;
 
-export async function searchITunes(title: string, artist: string): Promise<string> {
+// The first few results are enough to find the right artist
+const RESULT_LIMIT = 5;
+
+/**
+ * The result by the song's artist if there is one (searches for covers often
+ * put the original first), otherwise the top result
+ */
+function pickTrack(results: iTunesTrack[], title: string, artist: string): iTunesTrack | undefined {
+  const titleKey = foldSearchText(title);
+  const artistKey = foldSearchText(artist);
+  const byArtist = results.filter(track => foldSearchText(track.artistName) === artistKey);
+
+  return byArtist.find(track => foldSearchText(track.trackName) === titleKey) ?? byArtist[0] ?? results[0];
+}
+
+async function checkArtwork(url: string): Promise<string | undefined> {
   try {
-    // Don't attempt search if title or artist is empty
-    if (!title.trim() || !artist.trim()) {
-      return DEFAULT_ALBUM_ART;
-    }
+    const response = await fetch(url, { method: 'HEAD' });
+    if (response.ok) return url;
+  } catch (error) {
+    console.warn('Album art URL validation failed:', error);
+  }
+  return undefined;
+}
+
+function toMetadata(track: iTunesTrack, albumArtUrl?: string): SongMetadata {
+  const year = track.releaseDate ? new Date(track.releaseDate).getUTCFullYear() : NaN;
+
+  return {
+    albumArtUrl,
+    genre: track.primaryGenreName || undefined,
+    releaseYear: Number.isFinite(year) ? year : undefined,
+    durationSeconds: track.trackTimeMillis ? Math.round(track.trackTimeMillis / 1000) : undefined,
+    previewUrl: track.previewUrl || undefined
+  };
+}
 
-    // Encode the search terms
+/**
+ * Artwork, genre, release year, duration and preview clip from the iTunes
+ * Search API. Apple allows roughly 20 searches a minute.
+ */
+export const iTunesProvider: MetadataProvider = {
+  name: 'itunes',
+  minIntervalMs: 3000,
+
+  async lookup(title, artist) {
     const query = encodeURIComponent(`${title} ${artist}`);
-    const url = `https://itunes.apple.com/search?term=${query}&entity=song&limit=1`;
+    const url = `https://itunes.apple.com/search?term=${query}&entity=song&limit=${RESULT_LIMIT}`;
 
     const response = await fetch(url);
     if (!response.ok) {
-      console.warn('iTunes API request failed:', response.statusText);
-      return DEFAULT_ALBUM_ART;
+      throw new Error(`iTunes API request failed: ${response.status} ${response.statusText}`);
     }
 
     const data: iTunesSearchResult = await response.json();
+    const track = data.resultCount > 0 ? pickTrack(data.results, title, artist) : undefined;
+    if (!track) return null;
 
-    if (data.resultCount > 0) {
-      // Get the high resolution version by replacing '100x100' with '600x600'
-      const artworkUrl = data.results[0].artworkUrl100.replace('100x100', '600x600');
-      
-      // Verify the URL is valid
-      try {
-        const artworkResponse = await fetch(artworkUrl, { method: 'HEAD' });
-        if (artworkResponse.ok) {
-          return artworkUrl;
-        }
-      } catch (error) {
-        console.warn('Album art URL validation failed:', error);
-      }
-    }
-
-    return DEFAULT_ALBUM_ART;
-  } catch (error) {
-    console.warn('Error fetching iTunes data:', error);
-    return DEFAULT_ALBUM_ART;
+    // Get the high resolution version by replacing '100x100' with '600x600'
+    const artworkUrl = track.artworkUrl100?.replace('100x100', '600x600');
+    return toMetadata(track, artworkUrl ? await checkArtwork(artworkUrl) : undefined);
   }
-}
\ No newline at end of file
+};
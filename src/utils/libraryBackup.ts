@@ -0,0 +1,250 @@
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { SONG_COLUMNS, formatSong, splitTagInput, toSongRow } from './songMetadata';
+import { foldSearchText } from './songSearch';
+import type { Song } from '../types';
+
+export const BACKUP_FORMAT = 'song-request-backup';
+// v2: genres and tags are lists, plus tempo, vocalist, capo and the other song metadata
+export const BACKUP_VERSION = 2;
+
+export type BackupSong = Omit<Song, 'id' | 'lastPlayed'> & {
+  // The song's id in the band it came from; set lists point at songs by this
+  ref: string;
+};
+
+export interface BackupSetList {
+  name: string;
+  date: string;
+  notes?: string;
+  isActive: boolean;
+  songs: { songRef: string; position: number }[];
+}
+
+export interface LibraryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  bandName: string;
+  songs: BackupSong[];
+  setLists: BackupSetList[];
+  // ui_settings without the row's own ids and timestamps
+  settings: Record<string, unknown> | null;
+  // Logos are stored as URLs, so only the reference travels with the bundle
+  logoUrl: string | null;
+}
+
+export type ImportMode = 'merge' | 'replace';
+export type ConflictChoice = 'keep' | 'overwrite';
+
+export interface SongConflict {
+  incoming: BackupSong;
+  existing: Song;
+}
+
+export interface ImportOptions {
+  mode: ImportMode;
+  // Per incoming song ref; conflicts without a choice keep the existing song
+  conflictChoices: Record<string, ConflictChoice>;
+}
+
+export interface ImportSummary {
+  songsAdded: number;
+  songsUpdated: number;
+  songsKept: number;
+  setListsAdded: number;
+  // Set lists skipped in merge mode because one with the same name exists
+  setListsSkipped: string[];
+}
+
+const SETTINGS_ROW_FIELDS = ['id', 'band_id', 'created_at', 'updated_at'];
+
+// Matched the way import_library_backup matches, with normalize_song_text
+const songKey = (title: string, artist?: string) => `${foldSearchText(title)}|${foldSearchText(artist)}`;
+
+const formatBackupSong = (row: any): BackupSong => {
+  const { id, lastPlayed, ...song } = formatSong(row);
+  return { ref: id, ...song };
+};
+
+// v1 bundles carry genres as one comma separated string and no tags
+const upgradeBackupSong = (song: any): BackupSong => ({
+  ...song,
+  genres: Array.isArray(song.genres) ? song.genres : splitTagInput(song.genre),
+  tags: Array.isArray(song.tags) ? song.tags : []
+});
+
+// The API returns at most this many rows per request (PostgREST max_rows)
+const PAGE_SIZE = 1000;
+
+/**
+ * Every row of a query, fetched a page at a time. The query needs a stable
+ * order or rows can be skipped or repeated between pages.
+ */
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Gather the band's songs, set lists (with song order) and UI settings into one bundle
+ */
+export async function createLibraryBackup(bandId: string, bandName: string): Promise<LibraryBackup> {
+  const [songRows, setListRows, settingsResult] = await Promise.all([
+    fetchAllRows<any>((from, to) => supabase
+      .from('songs')
+      .select(SONG_COLUMNS)
+      .eq('band_id', bandId)
+      .order('title')
+      .order('id')
+      .range(from, to)),
+    fetchAllRows<any>((from, to) => supabase
+      .from('set_lists')
+      .select('name, date, notes, is_active, set_list_songs (song_id, position)')
+      .eq('band_id', bandId)
+      .order('date', { ascending: false })
+      .order('id')
+      .range(from, to)),
+    supabase
+      .from('ui_settings')
+      .select('*')
+      .eq('band_id', bandId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+  ]);
+
+  if (settingsResult.error) throw new Error(settingsResult.error.message);
+
+  const settingsRow = settingsResult.data?.[0];
+  const settings = settingsRow
+    ? Object.fromEntries(Object.entries(settingsRow).filter(([field]) => !SETTINGS_ROW_FIELDS.includes(field)))
+    : null;
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    bandName,
+    songs: songRows.map(formatBackupSong),
+    setLists: setListRows.map((row: any) => ({
+      name: row.name,
+      date: row.date,
+      notes: row.notes || undefined,
+      isActive: !!row.is_active,
+      songs: (row.set_list_songs || [])
+        .sort((a: any, b: any) => a.position - b.position)
+        .map((sls: any) => ({ songRef: sls.song_id, position: sls.position }))
+    })),
+    settings,
+    logoUrl: settingsRow?.band_logo_url ?? null
+  };
+}
+
+export function downloadLibraryBackup(backup: LibraryBackup): void {
+  const slug = backup.bandName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'band';
+  const filename = `${slug}-backup-${format(new Date(), 'yyyy-MM-dd-HHmm')}.json`;
+
+  const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a bundle from a file's text, rejecting anything that isn't a backup
+ * this version of the app understands
+ */
+export function parseLibraryBackup(text: string): LibraryBackup {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  if (!parsed || parsed.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a library backup');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new Error(`This backup was made by a newer version (v${parsed.version}) and can't be imported`);
+  }
+  if (!Array.isArray(parsed.songs) || !Array.isArray(parsed.setLists)) {
+    throw new Error('This backup is missing its songs or set lists');
+  }
+
+  const invalidSong = parsed.songs.find((song: any) => !song?.ref || !song.title?.trim() || !song.artist?.trim());
+  if (invalidSong) {
+    throw new Error('Every song in the backup needs a title and an artist');
+  }
+
+  return {
+    ...parsed,
+    songs: parsed.songs.map(upgradeBackupSong),
+    bandName: parsed.bandName || '',
+    settings: parsed.settings ?? null,
+    logoUrl: parsed.logoUrl ?? null
+  };
+}
+
+/**
+ * Songs in the bundle that already exist in the library with the same title and artist
+ */
+export function findSongConflicts(backup: LibraryBackup, existingSongs: Song[]): SongConflict[] {
+  const existingByKey = new Map(existingSongs.map(song => [songKey(song.title, song.artist), song]));
+
+  return backup.songs.flatMap(incoming => {
+    const existing = existingByKey.get(songKey(incoming.title, incoming.artist));
+    return existing ? [{ incoming, existing }] : [];
+  });
+}
+
+/**
+ * Load a bundle into the band's library. Merge keeps what's there and adds
+ * what's new; replace clears the band's songs and set lists first. Runs as
+ * one transaction in the database, so a failed import changes nothing.
+ * Settings are applied separately so colors take effect immediately.
+ */
+export async function importLibraryBackup(
+  bandId: string,
+  backup: LibraryBackup,
+  options: ImportOptions
+): Promise<ImportSummary> {
+  const { data, error } = await supabase.rpc('import_library_backup', {
+    p_band_id: bandId,
+    p_mode: options.mode,
+    p_songs: backup.songs.map(song => ({
+      ref: song.ref,
+      row: toSongRow(song),
+      genres: song.genres,
+      tags: song.tags,
+      ...(song.aliases && { aliases: song.aliases })
+    })),
+    p_set_lists: backup.setLists,
+    p_overwrite_refs: Object.entries(options.conflictChoices)
+      .filter(([, choice]) => choice === 'overwrite')
+      .map(([ref]) => ref)
+  });
+
+  if (error) throw new Error(error.message);
+
+  return {
+    songsAdded: data.songsAdded,
+    songsUpdated: data.songsUpdated,
+    songsKept: data.songsKept,
+    setListsAdded: data.setListsAdded,
+    setListsSkipped: data.setListsSkipped || []
+  };
+}
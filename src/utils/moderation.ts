@@ -0,0 +1,29 @@
+import { supabase } from './supabase';
+import type { SongRequest } from '../types';
+
+export type ModerationDecision = 'approved' | 'rejected';
+
+/**
+ * Whether a request belongs in the public queue. Pending and rejected
+ * requests are only shown to staff and to the people who made them.
+ */
+export function isApprovedRequest(request: SongRequest): boolean {
+  return request.status !== 'pending' && request.status !== 'rejected';
+}
+
+/**
+ * Approve or reject a pending request through the moderate_request database function
+ */
+export async function moderateRequest(
+  requestId: string,
+  decision: ModerationDecision,
+  reason?: string
+): Promise<void> {
+  const { error } = await supabase.rpc('moderate_request', {
+    p_request_id: requestId,
+    p_status: decision,
+    p_reason: reason?.trim() || null
+  });
+
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,74 @@
+import { supabase } from './supabase';
+import type { PerformanceLogEntry } from '../types';
+
+// Enough for a long residency without paging
+const PERFORMANCE_LOG_LIMIT = 1000;
+
+export interface PerformanceLogFilters {
+  eventId?: string;
+  setListId?: string;
+  // yyyy-MM-dd, inclusive
+  from?: string;
+  to?: string;
+}
+
+function formatPerformanceLogEntry(row: any): PerformanceLogEntry {
+  return {
+    id: row.id,
+    requestId: row.request_id || undefined,
+    songId: row.song_id || undefined,
+    eventId: row.event_id || undefined,
+    setListId: row.set_list_id || undefined,
+    title: row.title,
+    artist: row.artist || undefined,
+    requestedAt: row.requested_at || undefined,
+    startedAt: row.started_at || undefined,
+    playedAt: row.played_at,
+    waitSeconds: row.wait_seconds ?? undefined,
+    votes: row.votes || 0,
+    requesters: (row.requesters || []).map((requester: any) => ({
+      name: requester.name || 'Anonymous',
+      message: requester.message || undefined,
+      userId: requester.user_id || undefined
+    }))
+  };
+}
+
+/**
+ * Songs the band played, newest first
+ */
+export async function fetchPerformanceLog(
+  bandId: string,
+  filters: PerformanceLogFilters = {}
+): Promise<PerformanceLogEntry[]> {
+  let query = supabase
+    .from('performance_log')
+    .select('*')
+    .eq('band_id', bandId)
+    .order('played_at', { ascending: false })
+    .limit(PERFORMANCE_LOG_LIMIT);
+
+  if (filters.eventId) query = query.eq('event_id', filters.eventId);
+  if (filters.setListId) query = query.eq('set_list_id', filters.setListId);
+  if (filters.from) query = query.gte('played_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lte('played_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []).map(formatPerformanceLogEntry);
+}
+
+/**
+ * How long a request waited, e.g. "45s", "12m" or "1h 5m"
+ */
+export function formatWaitTime(seconds?: number): string {
+  if (seconds === undefined) return '-';
+  if (seconds < 60) return `${seconds}s`;
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
@@ -0,0 +1,61 @@
+import type { BackendRole, BackendUser } from '../types';
+
+export type Permission =
+  | 'queue:view'        // See the request queue
+  | 'queue:manage'      // Lock, mark as played and clear the queue
+  | 'queue:moderate'    // Approve, reject and remove individual requests
+  | 'setlists:manage'
+  | 'events:manage'     // Create, start and end events, browse their history
+  | 'songs:manage'
+  | 'settings:manage'   // Branding, colors, ticker and app settings
+  | 'team:manage'       // Invite people and change roles
+  | 'kiosk:launch';
+
+// Mirrors the has_band_role() checks in the database policies
+const ROLE_PERMISSIONS: Record<BackendRole, Permission[]> = {
+  owner: [
+    'queue:view',
+    'queue:manage',
+    'queue:moderate',
+    'setlists:manage',
+    'events:manage',
+    'songs:manage',
+    'settings:manage',
+    'team:manage',
+    'kiosk:launch'
+  ],
+  band_member: [
+    'queue:view',
+    'queue:manage',
+    'queue:moderate',
+    'setlists:manage',
+    'events:manage',
+    'kiosk:launch'
+  ],
+  venue_staff: [
+    'queue:view',
+    'queue:moderate',
+    'kiosk:launch'
+  ],
+  kiosk_operator: [
+    'kiosk:launch'
+  ]
+};
+
+export const ROLE_LABELS: Record<BackendRole, string> = {
+  owner: 'Owner',
+  band_member: 'Band Member',
+  venue_staff: 'Venue Staff',
+  kiosk_operator: 'Kiosk Operator'
+};
+
+export const BACKEND_ROLES = Object.keys(ROLE_PERMISSIONS) as BackendRole[];
+
+/**
+ * Check whether a backend user is allowed to perform an action in the band
+ * their role belongs to
+ */
+export function hasPermission(user: BackendUser | null | undefined, permission: Permission): boolean {
+  if (!user) return false;
+  return ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false;
+}
@@ -0,0 +1,218 @@
+import { splitTagInput } from './songMetadata';
+import type { ImportCandidate, ImportedSong } from './songImport';
+
+export type PlaylistFormat = 'm3u' | 'xspf' | 'itunes' | 'spotify';
+
+export const PLAYLIST_FORMAT_LABELS: Record<PlaylistFormat, string> = {
+  m3u: 'M3U playlist',
+  xspf: 'XSPF playlist',
+  itunes: 'Apple Music / iTunes library',
+  spotify: 'Spotify data export'
+};
+
+// File types the song import accepts as playlists rather than spreadsheets
+export const PLAYLIST_FILE_EXTENSIONS = ['.m3u', '.m3u8', '.xspf', '.xml', '.json'];
+
+const toSeconds = (milliseconds: unknown) => {
+  const value = Number(milliseconds);
+  return Number.isFinite(value) && value > 0 ? Math.round(value / 1000) : undefined;
+};
+
+const track = (line: number, song: Partial<ImportedSong>): ImportCandidate => ({
+  line,
+  song: {
+    title: (song.title || '').trim(),
+    artist: (song.artist || '').trim(),
+    genres: song.genres ?? [],
+    tags: [],
+    durationSeconds: song.durationSeconds
+  }
+});
+
+const safeDecode = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * "Artist - Title", which is how most players write M3U entries and file names
+ */
+const splitArtistTitle = (text: string): { artist: string; title: string } => {
+  const separator = text.indexOf(' - ');
+  return separator === -1
+    ? { artist: '', title: text }
+    : { artist: text.slice(0, separator), title: text.slice(separator + 3) };
+};
+
+export function detectPlaylistFormat(fileName: string, text: string): PlaylistFormat | null {
+  const extension = fileName.toLowerCase().slice(fileName.lastIndexOf('.'));
+  const start = text.replace(/^\uFEFF/, '').trimStart();
+
+  if (extension === '.m3u' || extension === '.m3u8' || start.startsWith('#EXTM3U')) return 'm3u';
+  if (extension === '.xspf' || /<playlist[^>]+xspf\.org/.test(start.slice(0, 500))) return 'xspf';
+  if (start.startsWith('<?xml') && start.slice(0, 500).includes('<plist')) return 'itunes';
+  if (extension === '.json' || start.startsWith('{') || start.startsWith('[')) return 'spotify';
+  return null;
+}
+
+function parseM3u(text: string): ImportCandidate[] {
+  const tracks: ImportCandidate[] = [];
+  let pending: { line: number; durationSeconds?: number; label: string } | null = null;
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const extinf = line.match(/^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/i);
+    if (extinf) {
+      const seconds = Math.round(Number(extinf[1]));
+      pending = { line: index + 1, durationSeconds: seconds > 0 ? seconds : undefined, label: extinf[2].trim() };
+      return;
+    }
+    if (line.startsWith('#')) return;
+
+    // A path or URL: use the #EXTINF label when there was one, otherwise the file name
+    const fileLabel = safeDecode(line.split(/[\\/]/).pop() || '')
+      .replace(/\.[a-z0-9]{2,4}$/i, '')
+      .replace(/^\d+[\s.-]+/, '');
+    const current: { line: number; durationSeconds?: number; label: string } | null = pending;
+    pending = null;
+
+    tracks.push(track(current?.line ?? index + 1, {
+      ...splitArtistTitle(current?.label || fileLabel),
+      durationSeconds: current?.durationSeconds
+    }));
+  });
+
+  return tracks;
+}
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('This playlist file is not valid XML');
+  }
+  return doc;
+};
+
+const childText = (element: Element, name: string) =>
+  Array.from(element.children).find(child => child.localName === name)?.textContent?.trim() || '';
+
+function parseXspf(text: string): ImportCandidate[] {
+  return Array.from(parseXml(text).getElementsByTagName('track')).map((element, index) =>
+    track(index + 1, {
+      title: childText(element, 'title'),
+      artist: childText(element, 'creator'),
+      durationSeconds: toSeconds(childText(element, 'duration'))
+    })
+  );
+}
+
+/**
+ * Plist dicts are alternating <key> and value elements
+ */
+const readPlistDict = (dict: Element): Map<string, Element> => {
+  const entries = new Map<string, Element>();
+  const children = Array.from(dict.children);
+  for (let i = 0; i < children.length - 1; i += 2) {
+    if (children[i].localName === 'key') {
+      entries.set(children[i].textContent || '', children[i + 1]);
+    }
+  }
+  return entries;
+};
+
+function parseItunesLibrary(text: string): ImportCandidate[] {
+  const root = parseXml(text).querySelector('plist > dict');
+  const tracksDict = root ? readPlistDict(root).get('Tracks') : undefined;
+  if (!tracksDict) {
+    throw new Error('No tracks found. Export the library from Music with File > Library > Export Library.');
+  }
+
+  return Array.from(readPlistDict(tracksDict).values()).flatMap((trackDict, index) => {
+    const fields = readPlistDict(trackDict);
+    const text = (key: string) => fields.get(key)?.textContent?.trim() || '';
+    // Podcasts and videos live in the same library
+    if (['Podcast', 'Movie', 'TV Show', 'Music Video'].some(key => fields.get(key)?.localName === 'true')) {
+      return [];
+    }
+
+    return [track(index + 1, {
+      title: text('Name'),
+      artist: text('Artist') || text('Album Artist'),
+      genres: splitTagInput(text('Genre')),
+      durationSeconds: toSeconds(text('Total Time'))
+    })];
+  });
+}
+
+/**
+ * Handles the Playlist1.json and YourLibrary.json files from Spotify's
+ * "download your data", plus playlist JSON from the Spotify Web API
+ */
+function parseSpotify(text: string): ImportCandidate[] {
+  let data: any;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const songs: Partial<ImportedSong>[] = [];
+
+  if (Array.isArray(data?.playlists)) {
+    data.playlists.forEach((playlist: any) => {
+      (playlist.items || []).forEach((item: any) => {
+        if (item?.track?.trackName) {
+          songs.push({ title: item.track.trackName, artist: item.track.artistName });
+        }
+      });
+    });
+  } else if (Array.isArray(data?.tracks)) {
+    data.tracks.forEach((item: any) => {
+      if (item?.track) songs.push({ title: item.track, artist: item.artist });
+    });
+  } else if (Array.isArray(data?.items) || Array.isArray(data?.tracks?.items)) {
+    (data.items || data.tracks.items).forEach((item: any) => {
+      const apiTrack = item?.track ?? item;
+      if (apiTrack?.name) {
+        songs.push({
+          title: apiTrack.name,
+          artist: (apiTrack.artists || []).map((artist: any) => artist.name).join(', '),
+          durationSeconds: toSeconds(apiTrack.duration_ms)
+        });
+      }
+    });
+  } else {
+    throw new Error('No tracks found. Use Playlist1.json or YourLibrary.json from your Spotify data download.');
+  }
+
+  return songs.map((song, index) => track(index + 1, song));
+}
+
+/**
+ * Pull title, artist and (where the format has it) duration from a playlist file
+ */
+export function parsePlaylist(fileName: string, text: string): { format: PlaylistFormat; tracks: ImportCandidate[] } {
+  const format = detectPlaylistFormat(fileName, text);
+  if (!format) {
+    throw new Error('Unrecognized playlist format');
+  }
+
+  const parsers: Record<PlaylistFormat, (text: string) => ImportCandidate[]> = {
+    m3u: parseM3u,
+    xspf: parseXspf,
+    itunes: parseItunesLibrary,
+    spotify: parseSpotify
+  };
+
+  const tracks = parsers[format](text);
+  if (tracks.length === 0) {
+    throw new Error('No tracks found in this playlist');
+  }
+
+  return { format, tracks };
+}
@@ -1,4 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
+import { scoreRequest, compareRequests, DEFAULT_RANKING_CONFIG, type RankingConfig } from './queueRanking';
 import type { QueuedRequest, SongRequest, QueueStats } from '../types';
 
 class QueueManager {
@@ -10,6 +11,7 @@ class QueueManager {
     averageWaitTime: 0,
   };
   private totalWaitTime = 0;
+  private ranking: RankingConfig = DEFAULT_RANKING_CONFIG;
 
   // Add a new request to the queue
   public addRequest(request: SongRequest): QueuedRequest {
@@ -32,33 +34,22 @@ class QueueManager {
 
   // Calculate priority score for a request
   private calculatePriority(request: SongRequest): number {
-    // Base priority starts at 1
-    let priority = 1;
-
-    // Add points for votes
-    priority += request.votes;
-
-    // Add points for unique requesters
-    priority += request.requesters.length;
-
-    // Normalize by time to ensure older requests don't get buried
-    const ageInMinutes = (Date.now() - new Date(request.createdAt).getTime()) / (1000 * 60);
-    const ageFactor = Math.min(ageInMinutes / 30, 1); // Cap at 30 minutes
-    priority += ageFactor * 2; // Add up to 2 points for age
-
-    return priority;
+    return scoreRequest(request, this.ranking);
   }
 
   // Sort the queue based on priority
   private sortQueue(): void {
-    this.queue.sort((a, b) => {
-      // First compare priorities
-      const priorityDiff = b.priority - a.priority;
-      if (priorityDiff !== 0) return priorityDiff;
+    const now = Date.now();
+    this.queue.sort((a, b) => compareRequests(a.request, b.request, this.ranking, now));
+  }
 
-      // If priorities are equal, sort by timestamp (older first)
-      return a.timestamp.getTime() - b.timestamp.getTime();
+  // Use a band's ranking strategy and re-rank the queue
+  public setRanking(ranking: RankingConfig): void {
+    this.ranking = ranking;
+    this.queue.forEach(qr => {
+      qr.priority = this.calculatePriority(qr.request);
     });
+    this.sortQueue();
   }
 
   // Get all requests in priority order
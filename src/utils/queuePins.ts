@@ -0,0 +1,26 @@
+import { supabase } from './supabase';
+
+/**
+ * Fix a request at a slot in the queue through the pin_request database
+ * function. Slot 1 is the first queued song after the stage lanes; other pinned
+ * requests shift to make room.
+ */
+export async function pinRequest(requestId: string, position: number): Promise<void> {
+  const { error } = await supabase.rpc('pin_request', {
+    p_request_id: requestId,
+    p_position: position
+  });
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Return a pinned request to the automatic order
+ */
+export async function unpinRequest(requestId: string): Promise<void> {
+  const { error } = await supabase.rpc('unpin_request', {
+    p_request_id: requestId
+  });
+
+  if (error) throw new Error(error.message);
+}
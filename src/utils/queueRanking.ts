@@ -0,0 +1,201 @@
+import { LANE_STAGES, getRequestStage } from './stages';
+import type { SongRequest } from '../types';
+
+export type RankingStrategy = 'votes_first' | 'first_come' | 'age_boosted' | 'weighted';
+
+export interface RankingWeights {
+  // Points per upvote
+  votes: number;
+  // Points per person who requested the song
+  requesters: number;
+  // Points per requester who left a message (weighted hybrid only)
+  messages: number;
+  // Points a request earns by waiting `ageMinutes`
+  age: number;
+  // Age-boosted stops adding points after this long; weighted keeps going
+  ageMinutes: number;
+}
+
+export interface RankingConfig {
+  strategy: RankingStrategy;
+  weights: RankingWeights;
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  votes: 1,
+  requesters: 1,
+  messages: 0.5,
+  age: 2,
+  ageMinutes: 30
+};
+
+export const DEFAULT_RANKING_CONFIG: RankingConfig = {
+  strategy: 'votes_first',
+  weights: DEFAULT_RANKING_WEIGHTS
+};
+
+export const RANKING_STRATEGIES: {
+  id: RankingStrategy;
+  label: string;
+  description: string;
+  // Weights the strategy reads, so settings only show those
+  weights: (keyof RankingWeights)[];
+}[] = [
+  {
+    id: 'votes_first',
+    label: 'Votes first',
+    description: 'Most requested and most upvoted songs go first',
+    weights: ['votes', 'requesters']
+  },
+  {
+    id: 'first_come',
+    label: 'First come, first served',
+    description: 'Songs are played in the order they were first requested',
+    weights: []
+  },
+  {
+    id: 'age_boosted',
+    label: 'Age boosted',
+    description: 'Like votes first, but waiting requests slowly climb so they don\'t get buried',
+    weights: ['votes', 'requesters', 'age', 'ageMinutes']
+  },
+  {
+    id: 'weighted',
+    label: 'Weighted hybrid',
+    description: 'Blend votes, requesters, messages and waiting time with your own weights',
+    weights: ['votes', 'requesters', 'messages', 'age', 'ageMinutes']
+  }
+];
+
+const isRankingStrategy = (value: unknown): value is RankingStrategy =>
+  RANKING_STRATEGIES.some(strategy => strategy.id === value);
+
+/**
+ * Read the ranking config out of the band's settings, falling back to the
+ * defaults for anything missing or invalid
+ */
+export function getRankingConfig(settings?: {
+  queue_ranking_strategy?: string | null;
+  queue_ranking_weights?: Partial<RankingWeights> | null;
+} | null): RankingConfig {
+  const weights = { ...DEFAULT_RANKING_WEIGHTS };
+
+  Object.entries(settings?.queue_ranking_weights || {}).forEach(([key, value]) => {
+    if (key in weights && typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      weights[key as keyof RankingWeights] = value;
+    }
+  });
+
+  // A zero window would divide by zero
+  if (weights.ageMinutes <= 0) weights.ageMinutes = DEFAULT_RANKING_WEIGHTS.ageMinutes;
+
+  const strategy = settings?.queue_ranking_strategy;
+  return {
+    strategy: isRankingStrategy(strategy) ? strategy : DEFAULT_RANKING_CONFIG.strategy,
+    weights
+  };
+}
+
+const requestTime = (request: SongRequest) => new Date(request.createdAt).getTime();
+
+// Waiting time counts in whole steps of this, so the band, the audience and
+// the kiosk rank with the same clock instead of whenever each last rendered
+export const RANKING_TICK_MS = 60 * 1000;
+
+/**
+ * The time to rank at: now, rounded down to the ranking tick
+ */
+export function rankingNow(time: number = Date.now()): number {
+  return time - (time % RANKING_TICK_MS);
+}
+
+// Position of the request's stage lane, or -1 while it is still queued
+const laneIndex = (request: SongRequest) => LANE_STAGES.indexOf(getRequestStage(request));
+
+/**
+ * Score a single request under a strategy; higher plays sooner
+ */
+export function scoreRequest(
+  request: SongRequest,
+  config: RankingConfig = DEFAULT_RANKING_CONFIG,
+  now: number = rankingNow()
+): number {
+  const { strategy, weights } = config;
+  const requesters = Array.isArray(request.requesters) ? request.requesters : [];
+  const engagement = weights.votes * (request.votes || 0) + weights.requesters * requesters.length;
+  const ageRatio = Math.max(0, now - requestTime(request)) / (weights.ageMinutes * 60 * 1000);
+
+  switch (strategy) {
+    case 'first_come':
+      return 0;
+    case 'age_boosted':
+      return engagement + weights.age * Math.min(ageRatio, 1);
+    case 'weighted':
+      return engagement
+        + weights.messages * requesters.filter(requester => !!requester.message).length
+        + weights.age * ageRatio;
+    case 'votes_first':
+    default:
+      return engagement;
+  }
+}
+
+/**
+ * Order for requests in the same queue: the stage lanes first (now playing,
+ * up next, on deck), then by score, then whoever asked first
+ */
+export function compareRequests(
+  a: SongRequest,
+  b: SongRequest,
+  config: RankingConfig = DEFAULT_RANKING_CONFIG,
+  now: number = rankingNow()
+): number {
+  const laneA = laneIndex(a);
+  const laneB = laneIndex(b);
+  if (laneA !== laneB) {
+    if (laneA === -1) return 1;
+    if (laneB === -1) return -1;
+    return laneA - laneB;
+  }
+
+  const scoreDiff = scoreRequest(b, config, now) - scoreRequest(a, config, now);
+  if (scoreDiff !== 0) return scoreDiff;
+
+  return requestTime(a) - requestTime(b);
+}
+
+/**
+ * Sort a queue without changing the array passed in. Every view of the queue
+ * goes through here so the band, the audience and the kiosk see one order.
+ * `now` should come from useRankingClock so every view ages requests alike.
+ *
+ * Requests in the stage lanes come first. Pinned requests then take their
+ * slots (1 is the first slot after the lanes) and the rest fill the gaps in
+ * ranked order. Pins past the end of the queue go last.
+ */
+export function rankRequests(
+  requests: SongRequest[],
+  config: RankingConfig = DEFAULT_RANKING_CONFIG,
+  now: number = rankingNow()
+): SongRequest[] {
+  const byRank = (a: SongRequest, b: SongRequest) => compareRequests(a, b, config, now);
+
+  const inLane = (request: SongRequest) => laneIndex(request) !== -1;
+
+  const lanes = requests.filter(inLane).sort(byRank);
+  const pinned = requests
+    .filter(request => !inLane(request) && request.pinnedPosition)
+    .sort((a, b) => (a.pinnedPosition! - b.pinnedPosition!) || byRank(a, b));
+  const automatic = requests
+    .filter(request => !inLane(request) && !request.pinnedPosition)
+    .sort(byRank);
+
+  const ranked: SongRequest[] = [];
+  while (pinned.length > 0 || automatic.length > 0) {
+    const slot = ranked.length + 1;
+    const takePinned = pinned.length > 0 && (pinned[0].pinnedPosition! <= slot || automatic.length === 0);
+    ranked.push(takePinned ? pinned.shift()! : automatic.shift()!);
+  }
+
+  return [...lanes, ...ranked];
+}
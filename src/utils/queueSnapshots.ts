@@ -0,0 +1,65 @@
+import { supabase } from './supabase';
+import type { QueueSnapshot } from '../types';
+
+// Matches snapshot_restore_window() in the database
+export const SNAPSHOT_RESTORE_HOURS = 12;
+
+function formatQueueSnapshot(row: any): QueueSnapshot {
+  return {
+    id: row.id,
+    eventId: row.event_id || undefined,
+    requestCount: row.request_count || 0,
+    createdAt: row.created_at,
+    restoredAt: row.restored_at || undefined
+  };
+}
+
+export function canRestoreSnapshot(snapshot: QueueSnapshot): boolean {
+  const age = Date.now() - new Date(snapshot.createdAt).getTime();
+  return !snapshot.restoredAt && age < SNAPSHOT_RESTORE_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Snapshots that can still be restored, newest first
+ */
+export async function fetchQueueSnapshots(bandId: string): Promise<QueueSnapshot[]> {
+  const since = new Date(Date.now() - SNAPSHOT_RESTORE_HOURS * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('queue_snapshots')
+    .select('*')
+    .eq('band_id', bandId)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(formatQueueSnapshot);
+}
+
+/**
+ * Archive every open request in the live queue under a new snapshot
+ */
+export async function resetQueue(bandId: string): Promise<QueueSnapshot> {
+  const { data, error } = await supabase.rpc('reset_queue', { p_band_id: bandId });
+  if (error) throw new Error(error.message);
+  return formatQueueSnapshot(data);
+}
+
+export async function restoreQueueSnapshot(snapshotId: string): Promise<QueueSnapshot> {
+  const { data, error } = await supabase.rpc('restore_queue_snapshot', { p_snapshot_id: snapshotId });
+  if (error) throw new Error(error.message);
+  return formatQueueSnapshot(data);
+}
+
+/**
+ * Take a request out of the queue; requesters and votes are kept so it can
+ * be restored
+ */
+export async function removeRequest(requestId: string): Promise<void> {
+  const { error } = await supabase.rpc('remove_request', { p_request_id: requestId });
+  if (error) throw new Error(error.message);
+}
+
+export async function restoreRequest(requestId: string): Promise<void> {
+  const { error } = await supabase.rpc('restore_request', { p_request_id: requestId });
+  if (error) throw new Error(error.message);
+}
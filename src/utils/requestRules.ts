@@ -0,0 +1,92 @@
+import { supabase } from './supabase';
+import type { RequestCap, RequestRules } from '../types';
+
+export const EMPTY_REQUEST_RULES: RequestRules = {
+  maxActivePerUser: null,
+  minRequestGapMinutes: null,
+  songCooldownMinutes: null
+};
+
+export async function fetchRequestRules(bandId: string): Promise<RequestRules> {
+  const { data, error } = await supabase
+    .from('request_rules')
+    .select('*')
+    .eq('band_id', bandId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return EMPTY_REQUEST_RULES;
+
+  return {
+    maxActivePerUser: data.max_active_per_user ?? null,
+    minRequestGapMinutes: data.min_request_gap_minutes ?? null,
+    songCooldownMinutes: data.song_cooldown_minutes ?? null
+  };
+}
+
+/**
+ * Save a band's request rules. They are enforced by submit_request, so they
+ * hold no matter which device or tab the request comes from.
+ */
+export async function saveRequestRules(bandId: string, rules: RequestRules): Promise<void> {
+  const { error } = await supabase
+    .from('request_rules')
+    .upsert({
+      band_id: bandId,
+      max_active_per_user: rules.maxActivePerUser,
+      min_request_gap_minutes: rules.minRequestGapMinutes,
+      song_cooldown_minutes: rules.songCooldownMinutes,
+      updated_at: new Date().toISOString()
+    });
+
+  if (error) throw new Error(error.message);
+}
+
+const formatRequestCap = (row: any): RequestCap => ({
+  id: row.id,
+  tag: row.tag,
+  maxRequests: row.max_requests,
+  windowMinutes: row.window_minutes
+});
+
+export async function fetchRequestCaps(bandId: string): Promise<RequestCap[]> {
+  const { data, error } = await supabase
+    .from('request_caps')
+    .select('*')
+    .eq('band_id', bandId)
+    .order('tag');
+
+  if (error) throw error;
+  return (data || []).map(formatRequestCap);
+}
+
+/**
+ * Add a cap, or change an existing one when it has an id
+ */
+export async function saveRequestCap(
+  bandId: string,
+  cap: Omit<RequestCap, 'id'> & { id?: string }
+): Promise<RequestCap> {
+  const row = {
+    band_id: bandId,
+    tag: cap.tag.trim(),
+    max_requests: cap.maxRequests,
+    window_minutes: cap.windowMinutes
+  };
+
+  const { data, error } = cap.id
+    ? await supabase.from('request_caps').update(row).eq('id', cap.id).select().single()
+    : await supabase.from('request_caps').insert(row).select().single();
+
+  if (error) throw new Error(error.message);
+  return formatRequestCap(data);
+}
+
+export async function deleteRequestCap(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('request_caps')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw new Error(error.message);
+}
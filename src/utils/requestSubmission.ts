@@ -0,0 +1,152 @@
+import { supabase } from './supabase';
+import { ValidationErrorType } from './requestValidation';
+import type { RequestFormData, SongRequest } from '../types';
+
+const RULE_ERROR_TYPES: string[] = [
+  ValidationErrorType.USER_QUOTA_EXCEEDED,
+  ValidationErrorType.REQUEST_TOO_SOON,
+  ValidationErrorType.SONG_COOLDOWN,
+  ValidationErrorType.SONG_UNAVAILABLE,
+  ValidationErrorType.SONG_CAP_REACHED,
+  ValidationErrorType.IDENTITY_REQUIRED
+];
+
+/**
+ * A submission the database turned down because of one of the band's request
+ * rules or because the song isn't available. `retryAfter` is in seconds, when
+ * the wait is known.
+ */
+export class RequestSubmissionError extends Error {
+  type: ValidationErrorType;
+  retryAfter?: number;
+  limit?: number;
+
+  constructor(type: ValidationErrorType, message: string, retryAfter?: number, limit?: number) {
+    super(message);
+    this.name = 'RequestSubmissionError';
+    this.type = type;
+    this.retryAfter = retryAfter;
+    this.limit = limit;
+  }
+}
+
+// "30 seconds", "1 minute", "4 minutes"
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    const secs = Math.max(1, Math.ceil(seconds));
+    return `${secs} second${secs === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+interface RuleViolationDetail {
+  retryAfter?: number;
+  limit?: number;
+  // SONG_UNAVAILABLE: not_requestable, not_tonight or explicit
+  reason?: string;
+  // SONG_CAP_REACHED
+  tag?: string;
+  windowMinutes?: number;
+}
+
+function describeRuleViolation(
+  type: ValidationErrorType,
+  { retryAfter, limit, reason, tag, windowMinutes }: RuleViolationDetail
+): string {
+  const wait = retryAfter ? ` in ${formatRetryAfter(retryAfter)}` : ' later';
+
+  switch (type) {
+    case ValidationErrorType.USER_QUOTA_EXCEEDED:
+      return limit
+        ? `You already have ${limit} active request${limit === 1 ? '' : 's'}. You can request again once one is played.`
+        : 'You have too many active requests. You can request again once one is played.';
+    case ValidationErrorType.REQUEST_TOO_SOON:
+      return `You can request again${wait}.`;
+    case ValidationErrorType.SONG_COOLDOWN:
+      return `This song was just played. You can request it again${wait}.`;
+    case ValidationErrorType.SONG_UNAVAILABLE:
+      if (reason === 'not_tonight') return "The band can't play this song tonight. Please pick another one.";
+      if (reason === 'explicit') return "This song isn't available at this event. Please pick another one.";
+      return "This song can't be requested. Please pick another one.";
+    case ValidationErrorType.SONG_CAP_REACHED:
+      return limit && tag && windowMinutes
+        ? `Only ${limit} "${tag}" song${limit === 1 ? '' : 's'} can be requested every ${formatRetryAfter(windowMinutes * 60)}. Try again${wait} or pick another song.`
+        : `Too many songs like this were just requested. Try again${wait} or pick another song.`;
+    case ValidationErrorType.IDENTITY_REQUIRED:
+      return 'Please sign in again to request songs.';
+    default:
+      return 'Failed to submit request. Please try again.';
+  }
+}
+
+// Rule violations carry `{ type, retry_after, limit, ... }` as JSON in the error details
+function parseRuleViolation(details: string | null | undefined): RequestSubmissionError | null {
+  if (!details) return null;
+
+  try {
+    const parsed = JSON.parse(details);
+    if (!RULE_ERROR_TYPES.includes(parsed?.type)) return null;
+
+    const type = parsed.type as ValidationErrorType;
+    const detail: RuleViolationDetail = {
+      retryAfter: typeof parsed.retry_after === 'number' ? parsed.retry_after : undefined,
+      limit: typeof parsed.limit === 'number' ? parsed.limit : undefined,
+      reason: typeof parsed.reason === 'string' ? parsed.reason : undefined,
+      tag: typeof parsed.tag === 'string' ? parsed.tag : undefined,
+      windowMinutes: typeof parsed.window_minutes === 'number' ? parsed.window_minutes : undefined
+    };
+    return new RequestSubmissionError(type, describeRuleViolation(type, detail), detail.retryAfter, detail.limit);
+  } catch {
+    return null;
+  }
+}
+
+function formatSubmittedRequest(row: any): SongRequest {
+  return {
+    id: row.id,
+    title: row.title,
+    artist: row.artist || '',
+    requesters: (row.requesters || []).map((requester: any) => ({
+      id: requester.id,
+      userId: requester.user_id || undefined,
+      name: requester.name || 'Anonymous',
+      photo: requester.photo || '',
+      message: requester.message || '',
+      timestamp: requester.created_at
+    })),
+    votes: row.votes || 0,
+    status: row.status || 'approved',
+    rejectionReason: row.rejection_reason || undefined,
+    isLocked: row.is_locked || false,
+    isPlayed: row.is_played || false,
+    stage: row.stage || undefined,
+    startedAt: row.started_at || undefined,
+    playedAt: row.played_at || undefined,
+    eventId: row.event_id || undefined,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Submit a song request to a band through the submit_request database function.
+ * The song is checked against the band's library, and the requester either joins
+ * the open request for that song or starts a new one, in one transaction.
+ * Breaking one of the band's request rules throws a RequestSubmissionError;
+ * anything else ("This song is not in the library", ...) is a plain Error.
+ */
+export async function submitSongRequest(bandId: string, data: RequestFormData): Promise<SongRequest> {
+  const { data: result, error } = await supabase.rpc('submit_request', {
+    p_band_id: bandId,
+    p_title: data.title,
+    p_artist: data.artist || null,
+    p_requester_name: data.requestedBy,
+    p_requester_photo: data.userPhoto,
+    p_message: data.message || ''
+  });
+
+  if (error) {
+    throw parseRuleViolation(error.details) ?? new Error(error.message);
+  }
+  return formatSubmittedRequest(result);
+}
@@ -1,5 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
-import { supabase } from './supabase';
+import { findLibrarySong } from './songSearch';
 import type { User, Song, RequestFormData } from '../types';
 
 // Define possible validation error types for better error handling
@@ -9,7 +9,16 @@ export enum ValidationErrorType {
   MISSING_SONG = 'MISSING_SONG',
   INVALID_SONG = 'INVALID_SONG',
   INVALID_DATA = 'INVALID_DATA',
-  SERVER_ERROR = 'SERVER_ERROR'
+  SERVER_ERROR = 'SERVER_ERROR',
+  // Band request rules, enforced by submit_request
+  USER_QUOTA_EXCEEDED = 'USER_QUOTA_EXCEEDED',
+  REQUEST_TOO_SOON = 'REQUEST_TOO_SOON',
+  SONG_COOLDOWN = 'SONG_COOLDOWN',
+  // Song availability, enforced by submit_request
+  SONG_UNAVAILABLE = 'SONG_UNAVAILABLE',
+  SONG_CAP_REACHED = 'SONG_CAP_REACHED',
+  // Only signed in audience profiles and band accounts can submit
+  IDENTITY_REQUIRED = 'IDENTITY_REQUIRED'
 }
 
 // Detailed validation error response
@@ -24,14 +33,14 @@ export interface ValidationErrorResponse {
 // Successful validation response
 export interface ValidationSuccessResponse {
   valid: true;
-  requestId?: string;
 }
 
 // Combined response type
 export type ValidationResponse = ValidationSuccessResponse | ValidationErrorResponse;
 
 /**
- * Validates user song request against multiple criteria
+ * Validates user song request against multiple criteria before it is sent
+ * to submit_request. Library and duplicate checks happen server-side.
  */
 export async function validateUserRequest(
   user: User | null | undefined,
@@ -116,33 +125,22 @@ export async function validateUserRequest(
       return error;
     }
 
-    // Check for existing requests for this song (to add user to existing request)
-    try {
-      const { data: existingRequests, error: requestsError } = await supabase
-        .from('requests')
-        .select('id, title')
-        .eq('title', song.title)
-        .eq('is_played', false)
-        .limit(1);
-
-      if (requestsError) throw requestsError;
-
-      // If we found an existing request, return its ID so the user can be added to it
-      if (existingRequests && existingRequests.length > 0) {
-        return { valid: true, requestId: existingRequests[0].id };
-      }
-
-      // All validation passed
-      return { valid: true };
-    } catch (error) {
-      console.error(`${logPrefix} Database error during validation:`, error);
-      return {
-        type: ValidationErrorType.SERVER_ERROR,
-        message: 'Error checking for existing requests',
-        suggestion: 'Please try again later',
-        data: { error }
+    // The title has to name the selected song, by its title or an alias
+    if (!findLibrarySong([song], formData.title, formData.artist)) {
+      const error = {
+        type: ValidationErrorType.INVALID_SONG,
+        message: 'The request does not match the selected song',
+        field: 'title',
+        suggestion: 'Please select the song again',
+        data: { songId: song.id, title: formData.title }
       };
+      console.error(`${logPrefix} ${error.type}: ${error.message}`, error.data);
+      return error;
     }
+
+    // Joining an existing request for the same song (whichever name it was
+    // requested by) happens atomically in the submit_request database function
+    return { valid: true };
   } catch (unexpectedError) {
     // Catch any unexpected errors in the validation process itself
     console.error(`${logPrefix} Unexpected validation error:`, unexpectedError);
@@ -160,11 +158,11 @@ export async function validateUserRequest(
  */
 export function handleValidationResult(
   result: ValidationResponse,
-  onSuccess: (requestId?: string) => void,
+  onSuccess: () => void,
   onError: (error: ValidationErrorResponse) => void
 ): void {
   if ('valid' in result && result.valid) {
-    onSuccess(result.requestId);
+    onSuccess();
   } else {
     onError(result as ValidationErrorResponse);
   }
@@ -0,0 +1,61 @@
+/**
+ * URL scheme for a band:
+ *   /b/:bandSlug          audience frontend
+ *   /b/:bandSlug/kiosk    kiosk mode
+ *   /b/:bandSlug/backend  backend dashboard
+ *
+ * The old /kiosk and /backend paths still resolve, without a band, so they
+ * can be redirected once the band is known.
+ */
+
+export type AppView = 'frontend' | 'kiosk' | 'backend';
+
+export interface AppRoute {
+  bandSlug: string | null;
+  view: AppView;
+}
+
+const BAND_PREFIX = 'b';
+const KIOSK_SEGMENT = 'kiosk';
+const BACKEND_SEGMENT = 'backend';
+
+function viewFromSegment(segment?: string): AppView {
+  if (segment === KIOSK_SEGMENT) return 'kiosk';
+  if (segment === BACKEND_SEGMENT) return 'backend';
+  return 'frontend';
+}
+
+export function parseRoute(pathname: string): AppRoute {
+  const segments = pathname.split('/').filter(Boolean);
+
+  if (segments[0] === BAND_PREFIX && segments[1]) {
+    return {
+      bandSlug: decodeURIComponent(segments[1]).toLowerCase(),
+      view: viewFromSegment(segments[2])
+    };
+  }
+
+  return {
+    bandSlug: null,
+    view: viewFromSegment(segments[0])
+  };
+}
+
+export function buildBandPath(bandSlug: string, view: AppView = 'frontend'): string {
+  const base = `/${BAND_PREFIX}/${encodeURIComponent(bandSlug)}`;
+  if (view === 'kiosk') return `${base}/${KIOSK_SEGMENT}`;
+  if (view === 'backend') return `${base}/${BACKEND_SEGMENT}`;
+  return base;
+}
+
+/**
+ * Turn a band name into a URL-safe slug ("The Rolling Tones" -> "the-rolling-tones")
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
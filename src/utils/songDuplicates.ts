@@ -0,0 +1,188 @@
+import { supabase } from './supabase';
+import { DEFAULT_ALBUM_ART } from './itunes';
+import { formatSong, toSongRow } from './songMetadata';
+import type { Song } from '../types';
+
+// Minimum similarity (0-1) for titles and artists to count as the same song
+const TITLE_THRESHOLD = 0.85;
+const ARTIST_THRESHOLD = 0.8;
+
+export interface DuplicateGroup {
+  songs: Song[];
+  // The most complete song, which is kept unless someone picks another
+  suggestedKeepId: string;
+}
+
+export type MergedSongFields = Omit<Song, 'id' | 'lastPlayed'>;
+
+/**
+ * Fold a title or artist down to what matters for matching: no accents,
+ * apostrophes, punctuation, "(Remastered 2011)" style suffixes or leading
+ * "The", and "&" / "n" read as "and"
+ */
+export function normalizeSongText(value?: string): string {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s*[([][^)\]]*\b(live|remaster(ed)?|version|edit|mix|mono|stereo|acoustic|demo)\b[^)\]]*[)\]]/g, '')
+    .replace(/\s+-\s+[^-]*\b(live|remaster(ed)?|version|edit|mix)\b.*$/, '')
+    .replace(/['\u2019`]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\bn\b/g, 'and')
+    .replace(/^the\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 1 for identical strings, 0 for nothing in common (Levenshtein distance
+ * relative to the longer string)
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1]
+        : 1 + Math.min(previous[j - 1], previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / longest;
+}
+
+// Strings this different in length can't reach the threshold, so skip the distance
+const closeEnough = (a: string, b: string, threshold: number) =>
+  Math.abs(a.length - b.length) <= (1 - threshold) * Math.max(a.length, b.length) &&
+  similarity(a, b) >= threshold;
+
+const filledFields = (song: Song) =>
+  [song.key, song.notes, song.durationSeconds, song.tempoBpm, song.leadVocalist, song.tuning, song.lastPlayed]
+    .filter(value => value !== undefined && value !== '').length +
+  (song.genres.length > 0 ? 1 : 0) +
+  (song.tags.length > 0 ? 1 : 0) +
+  (song.albumArtUrl && song.albumArtUrl !== DEFAULT_ALBUM_ART ? 1 : 0);
+
+/**
+ * Prefer the song with the most metadata; on a tie, the title with the most
+ * punctuation ("Don't Stop Believin'" over "Dont Stop Believin")
+ */
+const suggestKeep = (songs: Song[]) =>
+  [...songs].sort((a, b) =>
+    (filledFields(b) - filledFields(a)) ||
+    (b.title.length + b.artist.length) - (a.title.length + a.artist.length)
+  )[0];
+
+/**
+ * Group songs that look like the same song spelled differently
+ */
+export function findDuplicateGroups(songs: Song[]): DuplicateGroup[] {
+  const prepared = songs.map(song => ({
+    song,
+    title: normalizeSongText(song.title),
+    artist: normalizeSongText(song.artist)
+  }));
+
+  // Union-find so A~B and B~C end up in one group
+  const parent = prepared.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < prepared.length; i++) {
+    for (let j = i + 1; j < prepared.length; j++) {
+      const a = prepared[i];
+      const b = prepared[j];
+      const artistsMatch = !a.artist || !b.artist || closeEnough(a.artist, b.artist, ARTIST_THRESHOLD);
+      if (artistsMatch && closeEnough(a.title, b.title, TITLE_THRESHOLD)) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, Song[]>();
+  prepared.forEach(({ song }, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), song]);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => ({ songs: group, suggestedKeepId: suggestKeep(group).id }))
+    .sort((a, b) => a.songs[0].title.localeCompare(b.songs[0].title));
+}
+
+/**
+ * What the surviving song looks like after a merge: its own title and artist,
+ * every genre, tag and note from the group, and the first key, artwork,
+ * duration and so on it's missing. Explicit if any of them is, requestable
+ * only if all of them are.
+ */
+export function mergeSongFields(group: Song[], keepId: string): MergedSongFields {
+  const keep = group.find(song => song.id === keepId) ?? group[0];
+  const ordered = [keep, ...group.filter(song => song.id !== keep.id)];
+  const first = <T>(pick: (song: Song) => T | undefined) =>
+    ordered.map(pick).find(value => value !== undefined && value !== '');
+
+  const union = (pick: (song: Song) => string[]) => {
+    const names = new Map<string, string>();
+    ordered.flatMap(pick).forEach(name => {
+      if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+    });
+    return Array.from(names.values());
+  };
+
+  const notes = Array.from(new Set(ordered.map(song => song.notes?.trim()).filter(Boolean)));
+
+  return {
+    title: keep.title,
+    artist: keep.artist,
+    genres: union(song => song.genres),
+    tags: union(song => song.tags),
+    // The other titles stay findable as aliases
+    aliases: union(song => [...(song.aliases || []), song.title])
+      .filter(alias => normalizeSongText(alias) !== normalizeSongText(keep.title)),
+    key: first(song => song.key) ?? '',
+    notes: notes.join('\n'),
+    albumArtUrl: first(song => (song.albumArtUrl === DEFAULT_ALBUM_ART ? undefined : song.albumArtUrl)) ?? keep.albumArtUrl,
+    durationSeconds: first(song => song.durationSeconds),
+    releaseYear: first(song => song.releaseYear),
+    previewUrl: first(song => song.previewUrl),
+    tempoBpm: first(song => song.tempoBpm),
+    leadVocalist: first(song => song.leadVocalist),
+    capo: first(song => song.capo),
+    tuning: first(song => song.tuning),
+    isExplicit: ordered.some(song => song.isExplicit),
+    isRequestable: ordered.every(song => song.isRequestable !== false)
+  };
+}
+
+/**
+ * Fold the other songs into the kept one. Set lists, past requests and play
+ * history move to the kept song, it gains every genre, tag and alias of the
+ * group (and the other titles as aliases), then the others are deleted.
+ */
+export async function mergeSongs(keepId: string, mergeIds: string[], fields: MergedSongFields): Promise<Song> {
+  const { data, error } = await supabase.rpc('merge_songs', {
+    p_keep_id: keepId,
+    p_merge_ids: mergeIds,
+    p_song: toSongRow(fields)
+  });
+
+  if (error) throw new Error(error.message);
+
+  // The returned row has no tags or aliases; the server gave it the whole group's
+  return { ...formatSong(data), genres: fields.genres, tags: fields.tags, aliases: fields.aliases };
+}
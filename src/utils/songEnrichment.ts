@@ -0,0 +1,447 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from './supabase';
+import { RealtimeManager } from './realtimeManager';
+import { SONG_COLUMNS, formatSong, setSongTags } from './songMetadata';
+import { foldSearchText } from './songSearch';
+import { DEFAULT_ALBUM_ART, iTunesProvider } from './itunes';
+import type { Song } from '../types';
+
+/**
+ * What a provider knows about a recording. Anything it doesn't know is left
+ * undefined.
+ */
+export interface SongMetadata {
+  albumArtUrl?: string;
+  genre?: string;
+  releaseYear?: number;
+  durationSeconds?: number;
+  previewUrl?: string;
+}
+
+/**
+ * A source of song metadata. Swap in createFixtureProvider to work without
+ * the network.
+ */
+export interface MetadataProvider {
+  // Cache key prefix, so providers never read each other's results
+  name: string;
+  // Shortest gap between two lookups, to stay inside the provider's rate limit
+  minIntervalMs: number;
+  // Null when the provider has no match; throws when it couldn't be asked
+  lookup(title: string, artist: string): Promise<SongMetadata | null>;
+}
+
+// Songs the provider had no match for are asked about again after this long
+const MISS_RETRY_DAYS = 30;
+
+const lookupKey = (title: string, artist: string) => `${foldSearchText(title)}|${foldSearchText(artist)}`;
+
+/**
+ * A provider that answers from a fixed list, keyed by title and artist
+ */
+export function createFixtureProvider(
+  fixtures: { title: string; artist: string; metadata: SongMetadata }[],
+  name = 'fixture'
+): MetadataProvider {
+  const byKey = new Map(fixtures.map(fixture => [lookupKey(fixture.title, fixture.artist), fixture.metadata]));
+
+  return {
+    name,
+    minIntervalMs: 0,
+    lookup: async (title, artist) => byKey.get(lookupKey(title, artist)) ?? null
+  };
+}
+
+// When each provider may next be asked
+const nextLookupAt = new Map<string, number>();
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+async function waitForTurn(provider: MetadataProvider, signal?: AbortSignal): Promise<void> {
+  const now = Date.now();
+  const turn = Math.max(now, nextLookupAt.get(provider.name) ?? 0);
+  nextLookupAt.set(provider.name, turn + provider.minIntervalMs);
+  if (turn > now) await sleep(turn - now, signal);
+}
+
+async function readCache(provider: MetadataProvider, key: string): Promise<{ data: SongMetadata | null } | null> {
+  const { data, error } = await supabase
+    .from('song_enrichment_cache')
+    .select('data, fetched_at')
+    .eq('provider', provider.name)
+    .eq('lookup_key', key)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Error reading enrichment cache:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  const isStaleMiss = !data.data &&
+    Date.now() - new Date(data.fetched_at).getTime() > MISS_RETRY_DAYS * 24 * 60 * 60 * 1000;
+  return isStaleMiss ? null : { data: data.data as SongMetadata | null };
+}
+
+async function writeCache(provider: MetadataProvider, key: string, metadata: SongMetadata | null): Promise<void> {
+  const { error } = await supabase
+    .from('song_enrichment_cache')
+    .upsert({
+      provider: provider.name,
+      lookup_key: key,
+      data: metadata,
+      fetched_at: new Date().toISOString()
+    });
+
+  // The lookup still counts; it'll just be repeated next time
+  if (error) console.warn('Error writing enrichment cache:', error);
+}
+
+/**
+ * Metadata for a title and artist, from the database cache when it has been
+ * looked up before and from the provider otherwise. Provider lookups wait
+ * their turn under its rate limit; cache hits don't.
+ */
+export async function fetchSongMetadata(
+  title: string,
+  artist: string,
+  provider: MetadataProvider = iTunesProvider,
+  signal?: AbortSignal
+): Promise<SongMetadata | null> {
+  if (!title.trim() || !artist.trim()) return null;
+
+  const key = lookupKey(title, artist);
+  const cached = await readCache(provider, key);
+  if (cached) return cached.data;
+
+  await waitForTurn(provider, signal);
+  if (signal?.aborted) return null;
+
+  const metadata = await provider.lookup(title, artist);
+  await writeCache(provider, key, metadata);
+  return metadata;
+}
+
+type EnrichableSong = Pick<Song, 'albumArtUrl' | 'genres' | 'releaseYear' | 'durationSeconds' | 'previewUrl'>;
+
+export type EnrichedFields = Partial<EnrichableSong>;
+
+const hasAlbumArt = (song: Pick<Song, 'albumArtUrl'>) =>
+  !!song.albumArtUrl && song.albumArtUrl !== DEFAULT_ALBUM_ART;
+
+/**
+ * Whether a song is missing anything a provider could fill in
+ */
+export function needsEnrichment(song: EnrichableSong): boolean {
+  return !hasAlbumArt(song) ||
+    song.genres.length === 0 ||
+    song.releaseYear === undefined ||
+    song.durationSeconds === undefined ||
+    !song.previewUrl;
+}
+
+/**
+ * The fields the metadata can fill in on a song. Never replaces what the
+ * band has already entered.
+ */
+export function fillMissingMetadata(song: EnrichableSong, metadata: SongMetadata): EnrichedFields {
+  return {
+    ...(!hasAlbumArt(song) && metadata.albumArtUrl && { albumArtUrl: metadata.albumArtUrl }),
+    ...(song.genres.length === 0 && metadata.genre && { genres: [metadata.genre] }),
+    ...(song.releaseYear === undefined && metadata.releaseYear !== undefined && { releaseYear: metadata.releaseYear }),
+    ...(song.durationSeconds === undefined && metadata.durationSeconds !== undefined && {
+      durationSeconds: metadata.durationSeconds
+    }),
+    ...(!song.previewUrl && metadata.previewUrl && { previewUrl: metadata.previewUrl })
+  };
+}
+
+/**
+ * Save filled-in fields on an existing song, touching only those columns
+ */
+export async function saveEnrichedFields(songId: string, fields: EnrichedFields): Promise<void> {
+  const row = {
+    ...(fields.albumArtUrl !== undefined && { albumArtUrl: fields.albumArtUrl }),
+    ...(fields.releaseYear !== undefined && { release_year: fields.releaseYear }),
+    ...(fields.durationSeconds !== undefined && { duration_seconds: fields.durationSeconds }),
+    ...(fields.previewUrl !== undefined && { preview_url: fields.previewUrl })
+  };
+
+  if (Object.keys(row).length > 0) {
+    const { error } = await supabase.from('songs').update(row).eq('id', songId);
+    if (error) throw new Error(error.message);
+  }
+
+  if (fields.genres) {
+    await setSongTags([{ songId, genres: fields.genres }]);
+  }
+}
+
+export interface EnrichmentProgress {
+  status: 'idle' | 'running' | 'cancelled' | 'done';
+  total: number;
+  processed: number;
+  updated: number;
+  notFound: number;
+  failures: { title: string; artist: string; message: string }[];
+  currentSong?: string;
+}
+
+const IDLE_PROGRESS: EnrichmentProgress = {
+  status: 'idle',
+  total: 0,
+  processed: 0,
+  updated: 0,
+  notFound: 0,
+  failures: []
+};
+
+// Tells this page apart from other tabs and devices following the same job
+const RUNNER_ID = uuidv4();
+
+// How often a page that isn't running its band's job checks on it. The
+// database hands the job over once its runner has been quiet for two minutes.
+const WATCH_INTERVAL_MS = 30 * 1000;
+
+type LookupOutcome = 'updated' | 'not_found' | 'unchanged' | 'failed';
+
+function formatProgress(row: any): EnrichmentProgress {
+  return {
+    status: row.status,
+    total: row.total ?? 0,
+    processed: row.processed ?? 0,
+    updated: row.updated ?? 0,
+    notFound: row.not_found ?? 0,
+    failures: Array.isArray(row.failures) ? row.failures : []
+  };
+}
+
+// The next song in a job that hasn't been looked up yet
+async function fetchPendingSong(jobId: string): Promise<Song | null> {
+  const { data, error } = await supabase
+    .from('enrichment_job_songs')
+    .select(`songs (${SONG_COLUMNS})`)
+    .eq('job_id', jobId)
+    .is('processed_at', null)
+    .order('queued_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  const row: any = data?.songs;
+  return row ? formatSong(row) : null;
+}
+
+/**
+ * Fills in metadata across a band's library one song at a time. The job and
+ * which of its songs are done are kept in the database: one open page runs
+ * it, the others follow its progress, and a reload picks it back up.
+ */
+class EnrichmentJob {
+  private progress: EnrichmentProgress = IDLE_PROGRESS;
+  private listeners = new Set<(progress: EnrichmentProgress) => void>();
+  private bandId: string | null = null;
+  private jobId: string | null = null;
+  private provider: MetadataProvider = iTunesProvider;
+  // This page's run of the job, while it has one
+  private controller: AbortController | null = null;
+  private watchTimer: ReturnType<typeof setInterval> | null = null;
+  private subscriptionId: string | null = null;
+
+  getProgress(): EnrichmentProgress {
+    return this.progress;
+  }
+
+  subscribe(listener: (progress: EnrichmentProgress) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(changes: Partial<EnrichmentProgress>): void {
+    this.progress = { ...this.progress, ...changes };
+    this.listeners.forEach(listener => listener(this.progress));
+  }
+
+  private applyJob(row: any): void {
+    this.jobId = row.id;
+    this.update({
+      ...formatProgress(row),
+      currentSong: this.controller && row.status === 'running' ? this.progress.currentSong : undefined
+    });
+  }
+
+  /**
+   * Follow a band's latest job, and run it when it's still going but no open
+   * page is running it (it was started before a reload, or in a closed tab)
+   */
+  watch(bandId: string, provider: MetadataProvider = iTunesProvider): void {
+    if (this.bandId === bandId) return;
+
+    // Another band's job is left for a page showing that band
+    this.controller?.abort();
+    this.controller = null;
+    if (this.watchTimer) clearInterval(this.watchTimer);
+    if (this.subscriptionId) RealtimeManager.removeSubscription(this.subscriptionId);
+
+    this.bandId = bandId;
+    this.provider = provider;
+    this.jobId = null;
+    this.update({ ...IDLE_PROGRESS, currentSong: undefined });
+
+    this.subscriptionId = RealtimeManager.createSubscription(
+      'enrichment_jobs',
+      () => this.refresh(),
+      { event: '*', schema: 'public', table: 'enrichment_jobs', filter: `band_id=eq.${bandId}` }
+    );
+    this.watchTimer = setInterval(() => this.refresh(), WATCH_INTERVAL_MS);
+    this.refresh();
+  }
+
+  private async refresh(): Promise<void> {
+    const bandId = this.bandId;
+    if (!bandId) return;
+
+    const { data, error } = await supabase
+      .from('enrichment_jobs')
+      .select('*')
+      .eq('band_id', bandId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.warn('Error loading enrichment job:', error);
+      return;
+    }
+    if (!data || this.bandId !== bandId) return;
+
+    this.applyJob(data);
+    if (data.status === 'running' && !this.controller) this.runJob(data.id);
+  }
+
+  /**
+   * Fill in every song of the band that is missing metadata. While a job is
+   * running, new songs join the end of it.
+   */
+  async start(bandId: string, songs: Song[], provider: MetadataProvider = iTunesProvider): Promise<void> {
+    this.watch(bandId, provider);
+
+    const songIds = songs.filter(needsEnrichment).map(song => song.id);
+    if (songIds.length === 0) return;
+
+    const { data, error } = await supabase.rpc('start_enrichment_job', {
+      p_band_id: bandId,
+      p_provider: provider.name,
+      p_song_ids: songIds
+    });
+
+    if (error) throw new Error(error.message);
+    if (this.bandId !== bandId) return;
+
+    this.applyJob(data);
+    if (!this.controller) this.runJob(data.id);
+  }
+
+  /**
+   * Stop the job, wherever it is running
+   */
+  async cancel(): Promise<void> {
+    if (!this.jobId) return;
+
+    // Let go of the run right away, so starting again doesn't wait for it to wind down
+    this.controller?.abort();
+    this.controller = null;
+    this.update({ status: 'cancelled', currentSong: undefined });
+
+    const { data, error } = await supabase.rpc('cancel_enrichment_job', { p_job_id: this.jobId });
+    if (error) throw new Error(error.message);
+    this.applyJob(data);
+  }
+
+  // Take the job on, unless another page is running it
+  private async runJob(jobId: string): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const { data: claimed, error } = await supabase.rpc('claim_enrichment_job', {
+        p_job_id: jobId,
+        p_runner_id: RUNNER_ID
+      });
+
+      if (error) throw new Error(error.message);
+      if (claimed) await this.run(jobId, controller.signal);
+    } catch (error) {
+      console.error('Enrichment job stopped:', error);
+    } finally {
+      // A cancelled run mustn't clear the one started after it
+      if (this.controller === controller) {
+        this.controller = null;
+        this.update({ currentSong: undefined });
+      }
+    }
+  }
+
+  private async run(jobId: string, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      const song = await fetchPendingSong(jobId);
+      if (signal.aborted) return;
+
+      let outcome: LookupOutcome = 'unchanged';
+      let failure: { title: string; artist: string; message: string } | null = null;
+
+      if (song) {
+        this.update({ currentSong: `${song.title} - ${song.artist}` });
+
+        try {
+          const metadata = await fetchSongMetadata(song.title, song.artist, this.provider, signal);
+          if (signal.aborted) return;
+
+          const fields = metadata ? fillMissingMetadata(song, metadata) : {};
+          if (Object.keys(fields).length > 0) {
+            await saveEnrichedFields(song.id, fields);
+            outcome = 'updated';
+          } else if (!metadata) {
+            outcome = 'not_found';
+          }
+        } catch (error) {
+          console.warn(`Error enriching "${song.title}":`, error);
+          outcome = 'failed';
+          failure = {
+            title: song.title,
+            artist: song.artist,
+            message: error instanceof Error ? error.message : 'Lookup failed'
+          };
+        }
+      }
+
+      // With no song left this just marks the job done
+      const { data, error } = await supabase.rpc('record_enrichment_result', {
+        p_job_id: jobId,
+        p_runner_id: RUNNER_ID,
+        p_song_id: song?.id ?? null,
+        p_outcome: outcome,
+        p_failure: failure
+      });
+
+      if (error) throw new Error(error.message);
+      if (signal.aborted) return;
+      this.applyJob(data);
+
+      // Finished, stopped from another page, or taken over by one
+      if (!song || data.status !== 'running' || data.runner_id !== RUNNER_ID) return;
+    }
+  }
+}
+
+export const enrichmentJob = new EnrichmentJob();
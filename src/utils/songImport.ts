@@ -0,0 +1,263 @@
+import { splitTagInput } from './songMetadata';
+import { foldSearchText } from './songSearch';
+import type { Song } from '../types';
+
+export type SongField =
+  | 'title'
+  | 'artist'
+  | 'genres'
+  | 'key'
+  | 'notes'
+  | 'albumArtUrl'
+  | 'durationSeconds'
+  | 'tempoBpm'
+  | 'tags'
+  | 'leadVocalist'
+  | 'capo'
+  | 'tuning'
+  | 'isExplicit'
+  | 'isRequestable';
+
+export const SONG_FIELDS: { field: SongField; label: string; required?: boolean }[] = [
+  { field: 'title', label: 'Title', required: true },
+  { field: 'artist', label: 'Artist', required: true },
+  { field: 'genres', label: 'Genres' },
+  { field: 'key', label: 'Key' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'albumArtUrl', label: 'Album Art URL' },
+  { field: 'durationSeconds', label: 'Length' },
+  { field: 'tempoBpm', label: 'Tempo (BPM)' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'leadVocalist', label: 'Lead Vocalist' },
+  { field: 'capo', label: 'Capo' },
+  { field: 'tuning', label: 'Tuning' },
+  { field: 'isExplicit', label: 'Explicit' },
+  { field: 'isRequestable', label: 'Requestable' }
+];
+
+// Column index for each field; fields left out aren't imported
+export type ColumnMapping = Partial<Record<SongField, number>>;
+
+export type ImportedSong = Omit<Song, 'id' | 'lastPlayed'>;
+
+export interface ImportCandidate {
+  // 1-based line (or track number) in the source, to match what people see in a spreadsheet
+  line: number;
+  song: ImportedSong;
+}
+
+export interface ImportPreviewRow extends ImportCandidate {
+  status: 'new' | 'duplicate' | 'skipped';
+  reason?: string;
+}
+
+// Header names people tend to use for each field
+const HEADER_ALIASES: Record<SongField, string[]> = {
+  title: ['title', 'song', 'song title', 'name', 'track', 'track name'],
+  artist: ['artist', 'artist name', 'band', 'performer', 'by'],
+  genres: ['genre', 'genres', 'style'],
+  key: ['key', 'song key', 'musical key'],
+  notes: ['notes', 'note', 'comments', 'comment'],
+  albumArtUrl: ['album art', 'album art url', 'albumarturl', 'artwork', 'artwork url', 'cover', 'image', 'image url'],
+  durationSeconds: ['length', 'duration', 'time', 'running time'],
+  tempoBpm: ['tempo', 'bpm', 'tempo bpm', 'tempo (bpm)'],
+  tags: ['tags', 'tag', 'labels', 'mood'],
+  leadVocalist: ['lead vocalist', 'vocalist', 'vocals', 'lead vocals', 'singer', 'lead'],
+  capo: ['capo'],
+  tuning: ['tuning'],
+  isExplicit: ['explicit', 'is explicit', 'parental advisory'],
+  isRequestable: ['requestable', 'is requestable', 'can request', 'available']
+};
+
+// The same song however it's spelled, as normalize_song_text sees it
+const songKey = (title: string, artist: string) => `${foldSearchText(title)}|${foldSearchText(artist)}`;
+
+/**
+ * Tabs win when the first line has any, since titles often contain commas
+ * but almost never tabs
+ */
+export function detectDelimiter(text: string): ',' | '\t' | ';' {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] ?? '';
+  if (firstLine.includes('\t')) return '\t';
+
+  // Spreadsheets in some locales save "CSV" with semicolons
+  const semicolons = (firstLine.match(/;/g) || []).length;
+  const commas = (firstLine.match(/,/g) || []).length;
+  return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Split CSV/TSV text into rows of cells. Handles quoted fields (with
+ * embedded delimiters, newlines and doubled quotes), CRLF line endings and a
+ * leading byte order mark. Blank lines are dropped.
+ */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): { line: number; cells: string[] }[] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStartLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim())) {
+      rows.push({ line: rowStartLine, cells: cells.map(value => value.trim()) });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && !cell.trim()) {
+      // Only an opening quote at the start of a cell starts a quoted field
+      cell = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowStartLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || cells.length > 0) endRow();
+  return rows;
+}
+
+const findField = (header: string): SongField | undefined => {
+  const normalized = header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+  return SONG_FIELDS.find(({ field }) => HEADER_ALIASES[field].includes(normalized))?.field;
+};
+
+/**
+ * A first row counts as a header when it names the title or artist column
+ */
+export function looksLikeHeader(cells: string[]): boolean {
+  const fields = cells.map(findField);
+  return fields.includes('title') || fields.includes('artist');
+}
+
+/**
+ * Map columns from a header row, or fall back to the order of SONG_FIELDS
+ * (Title, Artist, Genres, Key, Notes, ...) when there isn't one
+ */
+export function guessColumnMapping(firstRow: string[], hasHeader: boolean): ColumnMapping {
+  const mapping: ColumnMapping = {};
+
+  if (hasHeader) {
+    firstRow.forEach((header, index) => {
+      const field = findField(header);
+      if (field && mapping[field] === undefined) mapping[field] = index;
+    });
+    return mapping;
+  }
+
+  SONG_FIELDS.slice(0, firstRow.length).forEach(({ field }, index) => {
+    mapping[field] = index;
+  });
+  return mapping;
+}
+
+// "yes", "Y", "true", "1", "x" and the like; blank or anything else is unknown
+const parseYesNo = (value: string): boolean | undefined => {
+  if (/^(y|yes|true|1|x)$/i.test(value)) return true;
+  if (/^(n|no|false|0)$/i.test(value)) return false;
+  return undefined;
+};
+
+/**
+ * Turn parsed rows into songs using the column mapping
+ */
+export function rowsToSongs(
+  rows: { line: number; cells: string[] }[],
+  mapping: ColumnMapping,
+  hasHeader: boolean
+): ImportCandidate[] {
+  const cellFor = (cells: string[], field: SongField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (cells[index] ?? '').trim();
+  };
+
+  const numberFor = (cells: string[], field: SongField) => {
+    const value = parseInt(cellFor(cells, field), 10);
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  };
+
+  return (hasHeader ? rows.slice(1) : rows).map(({ line, cells }) => ({
+    line,
+    song: {
+      title: cellFor(cells, 'title'),
+      artist: cellFor(cells, 'artist'),
+      genres: splitTagInput(cellFor(cells, 'genres')),
+      tags: splitTagInput(cellFor(cells, 'tags')),
+      key: cellFor(cells, 'key') || undefined,
+      notes: cellFor(cells, 'notes') || undefined,
+      albumArtUrl: cellFor(cells, 'albumArtUrl') || undefined,
+      durationSeconds: parseDuration(cellFor(cells, 'durationSeconds')),
+      tempoBpm: numberFor(cells, 'tempoBpm'),
+      leadVocalist: cellFor(cells, 'leadVocalist') || undefined,
+      capo: numberFor(cells, 'capo'),
+      tuning: cellFor(cells, 'tuning') || undefined,
+      isExplicit: parseYesNo(cellFor(cells, 'isExplicit')) ?? false,
+      isRequestable: parseYesNo(cellFor(cells, 'isRequestable')) ?? true
+    }
+  }));
+}
+
+/**
+ * Mark which songs will be skipped and which are already in the library
+ * (or earlier in the same file)
+ */
+export function buildImportPreview(candidates: ImportCandidate[], existingSongs: Song[]): ImportPreviewRow[] {
+  const seen = new Set(existingSongs.map(song => songKey(song.title, song.artist)));
+
+  return candidates.map(({ line, song }) => {
+    if (!song.title || !song.artist) {
+      return { line, song, status: 'skipped', reason: !song.title ? 'Missing title' : 'Missing artist' };
+    }
+
+    const key = songKey(song.title, song.artist);
+    if (seen.has(key)) {
+      return { line, song, status: 'duplicate', reason: 'Already in the library or earlier in the file' };
+    }
+
+    seen.add(key);
+    return { line, song, status: 'new' };
+  });
+}
+
+/**
+ * "3:45", "1:02:30" or plain seconds ("225")
+ */
+export function parseDuration(value?: string): number | undefined {
+  const text = (value || '').trim();
+  if (!/^\d+(:\d{1,2}){0,2}$/.test(text)) return undefined;
+  return text.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+}
+
+export function formatDuration(seconds?: number): string {
+  if (seconds === undefined) return '-';
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,150 @@
+import { supabase } from './supabase';
+import type { Song } from '../types';
+
+export type TagKind = 'genre' | 'tag';
+
+// Columns for a full Song, including its genres and tags
+export const SONG_COLUMNS = `
+  id,
+  title,
+  artist,
+  key,
+  notes,
+  "albumArtUrl",
+  duration_seconds,
+  release_year,
+  preview_url,
+  tempo_bpm,
+  lead_vocalist,
+  capo,
+  tuning,
+  is_explicit,
+  is_requestable,
+  last_played_at,
+  song_tags (
+    tags (
+      kind,
+      name
+    )
+  ),
+  song_aliases (
+    alias
+  )
+`;
+
+const tagNames = (row: any, kind: TagKind): string[] =>
+  (row.song_tags || [])
+    .map((songTag: any) => songTag.tags)
+    .filter((tag: any) => tag?.kind === kind)
+    .map((tag: any) => tag.name as string)
+    .sort((a: string, b: string) => a.localeCompare(b));
+
+export function formatSong(row: any): Song {
+  return {
+    id: row.id,
+    title: row.title,
+    artist: row.artist,
+    genres: tagNames(row, 'genre'),
+    tags: tagNames(row, 'tag'),
+    aliases: (row.song_aliases || [])
+      .map((songAlias: any) => songAlias.alias as string)
+      .sort((a: string, b: string) => a.localeCompare(b)),
+    key: row.key || undefined,
+    notes: row.notes || undefined,
+    albumArtUrl: row.albumArtUrl || undefined,
+    lastPlayed: row.last_played_at ? new Date(row.last_played_at) : undefined,
+    durationSeconds: row.duration_seconds ?? undefined,
+    releaseYear: row.release_year ?? undefined,
+    previewUrl: row.preview_url || undefined,
+    tempoBpm: row.tempo_bpm ?? undefined,
+    leadVocalist: row.lead_vocalist || undefined,
+    capo: row.capo ?? undefined,
+    tuning: row.tuning || undefined,
+    isExplicit: !!row.is_explicit,
+    isRequestable: row.is_requestable ?? true
+  };
+}
+
+/**
+ * The songs table columns for a song's metadata. Genres and tags are saved
+ * separately with setSongTags, aliases with setSongAliases.
+ */
+export function toSongRow(song: Partial<Omit<Song, 'id' | 'genres' | 'tags' | 'aliases' | 'lastPlayed'>>) {
+  return {
+    title: song.title,
+    artist: song.artist,
+    key: song.key || null,
+    notes: song.notes || null,
+    albumArtUrl: song.albumArtUrl || null,
+    duration_seconds: song.durationSeconds ?? null,
+    release_year: song.releaseYear ?? null,
+    preview_url: song.previewUrl || null,
+    tempo_bpm: song.tempoBpm ?? null,
+    lead_vocalist: song.leadVocalist || null,
+    capo: song.capo ?? null,
+    tuning: song.tuning || null,
+    is_explicit: song.isExplicit ?? false,
+    is_requestable: song.isRequestable ?? true
+  };
+}
+
+/**
+ * "Rock, pop ,  Dance" -> ["Rock", "pop", "Dance"], without repeats
+ */
+export function splitTagInput(value?: string): string[] {
+  const seen = new Set<string>();
+  return (value || '')
+    .split(',')
+    .map(tag => tag.trim().replace(/\s+/g, ' '))
+    .filter(tag => {
+      if (!tag || seen.has(tag.toLowerCase())) return false;
+      seen.add(tag.toLowerCase());
+      return true;
+    });
+}
+
+/**
+ * Every distinct genre (or tag) across the songs, sorted
+ */
+export function collectTags(songs: Song[], kind: TagKind): string[] {
+  const names = new Map<string, string>();
+  songs.forEach(song => {
+    (kind === 'genre' ? song.genres : song.tags).forEach(name => {
+      if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+    });
+  });
+  return Array.from(names.values()).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Replace the genres and/or tags of one or more songs. A kind left undefined
+ * is left as it is.
+ */
+export async function setSongTags(
+  entries: { songId: string; genres?: string[]; tags?: string[] }[]
+): Promise<void> {
+  const payload = entries
+    .filter(entry => entry.genres !== undefined || entry.tags !== undefined)
+    .map(entry => ({
+      song_id: entry.songId,
+      ...(entry.genres !== undefined && { genres: entry.genres }),
+      ...(entry.tags !== undefined && { tags: entry.tags })
+    }));
+
+  if (payload.length === 0) return;
+
+  const { error } = await supabase.rpc('set_song_tags', { p_entries: payload });
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Replace the other names a song is known by. Aliases that just repeat the
+ * title are dropped.
+ */
+export async function setSongAliases(songId: string, aliases: string[]): Promise<void> {
+  const { error } = await supabase.rpc('set_song_aliases', {
+    p_song_id: songId,
+    p_aliases: aliases
+  });
+  if (error) throw new Error(error.message);
+}
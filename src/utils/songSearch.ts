@@ -0,0 +1,213 @@
+import type { Song } from '../types';
+
+/**
+ * How much a match in each field counts toward a song's rank
+ */
+const FIELD_WEIGHTS = {
+  title: 1,
+  alias: 0.9,
+  artist: 0.7,
+  tag: 0.4
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+interface IndexedField {
+  field: SearchField;
+  text: string;
+  tokens: string[];
+}
+
+interface IndexedSong {
+  song: Song;
+  fields: IndexedField[];
+  // Folded title, for whole-phrase bonuses
+  title: string;
+}
+
+export interface SongSearchIndex {
+  entries: IndexedSong[];
+}
+
+/**
+ * Fold text for matching: no accents, case, apostrophes or punctuation, and
+ * "&" / "n" / "'n'" read as "and" ("Guns N' Roses" -> "guns and roses")
+ */
+export function foldSearchText(value?: string): string {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['\u2019`]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\bn\b/g, 'and')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const tokenize = (text: string) => (text ? text.split(' ') : []);
+
+// Typos allowed in a query word, by its length
+const maxTypos = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+/**
+ * Edit distance (with swapped neighbours as one edit) if it is at most
+ * `max`, otherwise max + 1. Stops as soon as the limit is out of reach.
+ */
+function boundedDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
+
+/**
+ * How well one query word matches one word of a song, from 0 to 1. The last
+ * word of the query is matched as a prefix too, since it may still be typed.
+ */
+function matchToken(query: string, token: string, isLastWord: boolean): number {
+  if (query === token) return 1;
+  if (token.startsWith(query) && (isLastWord || query.length >= 3)) return 0.85;
+
+  const allowed = maxTypos(query.length);
+  if (allowed > 0) {
+    const distance = boundedDistance(query, token, allowed);
+    if (distance <= allowed) return 0.75 - distance * 0.1;
+
+    // A typo in a word that's still being typed ("bohemian rhapsd")
+    if (isLastWord && token.length > query.length &&
+      boundedDistance(query, token.slice(0, query.length), allowed) <= allowed) {
+      return 0.5;
+    }
+  }
+
+  if (query.length >= 3 && token.includes(query)) return 0.45;
+  return 0;
+}
+
+const indexField = (field: SearchField, value: string): IndexedField | null => {
+  const text = foldSearchText(value);
+  if (!text) return null;
+
+  const tokens = tokenize(text);
+  // "ac dc" should also match "acdc", and "acdc" match "AC/DC"
+  if (tokens.length > 1) tokens.push(tokens.join(''));
+  return { field, text, tokens };
+};
+
+/**
+ * Prepare songs for searching. Build it once per song list (in a useMemo)
+ * and reuse it for every keystroke.
+ */
+export function createSongSearchIndex(songs: Song[]): SongSearchIndex {
+  return {
+    entries: songs.map(song => ({
+      song,
+      title: foldSearchText(song.title),
+      fields: [
+        indexField('title', song.title),
+        ...(song.aliases || []).map(alias => indexField('alias', alias)),
+        indexField('artist', song.artist),
+        ...song.genres.map(genre => indexField('tag', genre)),
+        ...song.tags.map(tag => indexField('tag', tag))
+      ].filter((field): field is IndexedField => field !== null)
+    }))
+  };
+}
+
+function scoreSong(entry: IndexedSong, query: string, words: string[]): number {
+  let total = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    const isLastWord = i === words.length - 1;
+    let best = 0;
+
+    for (const { field, tokens } of entry.fields) {
+      const weight = FIELD_WEIGHTS[field];
+      if (weight <= best) continue;
+
+      for (const token of tokens) {
+        const score = matchToken(words[i], token, isLastWord) * weight;
+        if (score > best) best = score;
+        if (best === weight) break;
+      }
+    }
+
+    // Every word has to match something
+    if (best === 0) return 0;
+    total += best;
+  }
+
+  let score = total / words.length;
+
+  // Whole-phrase matches rank above songs that only share the words
+  if (entry.title === query) {
+    score += 1;
+  } else if (entry.title.startsWith(query)) {
+    score += 0.5;
+  } else if (entry.fields.some(({ field, text }) => field === 'alias' && text.startsWith(query))) {
+    score += 0.4;
+  } else if (entry.title.includes(query)) {
+    score += 0.25;
+  }
+
+  return score;
+}
+
+/**
+ * Songs matching the query, best first. Handles accents, punctuation, word
+ * order, words still being typed and small typos, across titles, aliases,
+ * artists, genres and tags. An empty query returns every song in order.
+ */
+export function searchSongs(index: SongSearchIndex, query: string): Song[] {
+  const folded = foldSearchText(query);
+  if (!folded) return index.entries.map(entry => entry.song);
+
+  const words = tokenize(folded);
+  const results: { song: Song; score: number; position: number }[] = [];
+
+  index.entries.forEach((entry, position) => {
+    const score = scoreSong(entry, folded, words);
+    if (score > 0) results.push({ song: entry.song, score, position });
+  });
+
+  return results
+    .sort((a, b) => (b.score - a.score) || (a.position - b.position))
+    .map(result => result.song);
+}
+
+/**
+ * The library song a free-text title (and optional artist) refers to, by its
+ * title or one of its aliases. A title match wins over an alias.
+ */
+export function findLibrarySong(songs: Song[], title: string, artist?: string): Song | undefined {
+  const titleKey = foldSearchText(title);
+  const artistKey = foldSearchText(artist);
+  if (!titleKey) return undefined;
+
+  const candidates = artistKey ? songs.filter(song => foldSearchText(song.artist) === artistKey) : songs;
+  return candidates.find(song => foldSearchText(song.title) === titleKey) ??
+    candidates.find(song => (song.aliases || []).some(alias => foldSearchText(alias) === titleKey));
+}
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+import type { RequestStage, SongRequest } from '../types';
+
+export const STAGE_LABELS: Record<RequestStage, string> = {
+  queued: 'In Queue',
+  on_deck: 'On Deck',
+  up_next: 'Up Next',
+  now_playing: 'Now Playing',
+  played: 'Played'
+};
+
+// Lanes ahead of the queue, in the order they reach the stage
+export const LANE_STAGES: RequestStage[] = ['now_playing', 'up_next', 'on_deck'];
+
+/**
+ * The stage a request is in, falling back to the older played and locked
+ * flags for rows that predate stages
+ */
+export function getRequestStage(request: SongRequest): RequestStage {
+  if (request.isPlayed) return 'played';
+  if (request.stage && request.stage !== 'queued') return request.stage;
+  return request.isLocked ? 'up_next' : 'queued';
+}
+
+/**
+ * Pick the request in each lane out of a list of requests
+ */
+export function getStageLanes(requests: SongRequest[]): {
+  nowPlaying?: SongRequest;
+  upNext?: SongRequest;
+  onDeck?: SongRequest;
+} {
+  const inStage = (stage: RequestStage) => requests.find(request => getRequestStage(request) === stage);
+
+  return {
+    nowPlaying: inStage('now_playing'),
+    upNext: inStage('up_next'),
+    onDeck: inStage('on_deck')
+  };
+}
+
+/**
+ * The "next song" action: finish the song now playing and move every lane up
+ * one, filling empty lanes from `queuedIds` (the queue in ranked order).
+ * Returns the request that is now playing, if any.
+ */
+export async function advanceQueue(bandId: string, queuedIds: string[]): Promise<string | null> {
+  const { data, error } = await supabase.rpc('advance_queue', {
+    p_band_id: bandId,
+    p_queue: queuedIds
+  });
+
+  if (error) throw new Error(error.message);
+  return data?.id ?? null;
+}
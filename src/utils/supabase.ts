@@ -23,7 +23,7 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: {
     persistSession: true,
     autoRefreshToken: true,
-    detectSessionInUrl: false // Prevent auto-detection of auth params in URL
+    detectSessionInUrl: true // Pick up sessions from magic link and invite redirects
   },
   global: {
     headers: {
@@ -144,7 +144,7 @@ export function getPublicUrl(path: string, bucket: string = 'app_assets'): strin
  * Uploads a logo to Supabase storage and returns a direct data URL
  * This approach solves transparency issues by preserving the original PNG format
  */
-export async function uploadBandLogo(fileData: Blob | File): Promise<string> {
+export async function uploadBandLogo(bandId: string, fileData: Blob | File): Promise<string> {
   console.log('Starting logo upload process');
   try {
     // Convert to PNG with transparency
@@ -180,6 +180,7 @@ export async function uploadBandLogo(fileData: Blob | File): Promise<string> {
     const { data: settings, error: settingsError } = await supabase
       .from('ui_settings')
       .select('*')
+      .eq('band_id', bandId)
       .order('created_at', { ascending: false })
       .limit(1);
 
@@ -193,6 +194,7 @@ export async function uploadBandLogo(fileData: Blob | File): Promise<string> {
       const { error: createError } = await supabase
         .from('ui_settings')
         .insert({
+          band_id: bandId,
           band_logo_url: pngDataUrl,
           band_name: 'uRequest Live',
           primary_color: '#ff00ff',
@@ -0,0 +1,221 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.0'
+
+const BACKEND_ROLES = ['owner', 'band_member', 'venue_staff', 'kiosk_operator']
+
+// Create a Supabase client with the service role key
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const USERS_PER_PAGE = 1000
+
+// The auth account for an email, if there is one. Backend accounts are
+// looked up directly; anyone else is found by paging through auth users.
+async function findUserByEmail(email: string): Promise<{ id: string; email: string } | null> {
+  const { data: account, error: accountError } = await supabase
+    .from('backend_users')
+    .select('id, email')
+    .eq('email', email)
+    .maybeSingle()
+
+  if (accountError) {
+    throw accountError
+  }
+
+  if (account) {
+    return account
+  }
+
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage: USERS_PER_PAGE })
+
+    if (error) {
+      throw error
+    }
+
+    const match = data.users.find(candidate => candidate.email?.toLowerCase() === email)
+    if (match) {
+      return { id: match.id, email: match.email ?? email }
+    }
+
+    if (data.users.length < USERS_PER_PAGE) {
+      return null
+    }
+  }
+}
+
+serve(async (req) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Content-Type': 'application/json',
+  }
+
+  // Handle OPTIONS request for CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers })
+  }
+
+  try {
+    // Resolve the caller from their access token
+    const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '')
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token)
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Not authenticated' }),
+        { status: 401, headers }
+      )
+    }
+
+    const { bandId, email, role = 'band_member', displayName, redirectTo } = await req.json()
+
+    if (!bandId || typeof bandId !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'A band is required' }),
+        { status: 400, headers }
+      )
+    }
+
+    // Only owners of the band may invite into it
+    const { data: membership, error: membershipError } = await supabase
+      .from('band_members')
+      .select('role')
+      .eq('band_id', bandId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (membershipError) {
+      throw membershipError
+    }
+
+    if (!membership || membership.role !== 'owner') {
+      return new Response(
+        JSON.stringify({ error: 'Only owners of this band can invite new accounts' }),
+        { status: 403, headers }
+      )
+    }
+
+    if (!email || typeof email !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'An email address is required' }),
+        { status: 400, headers }
+      )
+    }
+
+    if (!BACKEND_ROLES.includes(role)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown role: ${role}` }),
+        { status: 400, headers }
+      )
+    }
+
+    const normalizedEmail = email.trim().toLowerCase()
+
+    // Someone who already has an account is added to the band; only new
+    // emails get an invite
+    const existing = await findUserByEmail(normalizedEmail)
+
+    if (existing) {
+      const { data: current, error: currentError } = await supabase
+        .from('band_members')
+        .select('role')
+        .eq('band_id', bandId)
+        .eq('user_id', existing.id)
+        .maybeSingle()
+
+      if (currentError) {
+        throw currentError
+      }
+
+      if (current) {
+        return new Response(
+          JSON.stringify({ error: `${normalizedEmail} is already on this band's team` }),
+          { status: 409, headers }
+        )
+      }
+
+      // Audience accounts with this email become backend accounts too
+      const { error: accountError } = await supabase
+        .from('backend_users')
+        .upsert(
+          {
+            id: existing.id,
+            email: existing.email,
+            display_name: displayName ?? null,
+            invited_by: user.id
+          },
+          { onConflict: 'id', ignoreDuplicates: true }
+        )
+
+      if (accountError) {
+        throw accountError
+      }
+
+      const { error: memberError } = await supabase
+        .from('band_members')
+        .insert({ band_id: bandId, user_id: existing.id, role })
+
+      if (memberError) {
+        throw memberError
+      }
+
+      return new Response(
+        JSON.stringify({ id: existing.id, email: existing.email, invited: false }),
+        { headers }
+      )
+    }
+
+    // Send the invite email; the link signs the new user in on the backend page
+    const { data: invited, error: inviteError } = await supabase.auth.admin.inviteUserByEmail(
+      normalizedEmail,
+      {
+        redirectTo,
+        data: { display_name: displayName ?? null }
+      }
+    )
+
+    if (inviteError) {
+      throw inviteError
+    }
+
+    const { error: insertError } = await supabase
+      .from('backend_users')
+      .upsert({
+        id: invited.user.id,
+        email: invited.user.email,
+        display_name: displayName ?? null,
+        invited_by: user.id
+      })
+
+    if (insertError) {
+      throw insertError
+    }
+
+    const { error: memberError } = await supabase
+      .from('band_members')
+      .upsert({ band_id: bandId, user_id: invited.user.id, role })
+
+    if (memberError) {
+      throw memberError
+    }
+
+    return new Response(
+      JSON.stringify({
+        id: invited.user.id,
+        email: invited.user.email,
+        invited: true
+      }),
+      { headers }
+    )
+  } catch (error) {
+    console.error('Error:', error)
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers }
+    )
+  }
+})
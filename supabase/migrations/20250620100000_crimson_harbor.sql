@@ -0,0 +1,68 @@
+/*
+  # Backend user accounts backed by Supabase Auth
+
+  1. New Tables
+    - `backend_users`
+      - `id` (uuid, primary key, references auth.users)
+      - `email` (text)
+      - `display_name` (text)
+      - `invited_by` (uuid, nullable, references backend_users)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `is_backend_user()` returns true when the current session belongs to a
+      backend account
+
+  3. Security
+    - Enable RLS on `backend_users`
+    - Backend users can see the team list and update their own display name
+    - New rows are only created by the `invite_backend_user` edge function,
+      which uses the service role key
+
+  4. Notes
+    - The very first account has to be created from the Supabase dashboard
+      (Authentication > Users) and registered by hand:
+        INSERT INTO backend_users (id, email)
+        SELECT id, email FROM auth.users WHERE email = 'you@example.com';
+*/
+
+CREATE TABLE IF NOT EXISTS backend_users (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  display_name text,
+  invited_by uuid REFERENCES backend_users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_backend_users_email
+  ON backend_users (lower(email));
+
+-- Check whether the caller is a registered backend user
+CREATE OR REPLACE FUNCTION is_backend_user()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS(
+    SELECT 1 FROM backend_users WHERE id = auth.uid()
+  );
+$$;
+
+ALTER TABLE backend_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Backend users can view the team"
+  ON backend_users
+  FOR SELECT
+  TO authenticated
+  USING (is_backend_user());
+
+CREATE POLICY "Backend users can update their own profile"
+  ON backend_users
+  FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+GRANT EXECUTE ON FUNCTION is_backend_user() TO authenticated, anon;
@@ -0,0 +1,210 @@
+/*
+  # Role-based backend permissions
+
+  1. Changes
+    - Add `role` to `backend_users`
+      - `owner` can do everything, including managing the team
+      - `band_member` manages the queue and set lists
+      - `venue_staff` can only moderate (remove) requests
+      - `kiosk_operator` can only launch kiosk mode
+    - Existing backend users become owners so nobody is locked out
+
+  2. Functions
+    - `backend_role()` returns the role of the current session, or NULL
+    - `has_backend_role(roles)` checks the current session against a list of roles
+    - `lock_request` / `unlock_request` now require an owner or band member
+    - `prevent_backend_role_escalation` trigger stops non-owners changing roles
+
+  3. Security
+    - Restrictive policies layered on top of the existing public ones so that
+      song, set list, settings and queue writes are limited by role
+    - Audience inserts of requests and requesters are unchanged
+    - The `invite_backend_user` edge function now only accepts owners
+*/
+
+ALTER TABLE backend_users
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'band_member'
+  CHECK (role IN ('owner', 'band_member', 'venue_staff', 'kiosk_operator'));
+
+-- Everyone registered before roles existed had full access
+UPDATE backend_users SET role = 'owner';
+
+-- Role of the current session, NULL for the audience
+CREATE OR REPLACE FUNCTION backend_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM backend_users WHERE id = auth.uid();
+$$;
+
+-- Check whether the current session has one of the given roles
+CREATE OR REPLACE FUNCTION has_backend_role(roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(backend_role() = ANY(roles), false);
+$$;
+
+-- Only owners may change roles (the service role has no auth.uid() and is allowed)
+CREATE OR REPLACE FUNCTION prevent_backend_role_escalation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND auth.uid() IS NOT NULL
+    AND NOT has_backend_role(ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can change backend roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER backend_users_role_guard
+  BEFORE UPDATE ON backend_users
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_backend_role_escalation();
+
+CREATE POLICY "Owners can manage the team"
+  ON backend_users
+  FOR UPDATE
+  TO authenticated
+  USING (has_backend_role(ARRAY['owner']))
+  WITH CHECK (has_backend_role(ARRAY['owner']));
+
+CREATE POLICY "Owners can remove team members"
+  ON backend_users
+  FOR DELETE
+  TO authenticated
+  USING (has_backend_role(ARRAY['owner']) AND id <> auth.uid());
+
+-- Lock functions are restricted to people running the show
+CREATE OR REPLACE FUNCTION lock_request(request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_backend_role(ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to lock requests';
+  END IF;
+
+  -- First unlock all requests
+  UPDATE requests
+  SET is_locked = false
+  WHERE is_locked = true;
+
+  -- Then lock the specified request
+  UPDATE requests
+  SET is_locked = true
+  WHERE id = request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unlock_request(request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_backend_role(ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to unlock requests';
+  END IF;
+
+  UPDATE requests
+  SET is_locked = false
+  WHERE id = request_id;
+END;
+$$;
+
+-- Songs: owners only
+CREATE POLICY "Songs insert by owners"
+  ON songs AS RESTRICTIVE FOR INSERT TO public
+  WITH CHECK (has_backend_role(ARRAY['owner']));
+
+CREATE POLICY "Songs update by owners"
+  ON songs AS RESTRICTIVE FOR UPDATE TO public
+  USING (has_backend_role(ARRAY['owner']));
+
+CREATE POLICY "Songs delete by owners"
+  ON songs AS RESTRICTIVE FOR DELETE TO public
+  USING (has_backend_role(ARRAY['owner']));
+
+-- Set lists: owners and band members
+CREATE POLICY "Set lists insert by band"
+  ON set_lists AS RESTRICTIVE FOR INSERT TO public
+  WITH CHECK (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Set lists update by band"
+  ON set_lists AS RESTRICTIVE FOR UPDATE TO public
+  USING (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Set lists delete by band"
+  ON set_lists AS RESTRICTIVE FOR DELETE TO public
+  USING (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Set list songs insert by band"
+  ON set_list_songs AS RESTRICTIVE FOR INSERT TO public
+  WITH CHECK (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Set list songs update by band"
+  ON set_list_songs AS RESTRICTIVE FOR UPDATE TO public
+  USING (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Set list songs delete by band"
+  ON set_list_songs AS RESTRICTIVE FOR DELETE TO public
+  USING (has_backend_role(ARRAY['owner', 'band_member']));
+
+-- UI settings: owners only
+CREATE POLICY "UI settings insert by owners"
+  ON ui_settings AS RESTRICTIVE FOR INSERT TO public
+  WITH CHECK (has_backend_role(ARRAY['owner']));
+
+CREATE POLICY "UI settings update by owners"
+  ON ui_settings AS RESTRICTIVE FOR UPDATE TO public
+  USING (has_backend_role(ARRAY['owner']));
+
+CREATE POLICY "UI settings delete by owners"
+  ON ui_settings AS RESTRICTIVE FOR DELETE TO public
+  USING (has_backend_role(ARRAY['owner']));
+
+-- Requests: band members run the queue, venue staff can also remove requests
+CREATE POLICY "Requests update by band"
+  ON requests AS RESTRICTIVE FOR UPDATE TO public
+  USING (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Requests delete by moderators"
+  ON requests AS RESTRICTIVE FOR DELETE TO public
+  USING (has_backend_role(ARRAY['owner', 'band_member', 'venue_staff']));
+
+CREATE POLICY "Requesters update by moderators"
+  ON requesters AS RESTRICTIVE FOR UPDATE TO public
+  USING (has_backend_role(ARRAY['owner', 'band_member', 'venue_staff']));
+
+CREATE POLICY "Requesters delete by moderators"
+  ON requesters AS RESTRICTIVE FOR DELETE TO public
+  USING (has_backend_role(ARRAY['owner', 'band_member', 'venue_staff']));
+
+CREATE POLICY "User votes update by moderators"
+  ON user_votes AS RESTRICTIVE FOR UPDATE TO public
+  USING (has_backend_role(ARRAY['owner', 'band_member', 'venue_staff']));
+
+CREATE POLICY "User votes delete by moderators"
+  ON user_votes AS RESTRICTIVE FOR DELETE TO public
+  USING (has_backend_role(ARRAY['owner', 'band_member', 'venue_staff']));
+
+GRANT EXECUTE ON FUNCTION backend_role() TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION has_backend_role(TEXT[]) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION lock_request(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION unlock_request(UUID) TO authenticated, anon;
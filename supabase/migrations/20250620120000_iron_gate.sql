@@ -0,0 +1,189 @@
+/*
+  # Replace the wide-open RLS policies
+
+  1. Changes
+    - Drop the `FOR ALL TO public` policies created by the initial schema and
+      the restrictive role policies layered on top of them
+    - The audience (anon and authenticated) gets read access only
+    - Add `create_request` so the audience can still add requests; it is the
+      only way new requests and requesters are created from the client
+
+  2. Security
+    - `songs` and `ui_settings` writes require the `owner` role
+    - `set_lists` / `set_list_songs` writes require `owner` or `band_member`
+    - `requests` updates require `owner` or `band_member`, deletes also allow
+      `venue_staff`
+    - `requesters` and `user_votes` can only be deleted by moderators
+    - `user_votes` rows are only ever created by `add_vote`, which runs as
+      SECURITY DEFINER, so there is no insert policy at all
+*/
+
+-- Initial public policies
+DROP POLICY IF EXISTS "Songs public access" ON songs;
+DROP POLICY IF EXISTS "Requests public access" ON requests;
+DROP POLICY IF EXISTS "Requesters public access" ON requesters;
+DROP POLICY IF EXISTS "User votes public access" ON user_votes;
+DROP POLICY IF EXISTS "Set lists public access" ON set_lists;
+DROP POLICY IF EXISTS "Set list songs public access" ON set_list_songs;
+DROP POLICY IF EXISTS "UI settings public access" ON ui_settings;
+
+-- Restrictive role policies, replaced by the permissive ones below
+DROP POLICY IF EXISTS "Songs insert by owners" ON songs;
+DROP POLICY IF EXISTS "Songs update by owners" ON songs;
+DROP POLICY IF EXISTS "Songs delete by owners" ON songs;
+DROP POLICY IF EXISTS "Set lists insert by band" ON set_lists;
+DROP POLICY IF EXISTS "Set lists update by band" ON set_lists;
+DROP POLICY IF EXISTS "Set lists delete by band" ON set_lists;
+DROP POLICY IF EXISTS "Set list songs insert by band" ON set_list_songs;
+DROP POLICY IF EXISTS "Set list songs update by band" ON set_list_songs;
+DROP POLICY IF EXISTS "Set list songs delete by band" ON set_list_songs;
+DROP POLICY IF EXISTS "UI settings insert by owners" ON ui_settings;
+DROP POLICY IF EXISTS "UI settings update by owners" ON ui_settings;
+DROP POLICY IF EXISTS "UI settings delete by owners" ON ui_settings;
+DROP POLICY IF EXISTS "Requests update by band" ON requests;
+DROP POLICY IF EXISTS "Requests delete by moderators" ON requests;
+DROP POLICY IF EXISTS "Requesters update by moderators" ON requesters;
+DROP POLICY IF EXISTS "Requesters delete by moderators" ON requesters;
+DROP POLICY IF EXISTS "User votes update by moderators" ON user_votes;
+DROP POLICY IF EXISTS "User votes delete by moderators" ON user_votes;
+
+-- Read access for everyone
+CREATE POLICY "Songs are viewable by everyone"
+  ON songs FOR SELECT TO public USING (true);
+
+CREATE POLICY "Requests are viewable by everyone"
+  ON requests FOR SELECT TO public USING (true);
+
+CREATE POLICY "Requesters are viewable by everyone"
+  ON requesters FOR SELECT TO public USING (true);
+
+CREATE POLICY "User votes are viewable by everyone"
+  ON user_votes FOR SELECT TO public USING (true);
+
+CREATE POLICY "Set lists are viewable by everyone"
+  ON set_lists FOR SELECT TO public USING (true);
+
+CREATE POLICY "Set list songs are viewable by everyone"
+  ON set_list_songs FOR SELECT TO public USING (true);
+
+CREATE POLICY "UI settings are viewable by everyone"
+  ON ui_settings FOR SELECT TO public USING (true);
+
+-- Songs: owners only
+CREATE POLICY "Owners can insert songs"
+  ON songs FOR INSERT TO authenticated
+  WITH CHECK (has_backend_role(ARRAY['owner']));
+
+CREATE POLICY "Owners can update songs"
+  ON songs FOR UPDATE TO authenticated
+  USING (has_backend_role(ARRAY['owner']))
+  WITH CHECK (has_backend_role(ARRAY['owner']));
+
+CREATE POLICY "Owners can delete songs"
+  ON songs FOR DELETE TO authenticated
+  USING (has_backend_role(ARRAY['owner']));
+
+-- Set lists: owners and band members
+CREATE POLICY "Band can insert set lists"
+  ON set_lists FOR INSERT TO authenticated
+  WITH CHECK (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can update set lists"
+  ON set_lists FOR UPDATE TO authenticated
+  USING (has_backend_role(ARRAY['owner', 'band_member']))
+  WITH CHECK (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can delete set lists"
+  ON set_lists FOR DELETE TO authenticated
+  USING (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can insert set list songs"
+  ON set_list_songs FOR INSERT TO authenticated
+  WITH CHECK (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can update set list songs"
+  ON set_list_songs FOR UPDATE TO authenticated
+  USING (has_backend_role(ARRAY['owner', 'band_member']))
+  WITH CHECK (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can delete set list songs"
+  ON set_list_songs FOR DELETE TO authenticated
+  USING (has_backend_role(ARRAY['owner', 'band_member']));
+
+-- UI settings: owners only
+CREATE POLICY "Owners can insert UI settings"
+  ON ui_settings FOR INSERT TO authenticated
+  WITH CHECK (has_backend_role(ARRAY['owner']));
+
+CREATE POLICY "Owners can update UI settings"
+  ON ui_settings FOR UPDATE TO authenticated
+  USING (has_backend_role(ARRAY['owner']))
+  WITH CHECK (has_backend_role(ARRAY['owner']));
+
+CREATE POLICY "Owners can delete UI settings"
+  ON ui_settings FOR DELETE TO authenticated
+  USING (has_backend_role(ARRAY['owner']));
+
+-- Requests: no direct inserts, see create_request below
+CREATE POLICY "Band can update requests"
+  ON requests FOR UPDATE TO authenticated
+  USING (has_backend_role(ARRAY['owner', 'band_member']))
+  WITH CHECK (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Moderators can delete requests"
+  ON requests FOR DELETE TO authenticated
+  USING (has_backend_role(ARRAY['owner', 'band_member', 'venue_staff']));
+
+CREATE POLICY "Moderators can delete requesters"
+  ON requesters FOR DELETE TO authenticated
+  USING (has_backend_role(ARRAY['owner', 'band_member', 'venue_staff']));
+
+CREATE POLICY "Moderators can delete user votes"
+  ON user_votes FOR DELETE TO authenticated
+  USING (has_backend_role(ARRAY['owner', 'band_member', 'venue_staff']));
+
+-- Controlled entry point for audience requests
+CREATE OR REPLACE FUNCTION create_request(
+  p_title TEXT,
+  p_artist TEXT,
+  p_requester_name TEXT,
+  p_requester_photo TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_request_id UUID;
+BEGIN
+  IF COALESCE(trim(p_title), '') = '' THEN
+    RAISE EXCEPTION 'Song title is required';
+  END IF;
+
+  IF COALESCE(trim(p_requester_name), '') = '' THEN
+    RAISE EXCEPTION 'Requester name is required';
+  END IF;
+
+  IF COALESCE(length(p_requester_photo), 0) = 0 THEN
+    RAISE EXCEPTION 'Requester photo is required';
+  END IF;
+
+  INSERT INTO requests (title, artist, votes, is_locked, is_played)
+  VALUES (trim(p_title), NULLIF(trim(p_artist), ''), 0, false, false)
+  RETURNING id INTO new_request_id;
+
+  INSERT INTO requesters (request_id, name, photo, message)
+  VALUES (
+    new_request_id,
+    left(trim(p_requester_name), 50),
+    p_requester_photo,
+    left(COALESCE(p_message, ''), 100)
+  );
+
+  RETURN new_request_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_request(TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated, anon;
@@ -0,0 +1,142 @@
+/*
+  # Atomic request submission
+
+  1. Functions
+    - `normalize_song_text(text)` lowercases, strips punctuation and collapses
+      whitespace so "Don't Stop Believin'" and "dont stop believin" match
+    - `submit_request(...)` validates the song against the library, joins the
+      open request for the same normalized title/artist or creates a new one,
+      adds the requester and returns the resulting request as JSON.
+      Everything happens in one transaction, and concurrent submissions for
+      the same song are serialized with an advisory lock.
+
+  2. Changes
+    - Index on the normalized title/artist of unplayed requests
+    - Drop `create_request`, which `submit_request` replaces
+
+  3. Security
+    - `submit_request` is SECURITY DEFINER and is the only way for the
+      audience to create requests and requesters
+*/
+
+CREATE OR REPLACE FUNCTION normalize_song_text(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(lower(COALESCE(value, '')), '[^a-z0-9\s]', '', 'g'),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_requests_normalized_song
+  ON requests (normalize_song_text(title), normalize_song_text(artist))
+  WHERE is_played = false;
+
+DROP FUNCTION IF EXISTS create_request(TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION submit_request(
+  p_title TEXT,
+  p_artist TEXT,
+  p_requester_name TEXT,
+  p_requester_photo TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song songs%ROWTYPE;
+  v_request requests%ROWTYPE;
+  v_name TEXT := left(trim(COALESCE(p_requester_name, '')), 50);
+  v_title_key TEXT := normalize_song_text(p_title);
+  v_artist_key TEXT := normalize_song_text(p_artist);
+BEGIN
+  IF v_title_key = '' THEN
+    RAISE EXCEPTION 'Song title is required';
+  END IF;
+
+  IF v_name = '' THEN
+    RAISE EXCEPTION 'Requester name is required';
+  END IF;
+
+  IF COALESCE(length(p_requester_photo), 0) = 0 THEN
+    RAISE EXCEPTION 'Requester photo is required';
+  END IF;
+
+  -- The song must be in the library; an empty artist matches any artist
+  SELECT * INTO v_song
+  FROM songs
+  WHERE normalize_song_text(title) = v_title_key
+    AND (v_artist_key = '' OR normalize_song_text(artist) = v_artist_key)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This song is not in the library';
+  END IF;
+
+  -- Serialize submissions for the same song so two people can't both create it
+  PERFORM pg_advisory_xact_lock(
+    hashtext(normalize_song_text(v_song.title) || '|' || normalize_song_text(v_song.artist))
+  );
+
+  SELECT * INTO v_request
+  FROM requests
+  WHERE is_played = false
+    AND normalize_song_text(title) = normalize_song_text(v_song.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_song.artist)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO requests (title, artist, votes, is_locked, is_played)
+    VALUES (v_song.title, v_song.artist, 0, false, false)
+    RETURNING * INTO v_request;
+  ELSIF EXISTS (
+    SELECT 1 FROM requesters
+    WHERE request_id = v_request.id
+      AND lower(name) = lower(v_name)
+  ) THEN
+    RAISE EXCEPTION 'You have already requested this song';
+  END IF;
+
+  INSERT INTO requesters (request_id, name, photo, message)
+  VALUES (
+    v_request.id,
+    v_name,
+    p_requester_photo,
+    left(COALESCE(p_message, ''), 100)
+  );
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'id', v_request.id,
+      'title', v_request.title,
+      'artist', v_request.artist,
+      'votes', v_request.votes,
+      'is_locked', v_request.is_locked,
+      'is_played', v_request.is_played,
+      'created_at', v_request.created_at,
+      'requesters', COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'name', r.name,
+          'photo', r.photo,
+          'message', r.message,
+          'created_at', r.created_at
+        ) ORDER BY r.created_at
+      ), '[]'::jsonb)
+    )
+    FROM requesters r
+    WHERE r.request_id = v_request.id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION normalize_song_text(TEXT) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION submit_request(TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated, anon;
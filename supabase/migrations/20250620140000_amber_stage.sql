@@ -0,0 +1,305 @@
+/*
+  # Events (gig sessions)
+
+  1. New Tables
+    - `events`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `venue` (text)
+      - `event_date` (date)
+      - `start_time` / `end_time` (time, planned times)
+      - `set_list_id` (uuid, nullable, references set_lists)
+      - `status` (text, scheduled | active | ended)
+      - `started_at` / `ended_at` (timestamptz, actual times)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `event_id` on `requests`, `requesters` and `user_votes`
+    - Requesters and votes inherit the event of their request via trigger
+    - `submit_request` files new requests under the active event and only
+      joins open requests from that same event
+
+  3. Functions
+    - `active_event_id()` returns the event currently running, if any
+    - `start_event(event_id)` ends any running event, opens a fresh queue
+      and activates the linked set list
+    - `end_event(event_id)` archives the night: requests stay in the
+      database under that event, they just stop showing in the live queue
+
+  4. Security
+    - Everyone can read events
+    - Owners and band members manage events
+*/
+
+CREATE TABLE IF NOT EXISTS events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  venue text,
+  event_date date NOT NULL DEFAULT CURRENT_DATE,
+  start_time time,
+  end_time time,
+  set_list_id uuid REFERENCES set_lists(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'active', 'ended')),
+  started_at timestamptz,
+  ended_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Only one event can be running at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_single_active
+  ON events (status)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_events_date ON events (event_date DESC);
+
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS event_id uuid REFERENCES events(id) ON DELETE SET NULL;
+ALTER TABLE requesters ADD COLUMN IF NOT EXISTS event_id uuid REFERENCES events(id) ON DELETE SET NULL;
+ALTER TABLE user_votes ADD COLUMN IF NOT EXISTS event_id uuid REFERENCES events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_requests_event ON requests (event_id);
+CREATE INDEX IF NOT EXISTS idx_requesters_event ON requesters (event_id);
+CREATE INDEX IF NOT EXISTS idx_user_votes_event ON user_votes (event_id);
+
+-- Requesters and votes always belong to the same event as their request
+CREATE OR REPLACE FUNCTION inherit_request_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT event_id INTO NEW.event_id
+  FROM requests
+  WHERE id = NEW.request_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER requesters_inherit_event
+  BEFORE INSERT ON requesters
+  FOR EACH ROW
+  EXECUTE FUNCTION inherit_request_event();
+
+CREATE TRIGGER user_votes_inherit_event
+  BEFORE INSERT ON user_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION inherit_request_event();
+
+CREATE OR REPLACE FUNCTION active_event_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM events WHERE status = 'active' LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION end_event(p_event_id UUID)
+RETURNS events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+BEGIN
+  IF NOT has_backend_role(ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to end events';
+  END IF;
+
+  UPDATE events
+  SET status = 'ended',
+      ended_at = now()
+  WHERE id = p_event_id
+    AND status = 'active'
+  RETURNING * INTO v_event;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event is not running';
+  END IF;
+
+  -- Nothing from an archived night should stay pinned as next up
+  UPDATE requests
+  SET is_locked = false
+  WHERE event_id = p_event_id
+    AND is_locked = true;
+
+  RETURN v_event;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_event(p_event_id UUID)
+RETURNS events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+  v_running UUID;
+BEGIN
+  IF NOT has_backend_role(ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to start events';
+  END IF;
+
+  -- Archive whatever is still running before opening the new queue
+  v_running := active_event_id();
+  IF v_running IS NOT NULL AND v_running <> p_event_id THEN
+    PERFORM end_event(v_running);
+  END IF;
+
+  -- Requests made outside of any event don't carry over either
+  UPDATE requests
+  SET is_locked = false
+  WHERE event_id IS NULL
+    AND is_locked = true;
+
+  UPDATE events
+  SET status = 'active',
+      started_at = now(),
+      ended_at = NULL
+  WHERE id = p_event_id
+    AND status <> 'ended'
+  RETURNING * INTO v_event;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found or already ended';
+  END IF;
+
+  -- Bring the linked set list up for the audience
+  IF v_event.set_list_id IS NOT NULL THEN
+    UPDATE set_lists
+    SET is_active = true
+    WHERE id = v_event.set_list_id;
+  END IF;
+
+  RETURN v_event;
+END;
+$$;
+
+-- submit_request now files requests under the running event
+CREATE OR REPLACE FUNCTION submit_request(
+  p_title TEXT,
+  p_artist TEXT,
+  p_requester_name TEXT,
+  p_requester_photo TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song songs%ROWTYPE;
+  v_request requests%ROWTYPE;
+  v_event_id UUID := active_event_id();
+  v_name TEXT := left(trim(COALESCE(p_requester_name, '')), 50);
+  v_title_key TEXT := normalize_song_text(p_title);
+  v_artist_key TEXT := normalize_song_text(p_artist);
+BEGIN
+  IF v_title_key = '' THEN
+    RAISE EXCEPTION 'Song title is required';
+  END IF;
+
+  IF v_name = '' THEN
+    RAISE EXCEPTION 'Requester name is required';
+  END IF;
+
+  IF COALESCE(length(p_requester_photo), 0) = 0 THEN
+    RAISE EXCEPTION 'Requester photo is required';
+  END IF;
+
+  -- The song must be in the library; an empty artist matches any artist
+  SELECT * INTO v_song
+  FROM songs
+  WHERE normalize_song_text(title) = v_title_key
+    AND (v_artist_key = '' OR normalize_song_text(artist) = v_artist_key)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This song is not in the library';
+  END IF;
+
+  -- Serialize submissions for the same song so two people can't both create it
+  PERFORM pg_advisory_xact_lock(
+    hashtext(normalize_song_text(v_song.title) || '|' || normalize_song_text(v_song.artist))
+  );
+
+  SELECT * INTO v_request
+  FROM requests
+  WHERE is_played = false
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND normalize_song_text(title) = normalize_song_text(v_song.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_song.artist)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO requests (title, artist, votes, is_locked, is_played, event_id)
+    VALUES (v_song.title, v_song.artist, 0, false, false, v_event_id)
+    RETURNING * INTO v_request;
+  ELSIF EXISTS (
+    SELECT 1 FROM requesters
+    WHERE request_id = v_request.id
+      AND lower(name) = lower(v_name)
+  ) THEN
+    RAISE EXCEPTION 'You have already requested this song';
+  END IF;
+
+  INSERT INTO requesters (request_id, name, photo, message)
+  VALUES (
+    v_request.id,
+    v_name,
+    p_requester_photo,
+    left(COALESCE(p_message, ''), 100)
+  );
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'id', v_request.id,
+      'title', v_request.title,
+      'artist', v_request.artist,
+      'votes', v_request.votes,
+      'is_locked', v_request.is_locked,
+      'is_played', v_request.is_played,
+      'event_id', v_request.event_id,
+      'created_at', v_request.created_at,
+      'requesters', COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'name', r.name,
+          'photo', r.photo,
+          'message', r.message,
+          'created_at', r.created_at
+        ) ORDER BY r.created_at
+      ), '[]'::jsonb)
+    )
+    FROM requesters r
+    WHERE r.request_id = v_request.id
+  );
+END;
+$$;
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Events are viewable by everyone"
+  ON events FOR SELECT TO public USING (true);
+
+CREATE POLICY "Band can insert events"
+  ON events FOR INSERT TO authenticated
+  WITH CHECK (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can update events"
+  ON events FOR UPDATE TO authenticated
+  USING (has_backend_role(ARRAY['owner', 'band_member']))
+  WITH CHECK (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can delete events"
+  ON events FOR DELETE TO authenticated
+  USING (has_backend_role(ARRAY['owner', 'band_member']));
+
+GRANT EXECUTE ON FUNCTION active_event_id() TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION start_event(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_event(UUID) TO authenticated;
@@ -0,0 +1,568 @@
+/*
+  # Multiple bands
+
+  1. New Tables
+    - `bands`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `slug` (text, unique, used in /b/:slug URLs)
+      - `created_at` (timestamptz)
+    - `band_members`
+      - `band_id` (uuid, references bands)
+      - `user_id` (uuid, references backend_users)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `band_id` on `songs`, `set_lists`, `ui_settings`, `events` and `requests`
+    - Existing data is moved into a first band with the slug `main`, and
+      every existing backend user becomes a member of it
+    - Set list activation, request locking and the running event are now
+      tracked per band
+    - `submit_request` takes the band as its first argument
+
+  3. Functions
+    - `is_band_member(band_id)` / `has_band_role(band_id, roles)`
+    - `create_band(name, slug)` creates a band, its settings row and makes
+      the calling owner a member
+
+  4. Security
+    - Backend roles still come from `backend_users.role`, but every write now
+      also requires membership of the band that owns the row
+*/
+
+CREATE TABLE IF NOT EXISTS bands (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS band_members (
+  band_id uuid NOT NULL REFERENCES bands(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES backend_users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (band_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_band_members_user ON band_members (user_id);
+
+-- Move everything that exists today into a first band
+INSERT INTO bands (name, slug)
+SELECT COALESCE(
+  (SELECT band_name FROM ui_settings ORDER BY created_at DESC LIMIT 1),
+  'My Band'
+), 'main';
+
+INSERT INTO band_members (band_id, user_id)
+SELECT (SELECT id FROM bands WHERE slug = 'main'), id
+FROM backend_users;
+
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS band_id uuid REFERENCES bands(id) ON DELETE CASCADE;
+ALTER TABLE set_lists ADD COLUMN IF NOT EXISTS band_id uuid REFERENCES bands(id) ON DELETE CASCADE;
+ALTER TABLE ui_settings ADD COLUMN IF NOT EXISTS band_id uuid REFERENCES bands(id) ON DELETE CASCADE;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS band_id uuid REFERENCES bands(id) ON DELETE CASCADE;
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS band_id uuid REFERENCES bands(id) ON DELETE CASCADE;
+
+UPDATE songs SET band_id = (SELECT id FROM bands WHERE slug = 'main') WHERE band_id IS NULL;
+UPDATE set_lists SET band_id = (SELECT id FROM bands WHERE slug = 'main') WHERE band_id IS NULL;
+UPDATE ui_settings SET band_id = (SELECT id FROM bands WHERE slug = 'main') WHERE band_id IS NULL;
+UPDATE events SET band_id = (SELECT id FROM bands WHERE slug = 'main') WHERE band_id IS NULL;
+UPDATE requests SET band_id = (SELECT id FROM bands WHERE slug = 'main') WHERE band_id IS NULL;
+
+ALTER TABLE songs ALTER COLUMN band_id SET NOT NULL;
+ALTER TABLE set_lists ALTER COLUMN band_id SET NOT NULL;
+ALTER TABLE ui_settings ALTER COLUMN band_id SET NOT NULL;
+ALTER TABLE events ALTER COLUMN band_id SET NOT NULL;
+ALTER TABLE requests ALTER COLUMN band_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_songs_band ON songs (band_id);
+CREATE INDEX IF NOT EXISTS idx_set_lists_band ON set_lists (band_id);
+CREATE INDEX IF NOT EXISTS idx_ui_settings_band ON ui_settings (band_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_events_band ON events (band_id, event_date DESC);
+CREATE INDEX IF NOT EXISTS idx_requests_band ON requests (band_id, event_id);
+
+-- One running event per band instead of one overall
+DROP INDEX IF EXISTS idx_events_single_active;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_single_active
+  ON events (band_id)
+  WHERE status = 'active';
+
+-- Membership helpers
+CREATE OR REPLACE FUNCTION is_band_member(p_band_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS(
+    SELECT 1 FROM band_members
+    WHERE band_id = p_band_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION has_band_role(p_band_id UUID, roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_backend_role(roles) AND is_band_member(p_band_id);
+$$;
+
+CREATE OR REPLACE FUNCTION create_band(p_name TEXT, p_slug TEXT)
+RETURNS bands
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_band bands%ROWTYPE;
+BEGIN
+  IF NOT has_backend_role(ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can create bands';
+  END IF;
+
+  INSERT INTO bands (name, slug)
+  VALUES (trim(p_name), lower(trim(p_slug)))
+  RETURNING * INTO v_band;
+
+  INSERT INTO band_members (band_id, user_id)
+  VALUES (v_band.id, auth.uid());
+
+  INSERT INTO ui_settings (band_id, band_name)
+  VALUES (v_band.id, v_band.name);
+
+  RETURN v_band;
+END;
+$$;
+
+-- Activating a set list only deactivates the other set lists of that band
+CREATE OR REPLACE FUNCTION handle_set_list_activation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_active = true THEN
+    UPDATE set_lists
+    SET is_active = false
+    WHERE id != NEW.id
+      AND band_id = NEW.band_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION lock_request(request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_band_id UUID;
+BEGIN
+  SELECT band_id INTO v_band_id FROM requests WHERE id = request_id;
+
+  IF NOT has_band_role(v_band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to lock requests';
+  END IF;
+
+  -- First unlock the band's other requests
+  UPDATE requests
+  SET is_locked = false
+  WHERE is_locked = true
+    AND band_id = v_band_id;
+
+  -- Then lock the specified request
+  UPDATE requests
+  SET is_locked = true
+  WHERE id = request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unlock_request(request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_band_role(
+    (SELECT band_id FROM requests WHERE id = request_id),
+    ARRAY['owner', 'band_member']
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to unlock requests';
+  END IF;
+
+  UPDATE requests
+  SET is_locked = false
+  WHERE id = request_id;
+END;
+$$;
+
+-- Events are per band
+DROP FUNCTION IF EXISTS active_event_id();
+
+CREATE OR REPLACE FUNCTION active_event_id(p_band_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM events WHERE band_id = p_band_id AND status = 'active' LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION end_event(p_event_id UUID)
+RETURNS events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+BEGIN
+  IF NOT has_band_role(
+    (SELECT band_id FROM events WHERE id = p_event_id),
+    ARRAY['owner', 'band_member']
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to end events';
+  END IF;
+
+  UPDATE events
+  SET status = 'ended',
+      ended_at = now()
+  WHERE id = p_event_id
+    AND status = 'active'
+  RETURNING * INTO v_event;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event is not running';
+  END IF;
+
+  -- Nothing from an archived night should stay pinned as next up
+  UPDATE requests
+  SET is_locked = false
+  WHERE event_id = p_event_id
+    AND is_locked = true;
+
+  RETURN v_event;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_event(p_event_id UUID)
+RETURNS events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+  v_band_id UUID;
+  v_running UUID;
+BEGIN
+  SELECT band_id INTO v_band_id FROM events WHERE id = p_event_id;
+
+  IF NOT has_band_role(v_band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to start events';
+  END IF;
+
+  -- Archive whatever the band still has running before opening the new queue
+  v_running := active_event_id(v_band_id);
+  IF v_running IS NOT NULL AND v_running <> p_event_id THEN
+    PERFORM end_event(v_running);
+  END IF;
+
+  -- Requests made outside of any event don't carry over either
+  UPDATE requests
+  SET is_locked = false
+  WHERE band_id = v_band_id
+    AND event_id IS NULL
+    AND is_locked = true;
+
+  UPDATE events
+  SET status = 'active',
+      started_at = now(),
+      ended_at = NULL
+  WHERE id = p_event_id
+    AND status <> 'ended'
+  RETURNING * INTO v_event;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found or already ended';
+  END IF;
+
+  -- Bring the linked set list up for the audience
+  IF v_event.set_list_id IS NOT NULL THEN
+    UPDATE set_lists
+    SET is_active = true
+    WHERE id = v_event.set_list_id;
+  END IF;
+
+  RETURN v_event;
+END;
+$$;
+
+-- submit_request is scoped to a band's library and running event
+DROP FUNCTION IF EXISTS submit_request(TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION submit_request(
+  p_band_id UUID,
+  p_title TEXT,
+  p_artist TEXT,
+  p_requester_name TEXT,
+  p_requester_photo TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song songs%ROWTYPE;
+  v_request requests%ROWTYPE;
+  v_event_id UUID := active_event_id(p_band_id);
+  v_name TEXT := left(trim(COALESCE(p_requester_name, '')), 50);
+  v_title_key TEXT := normalize_song_text(p_title);
+  v_artist_key TEXT := normalize_song_text(p_artist);
+BEGIN
+  IF v_title_key = '' THEN
+    RAISE EXCEPTION 'Song title is required';
+  END IF;
+
+  IF v_name = '' THEN
+    RAISE EXCEPTION 'Requester name is required';
+  END IF;
+
+  IF COALESCE(length(p_requester_photo), 0) = 0 THEN
+    RAISE EXCEPTION 'Requester photo is required';
+  END IF;
+
+  -- The song must be in this band's library; an empty artist matches any artist
+  SELECT * INTO v_song
+  FROM songs
+  WHERE band_id = p_band_id
+    AND normalize_song_text(title) = v_title_key
+    AND (v_artist_key = '' OR normalize_song_text(artist) = v_artist_key)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This song is not in the library';
+  END IF;
+
+  -- Serialize submissions for the same song so two people can't both create it
+  PERFORM pg_advisory_xact_lock(
+    hashtext(p_band_id::text || '|' || normalize_song_text(v_song.title) || '|' || normalize_song_text(v_song.artist))
+  );
+
+  SELECT * INTO v_request
+  FROM requests
+  WHERE band_id = p_band_id
+    AND is_played = false
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND normalize_song_text(title) = normalize_song_text(v_song.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_song.artist)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO requests (band_id, title, artist, votes, is_locked, is_played, event_id)
+    VALUES (p_band_id, v_song.title, v_song.artist, 0, false, false, v_event_id)
+    RETURNING * INTO v_request;
+  ELSIF EXISTS (
+    SELECT 1 FROM requesters
+    WHERE request_id = v_request.id
+      AND lower(name) = lower(v_name)
+  ) THEN
+    RAISE EXCEPTION 'You have already requested this song';
+  END IF;
+
+  INSERT INTO requesters (request_id, name, photo, message)
+  VALUES (
+    v_request.id,
+    v_name,
+    p_requester_photo,
+    left(COALESCE(p_message, ''), 100)
+  );
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'id', v_request.id,
+      'band_id', v_request.band_id,
+      'title', v_request.title,
+      'artist', v_request.artist,
+      'votes', v_request.votes,
+      'is_locked', v_request.is_locked,
+      'is_played', v_request.is_played,
+      'event_id', v_request.event_id,
+      'created_at', v_request.created_at,
+      'requesters', COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'name', r.name,
+          'photo', r.photo,
+          'message', r.message,
+          'created_at', r.created_at
+        ) ORDER BY r.created_at
+      ), '[]'::jsonb)
+    )
+    FROM requesters r
+    WHERE r.request_id = v_request.id
+  );
+END;
+$$;
+
+-- Band tables
+ALTER TABLE bands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE band_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Bands are viewable by everyone"
+  ON bands FOR SELECT TO public USING (true);
+
+CREATE POLICY "Band owners can update their band"
+  ON bands FOR UPDATE TO authenticated
+  USING (has_band_role(id, ARRAY['owner']))
+  WITH CHECK (has_band_role(id, ARRAY['owner']));
+
+CREATE POLICY "Members can see their bands' members"
+  ON band_members FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR is_band_member(band_id));
+
+CREATE POLICY "Band owners can add members"
+  ON band_members FOR INSERT TO authenticated
+  WITH CHECK (has_band_role(band_id, ARRAY['owner']));
+
+CREATE POLICY "Band owners can remove members"
+  ON band_members FOR DELETE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner']));
+
+-- Replace the role policies with band-aware versions
+DROP POLICY IF EXISTS "Owners can insert songs" ON songs;
+DROP POLICY IF EXISTS "Owners can update songs" ON songs;
+DROP POLICY IF EXISTS "Owners can delete songs" ON songs;
+DROP POLICY IF EXISTS "Band can insert set lists" ON set_lists;
+DROP POLICY IF EXISTS "Band can update set lists" ON set_lists;
+DROP POLICY IF EXISTS "Band can delete set lists" ON set_lists;
+DROP POLICY IF EXISTS "Band can insert set list songs" ON set_list_songs;
+DROP POLICY IF EXISTS "Band can update set list songs" ON set_list_songs;
+DROP POLICY IF EXISTS "Band can delete set list songs" ON set_list_songs;
+DROP POLICY IF EXISTS "Owners can insert UI settings" ON ui_settings;
+DROP POLICY IF EXISTS "Owners can update UI settings" ON ui_settings;
+DROP POLICY IF EXISTS "Owners can delete UI settings" ON ui_settings;
+DROP POLICY IF EXISTS "Band can update requests" ON requests;
+DROP POLICY IF EXISTS "Moderators can delete requests" ON requests;
+DROP POLICY IF EXISTS "Moderators can delete requesters" ON requesters;
+DROP POLICY IF EXISTS "Moderators can delete user votes" ON user_votes;
+DROP POLICY IF EXISTS "Band can insert events" ON events;
+DROP POLICY IF EXISTS "Band can update events" ON events;
+DROP POLICY IF EXISTS "Band can delete events" ON events;
+
+CREATE POLICY "Owners can insert songs"
+  ON songs FOR INSERT TO authenticated
+  WITH CHECK (has_band_role(band_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can update songs"
+  ON songs FOR UPDATE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner']))
+  WITH CHECK (has_band_role(band_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete songs"
+  ON songs FOR DELETE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner']));
+
+CREATE POLICY "Band can insert set lists"
+  ON set_lists FOR INSERT TO authenticated
+  WITH CHECK (has_band_role(band_id, ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can update set lists"
+  ON set_lists FOR UPDATE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner', 'band_member']))
+  WITH CHECK (has_band_role(band_id, ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can delete set lists"
+  ON set_lists FOR DELETE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can insert set list songs"
+  ON set_list_songs FOR INSERT TO authenticated
+  WITH CHECK (has_band_role(
+    (SELECT band_id FROM set_lists WHERE id = set_list_id),
+    ARRAY['owner', 'band_member']
+  ));
+
+CREATE POLICY "Band can update set list songs"
+  ON set_list_songs FOR UPDATE TO authenticated
+  USING (has_band_role(
+    (SELECT band_id FROM set_lists WHERE id = set_list_id),
+    ARRAY['owner', 'band_member']
+  ));
+
+CREATE POLICY "Band can delete set list songs"
+  ON set_list_songs FOR DELETE TO authenticated
+  USING (has_band_role(
+    (SELECT band_id FROM set_lists WHERE id = set_list_id),
+    ARRAY['owner', 'band_member']
+  ));
+
+CREATE POLICY "Owners can insert UI settings"
+  ON ui_settings FOR INSERT TO authenticated
+  WITH CHECK (has_band_role(band_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can update UI settings"
+  ON ui_settings FOR UPDATE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner']))
+  WITH CHECK (has_band_role(band_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete UI settings"
+  ON ui_settings FOR DELETE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner']));
+
+CREATE POLICY "Band can update requests"
+  ON requests FOR UPDATE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner', 'band_member']))
+  WITH CHECK (has_band_role(band_id, ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Moderators can delete requests"
+  ON requests FOR DELETE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner', 'band_member', 'venue_staff']));
+
+CREATE POLICY "Moderators can delete requesters"
+  ON requesters FOR DELETE TO authenticated
+  USING (has_band_role(
+    (SELECT band_id FROM requests WHERE id = request_id),
+    ARRAY['owner', 'band_member', 'venue_staff']
+  ));
+
+CREATE POLICY "Moderators can delete user votes"
+  ON user_votes FOR DELETE TO authenticated
+  USING (has_band_role(
+    (SELECT band_id FROM requests WHERE id = request_id),
+    ARRAY['owner', 'band_member', 'venue_staff']
+  ));
+
+CREATE POLICY "Band can insert events"
+  ON events FOR INSERT TO authenticated
+  WITH CHECK (has_band_role(band_id, ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can update events"
+  ON events FOR UPDATE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner', 'band_member']))
+  WITH CHECK (has_band_role(band_id, ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band can delete events"
+  ON events FOR DELETE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner', 'band_member']));
+
+GRANT EXECUTE ON FUNCTION is_band_member(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION has_band_role(UUID, TEXT[]) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION create_band(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION lock_request(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION unlock_request(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION active_event_id(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION start_event(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_event(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_request(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated, anon;
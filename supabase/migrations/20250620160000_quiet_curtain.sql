@@ -0,0 +1,289 @@
+/*
+  # Request moderation
+
+  1. Changes
+    - `requests.status` (`pending`, `approved` or `rejected`); existing requests
+      are approved
+    - `requests.rejection_reason`, `moderated_at`, `moderated_by`
+    - `ui_settings.moderation_enabled` turns the approval step on per band
+
+  2. Functions
+    - `submit_request` opens new requests as pending while moderation is on.
+      Joining a request keeps its status, and rejected requests are never
+      joined, so the song can be asked for again
+    - `moderate_request(request_id, status, reason)` approves or rejects
+    - `lock_request` and `add_vote` only accept approved requests
+*/
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'approved'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS rejection_reason text
+    CHECK (char_length(rejection_reason) <= 200),
+  ADD COLUMN IF NOT EXISTS moderated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS moderated_by uuid REFERENCES backend_users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_requests_band_status ON requests (band_id, status);
+
+ALTER TABLE ui_settings
+  ADD COLUMN IF NOT EXISTS moderation_enabled boolean DEFAULT false;
+
+CREATE OR REPLACE FUNCTION moderation_enabled(p_band_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT moderation_enabled FROM ui_settings
+    WHERE band_id = p_band_id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ), false);
+$$;
+
+CREATE OR REPLACE FUNCTION moderate_request(
+  p_request_id UUID,
+  p_status TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request requests%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown moderation status: %', p_status;
+  END IF;
+
+  IF NOT has_band_role(
+    (SELECT band_id FROM requests WHERE id = p_request_id),
+    ARRAY['owner', 'band_member', 'venue_staff']
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to moderate requests';
+  END IF;
+
+  UPDATE requests
+  SET status = p_status,
+      rejection_reason = CASE
+        WHEN p_status = 'rejected' THEN NULLIF(left(trim(COALESCE(p_reason, '')), 200), '')
+        ELSE NULL
+      END,
+      moderated_at = now(),
+      moderated_by = auth.uid(),
+      -- A rejected request can't stay up next
+      is_locked = CASE WHEN p_status = 'rejected' THEN false ELSE is_locked END
+  WHERE id = p_request_id
+    AND is_played = false
+  RETURNING * INTO v_request;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found or already played';
+  END IF;
+
+  RETURN v_request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION lock_request(request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_band_id UUID;
+  v_status TEXT;
+BEGIN
+  SELECT band_id, status INTO v_band_id, v_status FROM requests WHERE id = request_id;
+
+  IF NOT has_band_role(v_band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to lock requests';
+  END IF;
+
+  IF v_status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved requests can be locked';
+  END IF;
+
+  -- First unlock the band's other requests
+  UPDATE requests
+  SET is_locked = false
+  WHERE is_locked = true
+    AND band_id = v_band_id;
+
+  -- Then lock the specified request
+  UPDATE requests
+  SET is_locked = true
+  WHERE id = request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_vote(p_request_id UUID, p_user_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  vote_exists BOOLEAN;
+  v_request requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM requests
+  WHERE id = p_request_id;
+
+  -- Only approved requests that are still open can be voted on
+  IF NOT FOUND OR v_request.is_played OR v_request.status <> 'approved' THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Check if vote already exists (fast lookup with index)
+  SELECT EXISTS(
+    SELECT 1 FROM user_votes
+    WHERE request_id = p_request_id AND user_id = p_user_id
+  ) INTO vote_exists;
+
+  IF vote_exists THEN
+    RETURN FALSE; -- Already voted
+  END IF;
+
+  -- Insert vote and increment counter atomically
+  BEGIN
+    INSERT INTO user_votes (request_id, user_id, created_at)
+    VALUES (p_request_id, p_user_id, NOW());
+
+    UPDATE requests
+    SET votes = COALESCE(votes, 0) + 1
+    WHERE id = p_request_id;
+
+    RETURN TRUE; -- Success
+  EXCEPTION WHEN OTHERS THEN
+    RETURN FALSE;
+  END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_request(
+  p_band_id UUID,
+  p_title TEXT,
+  p_artist TEXT,
+  p_requester_name TEXT,
+  p_requester_photo TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song songs%ROWTYPE;
+  v_request requests%ROWTYPE;
+  v_event_id UUID := active_event_id(p_band_id);
+  v_name TEXT := left(trim(COALESCE(p_requester_name, '')), 50);
+  v_title_key TEXT := normalize_song_text(p_title);
+  v_artist_key TEXT := normalize_song_text(p_artist);
+BEGIN
+  IF v_title_key = '' THEN
+    RAISE EXCEPTION 'Song title is required';
+  END IF;
+
+  IF v_name = '' THEN
+    RAISE EXCEPTION 'Requester name is required';
+  END IF;
+
+  IF COALESCE(length(p_requester_photo), 0) = 0 THEN
+    RAISE EXCEPTION 'Requester photo is required';
+  END IF;
+
+  -- The song must be in this band's library; an empty artist matches any artist
+  SELECT * INTO v_song
+  FROM songs
+  WHERE band_id = p_band_id
+    AND normalize_song_text(title) = v_title_key
+    AND (v_artist_key = '' OR normalize_song_text(artist) = v_artist_key)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This song is not in the library';
+  END IF;
+
+  -- Serialize submissions for the same song so two people can't both create it
+  PERFORM pg_advisory_xact_lock(
+    hashtext(p_band_id::text || '|' || normalize_song_text(v_song.title) || '|' || normalize_song_text(v_song.artist))
+  );
+
+  SELECT * INTO v_request
+  FROM requests
+  WHERE band_id = p_band_id
+    AND is_played = false
+    AND status <> 'rejected'
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND normalize_song_text(title) = normalize_song_text(v_song.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_song.artist)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO requests (band_id, title, artist, votes, is_locked, is_played, event_id, status)
+    VALUES (
+      p_band_id, v_song.title, v_song.artist, 0, false, false, v_event_id,
+      CASE WHEN moderation_enabled(p_band_id) THEN 'pending' ELSE 'approved' END
+    )
+    RETURNING * INTO v_request;
+  ELSIF EXISTS (
+    SELECT 1 FROM requesters
+    WHERE request_id = v_request.id
+      AND lower(name) = lower(v_name)
+  ) THEN
+    RAISE EXCEPTION 'You have already requested this song';
+  END IF;
+
+  INSERT INTO requesters (request_id, name, photo, message)
+  VALUES (
+    v_request.id,
+    v_name,
+    p_requester_photo,
+    left(COALESCE(p_message, ''), 100)
+  );
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'id', v_request.id,
+      'band_id', v_request.band_id,
+      'title', v_request.title,
+      'artist', v_request.artist,
+      'votes', v_request.votes,
+      'status', v_request.status,
+      'rejection_reason', v_request.rejection_reason,
+      'is_locked', v_request.is_locked,
+      'is_played', v_request.is_played,
+      'event_id', v_request.event_id,
+      'created_at', v_request.created_at,
+      'requesters', COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'name', r.name,
+          'photo', r.photo,
+          'message', r.message,
+          'created_at', r.created_at
+        ) ORDER BY r.created_at
+      ), '[]'::jsonb)
+    )
+    FROM requesters r
+    WHERE r.request_id = v_request.id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION moderation_enabled(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION moderate_request(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION lock_request(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION add_vote(UUID, TEXT) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION submit_request(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated, anon;
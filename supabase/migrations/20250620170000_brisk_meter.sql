@@ -0,0 +1,252 @@
+/*
+  # Request rules
+
+  1. New Tables
+    - `request_rules` (one row per band, every limit optional)
+      - `max_active_per_user` open requests one person can have in the current event
+      - `min_request_gap_minutes` minimum time between one person's requests
+      - `song_cooldown_minutes` time before a played song can be requested again
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - `requests.played_at`, set automatically when a request is marked as played
+    - `submit_request` enforces the band's rules. Violations are raised with a
+      JSON DETAIL of `{ type, retry_after?, limit? }`, `retry_after` in seconds
+
+  3. Security
+    - Everyone can read the rules, owners of the band can change them
+*/
+
+CREATE TABLE IF NOT EXISTS request_rules (
+  band_id uuid PRIMARY KEY REFERENCES bands(id) ON DELETE CASCADE,
+  max_active_per_user integer CHECK (max_active_per_user > 0),
+  min_request_gap_minutes integer CHECK (min_request_gap_minutes > 0),
+  song_cooldown_minutes integer CHECK (song_cooldown_minutes > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS played_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_requests_band_played_at
+  ON requests (band_id, played_at DESC)
+  WHERE is_played = true;
+
+CREATE OR REPLACE FUNCTION set_request_played_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_played AND NOT COALESCE(OLD.is_played, false) THEN
+    NEW.played_at := now();
+  ELSIF NOT NEW.is_played THEN
+    NEW.played_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_request_played_at ON requests;
+CREATE TRIGGER set_request_played_at
+  BEFORE UPDATE OF is_played ON requests
+  FOR EACH ROW
+  EXECUTE FUNCTION set_request_played_at();
+
+CREATE OR REPLACE FUNCTION submit_request(
+  p_band_id UUID,
+  p_title TEXT,
+  p_artist TEXT,
+  p_requester_name TEXT,
+  p_requester_photo TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song songs%ROWTYPE;
+  v_request requests%ROWTYPE;
+  v_event_id UUID := active_event_id(p_band_id);
+  v_name TEXT := left(trim(COALESCE(p_requester_name, '')), 50);
+  v_title_key TEXT := normalize_song_text(p_title);
+  v_artist_key TEXT := normalize_song_text(p_artist);
+  v_rules request_rules%ROWTYPE;
+  v_active_count INTEGER;
+  v_last_request_at TIMESTAMPTZ;
+  v_last_played_at TIMESTAMPTZ;
+  v_wait INTEGER;
+BEGIN
+  IF v_title_key = '' THEN
+    RAISE EXCEPTION 'Song title is required';
+  END IF;
+
+  IF v_name = '' THEN
+    RAISE EXCEPTION 'Requester name is required';
+  END IF;
+
+  IF COALESCE(length(p_requester_photo), 0) = 0 THEN
+    RAISE EXCEPTION 'Requester photo is required';
+  END IF;
+
+  -- The song must be in this band's library; an empty artist matches any artist
+  SELECT * INTO v_song
+  FROM songs
+  WHERE band_id = p_band_id
+    AND normalize_song_text(title) = v_title_key
+    AND (v_artist_key = '' OR normalize_song_text(artist) = v_artist_key)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This song is not in the library';
+  END IF;
+
+  -- Band rules, checked under a per-requester lock so parallel submissions
+  -- from the same person can't slip past the quota together
+  SELECT * INTO v_rules FROM request_rules WHERE band_id = p_band_id;
+
+  IF FOUND THEN
+    PERFORM pg_advisory_xact_lock(hashtext(p_band_id::text || '|requester|' || lower(v_name)));
+
+    IF v_rules.song_cooldown_minutes IS NOT NULL THEN
+      SELECT max(played_at) INTO v_last_played_at
+      FROM requests
+      WHERE band_id = p_band_id
+        AND is_played = true
+        AND normalize_song_text(title) = normalize_song_text(v_song.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_song.artist);
+
+      v_wait := ceil(
+        v_rules.song_cooldown_minutes * 60 - extract(epoch FROM now() - v_last_played_at)
+      );
+
+      IF v_wait > 0 THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'This song was just played',
+          DETAIL = jsonb_build_object('type', 'SONG_COOLDOWN', 'retry_after', v_wait)::text;
+      END IF;
+    END IF;
+
+    IF v_rules.min_request_gap_minutes IS NOT NULL THEN
+      SELECT max(rq.created_at) INTO v_last_request_at
+      FROM requesters rq
+      JOIN requests r ON r.id = rq.request_id
+      WHERE r.band_id = p_band_id
+        AND lower(rq.name) = lower(v_name);
+
+      v_wait := ceil(
+        v_rules.min_request_gap_minutes * 60 - extract(epoch FROM now() - v_last_request_at)
+      );
+
+      IF v_wait > 0 THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'You are requesting too quickly',
+          DETAIL = jsonb_build_object('type', 'REQUEST_TOO_SOON', 'retry_after', v_wait)::text;
+      END IF;
+    END IF;
+
+    IF v_rules.max_active_per_user IS NOT NULL THEN
+      SELECT count(DISTINCT r.id) INTO v_active_count
+      FROM requesters rq
+      JOIN requests r ON r.id = rq.request_id
+      WHERE r.band_id = p_band_id
+        AND r.event_id IS NOT DISTINCT FROM v_event_id
+        AND r.is_played = false
+        AND r.status <> 'rejected'
+        AND lower(rq.name) = lower(v_name);
+
+      IF v_active_count >= v_rules.max_active_per_user THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'You have reached the maximum number of active requests',
+          DETAIL = jsonb_build_object(
+            'type', 'USER_QUOTA_EXCEEDED',
+            'limit', v_rules.max_active_per_user
+          )::text;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Serialize submissions for the same song so two people can't both create it
+  PERFORM pg_advisory_xact_lock(
+    hashtext(p_band_id::text || '|' || normalize_song_text(v_song.title) || '|' || normalize_song_text(v_song.artist))
+  );
+
+  SELECT * INTO v_request
+  FROM requests
+  WHERE band_id = p_band_id
+    AND is_played = false
+    AND status <> 'rejected'
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND normalize_song_text(title) = normalize_song_text(v_song.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_song.artist)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO requests (band_id, title, artist, votes, is_locked, is_played, event_id, status)
+    VALUES (
+      p_band_id, v_song.title, v_song.artist, 0, false, false, v_event_id,
+      CASE WHEN moderation_enabled(p_band_id) THEN 'pending' ELSE 'approved' END
+    )
+    RETURNING * INTO v_request;
+  ELSIF EXISTS (
+    SELECT 1 FROM requesters
+    WHERE request_id = v_request.id
+      AND lower(name) = lower(v_name)
+  ) THEN
+    RAISE EXCEPTION 'You have already requested this song';
+  END IF;
+
+  INSERT INTO requesters (request_id, name, photo, message)
+  VALUES (
+    v_request.id,
+    v_name,
+    p_requester_photo,
+    left(COALESCE(p_message, ''), 100)
+  );
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'id', v_request.id,
+      'band_id', v_request.band_id,
+      'title', v_request.title,
+      'artist', v_request.artist,
+      'votes', v_request.votes,
+      'status', v_request.status,
+      'rejection_reason', v_request.rejection_reason,
+      'is_locked', v_request.is_locked,
+      'is_played', v_request.is_played,
+      'event_id', v_request.event_id,
+      'created_at', v_request.created_at,
+      'requesters', COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'name', r.name,
+          'photo', r.photo,
+          'message', r.message,
+          'created_at', r.created_at
+        ) ORDER BY r.created_at
+      ), '[]'::jsonb)
+    )
+    FROM requesters r
+    WHERE r.request_id = v_request.id
+  );
+END;
+$$;
+
+ALTER TABLE request_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Request rules are viewable by everyone"
+  ON request_rules FOR SELECT TO public USING (true);
+
+CREATE POLICY "Owners can insert request rules"
+  ON request_rules FOR INSERT TO authenticated
+  WITH CHECK (has_band_role(band_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can update request rules"
+  ON request_rules FOR UPDATE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner']))
+  WITH CHECK (has_band_role(band_id, ARRAY['owner']));
+
+GRANT EXECUTE ON FUNCTION submit_request(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated, anon;
@@ -0,0 +1,325 @@
+/*
+  # Audience identity
+
+  Audience members get an anonymous Supabase Auth session, so each phone has
+  a durable user id instead of a name kept in localStorage. Anonymous sign-ins
+  must be enabled for the project.
+
+  1. New Tables
+    - `audience_profiles` (one row per auth user)
+      - `id` (uuid, the auth user id)
+      - `name`, `photo`
+      - `created_at`, `updated_at`
+
+  2. Changes
+    - `requesters.user_id` links a requester row to the person who made it
+    - `add_vote(request_id)` votes as the signed in user. The old version took
+      a free-text user id and is dropped. `user_votes.user_id` now holds the
+      auth user id; older rows keep the names they were cast with
+    - `add_kiosk_vote(request_id)` counts a vote from the shared kiosk screen.
+      Every tap is a new vote, so it needs a signed in band account
+    - `submit_request` records the requester's user id, and matches duplicate
+      requests and request rules on it instead of the name when it is known
+
+  3. Security
+    - People can read and write only their own profile
+*/
+
+CREATE TABLE IF NOT EXISTS audience_profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  photo text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE requesters
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_requesters_user_id ON requesters (user_id);
+
+DROP FUNCTION IF EXISTS add_vote(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION add_vote(p_request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_request requests%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to vote';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM requests
+  WHERE id = p_request_id;
+
+  -- Only approved requests that are still open can be voted on
+  IF NOT FOUND OR v_request.is_played OR v_request.status <> 'approved' THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO user_votes (request_id, user_id, created_at)
+  VALUES (p_request_id, v_user_id::text, NOW())
+  ON CONFLICT (request_id, user_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN FALSE; -- Already voted
+  END IF;
+
+  UPDATE requests
+  SET votes = COALESCE(votes, 0) + 1
+  WHERE id = p_request_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_kiosk_vote(p_request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM requests
+  WHERE id = p_request_id;
+
+  IF NOT FOUND OR v_request.is_played OR v_request.status <> 'approved' THEN
+    RETURN FALSE;
+  END IF;
+
+  IF NOT has_band_role(v_request.band_id, ARRAY['owner', 'band_member', 'venue_staff', 'kiosk_operator']) THEN
+    RAISE EXCEPTION 'Kiosk voting needs a signed in kiosk account';
+  END IF;
+
+  INSERT INTO user_votes (request_id, user_id, created_at)
+  VALUES (p_request_id, 'kiosk:' || gen_random_uuid()::text, NOW());
+
+  UPDATE requests
+  SET votes = COALESCE(votes, 0) + 1
+  WHERE id = p_request_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_request(
+  p_band_id UUID,
+  p_title TEXT,
+  p_artist TEXT,
+  p_requester_name TEXT,
+  p_requester_photo TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song songs%ROWTYPE;
+  v_request requests%ROWTYPE;
+  v_event_id UUID := active_event_id(p_band_id);
+  v_name TEXT := left(trim(COALESCE(p_requester_name, '')), 50);
+  v_title_key TEXT := normalize_song_text(p_title);
+  v_artist_key TEXT := normalize_song_text(p_artist);
+  v_user_id UUID;
+  v_rules request_rules%ROWTYPE;
+  v_active_count INTEGER;
+  v_last_request_at TIMESTAMPTZ;
+  v_last_played_at TIMESTAMPTZ;
+  v_wait INTEGER;
+BEGIN
+  IF v_title_key = '' THEN
+    RAISE EXCEPTION 'Song title is required';
+  END IF;
+
+  IF v_name = '' THEN
+    RAISE EXCEPTION 'Requester name is required';
+  END IF;
+
+  IF COALESCE(length(p_requester_photo), 0) = 0 THEN
+    RAISE EXCEPTION 'Requester photo is required';
+  END IF;
+
+  -- Audience members are known by their session; the kiosk and anyone
+  -- without a profile are still matched by name
+  SELECT id INTO v_user_id FROM audience_profiles WHERE id = auth.uid();
+
+  -- The song must be in this band's library; an empty artist matches any artist
+  SELECT * INTO v_song
+  FROM songs
+  WHERE band_id = p_band_id
+    AND normalize_song_text(title) = v_title_key
+    AND (v_artist_key = '' OR normalize_song_text(artist) = v_artist_key)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This song is not in the library';
+  END IF;
+
+  -- Band rules, checked under a per-requester lock so parallel submissions
+  -- from the same person can't slip past the quota together
+  SELECT * INTO v_rules FROM request_rules WHERE band_id = p_band_id;
+
+  IF FOUND THEN
+    PERFORM pg_advisory_xact_lock(
+      hashtext(p_band_id::text || '|requester|' || COALESCE(v_user_id::text, lower(v_name)))
+    );
+
+    IF v_rules.song_cooldown_minutes IS NOT NULL THEN
+      SELECT max(played_at) INTO v_last_played_at
+      FROM requests
+      WHERE band_id = p_band_id
+        AND is_played = true
+        AND normalize_song_text(title) = normalize_song_text(v_song.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_song.artist);
+
+      v_wait := ceil(
+        v_rules.song_cooldown_minutes * 60 - extract(epoch FROM now() - v_last_played_at)
+      );
+
+      IF v_wait > 0 THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'This song was just played',
+          DETAIL = jsonb_build_object('type', 'SONG_COOLDOWN', 'retry_after', v_wait)::text;
+      END IF;
+    END IF;
+
+    IF v_rules.min_request_gap_minutes IS NOT NULL THEN
+      SELECT max(rq.created_at) INTO v_last_request_at
+      FROM requesters rq
+      JOIN requests r ON r.id = rq.request_id
+      WHERE r.band_id = p_band_id
+        AND (rq.user_id = v_user_id OR (v_user_id IS NULL AND lower(rq.name) = lower(v_name)));
+
+      v_wait := ceil(
+        v_rules.min_request_gap_minutes * 60 - extract(epoch FROM now() - v_last_request_at)
+      );
+
+      IF v_wait > 0 THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'You are requesting too quickly',
+          DETAIL = jsonb_build_object('type', 'REQUEST_TOO_SOON', 'retry_after', v_wait)::text;
+      END IF;
+    END IF;
+
+    IF v_rules.max_active_per_user IS NOT NULL THEN
+      SELECT count(DISTINCT r.id) INTO v_active_count
+      FROM requesters rq
+      JOIN requests r ON r.id = rq.request_id
+      WHERE r.band_id = p_band_id
+        AND r.event_id IS NOT DISTINCT FROM v_event_id
+        AND r.is_played = false
+        AND r.status <> 'rejected'
+        AND (rq.user_id = v_user_id OR (v_user_id IS NULL AND lower(rq.name) = lower(v_name)));
+
+      IF v_active_count >= v_rules.max_active_per_user THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'You have reached the maximum number of active requests',
+          DETAIL = jsonb_build_object(
+            'type', 'USER_QUOTA_EXCEEDED',
+            'limit', v_rules.max_active_per_user
+          )::text;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Serialize submissions for the same song so two people can't both create it
+  PERFORM pg_advisory_xact_lock(
+    hashtext(p_band_id::text || '|' || normalize_song_text(v_song.title) || '|' || normalize_song_text(v_song.artist))
+  );
+
+  SELECT * INTO v_request
+  FROM requests
+  WHERE band_id = p_band_id
+    AND is_played = false
+    AND status <> 'rejected'
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND normalize_song_text(title) = normalize_song_text(v_song.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_song.artist)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO requests (band_id, title, artist, votes, is_locked, is_played, event_id, status)
+    VALUES (
+      p_band_id, v_song.title, v_song.artist, 0, false, false, v_event_id,
+      CASE WHEN moderation_enabled(p_band_id) THEN 'pending' ELSE 'approved' END
+    )
+    RETURNING * INTO v_request;
+  ELSIF EXISTS (
+    SELECT 1 FROM requesters
+    WHERE request_id = v_request.id
+      AND (user_id = v_user_id OR (v_user_id IS NULL AND lower(name) = lower(v_name)))
+  ) THEN
+    RAISE EXCEPTION 'You have already requested this song';
+  END IF;
+
+  INSERT INTO requesters (request_id, user_id, name, photo, message)
+  VALUES (
+    v_request.id,
+    v_user_id,
+    v_name,
+    p_requester_photo,
+    left(COALESCE(p_message, ''), 100)
+  );
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'id', v_request.id,
+      'band_id', v_request.band_id,
+      'title', v_request.title,
+      'artist', v_request.artist,
+      'votes', v_request.votes,
+      'status', v_request.status,
+      'rejection_reason', v_request.rejection_reason,
+      'is_locked', v_request.is_locked,
+      'is_played', v_request.is_played,
+      'event_id', v_request.event_id,
+      'created_at', v_request.created_at,
+      'requesters', COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'user_id', r.user_id,
+          'name', r.name,
+          'photo', r.photo,
+          'message', r.message,
+          'created_at', r.created_at
+        ) ORDER BY r.created_at
+      ), '[]'::jsonb)
+    )
+    FROM requesters r
+    WHERE r.request_id = v_request.id
+  );
+END;
+$$;
+
+ALTER TABLE audience_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "People can view their own profile"
+  ON audience_profiles FOR SELECT TO authenticated
+  USING (id = auth.uid());
+
+CREATE POLICY "People can create their own profile"
+  ON audience_profiles FOR INSERT TO authenticated
+  WITH CHECK (id = auth.uid());
+
+CREATE POLICY "People can update their own profile"
+  ON audience_profiles FOR UPDATE TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+GRANT EXECUTE ON FUNCTION add_vote(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_kiosk_vote(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_request(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated, anon;
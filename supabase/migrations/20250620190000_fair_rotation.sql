@@ -0,0 +1,15 @@
+/*
+  # Queue ranking settings
+
+  1. Changes
+    - `ui_settings.queue_ranking_strategy` picks how the queue is ordered:
+      `votes_first`, `first_come`, `age_boosted` or `weighted`
+    - `ui_settings.queue_ranking_weights` holds the tunable weights
+      (`votes`, `requesters`, `messages`, `age`, `ageMinutes`); anything
+      missing falls back to the app's defaults
+*/
+
+ALTER TABLE ui_settings
+  ADD COLUMN IF NOT EXISTS queue_ranking_strategy text NOT NULL DEFAULT 'votes_first'
+    CHECK (queue_ranking_strategy IN ('votes_first', 'first_come', 'age_boosted', 'weighted')),
+  ADD COLUMN IF NOT EXISTS queue_ranking_weights jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,140 @@
+/*
+  # Pinned queue positions
+
+  1. Changes
+    - `requests.pinned_position` fixes an open request at a slot in the queue
+      (1 is the first song after the locked one). Unpinned requests fill the
+      remaining slots in the band's automatic order
+
+  2. Functions
+    - `pin_request(request_id, position)` moves a request to a slot. Other
+      pinned requests in the same queue shift to make room, like a list reorder
+    - `unpin_request(request_id)` returns a request to the automatic order
+    - When a request is played its pin is cleared and every other pin in its
+      queue moves up one slot, so "third" becomes "second"
+*/
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS pinned_position integer CHECK (pinned_position > 0);
+
+CREATE INDEX IF NOT EXISTS idx_requests_band_pinned
+  ON requests (band_id, pinned_position)
+  WHERE pinned_position IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION pin_request(p_request_id UUID, p_position INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request requests%ROWTYPE;
+BEGIN
+  IF p_position IS NULL OR p_position < 1 THEN
+    RAISE EXCEPTION 'Position must be 1 or more';
+  END IF;
+
+  SELECT * INTO v_request FROM requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND OR v_request.is_played THEN
+    RAISE EXCEPTION 'Request not found or already played';
+  END IF;
+
+  IF NOT has_band_role(v_request.band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to reorder the queue';
+  END IF;
+
+  -- Serialize reorders of the same queue
+  PERFORM pg_advisory_xact_lock(hashtext(v_request.band_id::text || '|pins'));
+
+  IF v_request.pinned_position IS NULL THEN
+    -- Inserting: everything at or after the slot moves down
+    UPDATE requests
+    SET pinned_position = pinned_position + 1
+    WHERE band_id = v_request.band_id
+      AND event_id IS NOT DISTINCT FROM v_request.event_id
+      AND is_played = false
+      AND id <> p_request_id
+      AND pinned_position >= p_position;
+  ELSIF p_position < v_request.pinned_position THEN
+    -- Moving up: the ones it passes move down
+    UPDATE requests
+    SET pinned_position = pinned_position + 1
+    WHERE band_id = v_request.band_id
+      AND event_id IS NOT DISTINCT FROM v_request.event_id
+      AND is_played = false
+      AND id <> p_request_id
+      AND pinned_position >= p_position
+      AND pinned_position < v_request.pinned_position;
+  ELSIF p_position > v_request.pinned_position THEN
+    -- Moving down: the ones it passes move up
+    UPDATE requests
+    SET pinned_position = pinned_position - 1
+    WHERE band_id = v_request.band_id
+      AND event_id IS NOT DISTINCT FROM v_request.event_id
+      AND is_played = false
+      AND id <> p_request_id
+      AND pinned_position > v_request.pinned_position
+      AND pinned_position <= p_position;
+  END IF;
+
+  UPDATE requests
+  SET pinned_position = p_position
+  WHERE id = p_request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unpin_request(p_request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_band_role(
+    (SELECT band_id FROM requests WHERE id = p_request_id),
+    ARRAY['owner', 'band_member']
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to reorder the queue';
+  END IF;
+
+  UPDATE requests
+  SET pinned_position = NULL
+  WHERE id = p_request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shift_pinned_positions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_played AND NOT COALESCE(OLD.is_played, false) THEN
+    UPDATE requests
+    SET pinned_position = NULL
+    WHERE id = NEW.id
+      AND pinned_position IS NOT NULL;
+
+    UPDATE requests
+    SET pinned_position = GREATEST(pinned_position - 1, 1)
+    WHERE band_id = NEW.band_id
+      AND event_id IS NOT DISTINCT FROM NEW.event_id
+      AND is_played = false
+      AND id <> NEW.id
+      AND pinned_position IS NOT NULL;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS shift_pinned_positions ON requests;
+CREATE TRIGGER shift_pinned_positions
+  AFTER UPDATE OF is_played ON requests
+  FOR EACH ROW
+  EXECUTE FUNCTION shift_pinned_positions();
+
+GRANT EXECUTE ON FUNCTION pin_request(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION unpin_request(UUID) TO authenticated;
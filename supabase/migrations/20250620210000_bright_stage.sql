@@ -0,0 +1,222 @@
+/*
+  # Performance stages
+
+  1. Changes
+    - `requests.stage` tracks where a request is in the show:
+      `queued` → `on_deck` → `up_next` → `now_playing` → `played`
+    - `requests.started_at` is when the song started; `played_at` (added with
+      the request rules) is when it finished
+    - `is_locked` now mirrors `stage = 'up_next'` and `is_played` mirrors
+      `stage = 'played'`, so older clients keep working. Marking a request
+      played directly still moves it to `played`
+
+  2. Functions
+    - `advance_queue(band_id, queue)` is the "next song" action. The song now
+      playing is marked played, the lanes move up one, and empty lanes are
+      filled from `queue`, the client's ranked list of queued request ids
+    - `lock_request` puts a request in the up next lane (the previous one goes
+      back to the queue) and `unlock_request` sends it back to the queue
+    - Pinned positions now count from the first queued song, and shift up
+      whenever a queued request leaves the queue, not only when it is played
+*/
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS stage text NOT NULL DEFAULT 'queued'
+    CHECK (stage IN ('queued', 'on_deck', 'up_next', 'now_playing', 'played')),
+  ADD COLUMN IF NOT EXISTS started_at timestamptz;
+
+UPDATE requests
+SET stage = CASE
+  WHEN is_played THEN 'played'
+  WHEN is_locked THEN 'up_next'
+  ELSE 'queued'
+END;
+
+CREATE INDEX IF NOT EXISTS idx_requests_band_stage
+  ON requests (band_id, stage)
+  WHERE stage IN ('on_deck', 'up_next', 'now_playing');
+
+CREATE OR REPLACE FUNCTION sync_request_stage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_played AND NOT COALESCE(OLD.is_played, false) THEN
+    NEW.stage := 'played';
+  ELSIF NOT NEW.is_played AND COALESCE(OLD.is_played, false) THEN
+    NEW.stage := 'queued';
+  END IF;
+
+  IF NEW.stage = 'played' THEN
+    NEW.is_played := true;
+    IF OLD.stage <> 'played' THEN
+      NEW.played_at := COALESCE(NEW.played_at, now());
+    END IF;
+  END IF;
+
+  IF NEW.stage = 'now_playing' AND OLD.stage <> 'now_playing' THEN
+    NEW.started_at := now();
+  END IF;
+
+  NEW.is_locked := NEW.stage = 'up_next';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_request_stage ON requests;
+CREATE TRIGGER sync_request_stage
+  BEFORE UPDATE ON requests
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_request_stage();
+
+-- Pins shift when a request leaves the queue, whether it was played
+-- directly or moved into one of the stage lanes
+CREATE OR REPLACE FUNCTION shift_pinned_positions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE requests
+  SET pinned_position = NULL
+  WHERE id = NEW.id
+    AND pinned_position IS NOT NULL;
+
+  UPDATE requests
+  SET pinned_position = GREATEST(pinned_position - 1, 1)
+  WHERE band_id = NEW.band_id
+    AND event_id IS NOT DISTINCT FROM NEW.event_id
+    AND stage = 'queued'
+    AND id <> NEW.id
+    AND pinned_position IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS shift_pinned_positions ON requests;
+CREATE TRIGGER shift_pinned_positions
+  AFTER UPDATE ON requests
+  FOR EACH ROW
+  WHEN (OLD.stage = 'queued' AND NEW.stage <> 'queued')
+  EXECUTE FUNCTION shift_pinned_positions();
+
+CREATE OR REPLACE FUNCTION advance_queue(p_band_id UUID, p_queue UUID[] DEFAULT '{}')
+RETURNS requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id UUID := active_event_id(p_band_id);
+  v_lineup UUID[];
+  v_now_playing requests%ROWTYPE;
+BEGIN
+  IF NOT has_band_role(p_band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to advance the queue';
+  END IF;
+
+  -- One advance at a time per band
+  PERFORM pg_advisory_xact_lock(hashtext(p_band_id::text || '|stage'));
+
+  -- Finish the current song
+  UPDATE requests
+  SET stage = 'played',
+      is_played = true
+  WHERE band_id = p_band_id
+    AND stage = 'now_playing';
+
+  -- Up next, then on deck, then the queue in the client's ranked order
+  SELECT COALESCE(array_agg(id ORDER BY CASE stage WHEN 'up_next' THEN 1 ELSE 2 END, created_at), '{}')
+  INTO v_lineup
+  FROM requests
+  WHERE band_id = p_band_id
+    AND stage IN ('up_next', 'on_deck');
+
+  v_lineup := v_lineup || ARRAY(
+    SELECT r.id
+    FROM unnest(COALESCE(p_queue, '{}')) WITH ORDINALITY AS q(id, ord)
+    JOIN requests r ON r.id = q.id
+    WHERE r.band_id = p_band_id
+      AND r.stage = 'queued'
+      AND r.status = 'approved'
+      AND r.event_id IS NOT DISTINCT FROM v_event_id
+    ORDER BY q.ord
+    LIMIT 3
+  );
+
+  IF array_length(v_lineup, 1) >= 1 THEN
+    UPDATE requests SET stage = 'now_playing' WHERE id = v_lineup[1]
+    RETURNING * INTO v_now_playing;
+  END IF;
+
+  IF array_length(v_lineup, 1) >= 2 THEN
+    UPDATE requests SET stage = 'up_next' WHERE id = v_lineup[2];
+  END IF;
+
+  IF array_length(v_lineup, 1) >= 3 THEN
+    UPDATE requests SET stage = 'on_deck' WHERE id = v_lineup[3];
+  END IF;
+
+  RETURN v_now_playing;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION lock_request(request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_band_id UUID;
+  v_status TEXT;
+BEGIN
+  SELECT band_id, status INTO v_band_id, v_status FROM requests WHERE id = request_id;
+
+  IF NOT has_band_role(v_band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to lock requests';
+  END IF;
+
+  IF v_status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved requests can be locked';
+  END IF;
+
+  -- Whatever was up next goes back to the queue
+  UPDATE requests
+  SET stage = 'queued'
+  WHERE band_id = v_band_id
+    AND stage = 'up_next'
+    AND id <> lock_request.request_id;
+
+  UPDATE requests
+  SET stage = 'up_next'
+  WHERE id = lock_request.request_id
+    AND stage IN ('queued', 'on_deck');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unlock_request(request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_band_role(
+    (SELECT band_id FROM requests WHERE id = request_id),
+    ARRAY['owner', 'band_member']
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to unlock requests';
+  END IF;
+
+  UPDATE requests
+  SET stage = 'queued'
+  WHERE id = unlock_request.request_id
+    AND stage = 'up_next';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION advance_queue(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION lock_request(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION unlock_request(UUID) TO authenticated, anon;
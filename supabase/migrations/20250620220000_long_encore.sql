@@ -0,0 +1,182 @@
+/*
+  # Performance log
+
+  1. New Tables
+    - `performance_log` (one row per song the band played)
+      - `request_id`, `song_id`, `event_id`, `set_list_id` (kept as NULL once
+        the request, song, event or set list is deleted)
+      - `title`, `artist` copied from the request so the log survives a queue reset
+      - `requested_at`, `started_at`, `played_at` (timestamptz)
+      - `wait_seconds` time from the first request until the song started
+      - `votes` and `requesters` (`[{ name, message, user_id }]`) when it was played
+
+  2. Changes
+    - `songs.last_played_at`, kept up to date from the log
+    - Requests are logged automatically when they reach the `played` stage,
+      whether through "next song" or by being marked as played
+    - Requests played before this migration are logged once
+
+  3. Security
+    - Owners and band members can read their band's log; only the trigger writes it
+*/
+
+CREATE TABLE IF NOT EXISTS performance_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  band_id uuid NOT NULL REFERENCES bands(id) ON DELETE CASCADE,
+  request_id uuid UNIQUE REFERENCES requests(id) ON DELETE SET NULL,
+  song_id uuid REFERENCES songs(id) ON DELETE SET NULL,
+  event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+  set_list_id uuid REFERENCES set_lists(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  artist text,
+  requested_at timestamptz,
+  started_at timestamptz,
+  played_at timestamptz NOT NULL DEFAULT now(),
+  wait_seconds integer,
+  votes integer NOT NULL DEFAULT 0,
+  requesters jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_performance_log_band_played_at
+  ON performance_log (band_id, played_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_performance_log_song
+  ON performance_log (song_id);
+
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS last_played_at timestamptz;
+
+CREATE OR REPLACE FUNCTION log_performance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song_id UUID;
+  v_set_list_id UUID;
+  v_played_at TIMESTAMPTZ := COALESCE(NEW.played_at, now());
+BEGIN
+  SELECT id INTO v_song_id
+  FROM songs
+  WHERE band_id = NEW.band_id
+    AND normalize_song_text(title) = normalize_song_text(NEW.title)
+    AND (
+      normalize_song_text(NEW.artist) = ''
+      OR normalize_song_text(artist) = normalize_song_text(NEW.artist)
+    )
+  ORDER BY created_at
+  LIMIT 1;
+
+  -- The event's set list, or the band's active one outside of events
+  IF NEW.event_id IS NOT NULL THEN
+    SELECT set_list_id INTO v_set_list_id FROM events WHERE id = NEW.event_id;
+  ELSE
+    SELECT id INTO v_set_list_id
+    FROM set_lists
+    WHERE band_id = NEW.band_id
+      AND is_active = true
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO performance_log (
+    band_id, request_id, song_id, event_id, set_list_id, title, artist,
+    requested_at, started_at, played_at, wait_seconds, votes, requesters
+  )
+  VALUES (
+    NEW.band_id,
+    NEW.id,
+    v_song_id,
+    NEW.event_id,
+    v_set_list_id,
+    NEW.title,
+    NEW.artist,
+    NEW.created_at,
+    NEW.started_at,
+    v_played_at,
+    GREATEST(extract(epoch FROM COALESCE(NEW.started_at, v_played_at) - NEW.created_at), 0)::integer,
+    COALESCE(NEW.votes, 0),
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('name', rq.name, 'message', rq.message, 'user_id', rq.user_id)
+        ORDER BY rq.created_at
+      )
+      FROM requesters rq
+      WHERE rq.request_id = NEW.id
+    ), '[]'::jsonb)
+  )
+  ON CONFLICT (request_id) DO UPDATE
+  SET started_at = EXCLUDED.started_at,
+      played_at = EXCLUDED.played_at,
+      wait_seconds = EXCLUDED.wait_seconds,
+      votes = EXCLUDED.votes,
+      requesters = EXCLUDED.requesters;
+
+  IF v_song_id IS NOT NULL THEN
+    UPDATE songs
+    SET last_played_at = GREATEST(COALESCE(last_played_at, v_played_at), v_played_at)
+    WHERE id = v_song_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_performance ON requests;
+CREATE TRIGGER log_performance
+  AFTER UPDATE ON requests
+  FOR EACH ROW
+  WHEN (NEW.stage = 'played' AND OLD.stage IS DISTINCT FROM 'played')
+  EXECUTE FUNCTION log_performance();
+
+-- Log what was already played, then derive last played times from the log
+INSERT INTO performance_log (
+  band_id, request_id, event_id, title, artist,
+  requested_at, started_at, played_at, wait_seconds, votes, requesters
+)
+SELECT
+  r.band_id,
+  r.id,
+  r.event_id,
+  r.title,
+  r.artist,
+  r.created_at,
+  r.started_at,
+  COALESCE(r.played_at, r.created_at),
+  GREATEST(extract(epoch FROM COALESCE(r.started_at, r.played_at, r.created_at) - r.created_at), 0)::integer,
+  COALESCE(r.votes, 0),
+  COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object('name', rq.name, 'message', rq.message, 'user_id', rq.user_id)
+      ORDER BY rq.created_at
+    )
+    FROM requesters rq
+    WHERE rq.request_id = r.id
+  ), '[]'::jsonb)
+FROM requests r
+WHERE r.is_played = true
+ON CONFLICT (request_id) DO NOTHING;
+
+UPDATE performance_log pl
+SET song_id = s.id
+FROM songs s
+WHERE pl.song_id IS NULL
+  AND s.band_id = pl.band_id
+  AND normalize_song_text(s.title) = normalize_song_text(pl.title)
+  AND normalize_song_text(s.artist) = normalize_song_text(pl.artist);
+
+UPDATE songs s
+SET last_played_at = latest.played_at
+FROM (
+  SELECT song_id, max(played_at) AS played_at
+  FROM performance_log
+  WHERE song_id IS NOT NULL
+  GROUP BY song_id
+) latest
+WHERE s.id = latest.song_id;
+
+ALTER TABLE performance_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Band can view its performance log"
+  ON performance_log FOR SELECT TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner', 'band_member']));
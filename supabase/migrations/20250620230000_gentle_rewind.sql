@@ -0,0 +1,465 @@
+/*
+  # Queue snapshots and soft deletes
+
+  1. New Tables
+    - `queue_snapshots` (one row per queue reset)
+      - `band_id`, `event_id` the queue that was reset
+      - `request_count` how many requests were archived
+      - `created_by`, `created_at`, `restored_at`
+
+  2. Changes
+    - `requests.archived_at` / `requests.snapshot_id` mark requests put away by
+      a reset; `requests.deleted_at` marks requests removed from the queue.
+      Nothing is deleted, so requesters and votes stay with their request
+    - Archived and removed requests can't be voted on, aren't matched by new
+      requests for the same song, and don't count toward request limits
+    - `reset_queue(band_id)` archives the open queue under a new snapshot
+    - `restore_queue_snapshot(snapshot_id)` brings a snapshot back, for up to
+      12 hours after the reset
+    - `remove_request(request_id)` / `restore_request(request_id)` soft delete
+      and undo
+
+  3. Security
+    - Owners and band members can reset and restore the queue and see its
+      snapshots; moderators can remove and restore single requests
+*/
+
+CREATE TABLE IF NOT EXISTS queue_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  band_id uuid NOT NULL REFERENCES bands(id) ON DELETE CASCADE,
+  event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+  request_count integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  restored_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_snapshots_band_created_at
+  ON queue_snapshots (band_id, created_at DESC);
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz,
+  ADD COLUMN IF NOT EXISTS snapshot_id uuid REFERENCES queue_snapshots(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_requests_snapshot
+  ON requests (snapshot_id)
+  WHERE snapshot_id IS NOT NULL;
+
+-- Snapshots can be restored the same night, not days later
+CREATE OR REPLACE FUNCTION snapshot_restore_window()
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT interval '12 hours';
+$$;
+
+CREATE OR REPLACE FUNCTION reset_queue(p_band_id UUID)
+RETURNS queue_snapshots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot queue_snapshots%ROWTYPE;
+  v_event_id UUID := active_event_id(p_band_id);
+  v_count INTEGER;
+BEGIN
+  IF NOT has_band_role(p_band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to reset the queue';
+  END IF;
+
+  INSERT INTO queue_snapshots (band_id, event_id, created_by)
+  VALUES (p_band_id, v_event_id, auth.uid())
+  RETURNING * INTO v_snapshot;
+
+  -- Everything still open, including the stage lanes and pending requests.
+  -- Lanes and pins belong to the queue being put away.
+  UPDATE requests
+  SET archived_at = now(),
+      snapshot_id = v_snapshot.id,
+      stage = 'queued',
+      pinned_position = NULL
+  WHERE band_id = p_band_id
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND is_played = false
+    AND archived_at IS NULL
+    AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE queue_snapshots
+  SET request_count = v_count
+  WHERE id = v_snapshot.id
+  RETURNING * INTO v_snapshot;
+
+  RETURN v_snapshot;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_queue_snapshot(p_snapshot_id UUID)
+RETURNS queue_snapshots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot queue_snapshots%ROWTYPE;
+BEGIN
+  SELECT * INTO v_snapshot FROM queue_snapshots WHERE id = p_snapshot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT has_band_role(v_snapshot.band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to restore this queue';
+  END IF;
+
+  IF v_snapshot.restored_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This queue was already restored';
+  END IF;
+
+  IF v_snapshot.created_at < now() - snapshot_restore_window() THEN
+    RAISE EXCEPTION 'This queue is too old to restore';
+  END IF;
+
+  UPDATE requests
+  SET archived_at = NULL,
+      snapshot_id = NULL
+  WHERE snapshot_id = p_snapshot_id
+    AND deleted_at IS NULL;
+
+  UPDATE queue_snapshots
+  SET restored_at = now()
+  WHERE id = p_snapshot_id
+  RETURNING * INTO v_snapshot;
+
+  RETURN v_snapshot;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION remove_request(p_request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_band_role(
+    (SELECT band_id FROM requests WHERE id = p_request_id),
+    ARRAY['owner', 'band_member', 'venue_staff']
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to remove requests';
+  END IF;
+
+  -- A removed song leaves whichever stage lane it was in
+  UPDATE requests
+  SET deleted_at = now(),
+      stage = CASE WHEN stage = 'played' THEN stage ELSE 'queued' END
+  WHERE id = p_request_id
+    AND deleted_at IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_request(p_request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_band_role(
+    (SELECT band_id FROM requests WHERE id = p_request_id),
+    ARRAY['owner', 'band_member', 'venue_staff']
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to restore requests';
+  END IF;
+
+  UPDATE requests
+  SET deleted_at = NULL
+  WHERE id = p_request_id;
+END;
+$$;
+
+-- Votes, new requests and request limits skip archived and removed requests
+CREATE OR REPLACE FUNCTION add_vote(p_request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_request requests%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to vote';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM requests
+  WHERE id = p_request_id;
+
+  -- Only approved requests that are still open can be voted on
+  IF NOT FOUND OR v_request.is_played OR v_request.status <> 'approved'
+    OR v_request.archived_at IS NOT NULL OR v_request.deleted_at IS NOT NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO user_votes (request_id, user_id, created_at)
+  VALUES (p_request_id, v_user_id::text, NOW())
+  ON CONFLICT (request_id, user_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN FALSE; -- Already voted
+  END IF;
+
+  UPDATE requests
+  SET votes = COALESCE(votes, 0) + 1
+  WHERE id = p_request_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_kiosk_vote(p_request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM requests
+  WHERE id = p_request_id;
+
+  IF NOT FOUND OR v_request.is_played OR v_request.status <> 'approved'
+    OR v_request.archived_at IS NOT NULL OR v_request.deleted_at IS NOT NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF NOT has_band_role(v_request.band_id, ARRAY['owner', 'band_member', 'venue_staff', 'kiosk_operator']) THEN
+    RAISE EXCEPTION 'Kiosk voting needs a signed in kiosk account';
+  END IF;
+
+  INSERT INTO user_votes (request_id, user_id, created_at)
+  VALUES (p_request_id, 'kiosk:' || gen_random_uuid()::text, NOW());
+
+  UPDATE requests
+  SET votes = COALESCE(votes, 0) + 1
+  WHERE id = p_request_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_request(
+  p_band_id UUID,
+  p_title TEXT,
+  p_artist TEXT,
+  p_requester_name TEXT,
+  p_requester_photo TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song songs%ROWTYPE;
+  v_request requests%ROWTYPE;
+  v_event_id UUID := active_event_id(p_band_id);
+  v_name TEXT := left(trim(COALESCE(p_requester_name, '')), 50);
+  v_title_key TEXT := normalize_song_text(p_title);
+  v_artist_key TEXT := normalize_song_text(p_artist);
+  v_user_id UUID;
+  v_rules request_rules%ROWTYPE;
+  v_active_count INTEGER;
+  v_last_request_at TIMESTAMPTZ;
+  v_last_played_at TIMESTAMPTZ;
+  v_wait INTEGER;
+BEGIN
+  IF v_title_key = '' THEN
+    RAISE EXCEPTION 'Song title is required';
+  END IF;
+
+  IF v_name = '' THEN
+    RAISE EXCEPTION 'Requester name is required';
+  END IF;
+
+  IF COALESCE(length(p_requester_photo), 0) = 0 THEN
+    RAISE EXCEPTION 'Requester photo is required';
+  END IF;
+
+  -- Audience members are known by their session; the kiosk and anyone
+  -- without a profile are still matched by name
+  SELECT id INTO v_user_id FROM audience_profiles WHERE id = auth.uid();
+
+  -- The song must be in this band's library; an empty artist matches any artist
+  SELECT * INTO v_song
+  FROM songs
+  WHERE band_id = p_band_id
+    AND normalize_song_text(title) = v_title_key
+    AND (v_artist_key = '' OR normalize_song_text(artist) = v_artist_key)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This song is not in the library';
+  END IF;
+
+  -- Band rules, checked under a per-requester lock so parallel submissions
+  -- from the same person can't slip past the quota together
+  SELECT * INTO v_rules FROM request_rules WHERE band_id = p_band_id;
+
+  IF FOUND THEN
+    PERFORM pg_advisory_xact_lock(
+      hashtext(p_band_id::text || '|requester|' || COALESCE(v_user_id::text, lower(v_name)))
+    );
+
+    IF v_rules.song_cooldown_minutes IS NOT NULL THEN
+      SELECT max(played_at) INTO v_last_played_at
+      FROM requests
+      WHERE band_id = p_band_id
+        AND is_played = true
+        AND normalize_song_text(title) = normalize_song_text(v_song.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_song.artist);
+
+      v_wait := ceil(
+        v_rules.song_cooldown_minutes * 60 - extract(epoch FROM now() - v_last_played_at)
+      );
+
+      IF v_wait > 0 THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'This song was just played',
+          DETAIL = jsonb_build_object('type', 'SONG_COOLDOWN', 'retry_after', v_wait)::text;
+      END IF;
+    END IF;
+
+    IF v_rules.min_request_gap_minutes IS NOT NULL THEN
+      SELECT max(rq.created_at) INTO v_last_request_at
+      FROM requesters rq
+      JOIN requests r ON r.id = rq.request_id
+      WHERE r.band_id = p_band_id
+        AND r.archived_at IS NULL
+        AND r.deleted_at IS NULL
+        AND (rq.user_id = v_user_id OR (v_user_id IS NULL AND lower(rq.name) = lower(v_name)));
+
+      v_wait := ceil(
+        v_rules.min_request_gap_minutes * 60 - extract(epoch FROM now() - v_last_request_at)
+      );
+
+      IF v_wait > 0 THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'You are requesting too quickly',
+          DETAIL = jsonb_build_object('type', 'REQUEST_TOO_SOON', 'retry_after', v_wait)::text;
+      END IF;
+    END IF;
+
+    IF v_rules.max_active_per_user IS NOT NULL THEN
+      SELECT count(DISTINCT r.id) INTO v_active_count
+      FROM requesters rq
+      JOIN requests r ON r.id = rq.request_id
+      WHERE r.band_id = p_band_id
+        AND r.event_id IS NOT DISTINCT FROM v_event_id
+        AND r.is_played = false
+        AND r.status <> 'rejected'
+        AND r.archived_at IS NULL
+        AND r.deleted_at IS NULL
+        AND (rq.user_id = v_user_id OR (v_user_id IS NULL AND lower(rq.name) = lower(v_name)));
+
+      IF v_active_count >= v_rules.max_active_per_user THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'You have reached the maximum number of active requests',
+          DETAIL = jsonb_build_object(
+            'type', 'USER_QUOTA_EXCEEDED',
+            'limit', v_rules.max_active_per_user
+          )::text;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Serialize submissions for the same song so two people can't both create it
+  PERFORM pg_advisory_xact_lock(
+    hashtext(p_band_id::text || '|' || normalize_song_text(v_song.title) || '|' || normalize_song_text(v_song.artist))
+  );
+
+  SELECT * INTO v_request
+  FROM requests
+  WHERE band_id = p_band_id
+    AND is_played = false
+    AND status <> 'rejected'
+    AND archived_at IS NULL
+    AND deleted_at IS NULL
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND normalize_song_text(title) = normalize_song_text(v_song.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_song.artist)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO requests (band_id, title, artist, votes, is_locked, is_played, event_id, status)
+    VALUES (
+      p_band_id, v_song.title, v_song.artist, 0, false, false, v_event_id,
+      CASE WHEN moderation_enabled(p_band_id) THEN 'pending' ELSE 'approved' END
+    )
+    RETURNING * INTO v_request;
+  ELSIF EXISTS (
+    SELECT 1 FROM requesters
+    WHERE request_id = v_request.id
+      AND (user_id = v_user_id OR (v_user_id IS NULL AND lower(name) = lower(v_name)))
+  ) THEN
+    RAISE EXCEPTION 'You have already requested this song';
+  END IF;
+
+  INSERT INTO requesters (request_id, user_id, name, photo, message)
+  VALUES (
+    v_request.id,
+    v_user_id,
+    v_name,
+    p_requester_photo,
+    left(COALESCE(p_message, ''), 100)
+  );
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'id', v_request.id,
+      'band_id', v_request.band_id,
+      'title', v_request.title,
+      'artist', v_request.artist,
+      'votes', v_request.votes,
+      'status', v_request.status,
+      'rejection_reason', v_request.rejection_reason,
+      'is_locked', v_request.is_locked,
+      'is_played', v_request.is_played,
+      'event_id', v_request.event_id,
+      'created_at', v_request.created_at,
+      'requesters', COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'user_id', r.user_id,
+          'name', r.name,
+          'photo', r.photo,
+          'message', r.message,
+          'created_at', r.created_at
+        ) ORDER BY r.created_at
+      ), '[]'::jsonb)
+    )
+    FROM requesters r
+    WHERE r.request_id = v_request.id
+  );
+END;
+$$;
+
+ALTER TABLE queue_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Band can view its queue snapshots"
+  ON queue_snapshots FOR SELECT TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner', 'band_member']));
+
+GRANT EXECUTE ON FUNCTION reset_queue(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_queue_snapshot(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_request(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_request(UUID) TO authenticated;
@@ -0,0 +1,10 @@
+/*
+  # Song durations
+
+  1. Changes
+    - `songs.duration_seconds` (integer, nullable) filled in from imported
+      playlists that carry track lengths
+*/
+
+ALTER TABLE songs
+  ADD COLUMN IF NOT EXISTS duration_seconds integer CHECK (duration_seconds IS NULL OR duration_seconds >= 0);
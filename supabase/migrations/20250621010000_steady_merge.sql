@@ -0,0 +1,179 @@
+/*
+  # Merge duplicate songs
+
+  1. New Functions
+    - `merge_songs(keep_id, merge_ids, song)` folds duplicate songs into one:
+      - the surviving song takes the chosen metadata from `song` (jsonb with
+        any of title, artist, genre, key, notes, albumArtUrl, duration_seconds)
+        and the latest `last_played_at` of the group
+      - `set_list_songs` point at the survivor; a set list that ends up with
+        it twice keeps the earliest position
+      - past requests and the performance log are renamed to the survivor, so
+        history and request matching follow it
+      - an open request for a duplicate joins the open request for the
+        survivor in the same event, bringing its requesters and votes, and is
+        soft deleted
+      - the duplicates are deleted
+
+  2. Security
+    - Owners and band members only
+*/
+
+CREATE OR REPLACE FUNCTION merge_songs(p_keep_id UUID, p_merge_ids UUID[], p_song JSONB DEFAULT '{}'::jsonb)
+RETURNS songs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_original songs%ROWTYPE;
+  v_keep songs%ROWTYPE;
+  v_merged songs%ROWTYPE;
+  v_dupe requests%ROWTYPE;
+  v_open requests%ROWTYPE;
+  v_dropped_votes INTEGER;
+BEGIN
+  SELECT * INTO v_original FROM songs WHERE id = p_keep_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Song not found';
+  END IF;
+
+  IF NOT has_band_role(v_original.band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to merge songs';
+  END IF;
+
+  p_merge_ids := array_remove(COALESCE(p_merge_ids, ARRAY[]::UUID[]), p_keep_id);
+
+  IF cardinality(p_merge_ids) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one song to merge';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM songs WHERE id = ANY(p_merge_ids) AND band_id = v_original.band_id
+  ) <> cardinality(p_merge_ids) THEN
+    RAISE EXCEPTION 'Songs can only be merged within one band';
+  END IF;
+
+  UPDATE songs
+  SET title = COALESCE(NULLIF(trim(p_song->>'title'), ''), title),
+      artist = COALESCE(NULLIF(trim(p_song->>'artist'), ''), artist),
+      genre = COALESCE(p_song->>'genre', genre),
+      key = COALESCE(p_song->>'key', key),
+      notes = COALESCE(p_song->>'notes', notes),
+      "albumArtUrl" = COALESCE(p_song->>'albumArtUrl', "albumArtUrl"),
+      duration_seconds = COALESCE((p_song->>'duration_seconds')::integer, duration_seconds),
+      last_played_at = GREATEST(
+        last_played_at,
+        (SELECT max(last_played_at) FROM songs WHERE id = ANY(p_merge_ids))
+      ),
+      updated_at = now()
+  WHERE id = p_keep_id
+  RETURNING * INTO v_keep;
+
+  -- Set lists
+  UPDATE set_list_songs
+  SET song_id = p_keep_id
+  WHERE song_id = ANY(p_merge_ids);
+
+  DELETE FROM set_list_songs sls
+  USING set_list_songs earlier
+  WHERE sls.song_id = p_keep_id
+    AND earlier.song_id = p_keep_id
+    AND earlier.set_list_id = sls.set_list_id
+    AND (earlier.position, earlier.created_at, earlier.id) < (sls.position, sls.created_at, sls.id);
+
+  -- Requests for the survivor under its old name, if the merge renamed it
+  UPDATE requests
+  SET title = v_keep.title,
+      artist = v_keep.artist
+  WHERE band_id = v_keep.band_id
+    AND normalize_song_text(title) = normalize_song_text(v_original.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_original.artist);
+
+  UPDATE performance_log
+  SET title = v_keep.title,
+      artist = v_keep.artist
+  WHERE song_id = p_keep_id;
+
+  FOR v_merged IN SELECT * FROM songs WHERE id = ANY(p_merge_ids) LOOP
+    -- Two open requests for what is now one song become one
+    FOR v_dupe IN
+      SELECT * FROM requests
+      WHERE band_id = v_keep.band_id
+        AND is_played = false
+        AND archived_at IS NULL
+        AND deleted_at IS NULL
+        AND normalize_song_text(title) = normalize_song_text(v_merged.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_merged.artist)
+    LOOP
+      SELECT * INTO v_open
+      FROM requests
+      WHERE band_id = v_keep.band_id
+        AND id <> v_dupe.id
+        AND event_id IS NOT DISTINCT FROM v_dupe.event_id
+        AND is_played = false
+        AND archived_at IS NULL
+        AND deleted_at IS NULL
+        AND normalize_song_text(title) = normalize_song_text(v_keep.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_keep.artist)
+      ORDER BY created_at
+      LIMIT 1;
+
+      CONTINUE WHEN NOT FOUND;
+
+      -- Someone who asked for both only counts once
+      DELETE FROM requesters rq
+      WHERE rq.request_id = v_dupe.id
+        AND EXISTS (
+          SELECT 1 FROM requesters existing
+          WHERE existing.request_id = v_open.id
+            AND (
+              existing.user_id = rq.user_id
+              OR (existing.user_id IS NULL AND rq.user_id IS NULL AND lower(existing.name) = lower(rq.name))
+            )
+        );
+
+      UPDATE requesters SET request_id = v_open.id WHERE request_id = v_dupe.id;
+
+      DELETE FROM user_votes uv
+      WHERE uv.request_id = v_dupe.id
+        AND EXISTS (
+          SELECT 1 FROM user_votes existing
+          WHERE existing.request_id = v_open.id AND existing.user_id = uv.user_id
+        );
+      GET DIAGNOSTICS v_dropped_votes = ROW_COUNT;
+
+      UPDATE user_votes SET request_id = v_open.id WHERE request_id = v_dupe.id;
+
+      UPDATE requests
+      SET votes = COALESCE(votes, 0) + GREATEST(COALESCE(v_dupe.votes, 0) - v_dropped_votes, 0)
+      WHERE id = v_open.id;
+
+      UPDATE requests
+      SET deleted_at = now(),
+          stage = 'queued'
+      WHERE id = v_dupe.id;
+    END LOOP;
+
+    UPDATE requests
+    SET title = v_keep.title,
+        artist = v_keep.artist
+    WHERE band_id = v_keep.band_id
+      AND normalize_song_text(title) = normalize_song_text(v_merged.title)
+      AND normalize_song_text(artist) = normalize_song_text(v_merged.artist);
+
+    UPDATE performance_log
+    SET song_id = p_keep_id,
+        title = v_keep.title,
+        artist = v_keep.artist
+    WHERE song_id = v_merged.id;
+  END LOOP;
+
+  DELETE FROM songs WHERE id = ANY(p_merge_ids);
+
+  RETURN v_keep;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_songs(UUID, UUID[], JSONB) TO authenticated;
@@ -0,0 +1,310 @@
+/*
+  # Richer song metadata and song tags
+
+  1. New Tables
+    - `tags` (a band's genres and free-form tags)
+      - `band_id`, `kind` ('genre' or 'tag'), `name`
+      - names are unique per band and kind, ignoring case
+    - `song_tags` (song_id, tag_id) links songs to their tags
+
+  2. Changes
+    - `songs.tempo_bpm`, `songs.lead_vocalist`, `songs.capo`, `songs.tuning`
+    - `songs.is_explicit` (default false) and `songs.is_requestable`
+      (default true)
+    - The comma separated `songs.genre` is moved into `tags` / `song_tags`
+      and dropped
+    - `set_song_tags(entries)` replaces the genres and tags of one or more
+      songs, creating tags as needed. It touches `songs.updated_at` so
+      realtime listeners on `songs` refresh
+    - `merge_songs` carries the merged songs' tags over to the survivor
+
+  3. Security
+    - Tags and song tags are readable by anyone, like songs; only owners and
+      band members change them, through `set_song_tags`
+*/
+
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS tempo_bpm integer CHECK (tempo_bpm IS NULL OR tempo_bpm BETWEEN 20 AND 400);
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS lead_vocalist text;
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS capo smallint CHECK (capo IS NULL OR capo BETWEEN 0 AND 12);
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS tuning text;
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS is_explicit boolean NOT NULL DEFAULT false;
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS is_requestable boolean NOT NULL DEFAULT true;
+
+CREATE TABLE IF NOT EXISTS tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  band_id uuid NOT NULL REFERENCES bands(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('genre', 'tag')),
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_band_kind_name ON tags (band_id, kind, lower(name));
+
+CREATE TABLE IF NOT EXISTS song_tags (
+  song_id uuid NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (song_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_song_tags_tag_id ON song_tags(tag_id);
+
+-- Move the genre strings into tags
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'songs' AND column_name = 'genre'
+  ) THEN
+    INSERT INTO tags (band_id, kind, name)
+    SELECT DISTINCT ON (s.band_id, lower(trim(g.name))) s.band_id, 'genre', trim(g.name)
+    FROM songs s
+    CROSS JOIN LATERAL unnest(string_to_array(s.genre, ',')) AS g(name)
+    WHERE trim(g.name) <> ''
+    ORDER BY s.band_id, lower(trim(g.name))
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO song_tags (song_id, tag_id)
+    SELECT DISTINCT s.id, t.id
+    FROM songs s
+    CROSS JOIN LATERAL unnest(string_to_array(s.genre, ',')) AS g(name)
+    JOIN tags t ON t.band_id = s.band_id AND t.kind = 'genre' AND lower(t.name) = lower(trim(g.name))
+    ON CONFLICT DO NOTHING;
+
+    ALTER TABLE songs DROP COLUMN genre;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION set_song_tags(p_entries JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry JSONB;
+  v_song songs%ROWTYPE;
+  v_kind TEXT;
+  v_name TEXT;
+  v_tag_id UUID;
+BEGIN
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_entries, '[]'::jsonb)) LOOP
+    SELECT * INTO v_song FROM songs WHERE id = (v_entry->>'song_id')::uuid;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Song not found';
+    END IF;
+
+    IF NOT has_band_role(v_song.band_id, ARRAY['owner', 'band_member']) THEN
+      RAISE EXCEPTION 'Not allowed to edit songs';
+    END IF;
+
+    FOREACH v_kind IN ARRAY ARRAY['genre', 'tag'] LOOP
+      -- A kind left out of the entry keeps the song's current tags of that kind
+      CONTINUE WHEN NOT (v_entry ? (v_kind || 's'));
+
+      DELETE FROM song_tags st
+      USING tags t
+      WHERE st.tag_id = t.id AND st.song_id = v_song.id AND t.kind = v_kind;
+
+      FOR v_name IN
+        SELECT DISTINCT ON (lower(trim(value))) trim(value)
+        FROM jsonb_array_elements_text(v_entry->(v_kind || 's'))
+        WHERE trim(value) <> ''
+      LOOP
+        INSERT INTO tags (band_id, kind, name)
+        VALUES (v_song.band_id, v_kind, v_name)
+        ON CONFLICT (band_id, kind, lower(name)) DO NOTHING;
+
+        SELECT id INTO v_tag_id
+        FROM tags
+        WHERE band_id = v_song.band_id AND kind = v_kind AND lower(name) = lower(v_name);
+
+        INSERT INTO song_tags (song_id, tag_id)
+        VALUES (v_song.id, v_tag_id)
+        ON CONFLICT DO NOTHING;
+      END LOOP;
+    END LOOP;
+
+    UPDATE songs SET updated_at = now() WHERE id = v_song.id;
+  END LOOP;
+END;
+$$;
+
+-- Same as before, minus the genre column and plus tags
+CREATE OR REPLACE FUNCTION merge_songs(p_keep_id UUID, p_merge_ids UUID[], p_song JSONB DEFAULT '{}'::jsonb)
+RETURNS songs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_original songs%ROWTYPE;
+  v_keep songs%ROWTYPE;
+  v_merged songs%ROWTYPE;
+  v_dupe requests%ROWTYPE;
+  v_open requests%ROWTYPE;
+  v_dropped_votes INTEGER;
+BEGIN
+  SELECT * INTO v_original FROM songs WHERE id = p_keep_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Song not found';
+  END IF;
+
+  IF NOT has_band_role(v_original.band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to merge songs';
+  END IF;
+
+  p_merge_ids := array_remove(COALESCE(p_merge_ids, ARRAY[]::UUID[]), p_keep_id);
+
+  IF cardinality(p_merge_ids) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one song to merge';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM songs WHERE id = ANY(p_merge_ids) AND band_id = v_original.band_id
+  ) <> cardinality(p_merge_ids) THEN
+    RAISE EXCEPTION 'Songs can only be merged within one band';
+  END IF;
+
+  UPDATE songs
+  SET title = COALESCE(NULLIF(trim(p_song->>'title'), ''), title),
+      artist = COALESCE(NULLIF(trim(p_song->>'artist'), ''), artist),
+      key = COALESCE(p_song->>'key', key),
+      notes = COALESCE(p_song->>'notes', notes),
+      "albumArtUrl" = COALESCE(p_song->>'albumArtUrl', "albumArtUrl"),
+      duration_seconds = COALESCE((p_song->>'duration_seconds')::integer, duration_seconds),
+      tempo_bpm = COALESCE((p_song->>'tempo_bpm')::integer, tempo_bpm),
+      lead_vocalist = COALESCE(p_song->>'lead_vocalist', lead_vocalist),
+      capo = COALESCE((p_song->>'capo')::smallint, capo),
+      tuning = COALESCE(p_song->>'tuning', tuning),
+      is_explicit = COALESCE((p_song->>'is_explicit')::boolean, is_explicit),
+      is_requestable = COALESCE((p_song->>'is_requestable')::boolean, is_requestable),
+      last_played_at = GREATEST(
+        last_played_at,
+        (SELECT max(last_played_at) FROM songs WHERE id = ANY(p_merge_ids))
+      ),
+      updated_at = now()
+  WHERE id = p_keep_id
+  RETURNING * INTO v_keep;
+
+  INSERT INTO song_tags (song_id, tag_id)
+  SELECT p_keep_id, tag_id FROM song_tags WHERE song_id = ANY(p_merge_ids)
+  ON CONFLICT DO NOTHING;
+
+  -- Set lists
+  UPDATE set_list_songs
+  SET song_id = p_keep_id
+  WHERE song_id = ANY(p_merge_ids);
+
+  DELETE FROM set_list_songs sls
+  USING set_list_songs earlier
+  WHERE sls.song_id = p_keep_id
+    AND earlier.song_id = p_keep_id
+    AND earlier.set_list_id = sls.set_list_id
+    AND (earlier.position, earlier.created_at, earlier.id) < (sls.position, sls.created_at, sls.id);
+
+  -- Requests for the survivor under its old name, if the merge renamed it
+  UPDATE requests
+  SET title = v_keep.title,
+      artist = v_keep.artist
+  WHERE band_id = v_keep.band_id
+    AND normalize_song_text(title) = normalize_song_text(v_original.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_original.artist);
+
+  UPDATE performance_log
+  SET title = v_keep.title,
+      artist = v_keep.artist
+  WHERE song_id = p_keep_id;
+
+  FOR v_merged IN SELECT * FROM songs WHERE id = ANY(p_merge_ids) LOOP
+    -- Two open requests for what is now one song become one
+    FOR v_dupe IN
+      SELECT * FROM requests
+      WHERE band_id = v_keep.band_id
+        AND is_played = false
+        AND archived_at IS NULL
+        AND deleted_at IS NULL
+        AND normalize_song_text(title) = normalize_song_text(v_merged.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_merged.artist)
+    LOOP
+      SELECT * INTO v_open
+      FROM requests
+      WHERE band_id = v_keep.band_id
+        AND id <> v_dupe.id
+        AND event_id IS NOT DISTINCT FROM v_dupe.event_id
+        AND is_played = false
+        AND archived_at IS NULL
+        AND deleted_at IS NULL
+        AND normalize_song_text(title) = normalize_song_text(v_keep.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_keep.artist)
+      ORDER BY created_at
+      LIMIT 1;
+
+      CONTINUE WHEN NOT FOUND;
+
+      -- Someone who asked for both only counts once
+      DELETE FROM requesters rq
+      WHERE rq.request_id = v_dupe.id
+        AND EXISTS (
+          SELECT 1 FROM requesters existing
+          WHERE existing.request_id = v_open.id
+            AND (
+              existing.user_id = rq.user_id
+              OR (existing.user_id IS NULL AND rq.user_id IS NULL AND lower(existing.name) = lower(rq.name))
+            )
+        );
+
+      UPDATE requesters SET request_id = v_open.id WHERE request_id = v_dupe.id;
+
+      DELETE FROM user_votes uv
+      WHERE uv.request_id = v_dupe.id
+        AND EXISTS (
+          SELECT 1 FROM user_votes existing
+          WHERE existing.request_id = v_open.id AND existing.user_id = uv.user_id
+        );
+      GET DIAGNOSTICS v_dropped_votes = ROW_COUNT;
+
+      UPDATE user_votes SET request_id = v_open.id WHERE request_id = v_dupe.id;
+
+      UPDATE requests
+      SET votes = COALESCE(votes, 0) + GREATEST(COALESCE(v_dupe.votes, 0) - v_dropped_votes, 0)
+      WHERE id = v_open.id;
+
+      UPDATE requests
+      SET deleted_at = now(),
+          stage = 'queued'
+      WHERE id = v_dupe.id;
+    END LOOP;
+
+    UPDATE requests
+    SET title = v_keep.title,
+        artist = v_keep.artist
+    WHERE band_id = v_keep.band_id
+      AND normalize_song_text(title) = normalize_song_text(v_merged.title)
+      AND normalize_song_text(artist) = normalize_song_text(v_merged.artist);
+
+    UPDATE performance_log
+    SET song_id = p_keep_id,
+        title = v_keep.title,
+        artist = v_keep.artist
+    WHERE song_id = v_merged.id;
+  END LOOP;
+
+  DELETE FROM songs WHERE id = ANY(p_merge_ids);
+
+  RETURN v_keep;
+END;
+$$;
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE song_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tags are public"
+  ON tags FOR SELECT
+  USING (true);
+
+CREATE POLICY "Song tags are public"
+  ON song_tags FOR SELECT
+  USING (true);
+
+GRANT EXECUTE ON FUNCTION set_song_tags(JSONB) TO authenticated;
@@ -0,0 +1,530 @@
+/*
+  # Song aliases
+
+  1. New Tables
+    - `song_aliases` (song_id, alias) other names people know a song by
+      ("Sing Us a Song" for "Piano Man")
+
+  2. Functions
+    - `set_song_aliases(song_id, aliases)` replaces a song's aliases and
+      touches the song so clients reload it
+    - `submit_request` finds the song by an alias when the title doesn't
+      match. The request is filed under the library title, so people asking
+      by either name join the same request.
+    - `merge_songs` keeps the merged songs' aliases, and their titles as
+      aliases of the surviving song
+
+  3. Security
+    - Everyone can read aliases; owners and band members change them through
+      `set_song_aliases`
+*/
+
+CREATE TABLE IF NOT EXISTS song_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  song_id uuid NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+  alias text NOT NULL CHECK (trim(alias) <> ''),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_song_aliases_song_alias
+  ON song_aliases (song_id, lower(alias));
+
+CREATE OR REPLACE FUNCTION set_song_aliases(p_song_id UUID, p_aliases TEXT[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song songs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_song FROM songs WHERE id = p_song_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Song not found';
+  END IF;
+
+  IF NOT has_band_role(v_song.band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to edit songs';
+  END IF;
+
+  DELETE FROM song_aliases WHERE song_id = p_song_id;
+
+  INSERT INTO song_aliases (song_id, alias)
+  SELECT DISTINCT ON (lower(trim(alias))) p_song_id, left(trim(alias), 200)
+  FROM unnest(COALESCE(p_aliases, ARRAY[]::TEXT[])) AS alias
+  WHERE trim(alias) <> ''
+    AND normalize_song_text(alias) <> normalize_song_text(v_song.title);
+
+  UPDATE songs SET updated_at = now() WHERE id = p_song_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_request(
+  p_band_id UUID,
+  p_title TEXT,
+  p_artist TEXT,
+  p_requester_name TEXT,
+  p_requester_photo TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song songs%ROWTYPE;
+  v_event events%ROWTYPE;
+  v_request requests%ROWTYPE;
+  v_cap request_caps%ROWTYPE;
+  v_cap_count INTEGER;
+  v_cap_oldest TIMESTAMPTZ;
+  v_event_id UUID := active_event_id(p_band_id);
+  v_name TEXT := left(trim(COALESCE(p_requester_name, '')), 50);
+  v_title_key TEXT := normalize_song_text(p_title);
+  v_artist_key TEXT := normalize_song_text(p_artist);
+  v_user_id UUID;
+  v_rules request_rules%ROWTYPE;
+  v_active_count INTEGER;
+  v_last_request_at TIMESTAMPTZ;
+  v_last_played_at TIMESTAMPTZ;
+  v_wait INTEGER;
+BEGIN
+  IF v_title_key = '' THEN
+    RAISE EXCEPTION 'Song title is required';
+  END IF;
+
+  IF v_name = '' THEN
+    RAISE EXCEPTION 'Requester name is required';
+  END IF;
+
+  IF COALESCE(length(p_requester_photo), 0) = 0 THEN
+    RAISE EXCEPTION 'Requester photo is required';
+  END IF;
+
+  -- Audience members are known by their session; the kiosk and anyone
+  -- without a profile are still matched by name
+  SELECT id INTO v_user_id FROM audience_profiles WHERE id = auth.uid();
+
+  -- The song must be in this band's library, by its title or one of its
+  -- aliases; an empty artist matches any artist. A title beats an alias.
+  SELECT s.* INTO v_song
+  FROM songs s
+  WHERE s.band_id = p_band_id
+    AND (v_artist_key = '' OR normalize_song_text(s.artist) = v_artist_key)
+    AND (
+      normalize_song_text(s.title) = v_title_key
+      OR EXISTS (
+        SELECT 1 FROM song_aliases a
+        WHERE a.song_id = s.id AND normalize_song_text(a.alias) = v_title_key
+      )
+    )
+  ORDER BY (normalize_song_text(s.title) = v_title_key) DESC, s.created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This song is not in the library';
+  END IF;
+
+  -- Availability: the song itself, then what the running event allows
+  IF NOT v_song.is_requestable THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This song can''t be requested',
+      DETAIL = jsonb_build_object('type', 'SONG_UNAVAILABLE', 'reason', 'not_requestable')::text;
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = v_event_id;
+
+  IF FOUND THEN
+    IF v_song.id = ANY(v_event.unavailable_song_ids) THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'This song is not available tonight',
+        DETAIL = jsonb_build_object('type', 'SONG_UNAVAILABLE', 'reason', 'not_tonight')::text;
+    END IF;
+
+    IF v_event.family_friendly AND v_song.is_explicit THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'This song is not available at this event',
+        DETAIL = jsonb_build_object('type', 'SONG_UNAVAILABLE', 'reason', 'explicit')::text;
+    END IF;
+  END IF;
+
+  -- Band rules, checked under a per-requester lock so parallel submissions
+  -- from the same person can't slip past the quota together
+  SELECT * INTO v_rules FROM request_rules WHERE band_id = p_band_id;
+
+  IF FOUND THEN
+    PERFORM pg_advisory_xact_lock(
+      hashtext(p_band_id::text || '|requester|' || COALESCE(v_user_id::text, lower(v_name)))
+    );
+
+    IF v_rules.song_cooldown_minutes IS NOT NULL THEN
+      SELECT max(played_at) INTO v_last_played_at
+      FROM requests
+      WHERE band_id = p_band_id
+        AND is_played = true
+        AND normalize_song_text(title) = normalize_song_text(v_song.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_song.artist);
+
+      v_wait := ceil(
+        v_rules.song_cooldown_minutes * 60 - extract(epoch FROM now() - v_last_played_at)
+      );
+
+      IF v_wait > 0 THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'This song was just played',
+          DETAIL = jsonb_build_object('type', 'SONG_COOLDOWN', 'retry_after', v_wait)::text;
+      END IF;
+    END IF;
+
+    IF v_rules.min_request_gap_minutes IS NOT NULL THEN
+      SELECT max(rq.created_at) INTO v_last_request_at
+      FROM requesters rq
+      JOIN requests r ON r.id = rq.request_id
+      WHERE r.band_id = p_band_id
+        AND r.archived_at IS NULL
+        AND r.deleted_at IS NULL
+        AND (rq.user_id = v_user_id OR (v_user_id IS NULL AND lower(rq.name) = lower(v_name)));
+
+      v_wait := ceil(
+        v_rules.min_request_gap_minutes * 60 - extract(epoch FROM now() - v_last_request_at)
+      );
+
+      IF v_wait > 0 THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'You are requesting too quickly',
+          DETAIL = jsonb_build_object('type', 'REQUEST_TOO_SOON', 'retry_after', v_wait)::text;
+      END IF;
+    END IF;
+
+    IF v_rules.max_active_per_user IS NOT NULL THEN
+      SELECT count(DISTINCT r.id) INTO v_active_count
+      FROM requesters rq
+      JOIN requests r ON r.id = rq.request_id
+      WHERE r.band_id = p_band_id
+        AND r.event_id IS NOT DISTINCT FROM v_event_id
+        AND r.is_played = false
+        AND r.status <> 'rejected'
+        AND r.archived_at IS NULL
+        AND r.deleted_at IS NULL
+        AND (rq.user_id = v_user_id OR (v_user_id IS NULL AND lower(rq.name) = lower(v_name)));
+
+      IF v_active_count >= v_rules.max_active_per_user THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'You have reached the maximum number of active requests',
+          DETAIL = jsonb_build_object(
+            'type', 'USER_QUOTA_EXCEEDED',
+            'limit', v_rules.max_active_per_user
+          )::text;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Serialize submissions for the same song so two people can't both create it
+  PERFORM pg_advisory_xact_lock(
+    hashtext(p_band_id::text || '|' || normalize_song_text(v_song.title) || '|' || normalize_song_text(v_song.artist))
+  );
+
+  SELECT * INTO v_request
+  FROM requests
+  WHERE band_id = p_band_id
+    AND is_played = false
+    AND status <> 'rejected'
+    AND archived_at IS NULL
+    AND deleted_at IS NULL
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND normalize_song_text(title) = normalize_song_text(v_song.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_song.artist)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- Caps only limit new songs in the queue; joining an open request is fine
+    FOR v_cap IN
+      SELECT c.*
+      FROM request_caps c
+      WHERE c.band_id = p_band_id
+        AND EXISTS (
+          SELECT 1
+          FROM song_tags st
+          JOIN tags t ON t.id = st.tag_id
+          WHERE st.song_id = v_song.id
+            AND lower(t.name) = lower(c.tag)
+        )
+      ORDER BY c.id
+    LOOP
+      PERFORM pg_advisory_xact_lock(hashtext(p_band_id::text || '|cap|' || v_cap.id::text));
+
+      SELECT count(*), min(r.created_at) INTO v_cap_count, v_cap_oldest
+      FROM requests r
+      WHERE r.band_id = p_band_id
+        AND r.event_id IS NOT DISTINCT FROM v_event_id
+        AND r.status <> 'rejected'
+        AND r.archived_at IS NULL
+        AND r.deleted_at IS NULL
+        AND r.created_at > now() - make_interval(mins => v_cap.window_minutes)
+        AND EXISTS (
+          SELECT 1
+          FROM songs s
+          JOIN song_tags st ON st.song_id = s.id
+          JOIN tags t ON t.id = st.tag_id
+          WHERE s.band_id = p_band_id
+            AND normalize_song_text(s.title) = normalize_song_text(r.title)
+            AND normalize_song_text(s.artist) = normalize_song_text(r.artist)
+            AND lower(t.name) = lower(v_cap.tag)
+        );
+
+      IF v_cap_count >= v_cap.max_requests THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'Too many ' || v_cap.tag || ' songs requested',
+          DETAIL = jsonb_build_object(
+            'type', 'SONG_CAP_REACHED',
+            'tag', v_cap.tag,
+            'limit', v_cap.max_requests,
+            'window_minutes', v_cap.window_minutes,
+            'retry_after', ceil(
+              v_cap.window_minutes * 60 - extract(epoch FROM now() - v_cap_oldest)
+            )
+          )::text;
+      END IF;
+    END LOOP;
+
+    INSERT INTO requests (band_id, title, artist, votes, is_locked, is_played, event_id, status)
+    VALUES (
+      p_band_id, v_song.title, v_song.artist, 0, false, false, v_event_id,
+      CASE WHEN moderation_enabled(p_band_id) THEN 'pending' ELSE 'approved' END
+    )
+    RETURNING * INTO v_request;
+  ELSIF EXISTS (
+    SELECT 1 FROM requesters
+    WHERE request_id = v_request.id
+      AND (user_id = v_user_id OR (v_user_id IS NULL AND lower(name) = lower(v_name)))
+  ) THEN
+    RAISE EXCEPTION 'You have already requested this song';
+  END IF;
+
+  INSERT INTO requesters (request_id, user_id, name, photo, message)
+  VALUES (
+    v_request.id,
+    v_user_id,
+    v_name,
+    p_requester_photo,
+    left(COALESCE(p_message, ''), 100)
+  );
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'id', v_request.id,
+      'band_id', v_request.band_id,
+      'title', v_request.title,
+      'artist', v_request.artist,
+      'votes', v_request.votes,
+      'status', v_request.status,
+      'rejection_reason', v_request.rejection_reason,
+      'is_locked', v_request.is_locked,
+      'is_played', v_request.is_played,
+      'event_id', v_request.event_id,
+      'created_at', v_request.created_at,
+      'requesters', COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'user_id', r.user_id,
+          'name', r.name,
+          'photo', r.photo,
+          'message', r.message,
+          'created_at', r.created_at
+        ) ORDER BY r.created_at
+      ), '[]'::jsonb)
+    )
+    FROM requesters r
+    WHERE r.request_id = v_request.id
+  );
+END;
+$$;
+
+-- Same as before, plus aliases
+CREATE OR REPLACE FUNCTION merge_songs(p_keep_id UUID, p_merge_ids UUID[], p_song JSONB DEFAULT '{}'::jsonb)
+RETURNS songs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_original songs%ROWTYPE;
+  v_keep songs%ROWTYPE;
+  v_merged songs%ROWTYPE;
+  v_dupe requests%ROWTYPE;
+  v_open requests%ROWTYPE;
+  v_dropped_votes INTEGER;
+BEGIN
+  SELECT * INTO v_original FROM songs WHERE id = p_keep_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Song not found';
+  END IF;
+
+  IF NOT has_band_role(v_original.band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to merge songs';
+  END IF;
+
+  p_merge_ids := array_remove(COALESCE(p_merge_ids, ARRAY[]::UUID[]), p_keep_id);
+
+  IF cardinality(p_merge_ids) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one song to merge';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM songs WHERE id = ANY(p_merge_ids) AND band_id = v_original.band_id
+  ) <> cardinality(p_merge_ids) THEN
+    RAISE EXCEPTION 'Songs can only be merged within one band';
+  END IF;
+
+  UPDATE songs
+  SET title = COALESCE(NULLIF(trim(p_song->>'title'), ''), title),
+      artist = COALESCE(NULLIF(trim(p_song->>'artist'), ''), artist),
+      key = COALESCE(p_song->>'key', key),
+      notes = COALESCE(p_song->>'notes', notes),
+      "albumArtUrl" = COALESCE(p_song->>'albumArtUrl', "albumArtUrl"),
+      duration_seconds = COALESCE((p_song->>'duration_seconds')::integer, duration_seconds),
+      tempo_bpm = COALESCE((p_song->>'tempo_bpm')::integer, tempo_bpm),
+      lead_vocalist = COALESCE(p_song->>'lead_vocalist', lead_vocalist),
+      capo = COALESCE((p_song->>'capo')::smallint, capo),
+      tuning = COALESCE(p_song->>'tuning', tuning),
+      is_explicit = COALESCE((p_song->>'is_explicit')::boolean, is_explicit),
+      is_requestable = COALESCE((p_song->>'is_requestable')::boolean, is_requestable),
+      last_played_at = GREATEST(
+        last_played_at,
+        (SELECT max(last_played_at) FROM songs WHERE id = ANY(p_merge_ids))
+      ),
+      updated_at = now()
+  WHERE id = p_keep_id
+  RETURNING * INTO v_keep;
+
+  INSERT INTO song_tags (song_id, tag_id)
+  SELECT p_keep_id, tag_id FROM song_tags WHERE song_id = ANY(p_merge_ids)
+  ON CONFLICT DO NOTHING;
+
+  -- Aliases, and the merged songs' own titles, which people requested them by
+  INSERT INTO song_aliases (song_id, alias)
+  SELECT DISTINCT ON (lower(alias)) p_keep_id, alias
+  FROM (
+    SELECT alias FROM song_aliases WHERE song_id = ANY(p_merge_ids)
+    UNION ALL
+    SELECT title FROM songs WHERE id = ANY(p_merge_ids)
+  ) merged
+  WHERE normalize_song_text(alias) <> normalize_song_text(v_keep.title)
+  ON CONFLICT (song_id, lower(alias)) DO NOTHING;
+
+  -- Set lists
+  UPDATE set_list_songs
+  SET song_id = p_keep_id
+  WHERE song_id = ANY(p_merge_ids);
+
+  DELETE FROM set_list_songs sls
+  USING set_list_songs earlier
+  WHERE sls.song_id = p_keep_id
+    AND earlier.song_id = p_keep_id
+    AND earlier.set_list_id = sls.set_list_id
+    AND (earlier.position, earlier.created_at, earlier.id) < (sls.position, sls.created_at, sls.id);
+
+  -- Requests for the survivor under its old name, if the merge renamed it
+  UPDATE requests
+  SET title = v_keep.title,
+      artist = v_keep.artist
+  WHERE band_id = v_keep.band_id
+    AND normalize_song_text(title) = normalize_song_text(v_original.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_original.artist);
+
+  UPDATE performance_log
+  SET title = v_keep.title,
+      artist = v_keep.artist
+  WHERE song_id = p_keep_id;
+
+  FOR v_merged IN SELECT * FROM songs WHERE id = ANY(p_merge_ids) LOOP
+    -- Two open requests for what is now one song become one
+    FOR v_dupe IN
+      SELECT * FROM requests
+      WHERE band_id = v_keep.band_id
+        AND is_played = false
+        AND archived_at IS NULL
+        AND deleted_at IS NULL
+        AND normalize_song_text(title) = normalize_song_text(v_merged.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_merged.artist)
+    LOOP
+      SELECT * INTO v_open
+      FROM requests
+      WHERE band_id = v_keep.band_id
+        AND id <> v_dupe.id
+        AND event_id IS NOT DISTINCT FROM v_dupe.event_id
+        AND is_played = false
+        AND archived_at IS NULL
+        AND deleted_at IS NULL
+        AND normalize_song_text(title) = normalize_song_text(v_keep.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_keep.artist)
+      ORDER BY created_at
+      LIMIT 1;
+
+      CONTINUE WHEN NOT FOUND;
+
+      -- Someone who asked for both only counts once
+      DELETE FROM requesters rq
+      WHERE rq.request_id = v_dupe.id
+        AND EXISTS (
+          SELECT 1 FROM requesters existing
+          WHERE existing.request_id = v_open.id
+            AND (
+              existing.user_id = rq.user_id
+              OR (existing.user_id IS NULL AND rq.user_id IS NULL AND lower(existing.name) = lower(rq.name))
+            )
+        );
+
+      UPDATE requesters SET request_id = v_open.id WHERE request_id = v_dupe.id;
+
+      DELETE FROM user_votes uv
+      WHERE uv.request_id = v_dupe.id
+        AND EXISTS (
+          SELECT 1 FROM user_votes existing
+          WHERE existing.request_id = v_open.id AND existing.user_id = uv.user_id
+        );
+      GET DIAGNOSTICS v_dropped_votes = ROW_COUNT;
+
+      UPDATE user_votes SET request_id = v_open.id WHERE request_id = v_dupe.id;
+
+      UPDATE requests
+      SET votes = COALESCE(votes, 0) + GREATEST(COALESCE(v_dupe.votes, 0) - v_dropped_votes, 0)
+      WHERE id = v_open.id;
+
+      UPDATE requests
+      SET deleted_at = now(),
+          stage = 'queued'
+      WHERE id = v_dupe.id;
+    END LOOP;
+
+    UPDATE requests
+    SET title = v_keep.title,
+        artist = v_keep.artist
+    WHERE band_id = v_keep.band_id
+      AND normalize_song_text(title) = normalize_song_text(v_merged.title)
+      AND normalize_song_text(artist) = normalize_song_text(v_merged.artist);
+
+    UPDATE performance_log
+    SET song_id = p_keep_id,
+        title = v_keep.title,
+        artist = v_keep.artist
+    WHERE song_id = v_merged.id;
+  END LOOP;
+
+  DELETE FROM songs WHERE id = ANY(p_merge_ids);
+
+  RETURN v_keep;
+END;
+$$;
+
+ALTER TABLE song_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Song aliases are viewable by everyone"
+  ON song_aliases FOR SELECT TO public USING (true);
+
+GRANT EXECUTE ON FUNCTION set_song_aliases(UUID, TEXT[]) TO authenticated;
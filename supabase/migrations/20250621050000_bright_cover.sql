@@ -0,0 +1,224 @@
+/*
+  # Song metadata enrichment
+
+  1. Changes
+    - `songs.release_year` and `songs.preview_url`, filled in from a metadata
+      provider (iTunes Search) along with artwork, genre and duration
+    - `merge_songs` keeps both when merging duplicates
+
+  2. New Tables
+    - `song_enrichment_cache` what a provider returned for a title and artist,
+      shared by every band so each song is looked up once
+      - `provider` ('itunes', ...), `lookup_key` (normalized "title|artist")
+      - `data` the match as jsonb, or null when the provider had nothing
+      - `fetched_at`, so misses can be retried later
+
+  3. Security
+    - Everyone can read the cache; signed in band accounts can add to it
+*/
+
+ALTER TABLE songs
+  ADD COLUMN IF NOT EXISTS release_year smallint CHECK (release_year BETWEEN 1000 AND 3000),
+  ADD COLUMN IF NOT EXISTS preview_url text;
+
+-- Same as before, plus release_year and preview_url
+CREATE OR REPLACE FUNCTION merge_songs(p_keep_id UUID, p_merge_ids UUID[], p_song JSONB DEFAULT '{}'::jsonb)
+RETURNS songs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_original songs%ROWTYPE;
+  v_keep songs%ROWTYPE;
+  v_merged songs%ROWTYPE;
+  v_dupe requests%ROWTYPE;
+  v_open requests%ROWTYPE;
+  v_dropped_votes INTEGER;
+BEGIN
+  SELECT * INTO v_original FROM songs WHERE id = p_keep_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Song not found';
+  END IF;
+
+  IF NOT has_band_role(v_original.band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to merge songs';
+  END IF;
+
+  p_merge_ids := array_remove(COALESCE(p_merge_ids, ARRAY[]::UUID[]), p_keep_id);
+
+  IF cardinality(p_merge_ids) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one song to merge';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM songs WHERE id = ANY(p_merge_ids) AND band_id = v_original.band_id
+  ) <> cardinality(p_merge_ids) THEN
+    RAISE EXCEPTION 'Songs can only be merged within one band';
+  END IF;
+
+  UPDATE songs
+  SET title = COALESCE(NULLIF(trim(p_song->>'title'), ''), title),
+      artist = COALESCE(NULLIF(trim(p_song->>'artist'), ''), artist),
+      key = COALESCE(p_song->>'key', key),
+      notes = COALESCE(p_song->>'notes', notes),
+      "albumArtUrl" = COALESCE(p_song->>'albumArtUrl', "albumArtUrl"),
+      duration_seconds = COALESCE((p_song->>'duration_seconds')::integer, duration_seconds),
+      release_year = COALESCE((p_song->>'release_year')::smallint, release_year),
+      preview_url = COALESCE(p_song->>'preview_url', preview_url),
+      tempo_bpm = COALESCE((p_song->>'tempo_bpm')::integer, tempo_bpm),
+      lead_vocalist = COALESCE(p_song->>'lead_vocalist', lead_vocalist),
+      capo = COALESCE((p_song->>'capo')::smallint, capo),
+      tuning = COALESCE(p_song->>'tuning', tuning),
+      is_explicit = COALESCE((p_song->>'is_explicit')::boolean, is_explicit),
+      is_requestable = COALESCE((p_song->>'is_requestable')::boolean, is_requestable),
+      last_played_at = GREATEST(
+        last_played_at,
+        (SELECT max(last_played_at) FROM songs WHERE id = ANY(p_merge_ids))
+      ),
+      updated_at = now()
+  WHERE id = p_keep_id
+  RETURNING * INTO v_keep;
+
+  INSERT INTO song_tags (song_id, tag_id)
+  SELECT p_keep_id, tag_id FROM song_tags WHERE song_id = ANY(p_merge_ids)
+  ON CONFLICT DO NOTHING;
+
+  -- Aliases, and the merged songs' own titles, which people requested them by
+  INSERT INTO song_aliases (song_id, alias)
+  SELECT DISTINCT ON (lower(alias)) p_keep_id, alias
+  FROM (
+    SELECT alias FROM song_aliases WHERE song_id = ANY(p_merge_ids)
+    UNION ALL
+    SELECT title FROM songs WHERE id = ANY(p_merge_ids)
+  ) merged
+  WHERE normalize_song_text(alias) <> normalize_song_text(v_keep.title)
+  ON CONFLICT (song_id, lower(alias)) DO NOTHING;
+
+  -- Set lists
+  UPDATE set_list_songs
+  SET song_id = p_keep_id
+  WHERE song_id = ANY(p_merge_ids);
+
+  DELETE FROM set_list_songs sls
+  USING set_list_songs earlier
+  WHERE sls.song_id = p_keep_id
+    AND earlier.song_id = p_keep_id
+    AND earlier.set_list_id = sls.set_list_id
+    AND (earlier.position, earlier.created_at, earlier.id) < (sls.position, sls.created_at, sls.id);
+
+  -- Requests for the survivor under its old name, if the merge renamed it
+  UPDATE requests
+  SET title = v_keep.title,
+      artist = v_keep.artist
+  WHERE band_id = v_keep.band_id
+    AND normalize_song_text(title) = normalize_song_text(v_original.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_original.artist);
+
+  UPDATE performance_log
+  SET title = v_keep.title,
+      artist = v_keep.artist
+  WHERE song_id = p_keep_id;
+
+  FOR v_merged IN SELECT * FROM songs WHERE id = ANY(p_merge_ids) LOOP
+    -- Two open requests for what is now one song become one
+    FOR v_dupe IN
+      SELECT * FROM requests
+      WHERE band_id = v_keep.band_id
+        AND is_played = false
+        AND archived_at IS NULL
+        AND deleted_at IS NULL
+        AND normalize_song_text(title) = normalize_song_text(v_merged.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_merged.artist)
+    LOOP
+      SELECT * INTO v_open
+      FROM requests
+      WHERE band_id = v_keep.band_id
+        AND id <> v_dupe.id
+        AND event_id IS NOT DISTINCT FROM v_dupe.event_id
+        AND is_played = false
+        AND archived_at IS NULL
+        AND deleted_at IS NULL
+        AND normalize_song_text(title) = normalize_song_text(v_keep.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_keep.artist)
+      ORDER BY created_at
+      LIMIT 1;
+
+      CONTINUE WHEN NOT FOUND;
+
+      -- Someone who asked for both only counts once
+      DELETE FROM requesters rq
+      WHERE rq.request_id = v_dupe.id
+        AND EXISTS (
+          SELECT 1 FROM requesters existing
+          WHERE existing.request_id = v_open.id
+            AND (
+              existing.user_id = rq.user_id
+              OR (existing.user_id IS NULL AND rq.user_id IS NULL AND lower(existing.name) = lower(rq.name))
+            )
+        );
+
+      UPDATE requesters SET request_id = v_open.id WHERE request_id = v_dupe.id;
+
+      DELETE FROM user_votes uv
+      WHERE uv.request_id = v_dupe.id
+        AND EXISTS (
+          SELECT 1 FROM user_votes existing
+          WHERE existing.request_id = v_open.id AND existing.user_id = uv.user_id
+        );
+      GET DIAGNOSTICS v_dropped_votes = ROW_COUNT;
+
+      UPDATE user_votes SET request_id = v_open.id WHERE request_id = v_dupe.id;
+
+      UPDATE requests
+      SET votes = COALESCE(votes, 0) + GREATEST(COALESCE(v_dupe.votes, 0) - v_dropped_votes, 0)
+      WHERE id = v_open.id;
+
+      UPDATE requests
+      SET deleted_at = now(),
+          stage = 'queued'
+      WHERE id = v_dupe.id;
+    END LOOP;
+
+    UPDATE requests
+    SET title = v_keep.title,
+        artist = v_keep.artist
+    WHERE band_id = v_keep.band_id
+      AND normalize_song_text(title) = normalize_song_text(v_merged.title)
+      AND normalize_song_text(artist) = normalize_song_text(v_merged.artist);
+
+    UPDATE performance_log
+    SET song_id = p_keep_id,
+        title = v_keep.title,
+        artist = v_keep.artist
+    WHERE song_id = v_merged.id;
+  END LOOP;
+
+  DELETE FROM songs WHERE id = ANY(p_merge_ids);
+
+  RETURN v_keep;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS song_enrichment_cache (
+  provider text NOT NULL,
+  lookup_key text NOT NULL,
+  data jsonb,
+  fetched_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (provider, lookup_key)
+);
+
+ALTER TABLE song_enrichment_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enrichment cache is viewable by everyone"
+  ON song_enrichment_cache FOR SELECT TO public USING (true);
+
+CREATE POLICY "Band accounts can add to the enrichment cache"
+  ON song_enrichment_cache FOR INSERT TO authenticated
+  WITH CHECK (has_backend_role(ARRAY['owner', 'band_member']));
+
+CREATE POLICY "Band accounts can refresh the enrichment cache"
+  ON song_enrichment_cache FOR UPDATE TO authenticated
+  USING (has_backend_role(ARRAY['owner', 'band_member']))
+  WITH CHECK (has_backend_role(ARRAY['owner', 'band_member']));
@@ -0,0 +1,203 @@
+/*
+  # Keep stage lanes to one event
+
+  1. Changes
+    - `end_event` sends the event's on deck, up next and now playing requests
+      back to `queued` and drops their pins. Clearing `is_locked` alone no
+      longer worked once `is_locked` started mirroring `stage`
+    - `start_event` does the same for requests made outside of any event
+    - `advance_queue` and `lock_request` only look at requests in the same
+      event (the running one for `advance_queue`), so songs left in a lane
+      from another night never come up as the next song
+*/
+
+CREATE OR REPLACE FUNCTION end_event(p_event_id UUID)
+RETURNS events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+BEGIN
+  IF NOT has_band_role(
+    (SELECT band_id FROM events WHERE id = p_event_id),
+    ARRAY['owner', 'band_member']
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to end events';
+  END IF;
+
+  UPDATE events
+  SET status = 'ended',
+      ended_at = now()
+  WHERE id = p_event_id
+    AND status = 'active'
+  RETURNING * INTO v_event;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event is not running';
+  END IF;
+
+  -- Nothing from an archived night should stay in a lane or pinned
+  UPDATE requests
+  SET stage = 'queued',
+      pinned_position = NULL
+  WHERE event_id = p_event_id
+    AND (stage IN ('on_deck', 'up_next', 'now_playing') OR pinned_position IS NOT NULL);
+
+  RETURN v_event;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_event(p_event_id UUID)
+RETURNS events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+  v_band_id UUID;
+  v_running UUID;
+BEGIN
+  SELECT band_id INTO v_band_id FROM events WHERE id = p_event_id;
+
+  IF NOT has_band_role(v_band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to start events';
+  END IF;
+
+  -- Archive whatever the band still has running before opening the new queue
+  v_running := active_event_id(v_band_id);
+  IF v_running IS NOT NULL AND v_running <> p_event_id THEN
+    PERFORM end_event(v_running);
+  END IF;
+
+  -- Requests made outside of any event don't carry over either
+  UPDATE requests
+  SET stage = 'queued',
+      pinned_position = NULL
+  WHERE band_id = v_band_id
+    AND event_id IS NULL
+    AND (stage IN ('on_deck', 'up_next', 'now_playing') OR pinned_position IS NOT NULL);
+
+  UPDATE events
+  SET status = 'active',
+      started_at = now(),
+      ended_at = NULL
+  WHERE id = p_event_id
+    AND status <> 'ended'
+  RETURNING * INTO v_event;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found or already ended';
+  END IF;
+
+  -- Bring the linked set list up for the audience
+  IF v_event.set_list_id IS NOT NULL THEN
+    UPDATE set_lists
+    SET is_active = true
+    WHERE id = v_event.set_list_id;
+  END IF;
+
+  RETURN v_event;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION advance_queue(p_band_id UUID, p_queue UUID[] DEFAULT '{}')
+RETURNS requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id UUID := active_event_id(p_band_id);
+  v_lineup UUID[];
+  v_now_playing requests%ROWTYPE;
+BEGIN
+  IF NOT has_band_role(p_band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to advance the queue';
+  END IF;
+
+  -- One advance at a time per band
+  PERFORM pg_advisory_xact_lock(hashtext(p_band_id::text || '|stage'));
+
+  -- Finish the current song
+  UPDATE requests
+  SET stage = 'played',
+      is_played = true
+  WHERE band_id = p_band_id
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND stage = 'now_playing';
+
+  -- Up next, then on deck, then the queue in the client's ranked order
+  SELECT COALESCE(array_agg(id ORDER BY CASE stage WHEN 'up_next' THEN 1 ELSE 2 END, created_at), '{}')
+  INTO v_lineup
+  FROM requests
+  WHERE band_id = p_band_id
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND stage IN ('up_next', 'on_deck');
+
+  v_lineup := v_lineup || ARRAY(
+    SELECT r.id
+    FROM unnest(COALESCE(p_queue, '{}')) WITH ORDINALITY AS q(id, ord)
+    JOIN requests r ON r.id = q.id
+    WHERE r.band_id = p_band_id
+      AND r.stage = 'queued'
+      AND r.status = 'approved'
+      AND r.event_id IS NOT DISTINCT FROM v_event_id
+    ORDER BY q.ord
+    LIMIT 3
+  );
+
+  IF array_length(v_lineup, 1) >= 1 THEN
+    UPDATE requests SET stage = 'now_playing' WHERE id = v_lineup[1]
+    RETURNING * INTO v_now_playing;
+  END IF;
+
+  IF array_length(v_lineup, 1) >= 2 THEN
+    UPDATE requests SET stage = 'up_next' WHERE id = v_lineup[2];
+  END IF;
+
+  IF array_length(v_lineup, 1) >= 3 THEN
+    UPDATE requests SET stage = 'on_deck' WHERE id = v_lineup[3];
+  END IF;
+
+  RETURN v_now_playing;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION lock_request(request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_band_id UUID;
+  v_event_id UUID;
+  v_status TEXT;
+BEGIN
+  SELECT band_id, event_id, status INTO v_band_id, v_event_id, v_status FROM requests WHERE id = request_id;
+
+  IF NOT has_band_role(v_band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to lock requests';
+  END IF;
+
+  IF v_status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved requests can be locked';
+  END IF;
+
+  -- Whatever was up next in the same event goes back to the queue
+  UPDATE requests
+  SET stage = 'queued'
+  WHERE band_id = v_band_id
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND stage = 'up_next'
+    AND id <> lock_request.request_id;
+
+  UPDATE requests
+  SET stage = 'up_next'
+  WHERE id = lock_request.request_id
+    AND stage IN ('queued', 'on_deck');
+END;
+$$;
@@ -0,0 +1,122 @@
+/*
+  # Roles per band
+
+  1. Changes
+    - `band_members.role` replaces `backend_users.role`. Someone can own one
+      band and only run the kiosk for another, and an owner's role only counts
+      in the bands they belong to. Existing memberships keep the role their
+      account had
+    - `backend_users.role`, its guard trigger and `backend_role()` are dropped
+
+  2. Functions
+    - `band_role(band_id)` returns the current session's role in a band
+    - `has_band_role(band_id, roles)` checks membership and that role
+    - `has_backend_role(roles)` now means "has one of these roles in some
+      band", for the few checks that aren't about one band (creating a band)
+
+  3. Security
+    - "Owners can manage the team" / "Owners can remove team members" on
+      `backend_users` are dropped: they let an owner of any band change or
+      delete accounts that only belong to other bands
+    - Band owners change roles by updating the `band_members` row for their
+      own band, and can't change their own role
+    - Backend accounts only see the accounts they share a band with
+*/
+
+ALTER TABLE band_members
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'band_member'
+  CHECK (role IN ('owner', 'band_member', 'venue_staff', 'kiosk_operator'));
+
+UPDATE band_members bm
+SET role = bu.role
+FROM backend_users bu
+WHERE bu.id = bm.user_id;
+
+CREATE OR REPLACE FUNCTION band_role(p_band_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM band_members WHERE band_id = p_band_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION has_band_role(p_band_id UUID, roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_band_member(p_band_id) AND COALESCE(band_role(p_band_id) = ANY(roles), false);
+$$;
+
+CREATE OR REPLACE FUNCTION has_backend_role(roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS(
+    SELECT 1 FROM band_members
+    WHERE user_id = auth.uid() AND role = ANY(roles)
+  );
+$$;
+
+-- The global role and everything that guarded it
+DROP POLICY IF EXISTS "Owners can manage the team" ON backend_users;
+DROP POLICY IF EXISTS "Owners can remove team members" ON backend_users;
+DROP TRIGGER IF EXISTS backend_users_role_guard ON backend_users;
+DROP FUNCTION IF EXISTS prevent_backend_role_escalation();
+DROP FUNCTION IF EXISTS backend_role();
+ALTER TABLE backend_users DROP COLUMN IF EXISTS role;
+
+DROP POLICY IF EXISTS "Backend users can view the team" ON backend_users;
+
+CREATE POLICY "Backend users can view their bandmates"
+  ON backend_users FOR SELECT TO authenticated
+  USING (
+    id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM band_members theirs
+      WHERE theirs.user_id = backend_users.id
+        AND is_band_member(theirs.band_id)
+    )
+  );
+
+CREATE POLICY "Band owners can change member roles"
+  ON band_members FOR UPDATE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner']) AND user_id <> auth.uid())
+  WITH CHECK (has_band_role(band_id, ARRAY['owner']) AND user_id <> auth.uid());
+
+-- A band's creator owns it
+CREATE OR REPLACE FUNCTION create_band(p_name TEXT, p_slug TEXT)
+RETURNS bands
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_band bands%ROWTYPE;
+BEGIN
+  IF NOT has_backend_role(ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can create bands';
+  END IF;
+
+  INSERT INTO bands (name, slug)
+  VALUES (trim(p_name), lower(trim(p_slug)))
+  RETURNING * INTO v_band;
+
+  INSERT INTO band_members (band_id, user_id, role)
+  VALUES (v_band.id, auth.uid(), 'owner');
+
+  INSERT INTO ui_settings (band_id, band_name)
+  VALUES (v_band.id, v_band.name);
+
+  RETURN v_band;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION band_role(UUID) TO authenticated, anon;
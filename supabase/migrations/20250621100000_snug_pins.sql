@@ -0,0 +1,98 @@
+/*
+  # Keep pinned positions in order
+
+  1. Changes
+    - When a request leaves the queue only the pins after the slot it held
+      move up one. A pinned request held its pin; an unpinned one held the
+      first slot no pin holds, the top of the automatic order. Before, every
+      pin moved up, so pins 1 and 2 both ended up at 1
+    - `unpin_request` closes the gap the pin leaves, so "third" becomes
+      "second" like it does when a pinned song is played
+*/
+
+CREATE OR REPLACE FUNCTION unpin_request(p_request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT has_band_role(v_request.band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to reorder the queue';
+  END IF;
+
+  IF v_request.pinned_position IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Serialize reorders of the same queue
+  PERFORM pg_advisory_xact_lock(hashtext(v_request.band_id::text || '|pins'));
+
+  UPDATE requests
+  SET pinned_position = NULL
+  WHERE id = p_request_id;
+
+  UPDATE requests
+  SET pinned_position = pinned_position - 1
+  WHERE band_id = v_request.band_id
+    AND event_id IS NOT DISTINCT FROM v_request.event_id
+    AND stage = 'queued'
+    AND id <> p_request_id
+    AND pinned_position > v_request.pinned_position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shift_pinned_positions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot INTEGER := OLD.pinned_position;
+BEGIN
+  UPDATE requests
+  SET pinned_position = NULL
+  WHERE id = NEW.id
+    AND pinned_position IS NOT NULL;
+
+  -- Unpinned requests leave from the top of the automatic order
+  IF v_slot IS NULL THEN
+    SELECT min(slot) INTO v_slot
+    FROM generate_series(
+      1,
+      (
+        SELECT count(*)::integer + 1
+        FROM requests
+        WHERE band_id = NEW.band_id
+          AND event_id IS NOT DISTINCT FROM NEW.event_id
+          AND stage = 'queued'
+          AND id <> NEW.id
+          AND pinned_position IS NOT NULL
+      )
+    ) AS slot
+    WHERE NOT EXISTS (
+      SELECT 1 FROM requests
+      WHERE band_id = NEW.band_id
+        AND event_id IS NOT DISTINCT FROM NEW.event_id
+        AND stage = 'queued'
+        AND id <> NEW.id
+        AND pinned_position = slot
+    );
+  END IF;
+
+  UPDATE requests
+  SET pinned_position = pinned_position - 1
+  WHERE band_id = NEW.band_id
+    AND event_id IS NOT DISTINCT FROM NEW.event_id
+    AND stage = 'queued'
+    AND id <> NEW.id
+    AND pinned_position > v_slot;
+
+  RETURN NULL;
+END;
+$$;
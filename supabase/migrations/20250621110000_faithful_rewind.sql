@@ -0,0 +1,216 @@
+/*
+  # Restore queues the way they were
+
+  1. Changes
+    - `requests.archived_stage` / `requests.archived_pinned_position` keep the
+      lane and pin a request had when a queue reset archived it
+    - `restore_queue_snapshot` puts each request back in its lane, unless
+      another request has taken that lane since, and back at its pinned slot,
+      moving later pins down to make room
+    - A restored request for a song that was requested again after the reset
+      is merged into the new request: requesters and votes move over, and
+      whoever asked for both only counts once. Before, both stayed open
+    - Archived requests coming back into a lane no longer shift the live
+      queue's pins
+*/
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS archived_stage text,
+  ADD COLUMN IF NOT EXISTS archived_pinned_position integer;
+
+-- Archived requests aren't in the queue, so they can't leave it
+DROP TRIGGER IF EXISTS shift_pinned_positions ON requests;
+CREATE TRIGGER shift_pinned_positions
+  AFTER UPDATE ON requests
+  FOR EACH ROW
+  WHEN (OLD.stage = 'queued' AND NEW.stage <> 'queued' AND OLD.archived_at IS NULL)
+  EXECUTE FUNCTION shift_pinned_positions();
+
+-- Same as before, plus remembering each request's lane and pin
+CREATE OR REPLACE FUNCTION reset_queue(p_band_id UUID)
+RETURNS queue_snapshots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot queue_snapshots%ROWTYPE;
+  v_event_id UUID := active_event_id(p_band_id);
+  v_count INTEGER;
+BEGIN
+  IF NOT has_band_role(p_band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to reset the queue';
+  END IF;
+
+  INSERT INTO queue_snapshots (band_id, event_id, created_by)
+  VALUES (p_band_id, v_event_id, auth.uid())
+  RETURNING * INTO v_snapshot;
+
+  -- Everything still open, including the stage lanes and pending requests.
+  -- Lanes and pins belong to the queue being put away, until it's restored.
+  UPDATE requests
+  SET archived_at = now(),
+      snapshot_id = v_snapshot.id,
+      archived_stage = stage,
+      archived_pinned_position = pinned_position,
+      stage = 'queued',
+      pinned_position = NULL
+  WHERE band_id = p_band_id
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND is_played = false
+    AND archived_at IS NULL
+    AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE queue_snapshots
+  SET request_count = v_count
+  WHERE id = v_snapshot.id
+  RETURNING * INTO v_snapshot;
+
+  RETURN v_snapshot;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_queue_snapshot(p_snapshot_id UUID)
+RETURNS queue_snapshots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot queue_snapshots%ROWTYPE;
+  v_archived requests%ROWTYPE;
+  v_open requests%ROWTYPE;
+  v_restored requests%ROWTYPE;
+  v_lane_free BOOLEAN;
+  v_dropped_votes INTEGER;
+BEGIN
+  SELECT * INTO v_snapshot FROM queue_snapshots WHERE id = p_snapshot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT has_band_role(v_snapshot.band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to restore this queue';
+  END IF;
+
+  IF v_snapshot.restored_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This queue was already restored';
+  END IF;
+
+  IF v_snapshot.created_at < now() - snapshot_restore_window() THEN
+    RAISE EXCEPTION 'This queue is too old to restore';
+  END IF;
+
+  -- Lanes and pins move under the same locks advance_queue and pin_request take
+  PERFORM pg_advisory_xact_lock(hashtext(v_snapshot.band_id::text || '|stage'));
+  PERFORM pg_advisory_xact_lock(hashtext(v_snapshot.band_id::text || '|pins'));
+
+  -- Pinned requests first, in slot order, so they land back in the same order
+  FOR v_archived IN
+    SELECT * FROM requests
+    WHERE snapshot_id = p_snapshot_id
+      AND deleted_at IS NULL
+    ORDER BY archived_pinned_position NULLS LAST, created_at
+  LOOP
+    v_lane_free := v_archived.archived_stage IN ('on_deck', 'up_next', 'now_playing')
+      AND NOT EXISTS (
+        SELECT 1 FROM requests
+        WHERE band_id = v_archived.band_id
+          AND event_id IS NOT DISTINCT FROM v_archived.event_id
+          AND stage = v_archived.archived_stage
+          AND archived_at IS NULL
+          AND deleted_at IS NULL
+      );
+
+    -- The same song, requested again since the reset
+    SELECT * INTO v_open
+    FROM requests
+    WHERE band_id = v_archived.band_id
+      AND id <> v_archived.id
+      AND event_id IS NOT DISTINCT FROM v_archived.event_id
+      AND is_played = false
+      AND status <> 'rejected'
+      AND archived_at IS NULL
+      AND deleted_at IS NULL
+      AND normalize_song_text(title) = normalize_song_text(v_archived.title)
+      AND normalize_song_text(artist) = normalize_song_text(v_archived.artist)
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+      -- Someone who asked for both only counts once
+      DELETE FROM requesters rq
+      WHERE rq.request_id = v_archived.id
+        AND EXISTS (
+          SELECT 1 FROM requesters existing
+          WHERE existing.request_id = v_open.id
+            AND (
+              existing.user_id = rq.user_id
+              OR (existing.user_id IS NULL AND rq.user_id IS NULL AND lower(existing.name) = lower(rq.name))
+            )
+        );
+
+      UPDATE requesters SET request_id = v_open.id WHERE request_id = v_archived.id;
+
+      DELETE FROM user_votes uv
+      WHERE uv.request_id = v_archived.id
+        AND EXISTS (
+          SELECT 1 FROM user_votes existing
+          WHERE existing.request_id = v_open.id AND existing.user_id = uv.user_id
+        );
+      GET DIAGNOSTICS v_dropped_votes = ROW_COUNT;
+
+      UPDATE user_votes SET request_id = v_open.id WHERE request_id = v_archived.id;
+
+      UPDATE requests
+      SET votes = COALESCE(votes, 0) + GREATEST(COALESCE(v_archived.votes, 0) - v_dropped_votes, 0)
+      WHERE id = v_open.id;
+
+      UPDATE requests
+      SET archived_at = NULL,
+          snapshot_id = NULL,
+          deleted_at = now()
+      WHERE id = v_archived.id;
+
+      -- The new request takes the old one's lane if it's still in the queue
+      IF v_lane_free AND v_open.stage = 'queued' THEN
+        UPDATE requests SET stage = v_archived.archived_stage WHERE id = v_open.id;
+      END IF;
+
+      SELECT * INTO v_restored FROM requests WHERE id = v_open.id;
+    ELSE
+      UPDATE requests
+      SET archived_at = NULL,
+          snapshot_id = NULL,
+          stage = CASE WHEN v_lane_free THEN v_archived.archived_stage ELSE 'queued' END
+      WHERE id = v_archived.id
+      RETURNING * INTO v_restored;
+    END IF;
+
+    IF v_archived.archived_pinned_position IS NOT NULL
+      AND v_restored.stage = 'queued'
+      AND v_restored.pinned_position IS NULL THEN
+      UPDATE requests
+      SET pinned_position = pinned_position + 1
+      WHERE band_id = v_restored.band_id
+        AND event_id IS NOT DISTINCT FROM v_restored.event_id
+        AND stage = 'queued'
+        AND archived_at IS NULL
+        AND deleted_at IS NULL
+        AND id <> v_restored.id
+        AND pinned_position >= v_archived.archived_pinned_position;
+
+      UPDATE requests
+      SET pinned_position = v_archived.archived_pinned_position
+      WHERE id = v_restored.id;
+    END IF;
+  END LOOP;
+
+  UPDATE queue_snapshots
+  SET restored_at = now()
+  WHERE id = p_snapshot_id
+  RETURNING * INTO v_snapshot;
+
+  RETURN v_snapshot;
+END;
+$$;
@@ -0,0 +1,44 @@
+/*
+  # Match song titles in any alphabet
+
+  1. Changes
+    - `normalize_song_text` drops accents with `unaccent` and keeps letters and
+      digits from every alphabet. Before, anything outside a-z and 0-9 was
+      stripped, so "Sigur Rós" became "sigur rs" and titles in Cyrillic or
+      Japanese normalized to an empty string and couldn't be requested
+    - It now folds text the way the app's search does: apostrophes are
+      dropped, other punctuation separates words, and "&" / "n" read as "and"
+    - The index on open requests' normalized title and artist is rebuilt
+
+  2. Extensions
+    - `unaccent`
+*/
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+-- The dictionary is named explicitly so the function stays immutable and
+-- doesn't depend on the caller's search_path
+CREATE OR REPLACE FUNCTION normalize_song_text(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        replace(
+          regexp_replace(
+            lower(extensions.unaccent('extensions.unaccent'::regdictionary, COALESCE(value, ''))),
+            '[''’`]', '', 'g'
+          ),
+          '&', ' and '
+        ),
+        '[^[:alnum:]\s]', ' ', 'g'
+      ),
+      '\yn\y', 'and', 'g'
+    ),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+REINDEX INDEX idx_requests_normalized_song;
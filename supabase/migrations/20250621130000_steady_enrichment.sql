@@ -0,0 +1,246 @@
+/*
+  # Library enrichment jobs
+
+  1. New Tables
+    - `enrichment_jobs` (one row per run of "Fill In Details" for a band)
+      - `status` 'running', 'cancelled' or 'done'; a band has at most one
+        running job, and songs added while it runs join it
+      - `total`, `processed`, `updated`, `not_found`, `failures` the progress
+      - `runner_id` / `heartbeat_at` the open page doing the lookups and when
+        it last reported back. Another page takes over once it's been quiet
+        for two minutes, so a reload or a closed tab doesn't lose the job
+    - `enrichment_job_songs` the songs in a job; `processed_at` is set once a
+      song has been looked up, so a resumed job skips it
+
+  2. Functions
+    - `start_enrichment_job(band_id, provider, song_ids)` starts a job, or adds
+      the songs to the one already running
+    - `claim_enrichment_job(job_id, runner_id)` makes a page the job's runner,
+      unless another page is still running it
+    - `record_enrichment_result(job_id, runner_id, song_id, outcome, failure)`
+      marks a song processed, counts the outcome and finishes the job after its
+      last song. Results from a page that is no longer the runner are ignored
+    - `cancel_enrichment_job(job_id)` stops a job from any page
+
+  3. Security
+    - Band members can see their band's jobs; owners, who can edit songs,
+      run them
+*/
+
+CREATE TABLE IF NOT EXISTS enrichment_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  band_id uuid NOT NULL REFERENCES bands(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'cancelled', 'done')),
+  total integer NOT NULL DEFAULT 0,
+  processed integer NOT NULL DEFAULT 0,
+  updated integer NOT NULL DEFAULT 0,
+  not_found integer NOT NULL DEFAULT 0,
+  failures jsonb NOT NULL DEFAULT '[]'::jsonb,
+  runner_id text,
+  heartbeat_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  finished_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_enrichment_jobs_running
+  ON enrichment_jobs (band_id)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_enrichment_jobs_band_created_at
+  ON enrichment_jobs (band_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS enrichment_job_songs (
+  job_id uuid NOT NULL REFERENCES enrichment_jobs(id) ON DELETE CASCADE,
+  song_id uuid NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+  queued_at timestamptz NOT NULL DEFAULT clock_timestamp(),
+  processed_at timestamptz,
+  PRIMARY KEY (job_id, song_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_enrichment_job_songs_pending
+  ON enrichment_job_songs (job_id, queued_at)
+  WHERE processed_at IS NULL;
+
+ALTER TABLE enrichment_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE enrichment_job_songs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Band members can view enrichment jobs"
+  ON enrichment_jobs FOR SELECT TO authenticated
+  USING (is_band_member(band_id));
+
+CREATE POLICY "Band members can view enrichment job songs"
+  ON enrichment_job_songs FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM enrichment_jobs j
+    WHERE j.id = enrichment_job_songs.job_id
+      AND is_band_member(j.band_id)
+  ));
+
+CREATE OR REPLACE FUNCTION start_enrichment_job(p_band_id UUID, p_provider TEXT, p_song_ids UUID[])
+RETURNS enrichment_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job enrichment_jobs%ROWTYPE;
+BEGIN
+  IF NOT has_band_role(p_band_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Not allowed to fill in song details';
+  END IF;
+
+  -- Two pages starting at once share one job
+  PERFORM pg_advisory_xact_lock(hashtext(p_band_id::text || '|enrichment'));
+
+  SELECT * INTO v_job
+  FROM enrichment_jobs
+  WHERE band_id = p_band_id
+    AND status = 'running'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO enrichment_jobs (band_id, provider, created_by)
+    VALUES (p_band_id, p_provider, auth.uid())
+    RETURNING * INTO v_job;
+  END IF;
+
+  INSERT INTO enrichment_job_songs (job_id, song_id)
+  SELECT v_job.id, s.id
+  FROM songs s
+  WHERE s.id = ANY(COALESCE(p_song_ids, '{}'))
+    AND s.band_id = p_band_id
+  ON CONFLICT DO NOTHING;
+
+  UPDATE enrichment_jobs
+  SET total = (SELECT count(*) FROM enrichment_job_songs WHERE job_id = v_job.id)
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_enrichment_job(p_job_id UUID, p_runner_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE enrichment_jobs
+  SET runner_id = p_runner_id,
+      heartbeat_at = now()
+  WHERE id = p_job_id
+    AND status = 'running'
+    AND has_band_role(band_id, ARRAY['owner'])
+    AND (
+      runner_id IS NULL
+      OR runner_id = p_runner_id
+      OR heartbeat_at IS NULL
+      OR heartbeat_at < now() - interval '2 minutes'
+    );
+
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_enrichment_result(
+  p_job_id UUID,
+  p_runner_id TEXT,
+  p_song_id UUID,
+  p_outcome TEXT,
+  p_failure JSONB DEFAULT NULL
+)
+RETURNS enrichment_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job enrichment_jobs%ROWTYPE;
+  v_counted BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_job FROM enrichment_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT has_band_role(v_job.band_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Not allowed to fill in song details';
+  END IF;
+
+  -- Stopped, or another page has taken over
+  IF v_job.status <> 'running' OR v_job.runner_id IS DISTINCT FROM p_runner_id THEN
+    RETURN v_job;
+  END IF;
+
+  -- Without a song this only checks whether the job is finished
+  IF p_song_id IS NOT NULL THEN
+    UPDATE enrichment_job_songs
+    SET processed_at = now()
+    WHERE job_id = p_job_id
+      AND song_id = p_song_id
+      AND processed_at IS NULL;
+
+    v_counted := FOUND;
+  END IF;
+
+  UPDATE enrichment_jobs
+  SET processed = processed + v_counted::integer,
+      updated = updated + (v_counted AND p_outcome = 'updated')::integer,
+      not_found = not_found + (v_counted AND p_outcome = 'not_found')::integer,
+      failures = CASE
+        WHEN v_counted AND p_outcome = 'failed' THEN failures || jsonb_build_array(p_failure)
+        ELSE failures
+      END,
+      total = (SELECT count(*) FROM enrichment_job_songs WHERE job_id = p_job_id),
+      heartbeat_at = now()
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM enrichment_job_songs
+    WHERE job_id = p_job_id
+      AND processed_at IS NULL
+  ) THEN
+    UPDATE enrichment_jobs
+    SET status = 'done',
+        finished_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  END IF;
+
+  RETURN v_job;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_enrichment_job(p_job_id UUID)
+RETURNS enrichment_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job enrichment_jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM enrichment_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT has_band_role(v_job.band_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Not allowed to stop this job';
+  END IF;
+
+  IF v_job.status = 'running' THEN
+    UPDATE enrichment_jobs
+    SET status = 'cancelled',
+        finished_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  END IF;
+
+  RETURN v_job;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_enrichment_job(UUID, TEXT, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_enrichment_job(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_enrichment_result(UUID, TEXT, UUID, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_enrichment_job(UUID) TO authenticated;
@@ -0,0 +1,97 @@
+/*
+  # Events only use their own band's set lists
+
+  1. Changes
+    - `start_event` only brings up the event's set list when it belongs to
+      the event's band
+    - Events can't be created with, or changed to, another band's set list.
+      Before, a member of one band could point an event at another band's set
+      list and, by starting it, switch that band's public set list
+*/
+
+-- Same as before, with the set list limited to the event's band
+CREATE OR REPLACE FUNCTION start_event(p_event_id UUID)
+RETURNS events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+  v_band_id UUID;
+  v_running UUID;
+BEGIN
+  SELECT band_id INTO v_band_id FROM events WHERE id = p_event_id;
+
+  IF NOT has_band_role(v_band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to start events';
+  END IF;
+
+  -- Archive whatever the band still has running before opening the new queue
+  v_running := active_event_id(v_band_id);
+  IF v_running IS NOT NULL AND v_running <> p_event_id THEN
+    PERFORM end_event(v_running);
+  END IF;
+
+  -- Requests made outside of any event don't carry over either
+  UPDATE requests
+  SET stage = 'queued',
+      pinned_position = NULL
+  WHERE band_id = v_band_id
+    AND event_id IS NULL
+    AND (stage IN ('on_deck', 'up_next', 'now_playing') OR pinned_position IS NOT NULL);
+
+  UPDATE events
+  SET status = 'active',
+      started_at = now(),
+      ended_at = NULL
+  WHERE id = p_event_id
+    AND status <> 'ended'
+  RETURNING * INTO v_event;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found or already ended';
+  END IF;
+
+  -- Bring the linked set list up for the audience
+  IF v_event.set_list_id IS NOT NULL THEN
+    UPDATE set_lists
+    SET is_active = true
+    WHERE id = v_event.set_list_id
+      AND band_id = v_band_id;
+  END IF;
+
+  RETURN v_event;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION is_band_set_list(p_band_id UUID, p_set_list_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_set_list_id IS NULL
+    OR EXISTS(SELECT 1 FROM set_lists WHERE id = p_set_list_id AND band_id = p_band_id);
+$$;
+
+DROP POLICY IF EXISTS "Band can insert events" ON events;
+DROP POLICY IF EXISTS "Band can update events" ON events;
+
+CREATE POLICY "Band can insert events"
+  ON events FOR INSERT TO authenticated
+  WITH CHECK (
+    has_band_role(band_id, ARRAY['owner', 'band_member'])
+    AND is_band_set_list(band_id, set_list_id)
+  );
+
+CREATE POLICY "Band can update events"
+  ON events FOR UPDATE TO authenticated
+  USING (has_band_role(band_id, ARRAY['owner', 'band_member']))
+  WITH CHECK (
+    has_band_role(band_id, ARRAY['owner', 'band_member'])
+    AND is_band_set_list(band_id, set_list_id)
+  );
+
+GRANT EXECUTE ON FUNCTION is_band_set_list(UUID, UUID) TO authenticated;
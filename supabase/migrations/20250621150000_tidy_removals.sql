@@ -0,0 +1,195 @@
+/*
+  # Removing and restoring single requests
+
+  1. Changes
+    - `remove_request` drops the request's pin and moves later pins up one,
+      like a pinned request leaving the queue does. Before, the pin stayed on
+      the removed request, leaving a gap, and came back on restore to clash
+      with whatever took its slot
+    - `restore_request` merges the request into an open request for the same
+      song, if one was made since it was removed, instead of leaving two
+
+  2. Functions
+    - `merge_open_request(dupe_id, into_id)` folds one open request into
+      another: requesters and votes move over (whoever asked for both only
+      counts once), the survivor takes the further along of the two stages and
+      the duplicate's pin if it has none, and the duplicate is removed.
+      Internal; not callable by clients
+*/
+
+CREATE OR REPLACE FUNCTION merge_open_request(p_dupe_id UUID, p_into_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dupe requests%ROWTYPE;
+  v_into requests%ROWTYPE;
+  v_stage TEXT;
+  v_dropped_votes INTEGER;
+BEGIN
+  SELECT * INTO v_dupe FROM requests WHERE id = p_dupe_id FOR UPDATE;
+  SELECT * INTO v_into FROM requests WHERE id = p_into_id FOR UPDATE;
+
+  -- Someone who asked for both only counts once
+  DELETE FROM requesters rq
+  WHERE rq.request_id = v_dupe.id
+    AND EXISTS (
+      SELECT 1 FROM requesters existing
+      WHERE existing.request_id = v_into.id
+        AND (
+          existing.user_id = rq.user_id
+          OR (existing.user_id IS NULL AND rq.user_id IS NULL AND lower(existing.name) = lower(rq.name))
+        )
+    );
+
+  UPDATE requesters SET request_id = v_into.id WHERE request_id = v_dupe.id;
+
+  DELETE FROM user_votes uv
+  WHERE uv.request_id = v_dupe.id
+    AND EXISTS (
+      SELECT 1 FROM user_votes existing
+      WHERE existing.request_id = v_into.id AND existing.user_id = uv.user_id
+    );
+  GET DIAGNOSTICS v_dropped_votes = ROW_COUNT;
+
+  UPDATE user_votes SET request_id = v_into.id WHERE request_id = v_dupe.id;
+
+  UPDATE requests
+  SET votes = COALESCE(votes, 0) + GREATEST(COALESCE(v_dupe.votes, 0) - v_dropped_votes, 0)
+  WHERE id = v_into.id;
+
+  -- Whichever of the two is further along in the show
+  v_stage := (
+    SELECT stage FROM unnest(ARRAY[v_into.stage, v_dupe.stage]) AS stage
+    ORDER BY array_position(ARRAY['queued', 'on_deck', 'up_next', 'now_playing'], stage) DESC NULLS LAST
+    LIMIT 1
+  );
+
+  UPDATE requests
+  SET deleted_at = now(),
+      stage = 'queued',
+      pinned_position = NULL
+  WHERE id = v_dupe.id;
+
+  IF v_dupe.stage = 'queued' AND v_dupe.pinned_position IS NOT NULL THEN
+    IF v_stage = 'queued' AND v_into.pinned_position IS NULL THEN
+      -- The survivor takes over the slot
+      UPDATE requests
+      SET pinned_position = v_dupe.pinned_position
+      WHERE id = v_into.id;
+    ELSE
+      UPDATE requests
+      SET pinned_position = pinned_position - 1
+      WHERE band_id = v_dupe.band_id
+        AND event_id IS NOT DISTINCT FROM v_dupe.event_id
+        AND stage = 'queued'
+        AND id <> v_dupe.id
+        AND pinned_position > v_dupe.pinned_position;
+    END IF;
+  END IF;
+
+  IF v_stage <> v_into.stage THEN
+    UPDATE requests SET stage = v_stage WHERE id = v_into.id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_open_request(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION remove_request(p_request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT has_band_role(v_request.band_id, ARRAY['owner', 'band_member', 'venue_staff']) THEN
+    RAISE EXCEPTION 'Not allowed to remove requests';
+  END IF;
+
+  IF v_request.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  -- A removed song leaves whichever stage lane it was in, and its pin
+  UPDATE requests
+  SET deleted_at = now(),
+      stage = CASE WHEN stage = 'played' THEN stage ELSE 'queued' END,
+      pinned_position = NULL
+  WHERE id = p_request_id;
+
+  IF v_request.stage = 'queued' AND v_request.pinned_position IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext(v_request.band_id::text || '|pins'));
+
+    UPDATE requests
+    SET pinned_position = pinned_position - 1
+    WHERE band_id = v_request.band_id
+      AND event_id IS NOT DISTINCT FROM v_request.event_id
+      AND stage = 'queued'
+      AND id <> p_request_id
+      AND pinned_position > v_request.pinned_position;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_request(p_request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request requests%ROWTYPE;
+  v_open requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT has_band_role(v_request.band_id, ARRAY['owner', 'band_member', 'venue_staff']) THEN
+    RAISE EXCEPTION 'Not allowed to restore requests';
+  END IF;
+
+  IF v_request.deleted_at IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Serialize with submissions for the same song
+  PERFORM pg_advisory_xact_lock(
+    hashtext(v_request.band_id::text || '|' || normalize_song_text(v_request.title) || '|' || normalize_song_text(v_request.artist))
+  );
+
+  UPDATE requests
+  SET deleted_at = NULL
+  WHERE id = p_request_id;
+
+  -- Played requests have nothing to merge, and archived ones merge when their
+  -- queue is restored
+  IF v_request.is_played OR v_request.archived_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  -- The same song, requested again since it was removed
+  SELECT * INTO v_open
+  FROM requests
+  WHERE band_id = v_request.band_id
+    AND id <> v_request.id
+    AND event_id IS NOT DISTINCT FROM v_request.event_id
+    AND is_played = false
+    AND status <> 'rejected'
+    AND archived_at IS NULL
+    AND deleted_at IS NULL
+    AND normalize_song_text(title) = normalize_song_text(v_request.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_request.artist)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF FOUND THEN
+    PERFORM merge_open_request(v_request.id, v_open.id);
+  END IF;
+END;
+$$;
@@ -0,0 +1,391 @@
+/*
+  # Unavailable songs as rows
+
+  1. Changes
+    - The songs marked "not tonight" for an event move from the
+      `events.unavailable_song_ids` array to `event_unavailable_songs`. The
+      array had nothing tying its ids to songs, so a deleted, merged or
+      re-imported song left a stale id behind
+    - `submit_request` checks the new table
+
+  2. New Tables
+    - `event_unavailable_songs` (`event_id`, `song_id`), removed along with
+      either the event or the song
+
+  3. Functions
+    - `set_event_availability(event_id, song_ids, family_friendly)` replaces
+      an event's unavailable songs and sets whether it's family friendly.
+      Songs from another band's library are ignored
+
+  4. Security
+    - Everyone can read which songs are unavailable, like the events
+      themselves; changes go through `set_event_availability`, which owners
+      and band members can call
+*/
+
+CREATE TABLE IF NOT EXISTS event_unavailable_songs (
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  song_id uuid NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (event_id, song_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_unavailable_songs_song
+  ON event_unavailable_songs (song_id);
+
+-- Ids that still point at a song in the event's band
+INSERT INTO event_unavailable_songs (event_id, song_id)
+SELECT DISTINCT e.id, s.id
+FROM events e
+CROSS JOIN LATERAL unnest(e.unavailable_song_ids) AS u(song_id)
+JOIN songs s ON s.id = u.song_id AND s.band_id = e.band_id
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE event_unavailable_songs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view unavailable songs"
+  ON event_unavailable_songs FOR SELECT TO public USING (true);
+
+CREATE OR REPLACE FUNCTION set_event_availability(
+  p_event_id UUID,
+  p_song_ids UUID[],
+  p_family_friendly BOOLEAN
+)
+RETURNS events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+BEGIN
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT has_band_role(v_event.band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to change this event';
+  END IF;
+
+  DELETE FROM event_unavailable_songs
+  WHERE event_id = p_event_id
+    AND NOT (song_id = ANY(COALESCE(p_song_ids, '{}')));
+
+  INSERT INTO event_unavailable_songs (event_id, song_id)
+  SELECT p_event_id, s.id
+  FROM songs s
+  WHERE s.id = ANY(COALESCE(p_song_ids, '{}'))
+    AND s.band_id = v_event.band_id
+  ON CONFLICT DO NOTHING;
+
+  -- Updating the event, even to the same value, lets pages listening for
+  -- event changes know to reload
+  UPDATE events
+  SET family_friendly = COALESCE(p_family_friendly, family_friendly)
+  WHERE id = p_event_id
+  RETURNING * INTO v_event;
+
+  RETURN v_event;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_event_availability(UUID, UUID[], BOOLEAN) TO authenticated;
+
+-- Same as before, checking event_unavailable_songs for the running event
+CREATE OR REPLACE FUNCTION submit_request(
+  p_band_id UUID,
+  p_title TEXT,
+  p_artist TEXT,
+  p_requester_name TEXT,
+  p_requester_photo TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song songs%ROWTYPE;
+  v_event events%ROWTYPE;
+  v_request requests%ROWTYPE;
+  v_cap request_caps%ROWTYPE;
+  v_cap_count INTEGER;
+  v_cap_oldest TIMESTAMPTZ;
+  v_event_id UUID := active_event_id(p_band_id);
+  v_name TEXT := left(trim(COALESCE(p_requester_name, '')), 50);
+  v_title_key TEXT := normalize_song_text(p_title);
+  v_artist_key TEXT := normalize_song_text(p_artist);
+  v_user_id UUID;
+  v_rules request_rules%ROWTYPE;
+  v_active_count INTEGER;
+  v_last_request_at TIMESTAMPTZ;
+  v_last_played_at TIMESTAMPTZ;
+  v_wait INTEGER;
+BEGIN
+  IF v_title_key = '' THEN
+    RAISE EXCEPTION 'Song title is required';
+  END IF;
+
+  IF v_name = '' THEN
+    RAISE EXCEPTION 'Requester name is required';
+  END IF;
+
+  IF COALESCE(length(p_requester_photo), 0) = 0 THEN
+    RAISE EXCEPTION 'Requester photo is required';
+  END IF;
+
+  -- Audience members are known by their session, so quotas can't be dodged
+  -- by typing another name. Only the band's own accounts (the kiosk, or
+  -- someone taking a request by hand) submit for people matched by name.
+  SELECT id INTO v_user_id FROM audience_profiles WHERE id = auth.uid();
+
+  IF v_user_id IS NULL
+    AND NOT has_band_role(p_band_id, ARRAY['owner', 'band_member', 'venue_staff', 'kiosk_operator']) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Sign in to request songs',
+      DETAIL = jsonb_build_object('type', 'IDENTITY_REQUIRED')::text;
+  END IF;
+
+  -- The song must be in this band's library, by its title or one of its
+  -- aliases; an empty artist matches any artist. A title beats an alias.
+  SELECT s.* INTO v_song
+  FROM songs s
+  WHERE s.band_id = p_band_id
+    AND (v_artist_key = '' OR normalize_song_text(s.artist) = v_artist_key)
+    AND (
+      normalize_song_text(s.title) = v_title_key
+      OR EXISTS (
+        SELECT 1 FROM song_aliases a
+        WHERE a.song_id = s.id AND normalize_song_text(a.alias) = v_title_key
+      )
+    )
+  ORDER BY (normalize_song_text(s.title) = v_title_key) DESC, s.created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This song is not in the library';
+  END IF;
+
+  -- Availability: the song itself, then what the running event allows
+  IF NOT v_song.is_requestable THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This song can''t be requested',
+      DETAIL = jsonb_build_object('type', 'SONG_UNAVAILABLE', 'reason', 'not_requestable')::text;
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = v_event_id;
+
+  IF FOUND THEN
+    IF EXISTS (
+      SELECT 1 FROM event_unavailable_songs
+      WHERE event_id = v_event.id AND song_id = v_song.id
+    ) THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'This song is not available tonight',
+        DETAIL = jsonb_build_object('type', 'SONG_UNAVAILABLE', 'reason', 'not_tonight')::text;
+    END IF;
+
+    IF v_event.family_friendly AND v_song.is_explicit THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'This song is not available at this event',
+        DETAIL = jsonb_build_object('type', 'SONG_UNAVAILABLE', 'reason', 'explicit')::text;
+    END IF;
+  END IF;
+
+  -- Band rules, checked under a per-requester lock so parallel submissions
+  -- from the same person can't slip past the quota together
+  SELECT * INTO v_rules FROM request_rules WHERE band_id = p_band_id;
+
+  IF FOUND THEN
+    PERFORM pg_advisory_xact_lock(
+      hashtext(p_band_id::text || '|requester|' || COALESCE(v_user_id::text, lower(v_name)))
+    );
+
+    IF v_rules.song_cooldown_minutes IS NOT NULL THEN
+      SELECT max(played_at) INTO v_last_played_at
+      FROM requests
+      WHERE band_id = p_band_id
+        AND is_played = true
+        AND normalize_song_text(title) = normalize_song_text(v_song.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_song.artist);
+
+      v_wait := ceil(
+        v_rules.song_cooldown_minutes * 60 - extract(epoch FROM now() - v_last_played_at)
+      );
+
+      IF v_wait > 0 THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'This song was just played',
+          DETAIL = jsonb_build_object('type', 'SONG_COOLDOWN', 'retry_after', v_wait)::text;
+      END IF;
+    END IF;
+
+    IF v_rules.min_request_gap_minutes IS NOT NULL THEN
+      SELECT max(rq.created_at) INTO v_last_request_at
+      FROM requesters rq
+      JOIN requests r ON r.id = rq.request_id
+      WHERE r.band_id = p_band_id
+        AND r.archived_at IS NULL
+        AND r.deleted_at IS NULL
+        AND (rq.user_id = v_user_id OR (v_user_id IS NULL AND lower(rq.name) = lower(v_name)));
+
+      v_wait := ceil(
+        v_rules.min_request_gap_minutes * 60 - extract(epoch FROM now() - v_last_request_at)
+      );
+
+      IF v_wait > 0 THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'You are requesting too quickly',
+          DETAIL = jsonb_build_object('type', 'REQUEST_TOO_SOON', 'retry_after', v_wait)::text;
+      END IF;
+    END IF;
+
+    IF v_rules.max_active_per_user IS NOT NULL THEN
+      SELECT count(DISTINCT r.id) INTO v_active_count
+      FROM requesters rq
+      JOIN requests r ON r.id = rq.request_id
+      WHERE r.band_id = p_band_id
+        AND r.event_id IS NOT DISTINCT FROM v_event_id
+        AND r.is_played = false
+        AND r.status <> 'rejected'
+        AND r.archived_at IS NULL
+        AND r.deleted_at IS NULL
+        AND (rq.user_id = v_user_id OR (v_user_id IS NULL AND lower(rq.name) = lower(v_name)));
+
+      IF v_active_count >= v_rules.max_active_per_user THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'You have reached the maximum number of active requests',
+          DETAIL = jsonb_build_object(
+            'type', 'USER_QUOTA_EXCEEDED',
+            'limit', v_rules.max_active_per_user
+          )::text;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Serialize submissions for the same song so two people can't both create it
+  PERFORM pg_advisory_xact_lock(
+    hashtext(p_band_id::text || '|' || normalize_song_text(v_song.title) || '|' || normalize_song_text(v_song.artist))
+  );
+
+  SELECT * INTO v_request
+  FROM requests
+  WHERE band_id = p_band_id
+    AND is_played = false
+    AND status <> 'rejected'
+    AND archived_at IS NULL
+    AND deleted_at IS NULL
+    AND event_id IS NOT DISTINCT FROM v_event_id
+    AND normalize_song_text(title) = normalize_song_text(v_song.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_song.artist)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- Caps only limit new songs in the queue; joining an open request is fine
+    FOR v_cap IN
+      SELECT c.*
+      FROM request_caps c
+      WHERE c.band_id = p_band_id
+        AND EXISTS (
+          SELECT 1
+          FROM song_tags st
+          JOIN tags t ON t.id = st.tag_id
+          WHERE st.song_id = v_song.id
+            AND lower(t.name) = lower(c.tag)
+        )
+      ORDER BY c.id
+    LOOP
+      PERFORM pg_advisory_xact_lock(hashtext(p_band_id::text || '|cap|' || v_cap.id::text));
+
+      SELECT count(*), min(r.created_at) INTO v_cap_count, v_cap_oldest
+      FROM requests r
+      WHERE r.band_id = p_band_id
+        AND r.event_id IS NOT DISTINCT FROM v_event_id
+        AND r.status <> 'rejected'
+        AND r.archived_at IS NULL
+        AND r.deleted_at IS NULL
+        AND r.created_at > now() - make_interval(mins => v_cap.window_minutes)
+        AND EXISTS (
+          SELECT 1
+          FROM songs s
+          JOIN song_tags st ON st.song_id = s.id
+          JOIN tags t ON t.id = st.tag_id
+          WHERE s.band_id = p_band_id
+            AND normalize_song_text(s.title) = normalize_song_text(r.title)
+            AND normalize_song_text(s.artist) = normalize_song_text(r.artist)
+            AND lower(t.name) = lower(v_cap.tag)
+        );
+
+      IF v_cap_count >= v_cap.max_requests THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'Too many ' || v_cap.tag || ' songs requested',
+          DETAIL = jsonb_build_object(
+            'type', 'SONG_CAP_REACHED',
+            'tag', v_cap.tag,
+            'limit', v_cap.max_requests,
+            'window_minutes', v_cap.window_minutes,
+            'retry_after', ceil(
+              v_cap.window_minutes * 60 - extract(epoch FROM now() - v_cap_oldest)
+            )
+          )::text;
+      END IF;
+    END LOOP;
+
+    INSERT INTO requests (band_id, title, artist, votes, is_locked, is_played, event_id, status)
+    VALUES (
+      p_band_id, v_song.title, v_song.artist, 0, false, false, v_event_id,
+      CASE WHEN moderation_enabled(p_band_id) THEN 'pending' ELSE 'approved' END
+    )
+    RETURNING * INTO v_request;
+  ELSIF EXISTS (
+    SELECT 1 FROM requesters
+    WHERE request_id = v_request.id
+      AND (user_id = v_user_id OR (v_user_id IS NULL AND lower(name) = lower(v_name)))
+  ) THEN
+    RAISE EXCEPTION 'You have already requested this song';
+  END IF;
+
+  INSERT INTO requesters (request_id, user_id, name, photo, message)
+  VALUES (
+    v_request.id,
+    v_user_id,
+    v_name,
+    p_requester_photo,
+    left(COALESCE(p_message, ''), 100)
+  );
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'id', v_request.id,
+      'band_id', v_request.band_id,
+      'title', v_request.title,
+      'artist', v_request.artist,
+      'votes', v_request.votes,
+      'status', v_request.status,
+      'rejection_reason', v_request.rejection_reason,
+      'is_locked', v_request.is_locked,
+      'is_played', v_request.is_played,
+      'event_id', v_request.event_id,
+      'created_at', v_request.created_at,
+      'requesters', COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'user_id', r.user_id,
+          'name', r.name,
+          'photo', r.photo,
+          'message', r.message,
+          'created_at', r.created_at
+        ) ORDER BY r.created_at
+      ), '[]'::jsonb)
+    )
+    FROM requesters r
+    WHERE r.request_id = v_request.id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_request(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION submit_request(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+ALTER TABLE events DROP COLUMN IF EXISTS unavailable_song_ids;
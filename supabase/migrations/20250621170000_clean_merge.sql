@@ -0,0 +1,174 @@
+/*
+  # Merging songs with pinned requests and unavailable songs
+
+  1. Changes
+    - `merge_songs` folds a merged song's open request into the survivor's the
+      way `restore_request` does (`merge_open_request`): the survivor takes
+      the further along of the two stages and the duplicate's pin. Before, the
+      duplicate was removed with its pin still set, leaving a gap in the
+      pinned slots, and a duplicate that was on deck or up next dropped out of
+      its lane
+    - Events that had a merged song marked unavailable have the survivor
+      marked instead
+*/
+
+-- Same as before, plus the pins and unavailable songs
+CREATE OR REPLACE FUNCTION merge_songs(p_keep_id UUID, p_merge_ids UUID[], p_song JSONB DEFAULT '{}'::jsonb)
+RETURNS songs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_original songs%ROWTYPE;
+  v_keep songs%ROWTYPE;
+  v_merged songs%ROWTYPE;
+  v_dupe requests%ROWTYPE;
+  v_open requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_original FROM songs WHERE id = p_keep_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Song not found';
+  END IF;
+
+  IF NOT has_band_role(v_original.band_id, ARRAY['owner', 'band_member']) THEN
+    RAISE EXCEPTION 'Not allowed to merge songs';
+  END IF;
+
+  p_merge_ids := array_remove(COALESCE(p_merge_ids, ARRAY[]::UUID[]), p_keep_id);
+
+  IF cardinality(p_merge_ids) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one song to merge';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM songs WHERE id = ANY(p_merge_ids) AND band_id = v_original.band_id
+  ) <> cardinality(p_merge_ids) THEN
+    RAISE EXCEPTION 'Songs can only be merged within one band';
+  END IF;
+
+  UPDATE songs
+  SET title = COALESCE(NULLIF(trim(p_song->>'title'), ''), title),
+      artist = COALESCE(NULLIF(trim(p_song->>'artist'), ''), artist),
+      key = COALESCE(p_song->>'key', key),
+      notes = COALESCE(p_song->>'notes', notes),
+      "albumArtUrl" = COALESCE(p_song->>'albumArtUrl', "albumArtUrl"),
+      duration_seconds = COALESCE((p_song->>'duration_seconds')::integer, duration_seconds),
+      release_year = COALESCE((p_song->>'release_year')::smallint, release_year),
+      preview_url = COALESCE(p_song->>'preview_url', preview_url),
+      tempo_bpm = COALESCE((p_song->>'tempo_bpm')::integer, tempo_bpm),
+      lead_vocalist = COALESCE(p_song->>'lead_vocalist', lead_vocalist),
+      capo = COALESCE((p_song->>'capo')::smallint, capo),
+      tuning = COALESCE(p_song->>'tuning', tuning),
+      is_explicit = COALESCE((p_song->>'is_explicit')::boolean, is_explicit),
+      is_requestable = COALESCE((p_song->>'is_requestable')::boolean, is_requestable),
+      last_played_at = GREATEST(
+        last_played_at,
+        (SELECT max(last_played_at) FROM songs WHERE id = ANY(p_merge_ids))
+      ),
+      updated_at = now()
+  WHERE id = p_keep_id
+  RETURNING * INTO v_keep;
+
+  INSERT INTO song_tags (song_id, tag_id)
+  SELECT p_keep_id, tag_id FROM song_tags WHERE song_id = ANY(p_merge_ids)
+  ON CONFLICT DO NOTHING;
+
+  -- Aliases, and the merged songs' own titles, which people requested them by
+  INSERT INTO song_aliases (song_id, alias)
+  SELECT DISTINCT ON (lower(alias)) p_keep_id, alias
+  FROM (
+    SELECT alias FROM song_aliases WHERE song_id = ANY(p_merge_ids)
+    UNION ALL
+    SELECT title FROM songs WHERE id = ANY(p_merge_ids)
+  ) merged
+  WHERE normalize_song_text(alias) <> normalize_song_text(v_keep.title)
+  ON CONFLICT (song_id, lower(alias)) DO NOTHING;
+
+  -- Set lists
+  UPDATE set_list_songs
+  SET song_id = p_keep_id
+  WHERE song_id = ANY(p_merge_ids);
+
+  DELETE FROM set_list_songs sls
+  USING set_list_songs earlier
+  WHERE sls.song_id = p_keep_id
+    AND earlier.song_id = p_keep_id
+    AND earlier.set_list_id = sls.set_list_id
+    AND (earlier.position, earlier.created_at, earlier.id) < (sls.position, sls.created_at, sls.id);
+
+  -- Requests for the survivor under its old name, if the merge renamed it
+  UPDATE requests
+  SET title = v_keep.title,
+      artist = v_keep.artist
+  WHERE band_id = v_keep.band_id
+    AND normalize_song_text(title) = normalize_song_text(v_original.title)
+    AND normalize_song_text(artist) = normalize_song_text(v_original.artist);
+
+  UPDATE performance_log
+  SET title = v_keep.title,
+      artist = v_keep.artist
+  WHERE song_id = p_keep_id;
+
+  -- Folding requests together can move lanes and pins, under the same locks
+  -- advance_queue and pin_request take
+  PERFORM pg_advisory_xact_lock(hashtext(v_keep.band_id::text || '|stage'));
+  PERFORM pg_advisory_xact_lock(hashtext(v_keep.band_id::text || '|pins'));
+
+  FOR v_merged IN SELECT * FROM songs WHERE id = ANY(p_merge_ids) LOOP
+    -- Two open requests for what is now one song become one
+    FOR v_dupe IN
+      SELECT * FROM requests
+      WHERE band_id = v_keep.band_id
+        AND is_played = false
+        AND archived_at IS NULL
+        AND deleted_at IS NULL
+        AND normalize_song_text(title) = normalize_song_text(v_merged.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_merged.artist)
+    LOOP
+      SELECT * INTO v_open
+      FROM requests
+      WHERE band_id = v_keep.band_id
+        AND id <> v_dupe.id
+        AND event_id IS NOT DISTINCT FROM v_dupe.event_id
+        AND is_played = false
+        AND archived_at IS NULL
+        AND deleted_at IS NULL
+        AND normalize_song_text(title) = normalize_song_text(v_keep.title)
+        AND normalize_song_text(artist) = normalize_song_text(v_keep.artist)
+      ORDER BY created_at
+      LIMIT 1
+      FOR UPDATE;
+
+      CONTINUE WHEN NOT FOUND;
+
+      PERFORM merge_open_request(v_dupe.id, v_open.id);
+    END LOOP;
+
+    UPDATE requests
+    SET title = v_keep.title,
+        artist = v_keep.artist
+    WHERE band_id = v_keep.band_id
+      AND normalize_song_text(title) = normalize_song_text(v_merged.title)
+      AND normalize_song_text(artist) = normalize_song_text(v_merged.artist);
+
+    UPDATE performance_log
+    SET song_id = p_keep_id,
+        title = v_keep.title,
+        artist = v_keep.artist
+    WHERE song_id = v_merged.id;
+  END LOOP;
+
+  -- Not tonight for any of them is not tonight for the survivor
+  INSERT INTO event_unavailable_songs (event_id, song_id)
+  SELECT DISTINCT event_id, p_keep_id
+  FROM event_unavailable_songs
+  WHERE song_id = ANY(p_merge_ids)
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM songs WHERE id = ANY(p_merge_ids);
+
+  RETURN v_keep;
+END;
+$$;
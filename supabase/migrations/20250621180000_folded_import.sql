@@ -0,0 +1,166 @@
+/*
+  # Match backup songs like requests do
+
+  1. Changes
+    - `import_library_backup` finds a backup song already in the library with
+      `normalize_song_text`, like requests and merges do. Before, it only
+      ignored case and surrounding spaces, so "Don't Stop" and "Dont Stop"
+      were imported as two songs
+*/
+
+-- Same as before, matching titles and artists with normalize_song_text
+CREATE OR REPLACE FUNCTION import_library_backup(
+  p_band_id UUID,
+  p_mode TEXT,
+  p_songs JSONB,
+  p_set_lists JSONB,
+  p_overwrite_refs TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_song JSONB;
+  v_set_list JSONB;
+  v_row songs%ROWTYPE;
+  v_song_id UUID;
+  v_set_list_id UUID;
+  -- Bundle song ref -> song id in this band
+  v_ids JSONB := '{}'::jsonb;
+  v_added INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_kept INTEGER := 0;
+  v_set_lists_added INTEGER := 0;
+  v_skipped TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  IF NOT has_band_role(p_band_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can import a library backup';
+  END IF;
+
+  IF p_mode NOT IN ('merge', 'replace') THEN
+    RAISE EXCEPTION 'Unknown import mode: %', p_mode;
+  END IF;
+
+  IF p_mode = 'replace' THEN
+    -- set_list_songs go with their set lists
+    DELETE FROM set_lists WHERE band_id = p_band_id;
+    DELETE FROM songs WHERE band_id = p_band_id;
+  END IF;
+
+  FOR v_song IN SELECT * FROM jsonb_array_elements(COALESCE(p_songs, '[]'::jsonb)) LOOP
+    v_row := jsonb_populate_record(NULL::songs, v_song->'row');
+
+    IF NULLIF(trim(v_row.title), '') IS NULL OR NULLIF(trim(v_row.artist), '') IS NULL THEN
+      RAISE EXCEPTION 'Every song in the backup needs a title and an artist';
+    END IF;
+
+    SELECT id INTO v_song_id
+    FROM songs
+    WHERE band_id = p_band_id
+      AND normalize_song_text(title) = normalize_song_text(v_row.title)
+      AND normalize_song_text(artist) = normalize_song_text(v_row.artist)
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_song_id IS NOT NULL AND NOT (v_song->>'ref' = ANY(COALESCE(p_overwrite_refs, '{}'))) THEN
+      v_kept := v_kept + 1;
+      v_ids := v_ids || jsonb_build_object(v_song->>'ref', v_song_id);
+      CONTINUE;
+    END IF;
+
+    IF v_song_id IS NOT NULL THEN
+      UPDATE songs
+      SET title = v_row.title,
+          artist = v_row.artist,
+          key = v_row.key,
+          notes = v_row.notes,
+          "albumArtUrl" = v_row."albumArtUrl",
+          duration_seconds = v_row.duration_seconds,
+          release_year = v_row.release_year,
+          preview_url = v_row.preview_url,
+          tempo_bpm = v_row.tempo_bpm,
+          lead_vocalist = v_row.lead_vocalist,
+          capo = v_row.capo,
+          tuning = v_row.tuning,
+          is_explicit = COALESCE(v_row.is_explicit, false),
+          is_requestable = COALESCE(v_row.is_requestable, true),
+          updated_at = now()
+      WHERE id = v_song_id;
+
+      v_updated := v_updated + 1;
+    ELSE
+      INSERT INTO songs (
+        band_id, title, artist, key, notes, "albumArtUrl", duration_seconds, release_year,
+        preview_url, tempo_bpm, lead_vocalist, capo, tuning, is_explicit, is_requestable
+      )
+      VALUES (
+        p_band_id, v_row.title, v_row.artist, v_row.key, v_row.notes, v_row."albumArtUrl",
+        v_row.duration_seconds, v_row.release_year, v_row.preview_url, v_row.tempo_bpm,
+        v_row.lead_vocalist, v_row.capo, v_row.tuning, COALESCE(v_row.is_explicit, false),
+        COALESCE(v_row.is_requestable, true)
+      )
+      RETURNING id INTO v_song_id;
+
+      v_added := v_added + 1;
+    END IF;
+
+    v_ids := v_ids || jsonb_build_object(v_song->>'ref', v_song_id);
+
+    PERFORM set_song_tags(jsonb_build_array(jsonb_build_object(
+      'song_id', v_song_id,
+      'genres', COALESCE(v_song->'genres', '[]'::jsonb),
+      'tags', COALESCE(v_song->'tags', '[]'::jsonb)
+    )));
+
+    IF v_song ? 'aliases' THEN
+      PERFORM set_song_aliases(
+        v_song_id,
+        ARRAY(SELECT jsonb_array_elements_text(v_song->'aliases'))
+      );
+    END IF;
+  END LOOP;
+
+  FOR v_set_list IN SELECT * FROM jsonb_array_elements(COALESCE(p_set_lists, '[]'::jsonb)) LOOP
+    IF p_mode = 'merge' AND EXISTS (
+      SELECT 1 FROM set_lists
+      WHERE band_id = p_band_id
+        AND lower(trim(name)) = lower(trim(v_set_list->>'name'))
+    ) THEN
+      v_skipped := v_skipped || (v_set_list->>'name');
+      CONTINUE;
+    END IF;
+
+    INSERT INTO set_lists (band_id, name, date, notes, is_active)
+    VALUES (
+      p_band_id,
+      v_set_list->>'name',
+      (v_set_list->>'date')::date,
+      COALESCE(v_set_list->>'notes', ''),
+      -- Merging shouldn't take over whichever set list the band has live
+      p_mode = 'replace' AND COALESCE((v_set_list->>'isActive')::boolean, false)
+    )
+    RETURNING id INTO v_set_list_id;
+
+    INSERT INTO set_list_songs (set_list_id, song_id, position)
+    SELECT v_set_list_id,
+           (v_ids->>(entry->>'songRef'))::uuid,
+           row_number() OVER (ORDER BY (entry->>'position')::integer, ord) - 1
+    FROM jsonb_array_elements(COALESCE(v_set_list->'songs', '[]'::jsonb)) WITH ORDINALITY AS e(entry, ord)
+    WHERE v_ids ? (entry->>'songRef');
+
+    v_set_lists_added := v_set_lists_added + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'songsAdded', v_added,
+    'songsUpdated', v_updated,
+    'songsKept', v_kept,
+    'setListsAdded', v_set_lists_added,
+    'setListsSkipped', to_jsonb(v_skipped)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_library_backup(UUID, TEXT, JSONB, JSONB, TEXT[]) TO authenticated;
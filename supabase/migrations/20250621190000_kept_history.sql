@@ -0,0 +1,17 @@
+/*
+  # Keep the history of events that have run
+
+  1. Security
+    - Only events that haven't started can be deleted. Requests point at their
+      event with ON DELETE SET NULL, so deleting a running or ended event used
+      to move its requests into the queue kept outside any event
+*/
+
+DROP POLICY IF EXISTS "Band can delete events" ON events;
+
+CREATE POLICY "Band can delete events"
+  ON events FOR DELETE TO authenticated
+  USING (
+    has_band_role(band_id, ARRAY['owner', 'band_member'])
+    AND status = 'scheduled'
+  );
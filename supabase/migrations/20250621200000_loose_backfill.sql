@@ -0,0 +1,35 @@
+/*
+  # Link logged songs played without an artist
+
+  1. Changes
+    - Songs logged before the performance log existed are matched to the
+      library the way `log_performance` matches new ones: a request with no
+      artist matches any artist, and the oldest song wins. The first backfill
+      required the artists to match, so those entries were left without a
+      song and didn't count towards its last played time
+*/
+
+UPDATE performance_log pl
+SET song_id = (
+  SELECT s.id
+  FROM songs s
+  WHERE s.band_id = pl.band_id
+    AND normalize_song_text(s.title) = normalize_song_text(pl.title)
+    AND (
+      normalize_song_text(pl.artist) = ''
+      OR normalize_song_text(s.artist) = normalize_song_text(pl.artist)
+    )
+  ORDER BY s.created_at
+  LIMIT 1
+)
+WHERE pl.song_id IS NULL;
+
+UPDATE songs s
+SET last_played_at = GREATEST(s.last_played_at, latest.played_at)
+FROM (
+  SELECT song_id, max(played_at) AS played_at
+  FROM performance_log
+  WHERE song_id IS NOT NULL
+  GROUP BY song_id
+) latest
+WHERE s.id = latest.song_id;